@@ -1,87 +1,291 @@
 import React, { useState, useEffect } from 'react';
-import { AppState, INITIAL_STATE, UserProfile, LanguageLevel } from './types';
+import { AppState, INITIAL_STATE, UserProfile, LanguageLevel, DeckCard, VocabularyCard, LessonResult, ExamAttempt, Mistake, CurriculumLesson, CheckpointResult } from './types';
+import { addCardsToDeck, getDueCards, updateCardInDeck } from './services/srsService';
+import { recordMistakes } from './services/weakPointService';
 import Onboarding from './components/Onboarding';
 import Dashboard from './components/Dashboard';
 import LessonSession from './components/LessonSession';
-
-const STORAGE_KEY = 'deutsch_coach_state';
+import ReviewSession from './components/ReviewSession';
+import MockExam from './components/MockExam';
+import ExamAnalytics from './components/ExamAnalytics';
+import CheckpointTest from './components/CheckpointTest';
+import BackupManager from './components/BackupManager';
+import StorageRecovery from './components/StorageRecovery';
+import { formatAttemptsScore } from './services/examService';
+import { findLesson } from './services/curriculum';
+import { applyLessonResult } from './services/progress';
+import { activitySessionFor } from './services/studyStats';
+import { allowSaving, clearState, loadState, saveState } from './services/storage';
+import { LessonRequest, discardLesson, lessonCacheKey, prefetchLessons, upcomingLessonRequests } from './services/lessonCache';
+import { SessionSnapshot, clearActiveSession, loadActiveSession } from './services/sessionStore';
+import { applyCheckpointResult } from './services/checkpointService';
+import { messagesFor } from './services/messages';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(INITIAL_STATE);
-  const [view, setView] = useState<'onboarding' | 'dashboard' | 'lesson'>('loading');
-  const [activeLessonType, setActiveLessonType] = useState<{type: 'daily' | 'exam' | 'topic', level: LanguageLevel} | null>(null);
+  const [view, setView] = useState<'loading' | 'onboarding' | 'dashboard' | 'lesson' | 'review' | 'mockExam' | 'analytics' | 'checkpoint' | 'backup' | 'recovery'>('loading');
+  const [checkpointLevel, setCheckpointLevel] = useState<LanguageLevel | null>(null);
+  // Set when the saved state could not be read completely
+  const [storageNotice, setStorageNotice] = useState<{ backupKey?: string } | null>(null);
+  // Set when it could not be read at all: saving stays blocked until the learner restores or starts over
+  const [recoveryBackupKey, setRecoveryBackupKey] = useState<string | undefined>();
+  const [reviewCards, setReviewCards] = useState<DeckCard[]>([]);
+  const [activeLessonType, setActiveLessonType] = useState<(LessonRequest & { resume?: SessionSnapshot }) | null>(null);
+  // Unfinished lesson saved by LessonSession
+  const [activeSession, setActiveSession] = useState<SessionSnapshot | null>(null);
+  const m = messagesFor(state.profile.uiLanguage);
 
-  // Load state from local storage on mount
+  // Load state from storage on mount
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setState(parsed);
-        if (parsed.profile.onboardingComplete) {
-          setView('dashboard');
-        } else {
-          setView('onboarding');
-        }
-      } catch (e) {
-        console.error("Failed to parse saved state", e);
-        setView('onboarding');
+    loadState().then(({ state: loaded, status, backupKey }) => {
+      setState(loaded);
+      if (status === 'corrupt') {
+        setRecoveryBackupKey(backupKey);
+        setView('recovery');
+        return;
       }
-    } else {
-      setView('onboarding');
-    }
+      if (status === 'recovered') setStorageNotice({ backupKey });
+      setView(loaded.profile.onboardingComplete ? 'dashboard' : 'onboarding');
+    });
   }, []);
 
   // Save state whenever it changes
   useEffect(() => {
     if (state.profile.onboardingComplete) {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+        saveState(state);
     }
   }, [state]);
 
-  const handleOnboardingComplete = (profile: UserProfile) => {
-    setState(prev => ({ ...prev, profile: { ...profile, onboardingComplete: true } }));
+  // Prepare the next lessons in the background, so they open instantly and work offline
+  useEffect(() => {
+    if (view !== 'dashboard') return;
+    const prefetch = () => prefetchLessons(upcomingLessonRequests(state.courseProgress, state.profile.currentLevel, state.profile.nativeLanguage));
+    prefetch();
+    window.addEventListener('online', prefetch);
+    return () => window.removeEventListener('online', prefetch);
+  }, [view, state.courseProgress, state.profile.currentLevel, state.profile.nativeLanguage]);
+
+  useEffect(() => {
+    if (view === 'dashboard') loadActiveSession().then(setActiveSession);
+  }, [view]);
+
+  const handleOnboardingComplete = (profile: UserProfile, placementMistakes: Mistake[]) => {
+    setState(prev => ({
+        ...prev,
+        profile: { ...profile, onboardingComplete: true },
+        examStats: { ...prev.examStats, weakPoints: recordMistakes(prev.examStats.weakPoints, placementMistakes) },
+        levelHistory: [...prev.levelHistory, { date: new Date().toISOString(), from: null, to: profile.currentLevel, reason: 'onboarding' }]
+    }));
     setView('dashboard');
   };
 
-  const handleStartSession = (type: 'daily' | 'exam' | 'topic', level: LanguageLevel) => {
-    setActiveLessonType({ type, level });
+  const handleUpdateProfile = (changes: Partial<UserProfile>) => {
+    setState(prev => ({ ...prev, profile: { ...prev.profile, ...changes } }));
+  };
+
+  const handleImport = (imported: AppState) => {
+    setState({ ...imported, profile: { ...imported.profile, onboardingComplete: true } });
+    setView('dashboard');
+  };
+
+  const handleRecoveryRestore = (restored: AppState) => {
+    allowSaving();
+    handleImport(restored);
+  };
+
+  const handleStartOver = () => {
+    clearState().then(() => setView('onboarding'));
+  };
+
+  const startLesson = (request: LessonRequest) => {
+    if (activeSession) {
+      // Opening the unfinished lesson again continues it
+      if (activeSession.cacheKey === lessonCacheKey(request)) return handleResumeSession();
+      if (!confirm(m.discardSessionConfirm(activeSession.title))) return;
+      clearActiveSession();
+      discardLesson(activeSession.cacheKey);
+      setActiveSession(null);
+    }
+    setActiveLessonType(request);
+    setView('lesson');
+  };
+
+  const handleStartSession = (type: 'daily' | 'exam' | 'topic', level: LanguageLevel, topic?: string) => {
+    startLesson({ type, level, topic, language: state.profile.nativeLanguage });
+  };
+
+  const handleStartCourseLesson = (lesson: CurriculumLesson) => {
+    startLesson({ type: 'topic', level: lesson.level, topic: lesson.title, lesson, language: state.profile.nativeLanguage });
+  };
+
+  const sessionRequest = (session: SessionSnapshot): LessonRequest => ({
+    type: session.type,
+    level: session.level,
+    topic: session.topic,
+    lesson: session.lessonId ? findLesson(session.lessonId) : undefined,
+    language: state.profile.nativeLanguage
+  });
+
+  const handleResumeSession = () => {
+    if (!activeSession) return;
+    setActiveLessonType({ ...sessionRequest(activeSession), resume: activeSession });
     setView('lesson');
   };
 
-  const handleLessonComplete = (score: number) => {
-    // Update progress logic
+  // Same lesson content, answers and text start from scratch
+  const handleRestartSession = () => {
+    if (!activeSession) return;
+    clearActiveSession();
+    setActiveLessonType(sessionRequest(activeSession));
+    setActiveSession(null);
+    setView('lesson');
+  };
+
+  const handleAbandonSession = () => {
+    if (!activeSession || !confirm(m.abandonSessionConfirm(activeSession.title))) return;
+    clearActiveSession();
+    discardLesson(activeSession.cacheKey);
+    setActiveSession(null);
+  };
+
+  const handleStartCheckpoint = (level: LanguageLevel) => {
+    setCheckpointLevel(level);
+    setView('checkpoint');
+  };
+
+  const handleCheckpointComplete = (result: CheckpointResult, mistakes: Mistake[], activeSeconds: number) => {
     setState(prev => {
-        const newState = { ...prev };
-        const level = activeLessonType?.level || 'A1';
-        
-        // Simple progress increment
-        if (newState.courseProgress[level].lessonsDone < newState.courseProgress[level].totalLessons) {
-            newState.courseProgress[level].lessonsDone += 1;
-        }
-
-        // If it was exam training, update stats
-        if (activeLessonType?.type === 'exam') {
-            newState.examStats.lastSessionDate = new Date().toISOString();
-            newState.examStats.lastScore = `Score: ${score}`; // Simplified
-        }
-
-        return newState;
+      const next = applyCheckpointResult(prev, result, mistakes);
+      return { ...next, studyLog: [...next.studyLog, activitySessionFor('checkpoint', result.level, activeSeconds, result.percentage, new Date())] };
     });
+    setCheckpointLevel(null);
+    setView('dashboard');
+  };
+
+  const handleStartReview = () => {
+    setReviewCards(getDueCards(state.vocabularyDeck));
+    setView('review');
+  };
+
+  const handleReviewFinish = (reviewedCount: number, activeSeconds: number) => {
+    if (reviewedCount > 0) {
+      setState(prev => ({
+        ...prev,
+        studyLog: [...prev.studyLog, activitySessionFor('review', prev.profile.currentLevel, activeSeconds, reviewedCount, new Date())]
+      }));
+    }
+    setView('dashboard');
+  };
+
+  const handleReviewCard = (card: DeckCard) => {
+    setState(prev => ({ ...prev, vocabularyDeck: updateCardInDeck(prev.vocabularyDeck, card) }));
+  };
+
+  const handleVocabularySeen = (cards: VocabularyCard[]) => {
+    setState(prev => ({ ...prev, vocabularyDeck: addCardsToDeck(prev.vocabularyDeck, cards) }));
+  };
+
+  const handleMockExamModule = (attempt: ExamAttempt, mistakes: Mistake[], examResults: ExamAttempt[]) => {
+    setState(prev => ({
+        ...prev,
+        examStats: {
+            ...prev.examStats,
+            lastSessionDate: attempt.date,
+            lastScore: formatAttemptsScore(examResults),
+            weakPoints: recordMistakes(prev.examStats.weakPoints, mistakes)
+        },
+        examHistory: [...prev.examHistory, attempt],
+        studyLog: [...prev.studyLog, activitySessionFor('mockExam', 'B1', attempt.durationSeconds, attempt.percentage, new Date())]
+    }));
+  };
+
+  const handleLessonComplete = (result: LessonResult) => {
+    const session = activeLessonType;
+    if (session) setState(prev => applyLessonResult(prev, session, result));
     setView('dashboard');
     setActiveLessonType(null);
+    setActiveSession(null);
   };
 
   if (view === 'loading') return null;
 
   return (
     <div className="min-h-screen bg-[#f3f4f6]">
-      {view === 'onboarding' && <Onboarding onComplete={handleOnboardingComplete} />}
+      {storageNotice && (
+        <div className="bg-amber-50 border-b border-amber-200 text-amber-900 text-sm p-3 flex justify-between items-start gap-3">
+          <span>
+            {m.storageRepaired}
+            {storageNotice.backupKey && ` ${m.backupKept(storageNotice.backupKey)}`}
+          </span>
+          <button onClick={() => setStorageNotice(null)} className="font-medium hover:underline">{m.ok}</button>
+        </div>
+      )}
+      {view === 'recovery' && (
+        <StorageRecovery backupKey={recoveryBackupKey} onRestore={handleRecoveryRestore} onStartOver={handleStartOver} />
+      )}
+      {view === 'onboarding' && <Onboarding onComplete={handleOnboardingComplete} onRestore={handleImport} />}
       
       {view === 'dashboard' && (
         <Dashboard 
           state={state} 
           onStartSession={handleStartSession} 
+          onStartCourseLesson={handleStartCourseLesson}
+          activeSession={activeSession}
+          onResumeSession={handleResumeSession}
+          onRestartSession={handleRestartSession}
+          onAbandonSession={handleAbandonSession}
+          onStartCheckpoint={handleStartCheckpoint}
+          onStartReview={handleStartReview}
+          onStartMockExam={() => setView('mockExam')}
+          onOpenAnalytics={() => setView('analytics')}
+          onUpdateProfile={handleUpdateProfile}
+          onOpenBackup={() => setView('backup')}
+        />
+      )}
+
+      {view === 'mockExam' && (
+        <MockExam
+          language={state.profile.nativeLanguage}
+          onModuleComplete={handleMockExamModule}
+          onBack={() => setView('dashboard')}
+          m={m}
+        />
+      )}
+
+      {view === 'checkpoint' && checkpointLevel && (
+        <CheckpointTest
+          level={checkpointLevel}
+          language={state.profile.nativeLanguage}
+          onComplete={handleCheckpointComplete}
+          onBack={() => setView('dashboard')}
+          m={m}
+        />
+      )}
+
+      {view === 'backup' && (
+        <BackupManager
+          state={state}
+          onImport={handleImport}
+          onBack={() => setView('dashboard')}
+        />
+      )}
+
+      {view === 'analytics' && (
+        <ExamAnalytics
+          history={state.examHistory}
+          onBack={() => setView('dashboard')}
+        />
+      )}
+
+      {view === 'review' && (
+        <ReviewSession
+          cards={reviewCards}
+          onGrade={handleReviewCard}
+          onFinish={handleReviewFinish}
+          onBack={handleReviewFinish}
+          language={state.profile.nativeLanguage}
+          readNativeScript={state.profile.readNativeScript}
+          m={m}
         />
       )}
 
@@ -89,6 +293,14 @@ const App: React.FC = () => {
         <LessonSession 
           level={activeLessonType.level} 
           type={activeLessonType.type} 
+          topic={activeLessonType.topic}
+          lesson={activeLessonType.lesson}
+          resume={activeLessonType.resume}
+          dueCards={getDueCards(state.vocabularyDeck)}
+          deck={state.vocabularyDeck}
+          profile={state.profile}
+          onReviewCard={handleReviewCard}
+          onVocabularySeen={handleVocabularySeen}
           onComplete={handleLessonComplete}
           onBack={() => setView('dashboard')}
         />
@@ -0,0 +1,47 @@
+import React from 'react';
+import { HeatmapDay } from '../services/studyStats';
+
+interface Props {
+  weeks: HeatmapDay[][]; // activityHeatmap(), oldest week first
+  frozenDays: string[]; // Bridged by a streak freeze
+  dayLabel: (day: HeatmapDay, frozen: boolean) => string;
+  lessLabel: string;
+  moreLabel: string;
+}
+
+const INTENSITY_COLORS = ['bg-gray-100', 'bg-teal-100', 'bg-teal-300', 'bg-teal-500', 'bg-teal-700'];
+const FROZEN_COLOR = 'bg-sky-300';
+
+// Calendar of study minutes, one column per week (Monday on top)
+const ActivityHeatmap: React.FC<Props> = ({ weeks, frozenDays, dayLabel, lessLabel, moreLabel }) => {
+  const frozen = new Set(frozenDays);
+
+  return (
+    <div>
+      <div dir="ltr" className="flex gap-1 justify-between">
+        {weeks.map(week => (
+          <div key={week[0]?.key} className="flex flex-col gap-1">
+            {week.map(day => {
+              const isFrozen = frozen.has(day.key);
+              return (
+                <div
+                  key={day.key}
+                  title={dayLabel(day, isFrozen)}
+                  data-intensity={day.intensity}
+                  className={`w-3.5 h-3.5 rounded-sm ${isFrozen ? FROZEN_COLOR : INTENSITY_COLORS[day.intensity]}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-2 text-[10px] text-gray-400">
+        <span>{lessLabel}</span>
+        {INTENSITY_COLORS.map(color => <span key={color} className={`w-2.5 h-2.5 rounded-sm ${color}`} />)}
+        <span>{moreLabel}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { BackupSummary, ParsedBackup, downloadBackup, mergeStates, parseBackup, summarizeState } from '../services/backupService';
+import { backupState, clearState } from '../services/storage';
+import { ArrowLeft, Download, Upload, RefreshCw } from 'lucide-react';
+
+interface Props {
+  state: AppState;
+  onImport: (next: AppState) => void;
+  onBack: () => void;
+}
+
+type ImportMode = 'replace' | 'merge';
+
+const SUMMARY_ROWS: [keyof BackupSummary, string][] = [
+  ['name', 'Name'],
+  ['level', 'Level'],
+  ['lessons', 'Completed lessons'],
+  ['cards', 'Vocabulary cards'],
+  ['examAttempts', 'Exam attempts'],
+  ['weakPoints', 'Weak points']
+];
+
+const BackupManager: React.FC<Props> = ({ state, onImport, onBack }) => {
+  const [pending, setPending] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    const { backup, error } = parseBackup(await file.text());
+    if (backup) setPending(backup);
+    else setError(error || 'The backup could not be read.');
+  };
+
+  const result = pending ? (mode === 'merge' ? mergeStates(state, pending.state) : pending.state) : null;
+  const current = summarizeState(state);
+  const after = result ? summarizeState(result) : null;
+
+  // Clears only after the learner confirms the downloaded file, a copy also stays in the browser
+  const reset = async () => {
+    if (!confirm("Reset all progress? A backup file will be downloaded first.")) return;
+    downloadBackup(state);
+    const backupKey = await backupState(state);
+    const kept = backupKey ? `A copy was also kept in this browser (${backupKey}).` : "No copy could be kept in this browser.";
+    if (!confirm(`Was the backup file saved? ${kept} Press OK to delete all progress now.`)) return;
+    await clearState();
+    window.location.reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white p-4 shadow-sm flex items-center justify-between sticky top-0 z-10">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-800"><ArrowLeft /></button>
+        <span className="font-bold text-gray-800">Backup & Restore</span>
+        <div className="w-6" />
+      </div>
+
+      <div className="flex-1 p-4 max-w-lg mx-auto w-full space-y-6 pb-20">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+          <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-1">
+            <Download className="text-teal-600" size={20} /> Export
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Saves your profile, course progress, vocabulary deck and exam history to a file. Use it to move to a new phone or browser.
+          </p>
+          <button
+            onClick={() => downloadBackup(state)}
+            className="w-full bg-teal-600 text-white py-2.5 rounded-lg font-medium hover:bg-teal-700"
+          >
+            Download Backup
+          </button>
+        </div>
+
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+          <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-1">
+            <Upload className="text-indigo-600" size={20} /> Import
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">Load a backup file. You can check the result before anything is changed.</p>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium"
+          />
+          {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+
+          {pending && after && (
+            <div className="mt-4 space-y-4">
+              <p className="text-xs text-gray-500">
+                Backup from {pending.exportedAt ? new Date(pending.exportedAt).toLocaleString() : 'unknown date'}
+                {pending.issues.length > 0 && ` · ${pending.issues.length} damaged entries skipped`}
+              </p>
+              <div className="flex gap-2">
+                {(['merge', 'replace'] as ImportMode[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`flex-1 p-2.5 border rounded-lg text-sm font-medium ${mode === m ? 'border-indigo-500 bg-indigo-50 text-indigo-900' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {m === 'merge' ? 'Merge with my data' : 'Replace my data'}
+                  </button>
+                ))}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-400 text-left">
+                    <th className="font-medium py-1"></th>
+                    <th className="font-medium py-1">Now</th>
+                    <th className="font-medium py-1">After import</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SUMMARY_ROWS.map(([key, label]) => (
+                    <tr key={key} className="border-t border-gray-100">
+                      <td className="py-1.5 text-gray-500">{label}</td>
+                      <td className="py-1.5 text-gray-800">{current[key]}</td>
+                      <td className={`py-1.5 font-medium ${current[key] !== after[key] ? 'text-indigo-700' : 'text-gray-800'}`}>{after[key]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {mode === 'replace' && (
+                <p className="text-xs text-red-600">Everything you have now will be replaced by the backup.</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPending(null)}
+                  className="flex-1 py-2.5 rounded-lg font-medium border border-gray-200 text-gray-600 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => result && onImport(result)}
+                  className="flex-1 bg-indigo-600 text-white py-2.5 rounded-lg font-medium hover:bg-indigo-700"
+                >
+                  {mode === 'merge' ? 'Merge' : 'Replace'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="text-center pt-4">
+          <button
+            onClick={reset}
+            className="text-gray-400 text-xs flex items-center justify-center gap-1 mx-auto hover:text-red-500"
+          >
+            <RefreshCw size={10} /> Reset App Data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupManager;
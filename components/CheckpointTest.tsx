@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { CheckpointQuestion, CheckpointResult, LanguageLevel, Mistake, NativeLanguage } from '../types';
+import { generateCheckpointTest } from '../services/geminiService';
+import { CURRICULUM } from '../services/curriculum';
+import { buildCheckpointResult, nextLevel } from '../services/checkpointService';
+import { PASS_POINTS } from '../services/examService';
+import { Messages } from '../services/messages';
+import QuizQuestionCard from './QuizQuestionCard';
+import { useActiveSeconds } from './useActiveSeconds';
+import { ArrowLeft, ArrowRight, Loader2, Trophy, RotateCcw } from 'lucide-react';
+
+interface Props {
+  level: LanguageLevel;
+  language: NativeLanguage;
+  onComplete: (result: CheckpointResult, mistakes: Mistake[], activeSeconds: number) => void;
+  onBack: () => void;
+  m: Messages;
+}
+
+type Phase = 'loading' | 'error' | 'running' | 'result';
+
+const CheckpointTest: React.FC<Props> = ({ level, language, onComplete, onBack, m }) => {
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [questions, setQuestions] = useState<CheckpointQuestion[]>([]);
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const [outcome, setOutcome] = useState<{ result: CheckpointResult; mistakes: Mistake[] } | null>(null);
+  // Without the time the test takes to be generated
+  const activeSeconds = useActiveSeconds(phase === 'running');
+
+  useEffect(() => {
+    let isMounted = true;
+    const load = async () => {
+      const generated = await generateCheckpointTest(level, CURRICULUM[level], language);
+      if (!isMounted) return;
+      if (generated) {
+        setQuestions(generated);
+        setPhase('running');
+      } else {
+        setPhase('error');
+      }
+    };
+    load();
+    return () => { isMounted = false; };
+  }, [level, language]);
+
+  const next = () => {
+    if (index < questions.length - 1) {
+      setIndex(i => i + 1);
+    } else {
+      setOutcome(buildCheckpointResult(level, questions, answers));
+      setPhase('result');
+    }
+  };
+
+  const promotedTo = nextLevel(level);
+  const lessonTitle = (id: string) => CURRICULUM[level].find(l => l.id === id)?.title || id;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white p-4 shadow-sm flex items-center justify-between sticky top-0 z-10">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-800"><ArrowLeft /></button>
+        <span className="font-bold text-gray-800">{m.checkpointTitle(level)}</span>
+        <span className="text-sm text-gray-500 w-12 text-right">{phase === 'running' ? `${index + 1}/${questions.length}` : ''}</span>
+      </div>
+
+      <div className="flex-1 p-4 max-w-lg mx-auto w-full">
+        {phase === 'loading' && (
+          <div className="flex flex-col items-center justify-center py-24">
+            <Loader2 className="animate-spin text-teal-600 mb-4" size={40} />
+            <p className="text-teal-800 font-medium">{m.preparingCheckpoint(level)}</p>
+          </div>
+        )}
+
+        {phase === 'error' && (
+          <div className="p-8 text-center text-red-500">
+            {m.checkpointFailed} <button onClick={onBack} className="underline">{m.goBack}</button>
+          </div>
+        )}
+
+        {phase === 'running' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">{m.checkpointRules(level, PASS_POINTS)}</p>
+            <QuizQuestionCard
+              question={questions[index]}
+              selected={answers[index]}
+              onAnswer={(optIdx) => setAnswers(prev => ({ ...prev, [index]: optIdx }))}
+              m={m}
+            />
+            {answers[index] !== undefined && (
+              <button
+                onClick={next}
+                className="w-full bg-teal-600 text-white py-3 rounded-xl font-bold flex justify-center items-center gap-2 hover:bg-teal-700"
+              >
+                {index < questions.length - 1 ? <>{m.next} <ArrowRight size={18} /></> : m.seeResult}
+              </button>
+            )}
+          </div>
+        )}
+
+        {phase === 'result' && outcome && (
+          <div className="space-y-6">
+            <div className={`p-6 rounded-xl border text-center ${outcome.result.passed ? 'bg-teal-50 border-teal-100' : 'bg-orange-50 border-orange-100'}`}>
+              {outcome.result.passed ? <Trophy className="mx-auto text-teal-600 mb-2" size={40} /> : <RotateCcw className="mx-auto text-orange-500 mb-2" size={40} />}
+              <p className="text-3xl font-bold text-gray-900">{outcome.result.percentage}%</p>
+              <p className="text-gray-700 mt-2">
+                {outcome.result.passed
+                  ? promotedTo ? m.movedUp(promotedTo) : m.courseCompleted(level)
+                  : m.notYet(level)}
+              </p>
+            </div>
+
+            {outcome.result.remediationLessonIds.length > 0 && (
+              <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+                <h3 className="font-bold text-gray-800 mb-2">{m.yourRevisionPlan}</h3>
+                <p className="text-sm text-gray-500 mb-3">{m.revisionPlanInfo}</p>
+                <ul className="list-disc list-inside text-gray-800 space-y-1">
+                  {outcome.result.remediationLessonIds.map(id => <li key={id}>{lessonTitle(id)}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <button
+              onClick={() => onComplete(outcome.result, outcome.mistakes, activeSeconds())}
+              className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors"
+            >
+              {m.backToDashboard}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckpointTest;
@@ -1,76 +1,265 @@
 import React from 'react';
-import { AppState, LanguageLevel } from '../types';
-import { BookOpen, GraduationCap, Zap, TrendingUp, RefreshCw } from 'lucide-react';
+import { AppState, LanguageLevel, CurriculumLesson, UserProfile } from '../types';
+import { getDueCards } from '../services/srsService';
+import { getTopWeakPoints } from '../services/weakPointService';
+import { EXAM_MODULES, EXAM_MODULE_ORDER, latestModuleResults } from '../services/examService';
+import { CURRICULUM, COURSE_LEVELS, completedCount, getNextLesson } from '../services/curriculum';
+import { isCheckpointUnlocked, journeyStatus, latestCheckpoint, lessonsToUnlock } from '../services/checkpointService';
+import { SessionSnapshot } from '../services/sessionStore';
+import { LANGUAGES } from '../services/languages';
+import { messagesFor } from '../services/messages';
+import { FREEZE_EVERY_DAYS, activityHeatmap, fromDayKey, streakStatus } from '../services/studyStats';
+import GoalRing from './GoalRing';
+import ActivityHeatmap from './ActivityHeatmap';
+import { BookOpen, GraduationCap, Zap, Flame, Snowflake, CalendarDays, Layers, Target, HardDrive, ArrowRight, ChartLine, Lock, CheckCircle2, Award, PlayCircle, RotateCcw, X, Languages, Globe } from 'lucide-react';
 
 interface Props {
   state: AppState;
-  onStartSession: (type: 'daily' | 'exam' | 'topic', level: LanguageLevel) => void;
+  onStartSession: (type: 'daily' | 'exam' | 'topic', level: LanguageLevel, topic?: string) => void;
+  onStartCourseLesson: (lesson: CurriculumLesson) => void;
+  activeSession: SessionSnapshot | null;
+  onResumeSession: () => void;
+  onRestartSession: () => void;
+  onAbandonSession: () => void;
+  onStartCheckpoint: (level: LanguageLevel) => void;
+  onStartReview: () => void;
+  onStartMockExam: () => void;
+  onOpenAnalytics: () => void;
+  onOpenBackup: () => void;
+  onUpdateProfile: (changes: Partial<UserProfile>) => void;
 }
 
-const Dashboard: React.FC<Props> = ({ state, onStartSession }) => {
-  const { profile, courseProgress, examStats } = state;
-
-  const getProgressWidth = (level: 'A1' | 'A2' | 'B1') => {
-    const p = courseProgress[level];
-    return Math.min(100, Math.round((p.lessonsDone / p.totalLessons) * 100));
-  };
+const Dashboard: React.FC<Props> = ({ state, onStartSession, onStartCourseLesson, activeSession, onResumeSession, onRestartSession, onAbandonSession, onStartCheckpoint, onStartReview, onStartMockExam, onOpenAnalytics, onOpenBackup, onUpdateProfile }) => {
+  const { profile, courseProgress, examStats, vocabularyDeck } = state;
+  const dueCount = getDueCards(vocabularyDeck).length;
+  const weakPoints = getTopWeakPoints(examStats.weakPoints);
+  const latestResults = latestModuleResults(state.examHistory);
+  const info = LANGUAGES[profile.nativeLanguage];
+  const m = messagesFor(profile.uiLanguage);
+  const streak = streakStatus(state.studyLog, profile.dailyMinutes);
+  const heatmap = activityHeatmap(state.studyLog, profile.dailyMinutes);
+  const dayName = (key: string) => fromDayKey(key).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
 
   return (
-    <div className="p-4 space-y-6 max-w-lg mx-auto pb-20">
+    <div dir={m.dir} className="p-4 space-y-6 max-w-lg mx-auto pb-20">
       
       {/* Header */}
       <div className="bg-gradient-to-r from-teal-700 to-teal-600 rounded-2xl p-6 text-white shadow-lg">
-        <h1 className="text-xl font-bold">Namaste, {profile.name}!</h1>
-        <p className="text-teal-100 text-sm mt-1">
-          Current Level: <span className="font-semibold text-white">{profile.currentLevel}</span> • Target: {profile.targetLevel}
-        </p>
-        <div className="mt-4 flex items-center gap-2 text-xs bg-white/20 p-2 rounded-lg w-fit">
-          <TrendingUp size={14} />
-          <span>Goal: {profile.dailyMinutes} min/day</span>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h1 className="text-xl font-bold">{m.greeting(info.greeting, profile.name)}</h1>
+            <p className="text-teal-100 text-sm mt-1">
+              {m.currentLevel}: <span className="font-semibold text-white">{profile.currentLevel}</span> • {m.target}: {profile.targetLevel}
+            </p>
+          </div>
+          <GoalRing
+            minutes={streak.todayMinutes}
+            goal={profile.dailyMinutes}
+            label={m.todayGoal(Math.floor(streak.todayMinutes), profile.dailyMinutes)}
+          />
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-2 text-xs bg-white/20 p-2 rounded-lg w-fit">
+            <Flame size={14} className={streak.current > 0 ? 'text-orange-300' : ''} />
+            <span>{m.streak(streak.current)}</span>
+          </div>
+          {streak.freezes > 0 && (
+            <div title={m.freezeInfo(FREEZE_EVERY_DAYS)} className="flex items-center gap-2 text-xs bg-white/20 p-2 rounded-lg w-fit">
+              <Snowflake size={14} />
+              <span>{m.streakFreezes(streak.freezes)}</span>
+            </div>
+          )}
+          {info.script && (
+            <button
+              onClick={() => onUpdateProfile({ readNativeScript: !profile.readNativeScript })}
+              title={m.scriptSetting(profile.nativeLanguage)}
+              className="flex items-center gap-2 text-xs bg-white/20 hover:bg-white/30 p-2 rounded-lg"
+            >
+              <Languages size={14} />
+              <span>{info.nativeName}: {profile.readNativeScript ? info.script.greeting : m.latinScript}</span>
+            </button>
+          )}
+          <button
+            onClick={() => onUpdateProfile({ uiLanguage: profile.uiLanguage === 'English' ? profile.nativeLanguage : 'English' })}
+            title={m.uiLanguageSetting}
+            className="flex items-center gap-2 text-xs bg-white/20 hover:bg-white/30 p-2 rounded-lg"
+          >
+            <Globe size={14} />
+            <span>{profile.uiLanguage === 'English' ? 'English' : info.nativeName}</span>
+          </button>
         </div>
       </div>
 
+      {/* Unfinished Lesson */}
+      {activeSession && (
+        <div className="bg-white p-5 rounded-xl shadow-sm border-2 border-teal-200">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                <PlayCircle className="text-teal-600" size={20} />
+                {m.resumeLesson}
+              </h2>
+              <p className="text-sm text-gray-700 mt-1 font-medium">{activeSession.title}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {m.stageLabels[activeSession.stage] || activeSession.stage}
+                {activeSession.stage === 'writing' && activeSession.writingText.trim() && ` • ${m.draftWords(activeSession.writingText.trim().split(/\s+/).length)}`}
+                {' '}• {m.savedAt(new Date(activeSession.updatedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }))}
+              </p>
+            </div>
+            <button onClick={onAbandonSession} title={m.abandonLesson} className="text-gray-400 hover:text-red-500">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={onResumeSession}
+              className="flex-1 bg-teal-600 text-white py-2.5 rounded-lg font-medium hover:bg-teal-700"
+            >
+              {m.resume}
+            </button>
+            <button
+              onClick={onRestartSession}
+              className="px-4 py-2.5 rounded-lg font-medium border border-gray-200 text-gray-600 hover:bg-gray-50 flex items-center gap-1"
+            >
+              <RotateCcw size={14} /> {m.restart}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Action */}
       <div className="bg-white p-5 rounded-xl shadow-sm border border-orange-100">
         <h2 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2">
           <Zap className="text-orange-500" fill="currentColor" size={20} />
-          Daily Training
+          {m.dailyTraining}
         </h2>
         <p className="text-sm text-gray-500 mb-4">
-          Your personalized mix: Vocab, Reading, Writing for {profile.currentLevel}.
+          {m.dailyMix(profile.currentLevel)}
+          {dueCount > 0 && ` ${m.warmupCards(Math.min(dueCount, 5))}`}
         </p>
         <button 
           onClick={() => onStartSession('daily', profile.currentLevel)}
           className="w-full bg-orange-500 hover:bg-orange-600 text-white font-bold py-3 rounded-xl shadow transition-transform active:scale-95"
         >
-          Start Today's Session
+          {m.startDailySession}
         </button>
       </div>
 
+      {/* Vocabulary Review */}
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+        <div className="flex justify-between items-start">
+            <div>
+                <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                <Layers className="text-indigo-500" size={20} />
+                {m.myVocabulary}
+                </h2>
+                <p className="text-xs text-gray-500 mt-1">
+                <span className="font-semibold text-indigo-700">{m.dueCards(dueCount)}</span> • {m.deckSize(vocabularyDeck.length)}
+                </p>
+            </div>
+            <button 
+                onClick={onStartReview}
+                disabled={dueCount === 0}
+                className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:bg-gray-300"
+            >
+                {m.review}
+            </button>
+        </div>
+      </div>
+
+      {/* Study Activity */}
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+        <h2 className="text-lg font-bold text-gray-800 mb-3 flex items-center gap-2">
+          <CalendarDays className="text-teal-600" size={20} />
+          {m.activity}
+        </h2>
+        <ActivityHeatmap
+          weeks={heatmap}
+          frozenDays={streak.frozenDays}
+          dayLabel={(day, frozen) => frozen ? m.frozenDay(dayName(day.key)) : m.activityDay(dayName(day.key), Math.round(day.minutes))}
+          lessLabel={m.less}
+          moreLabel={m.more}
+        />
+        <p className="text-xs text-gray-500 mt-3">
+          <span className="font-semibold text-gray-700">{m.longestStreak(streak.longest)}</span> • {m.freezeInfo(FREEZE_EVERY_DAYS)}
+        </p>
+      </div>
+
       {/* Course Progress */}
       <div className="space-y-4">
-        <h3 className="font-bold text-gray-800 ml-1">Your Journey to B1</h3>
+        <h3 className="font-bold text-gray-800 ml-1">{m.journey}</h3>
         
-        {(['A1', 'A2', 'B1'] as const).map((lvl) => {
-           const percent = getProgressWidth(lvl);
-           const isActive = profile.currentLevel === lvl;
+        {COURSE_LEVELS.map((lvl) => {
+           const done = completedCount(courseProgress, lvl);
+           const total = CURRICULUM[lvl].length;
+           const percent = Math.round((done / total) * 100);
+           const status = journeyStatus(state, lvl);
+           const isActive = status === 'unlocked';
+           const nextLesson = getNextLesson(courseProgress, lvl);
+           const lastCheckpoint = latestCheckpoint(state, lvl);
+           const revisionLessons = lastCheckpoint && !lastCheckpoint.passed
+             ? CURRICULUM[lvl].filter(l => lastCheckpoint.remediationLessonIds.includes(l.id))
+             : [];
            
            return (
-            <div key={lvl} className={`bg-white p-4 rounded-xl border ${isActive ? 'border-teal-500 ring-1 ring-teal-100' : 'border-gray-100'}`}>
+            <div key={lvl} className={`bg-white p-4 rounded-xl border ${isActive ? 'border-teal-500 ring-1 ring-teal-100' : 'border-gray-100'} ${status === 'locked' ? 'opacity-60' : ''}`}>
               <div className="flex justify-between items-center mb-2">
-                <span className={`font-bold ${isActive ? 'text-teal-700' : 'text-gray-500'}`}>Level {lvl}</span>
-                <span className="text-xs text-gray-400">{courseProgress[lvl].lessonsDone}/{courseProgress[lvl].totalLessons} lessons</span>
+                <span className={`font-bold flex items-center gap-1 ${isActive ? 'text-teal-700' : 'text-gray-500'}`}>
+                  {status === 'locked' && <Lock size={14} />}
+                  {status === 'passed' && <CheckCircle2 size={14} className="text-teal-600" />}
+                  {m.levelName(lvl)}
+                </span>
+                <span className="text-xs text-gray-400">{status === 'passed' ? m.levelPassed : m.lessonsDone(done, total)}</span>
               </div>
               <div className="w-full bg-gray-100 rounded-full h-2.5 mb-3">
-                <div className="bg-teal-500 h-2.5 rounded-full" style={{ width: `${percent}%` }}></div>
+                <div className="bg-teal-500 h-2.5 rounded-full" style={{ width: `${status === 'passed' ? 100 : percent}%` }}></div>
               </div>
+              {isActive && nextLesson && (
+                 <div>
+                   <p className="text-xs text-gray-500 mb-2">
+                     {m.next}: <span className="font-semibold text-gray-700">{nextLesson.title}</span> · {nextLesson.grammar}
+                   </p>
+                   <button 
+                    onClick={() => onStartCourseLesson(nextLesson)}
+                    className="text-sm text-teal-600 font-medium flex items-center gap-1 hover:underline"
+                   >
+                     <BookOpen size={14} /> {m.continueCourse}
+                   </button>
+                 </div>
+              )}
+              {isActive && !nextLesson && (
+                 <p className="text-sm text-teal-700 font-medium">{m.allLessonsDone(lvl)}</p>
+              )}
+              {isActive && revisionLessons.length > 0 && (
+                 <div className="mt-3 bg-orange-50 p-3 rounded-lg border border-orange-100">
+                   <p className="text-xs font-bold text-orange-800 uppercase tracking-wide mb-1">
+                     {m.revisionPlan(lastCheckpoint?.percentage ?? 0)}
+                   </p>
+                   {revisionLessons.map(l => (
+                     <button
+                       key={l.id}
+                       onClick={() => onStartCourseLesson(l)}
+                       className="w-full flex justify-between items-center text-sm text-orange-900 hover:bg-orange-100 px-2 py-1 rounded"
+                     >
+                       <span className="text-left">{l.title}</span>
+                       <ArrowRight size={12} />
+                     </button>
+                   ))}
+                 </div>
+              )}
               {isActive && (
-                 <button 
-                  onClick={() => onStartSession('topic', lvl as LanguageLevel)}
-                  className="text-sm text-teal-600 font-medium flex items-center gap-1 hover:underline"
-                 >
-                   <BookOpen size={14} /> Continue Course
-                 </button>
+                 isCheckpointUnlocked(state, lvl) ? (
+                   <button
+                     onClick={() => onStartCheckpoint(lvl)}
+                     className="mt-3 w-full bg-teal-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-teal-700 flex justify-center items-center gap-1"
+                   >
+                     <Award size={14} /> {lastCheckpoint ? m.retryCheckpoint(lvl) : m.takeCheckpoint(lvl)}
+                   </button>
+                 ) : (
+                   <p className="mt-3 text-xs text-gray-400 flex items-center gap-1">
+                     <Lock size={12} /> {m.checkpointLocked(lessonsToUnlock(lvl))}
+                   </p>
+                 )
               )}
             </div>
            );
@@ -83,38 +272,78 @@ const Dashboard: React.FC<Props> = ({ state, onStartSession }) => {
             <div>
                 <h2 className="text-lg font-bold text-indigo-900 flex items-center gap-2">
                 <GraduationCap size={20} />
-                Exam Training B1
+                {m.examTraining}
                 </h2>
                 <p className="text-xs text-indigo-700 mt-1">
-                Last Score: <span className="font-semibold">{examStats.lastScore}</span>
+                {m.lastScore}: <span className="font-semibold">{examStats.lastScore}</span>
                 </p>
             </div>
-            <button 
-                onClick={() => onStartSession('exam', 'B1')}
-                className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-700"
+            <div className="flex flex-col gap-2">
+                <button 
+                    onClick={() => onStartSession('exam', 'B1')}
+                    className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-700"
+                >
+                    {m.practice}
+                </button>
+                <button 
+                    onClick={onStartMockExam}
+                    className="bg-white text-indigo-700 border border-indigo-200 px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-100"
+                >
+                    {m.mockExam}
+                </button>
+            </div>
+        </div>
+        {state.examHistory.length > 0 && (
+            <div className="mt-3 grid grid-cols-4 gap-2">
+                {EXAM_MODULE_ORDER.map(module => {
+                    const result = latestResults[module];
+                    return (
+                        <div key={module} className={`text-center p-2 rounded-lg text-xs ${!result ? 'bg-white/50 text-gray-400' : result.passed ? 'bg-teal-50 text-teal-800' : 'bg-red-50 text-red-700'}`}>
+                            <div className="font-semibold">{EXAM_MODULES[module].title}</div>
+                            <div className="font-bold text-sm">{result ? `${result.percentage}%` : '–'}</div>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+        {state.examHistory.length > 0 && (
+            <button
+                onClick={onOpenAnalytics}
+                className="mt-3 w-full flex justify-center items-center gap-1 text-sm text-indigo-700 font-medium hover:underline"
             >
-                Practice
+                <ChartLine size={14} /> {m.analytics}
             </button>
-        </div>
-        {examStats.weakPoints.length > 0 && (
-            <div className="mt-3 text-xs text-indigo-600 bg-white/50 p-2 rounded">
-                Focus on: {examStats.weakPoints.join(', ')}
+        )}
+        {weakPoints.length > 0 && (
+            <div className="mt-3 bg-white/60 p-3 rounded-lg">
+                <p className="text-xs font-bold text-indigo-800 uppercase tracking-wide mb-2 flex items-center gap-1">
+                    <Target size={12} /> {m.focusOn}
+                </p>
+                <div className="space-y-1">
+                    {weakPoints.map(wp => (
+                        <button
+                            key={wp.topic}
+                            onClick={() => onStartSession('topic', profile.currentLevel, wp.topic)}
+                            className="w-full flex justify-between items-center text-sm text-indigo-900 hover:bg-indigo-100 px-2 py-1.5 rounded"
+                        >
+                            <span className="font-medium text-left">{wp.topic}</span>
+                            <span className="flex items-center gap-2 text-xs text-indigo-600">
+                                {m.errorCount(wp.errorCount)} <ArrowRight size={12} />
+                            </span>
+                        </button>
+                    ))}
+                </div>
             </div>
         )}
       </div>
 
-      {/* Reset State (Debug) */}
+      {/* Data Management */}
       <div className="text-center pt-8">
         <button 
-            onClick={() => {
-                if(confirm("Reset all progress?")) {
-                    localStorage.removeItem('deutsch_coach_state');
-                    window.location.reload();
-                }
-            }}
-            className="text-gray-400 text-xs flex items-center justify-center gap-1 mx-auto hover:text-red-500"
+            onClick={onOpenBackup}
+            className="text-gray-400 text-xs flex items-center justify-center gap-1 mx-auto hover:text-teal-600"
         >
-            <RefreshCw size={10} /> Reset App Data
+            <HardDrive size={10} /> {m.backupAndReset}
         </button>
       </div>
 
@@ -0,0 +1,193 @@
+import React from 'react';
+import { ExamAttempt, ExamModule } from '../types';
+import { EXAM_MODULES, EXAM_MODULE_ORDER, PASS_POINTS, formatDuration } from '../services/examService';
+import { attemptsForModule, predictAllModules, statsByFormat, FORMAT_LABELS, PredictionStatus } from '../services/examAnalytics';
+import { ArrowLeft, ChartLine, TrendingUp, TrendingDown, Timer, Target } from 'lucide-react';
+
+interface Props {
+  history: ExamAttempt[];
+  onBack: () => void;
+}
+
+const MODULE_COLORS: Record<ExamModule, string> = {
+  lesen: '#0d9488',
+  hoeren: '#4f46e5',
+  schreiben: '#f97316',
+  sprechen: '#db2777'
+};
+
+const STATUS_STYLES: Record<PredictionStatus, { label: string; className: string }> = {
+  pass: { label: 'Likely pass', className: 'bg-teal-50 text-teal-800 border-teal-100' },
+  borderline: { label: 'Borderline', className: 'bg-amber-50 text-amber-800 border-amber-100' },
+  fail: { label: 'Likely fail', className: 'bg-red-50 text-red-700 border-red-100' }
+};
+
+// Chart geometry (SVG user units)
+const CHART_W = 320;
+const CHART_H = 160;
+const PAD = 24;
+const MAX_POINTS_SHOWN = 10;
+
+const yFor = (percent: number) => CHART_H - PAD - (percent / 100) * (CHART_H - 2 * PAD);
+
+// Score per attempt and module, with the 60% pass line
+const TrendChart: React.FC<{ history: ExamAttempt[] }> = ({ history }) => {
+  const xFor = (i: number) => PAD + (i / (MAX_POINTS_SHOWN - 1)) * (CHART_W - 2 * PAD);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto" role="img" aria-label="Score trend per module">
+      {[0, 50, 100].map(p => (
+        <g key={p}>
+          <line x1={PAD} x2={CHART_W - PAD} y1={yFor(p)} y2={yFor(p)} stroke="#f3f4f6" />
+          <text x={PAD - 4} y={yFor(p) + 3} fontSize="8" textAnchor="end" fill="#9ca3af">{p}</text>
+        </g>
+      ))}
+      <line x1={PAD} x2={CHART_W - PAD} y1={yFor(PASS_POINTS)} y2={yFor(PASS_POINTS)} stroke="#ef4444" strokeDasharray="4 3" />
+      <text x={CHART_W - PAD} y={yFor(PASS_POINTS) - 3} fontSize="8" textAnchor="end" fill="#ef4444">{PASS_POINTS}%</text>
+      {EXAM_MODULE_ORDER.map(m => {
+        const points = attemptsForModule(history, m).slice(-MAX_POINTS_SHOWN).map((a, i) => `${xFor(i)},${yFor(a.percentage)}`);
+        if (points.length === 0) return null;
+        return (
+          <g key={m}>
+            {points.length > 1 && <polyline points={points.join(' ')} fill="none" stroke={MODULE_COLORS[m]} strokeWidth="2" />}
+            {points.map((p, i) => {
+              const [cx, cy] = p.split(',');
+              return <circle key={i} cx={cx} cy={cy} r="3" fill={MODULE_COLORS[m]} />;
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const ExamAnalytics: React.FC<Props> = ({ history, onBack }) => {
+  const predictions = predictAllModules(history);
+  const formats = statsByFormat(history);
+  const mockCount = history.filter(a => a.type === 'mock').length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white p-4 shadow-sm flex items-center justify-between sticky top-0 z-10">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-800"><ArrowLeft /></button>
+        <span className="font-bold text-gray-800">Exam Analytics</span>
+        <div className="w-6" />
+      </div>
+
+      <div className="flex-1 p-4 max-w-lg mx-auto w-full space-y-6 pb-20">
+        {history.length === 0 ? (
+          <div className="bg-white p-6 rounded-xl border border-gray-200 text-center text-gray-500">
+            No exam attempts yet. Do an exam practice or a mock exam to see your statistics.
+          </div>
+        ) : (
+          <>
+            {/* Pass/fail prediction */}
+            <div className="bg-indigo-50 p-5 rounded-xl border border-indigo-100">
+              <h2 className="text-lg font-bold text-indigo-900 flex items-center gap-2 mb-1">
+                <Target size={20} /> Prediction
+              </h2>
+              <p className="text-xs text-indigo-700 mb-3">
+                Based on your recent attempts ({history.length} total, {mockCount} from mock exams). You need {PASS_POINTS}% in every module.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {EXAM_MODULE_ORDER.map(m => {
+                  const prediction = predictions[m];
+                  if (!prediction) {
+                    return (
+                      <div key={m} className="bg-white/50 p-3 rounded-lg border border-indigo-100 text-gray-400 text-sm">
+                        <div className="font-semibold">{EXAM_MODULES[m].title}</div>
+                        <div className="text-xs">No attempts yet</div>
+                      </div>
+                    );
+                  }
+                  const style = STATUS_STYLES[prediction.status];
+                  return (
+                    <div key={m} className={`p-3 rounded-lg border ${style.className}`}>
+                      <div className="flex justify-between items-center">
+                        <span className="font-semibold text-sm">{EXAM_MODULES[m].title}</span>
+                        <span className="font-bold">{prediction.predicted}%</span>
+                      </div>
+                      <div className="flex justify-between items-center text-xs mt-1">
+                        <span>{style.label}</span>
+                        {prediction.attempts > 1 && (
+                          <span className="flex items-center gap-0.5">
+                            {prediction.trend >= 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                            {prediction.trend > 0 ? '+' : ''}{prediction.trend}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Score trend */}
+            <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+              <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-3">
+                <ChartLine className="text-teal-600" size={20} /> Score Trend
+              </h2>
+              <TrendChart history={history} />
+              <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+                {EXAM_MODULE_ORDER.map(m => (
+                  <span key={m} className="flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: MODULE_COLORS[m] }} />
+                    {EXAM_MODULES[m].title}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Accuracy and time by question type */}
+            {formats.length > 0 && (
+              <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+                <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-3">
+                  <Timer className="text-orange-500" size={20} /> By Question Type
+                </h2>
+                <div className="space-y-3">
+                  {formats.map(f => (
+                    <div key={f.format}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium text-gray-800">{FORMAT_LABELS[f.format]}</span>
+                        <span className="text-gray-500">
+                          {f.accuracy}% · {f.answered}×{f.avgSeconds !== null && ` · Ø ${formatDuration(f.avgSeconds)}`}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2.5 relative">
+                        <div className={`h-2.5 rounded-full ${f.accuracy >= PASS_POINTS ? 'bg-teal-500' : 'bg-red-400'}`} style={{ width: `${f.accuracy}%` }}></div>
+                        <div className="absolute top-0 h-2.5 w-px bg-gray-500" style={{ left: `${PASS_POINTS}%` }}></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-3">Writing and speaking count as correct when rated at least {PASS_POINTS}%. Ø = average time per question.</p>
+              </div>
+            )}
+
+            {/* Recent attempts */}
+            <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+              <h2 className="text-lg font-bold text-gray-800 mb-3">Recent Attempts</h2>
+              <div className="divide-y divide-gray-100">
+                {history.slice(-10).reverse().map(a => (
+                  <div key={a.id} className="flex justify-between items-center py-2 text-sm">
+                    <div>
+                      <span className="font-medium text-gray-800">{EXAM_MODULES[a.module].title}</span>
+                      <span className="text-xs text-gray-400 ml-2">
+                        {new Date(a.date).toLocaleDateString()} · {a.type === 'mock' ? 'Mock exam' : 'Practice'}
+                        {a.durationSeconds > 0 && ` · ${formatDuration(a.durationSeconds)}`}
+                      </span>
+                    </div>
+                    <span className={`font-bold ${a.passed ? 'text-teal-700' : 'text-red-600'}`}>{a.percentage}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamAnalytics;
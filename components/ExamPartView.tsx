@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { ExamPart } from '../types';
+import { speakSequence, stopAudio, getAudioService } from '../services/audioService';
+import { Messages } from '../services/messages';
+import SpeechInput from './SpeechInput';
+import { Volume2 } from 'lucide-react';
+
+interface Props {
+  part: ExamPart;
+  answers: Record<number, number>;
+  onAnswer: (itemIndex: number, optionIndex: number) => void;
+  response: string; // Writing or speaking answer
+  onResponseChange: (text: string) => void;
+  playsUsed: number; // Kept by the exam, the view is remounted for every part
+  onPlay: () => void;
+  m: Messages;
+}
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const OPTION_LETTERS = ['a', 'b', 'c', 'd'];
+
+const ExamPartView: React.FC<Props> = ({ part, answers, onAnswer, response, onResponseChange, playsUsed, onPlay, m }) => {
+  const { spec } = part;
+  const [isPlaying, setIsPlaying] = useState(false);
+  const maxPlays = spec.plays ?? 0;
+
+  useEffect(() => () => stopAudio(), []);
+
+  const play = async () => {
+    if (!part.dialogue || playsUsed >= maxPlays) return;
+    onPlay();
+    setIsPlaying(true);
+    await speakSequence(part.dialogue.map(line => ({ text: line.text, speaker: line.speaker })));
+    setIsPlaying(false);
+  };
+
+  // Texts shown to the reader. In Hören Teil 4 the "texts" are only the speaker names.
+  const showTexts = spec.module !== 'hoeren';
+  const isMatching = spec.format === 'matching';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <h3 className="font-bold text-gray-900 text-lg mb-2">{spec.title}</h3>
+        <p className="text-gray-600 text-sm">{spec.instructions}</p>
+
+        {part.dialogue && (
+          <div className="mt-4 flex items-center gap-3">
+            <button
+              onClick={play}
+              disabled={isPlaying || playsUsed >= maxPlays || !getAudioService().isAvailable()}
+              className="flex items-center gap-2 bg-teal-600 text-white px-4 py-2.5 rounded-lg font-medium hover:bg-teal-700 disabled:bg-gray-300"
+            >
+              <Volume2 size={18} /> {isPlaying ? m.playing : m.play}
+            </button>
+            <span className="text-sm text-gray-500">{m.playsLeft(maxPlays - playsUsed, maxPlays)}</span>
+          </div>
+        )}
+
+        {showTexts && part.texts.length > 0 && (
+          <div className="mt-4 space-y-3">
+            {part.texts.map((text, i) => (
+              <div key={i} className="text-gray-800 bg-gray-50 p-3 rounded-lg border border-gray-100 whitespace-pre-wrap">
+                {isMatching && <span className="font-bold text-teal-700 mr-2">{String.fromCharCode(97 + i)}</span>}
+                {text}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {part.writingTask && (
+          <div className="mt-4 bg-orange-50 p-4 rounded-lg border border-orange-100">
+            <p className="text-gray-900">{part.writingTask.prompt}</p>
+            {part.writingTask.points.length > 0 && (
+              <ul className="list-disc list-inside text-gray-800 space-y-1 mt-2">
+                {part.writingTask.points.map((p, i) => <li key={i}>{p}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {part.speakingTask && (
+          <div className="mt-4 bg-orange-50 p-4 rounded-lg border border-orange-100">
+            <p className="text-gray-900">{part.speakingTask.prompt}</p>
+            <ul className="list-disc list-inside text-gray-800 space-y-1 mt-2">
+              {part.speakingTask.points.map((p, i) => <li key={i}>{p}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {part.items.map((item, i) => (
+        <div key={i} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+          <p className="font-medium text-gray-900 mb-3"><span className="text-gray-400 mr-2">{i + 1}</span>{item.prompt}</p>
+          {isMatching ? (
+            <select
+              value={answers[i] ?? ''}
+              onChange={(e) => onAnswer(i, parseInt(e.target.value))}
+              className="w-full border border-gray-300 rounded-lg p-2.5 text-gray-900 bg-white"
+            >
+              <option value="" disabled>{m.choose}</option>
+              {item.options.map((opt, optIdx) => <option key={optIdx} value={optIdx}>{opt}</option>)}
+            </select>
+          ) : (
+            <div className={item.options.length <= 2 ? 'flex gap-2' : 'space-y-2'}>
+              {item.options.map((opt, optIdx) => (
+                <button
+                  key={optIdx}
+                  onClick={() => onAnswer(i, optIdx)}
+                  className={`${item.options.length <= 2 ? 'flex-1' : 'w-full'} text-left p-3 border rounded-lg transition-colors ${answers[i] === optIdx ? 'border-teal-500 bg-teal-50 text-teal-900 font-medium' : 'border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {item.options.length > 2 && <span className="font-bold mr-2">{OPTION_LETTERS[optIdx]}</span>}
+                  {opt}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {part.writingTask && (
+        <div>
+          <textarea
+            className="w-full border border-gray-300 rounded-xl p-4 text-gray-900 text-base focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none min-h-[220px]"
+            placeholder="Schreiben Sie hier..."
+            value={response}
+            onChange={(e) => onResponseChange(e.target.value)}
+          />
+          <p className={`text-right text-sm mt-1 ${countWords(response) >= part.writingTask.minWords ? 'text-teal-600' : 'text-gray-400'}`}>
+            {m.wordCount(countWords(response), part.writingTask.minWords)}
+          </p>
+        </div>
+      )}
+
+      {part.speakingTask && (
+        <SpeechInput value={response} onChange={onResponseChange} m={m} />
+      )}
+    </div>
+  );
+};
+
+export default ExamPartView;
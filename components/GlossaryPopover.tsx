@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { GlossaryEntry, LanguageLevel, NativeLanguage, VocabularyCard } from '../types';
+import { glossaryCard, lookupWord } from '../services/glossaryService';
+import { Messages } from '../services/messages';
+import SpeakButton from './SpeakButton';
+import NativeText from './NativeText';
+import { Loader2, Plus, Check, X } from 'lucide-react';
+
+interface Props {
+  word: string;
+  sentence: string;
+  level: LanguageLevel;
+  language: NativeLanguage;
+  readNativeScript?: boolean;
+  isInDeck: (card: VocabularyCard) => boolean;
+  onLookedUp: (entry: GlossaryEntry) => void;
+  onAddToDeck: (card: VocabularyCard) => void;
+  onClose: () => void;
+  m: Messages;
+}
+
+// Usual gender colors of German learning material
+const ARTICLE_COLORS = { der: 'text-blue-600', die: 'text-red-600', das: 'text-green-600' };
+
+// Meaning of a tapped word, shown at the bottom of the screen
+const GlossaryPopover: React.FC<Props> = ({ word, sentence, level, language, readNativeScript, isInDeck, onLookedUp, onAddToDeck, onClose, m }) => {
+  const [entry, setEntry] = useState<GlossaryEntry | null>(null);
+  const [status, setStatus] = useState<'loading' | 'found' | 'failed'>('loading');
+
+  useEffect(() => {
+    let isMounted = true;
+    setStatus('loading');
+    lookupWord(word, sentence, level, language).then(found => {
+      if (!isMounted) return;
+      setEntry(found);
+      setStatus(found ? 'found' : 'failed');
+      if (found) onLookedUp(found);
+    });
+    return () => { isMounted = false; };
+  }, [word, sentence, level, language]);
+
+  const card = entry ? glossaryCard(entry, sentence) : null;
+
+  return (
+    <div role="dialog" aria-label={m.meaningOf(word)} className="fixed inset-x-4 bottom-4 max-w-lg mx-auto bg-white rounded-2xl shadow-xl border border-gray-200 p-4 z-20 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex justify-between items-start">
+        <span className="text-xs text-gray-400">{word}</span>
+        <button onClick={onClose} aria-label={m.close} className="text-gray-400 hover:text-gray-700"><X size={18} /></button>
+      </div>
+
+      {status === 'loading' && (
+        <p className="flex items-center gap-2 text-gray-500 py-2"><Loader2 className="animate-spin" size={18} /> {m.lookingUp}</p>
+      )}
+      {status === 'failed' && (
+        <p className="text-sm text-red-500 py-2">{m.lookupFailed}</p>
+      )}
+
+      {entry && card && (
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            {entry.article && <span className={ARTICLE_COLORS[entry.article]}>{entry.article}</span>}
+            {entry.lemma}
+            <SpeakButton text={card.german} size={18} m={m} />
+          </h3>
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mt-1">{m.partsOfSpeech[entry.partOfSpeech]}</p>
+          <p className="text-gray-800 mt-3">{entry.english}</p>
+          {entry.nativeTranslation && (
+            <NativeText
+              text={entry.nativeTranslation}
+              script={entry.nativeScript}
+              language={language}
+              readNativeScript={readNativeScript}
+              className="text-teal-700 font-medium font-serif bg-teal-50 inline-block px-3 py-1 rounded-full mt-2"
+              m={m}
+            />
+          )}
+          {isInDeck(card) ? (
+            <p className="mt-4 text-sm text-teal-700 font-medium flex items-center gap-1"><Check size={16} /> {m.inDeck}</p>
+          ) : (
+            <button
+              onClick={() => onAddToDeck(card)}
+              className="mt-4 w-full bg-indigo-600 text-white py-2.5 rounded-lg font-medium flex justify-center items-center gap-1 hover:bg-indigo-700"
+            >
+              <Plus size={16} /> {m.addToDeck}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryPopover;
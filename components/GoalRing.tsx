@@ -0,0 +1,42 @@
+import React from 'react';
+
+interface Props {
+  minutes: number; // Studied today
+  goal: number; // profile.dailyMinutes
+  label: string;
+  size?: number;
+}
+
+// Today's study time as a ring around the header; it turns orange once the goal is reached
+const GoalRing: React.FC<Props> = ({ minutes, goal, label, size = 64 }) => {
+  const stroke = 6;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const progress = goal > 0 ? Math.min(1, minutes / goal) : 0;
+  const reached = progress >= 1;
+
+  return (
+    <div role="img" aria-label={label} title={label} className="relative shrink-0" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" strokeWidth={stroke} className="stroke-white/20" />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={stroke}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - progress)}
+          className={`transition-all duration-500 ${reached ? 'stroke-orange-300' : 'stroke-white'}`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center leading-none">
+        <span className="text-sm font-bold">{Math.floor(minutes)}</span>
+        <span className="text-[10px] text-teal-100">/{goal}</span>
+      </div>
+    </div>
+  );
+};
+
+export default GoalRing;
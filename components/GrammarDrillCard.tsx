@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { AdjectiveEndingDrill, ArticleDrill, ClozeDrill, ConjugationDrill, DrillAnswer, GrammarDrill, WordOrderDrill } from '../types';
+import { CONJUGATION_PERSONS, GAP, checkTypedAnswer, drillScore, scrambledOrder } from '../services/grammarDrills';
+import { Messages } from '../services/messages';
+import { Check, X } from 'lucide-react';
+
+interface Props {
+  drill: GrammarDrill;
+  answer?: DrillAnswer; // Undefined while unanswered
+  onAnswer: (answer: DrillAnswer) => void;
+  m: Messages;
+}
+
+const CHECK_BUTTON = 'bg-teal-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-teal-700 disabled:bg-gray-300';
+
+// Cloze and adjective endings: a sentence with one gap to type into
+const GapDrill: React.FC<{ drill: ClozeDrill | AdjectiveEndingDrill; answer?: string; onAnswer: (answer: string) => void; m: Messages }> = ({ drill, answer, onAnswer, m }) => {
+  const [text, setText] = useState('');
+  const [before, after] = drill.sentence.split(GAP);
+  const ending = drill.kind === 'adjectiveEnding';
+  const check = answer !== undefined ? checkTypedAnswer(answer, drill.answer) : null;
+
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); if (text.trim()) onAnswer(text.trim()); }}>
+      <p className="text-lg text-gray-900 leading-relaxed">
+        {before}
+        {answer === undefined ? (
+          <input
+            type="text"
+            aria-label={ending ? m.endingLabel : m.gapLabel}
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className={`${ending ? 'w-14' : 'w-32'} mx-0.5 px-1 border-b-2 border-teal-500 bg-teal-50 text-teal-900 focus:outline-none`}
+          />
+        ) : (
+          <span className={`px-1 rounded font-medium ${check === 'wrong' ? 'bg-red-100 text-red-900 line-through' : 'bg-green-100 text-green-900'}`}>{answer}</span>
+        )}
+        {after}
+      </p>
+      {drill.kind === 'cloze' && drill.hint && <p className="text-sm text-gray-500 mt-1">({drill.hint})</p>}
+      {answer === undefined && (
+        <button type="submit" disabled={!text.trim()} className={`mt-4 ${CHECK_BUTTON}`}>{m.check}</button>
+      )}
+      {check === 'umlaut' && <p className="text-sm text-orange-700 mt-2">{m.mindTheUmlaut} <span className="font-bold">{drill.answer}</span></p>}
+      {check === 'wrong' && <p className="text-sm text-gray-700 mt-2">{m.correctAnswer} <span className="font-bold text-green-800">{drill.answer}</span></p>}
+    </form>
+  );
+};
+
+const ArticleChoice: React.FC<{ drill: ArticleDrill; answer?: string; onAnswer: (answer: string) => void }> = ({ drill, answer, onAnswer }) => (
+  <div>
+    <p className="text-2xl font-bold text-gray-900 mb-4 text-center">___ {drill.noun}</p>
+    <div className="grid grid-cols-3 gap-3">
+      {(['der', 'die', 'das'] as const).map(article => {
+        let style = 'border-gray-200 hover:bg-gray-50 text-gray-700';
+        if (answer !== undefined) {
+          if (article === drill.answer) style = 'bg-green-100 border-green-500 text-green-900 font-medium';
+          else if (article === answer) style = 'bg-red-100 border-red-500 text-red-900';
+          else style = 'border-gray-200 text-gray-400';
+        }
+        return (
+          <button
+            key={article}
+            disabled={answer !== undefined}
+            onClick={() => onAnswer(article)}
+            className={`p-3 border rounded-lg text-lg transition-colors ${style}`}
+          >
+            {article}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+// Tokens are tapped (or dragged) from the pool onto the answer line, and tapped again to take them back
+const WordOrder: React.FC<{ drill: WordOrderDrill; answer?: number[]; onAnswer: (answer: number[]) => void; m: Messages }> = ({ drill, answer, onAnswer, m }) => {
+  const [draft, setDraft] = useState<number[]>([]);
+  const placed = answer || draft;
+  const pool = scrambledOrder(drill.tokens).filter(i => !placed.includes(i));
+  const correct = answer !== undefined && drillScore(drill, answer) === 1;
+
+  // Puts the token before the given position of the answer line, or at its end
+  const place = (token: number, position = Infinity) => {
+    if (answer !== undefined) return;
+    const rest = draft.filter(i => i !== token);
+    setDraft([...rest.slice(0, position), token, ...rest.slice(position)]);
+  };
+  const remove = (token: number) => {
+    if (answer === undefined) setDraft(draft.filter(i => i !== token));
+  };
+  const dragged = (e: React.DragEvent) => Number(e.dataTransfer.getData('text/plain'));
+  const tokenButton = (token: number, onClick: () => void, onDrop?: (e: React.DragEvent) => void) => (
+    <button
+      key={token}
+      type="button"
+      draggable={answer === undefined}
+      disabled={answer !== undefined}
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', String(token))}
+      onDragOver={onDrop && ((e) => e.preventDefault())}
+      onDrop={onDrop}
+      onClick={onClick}
+      className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-gray-900 shadow-sm hover:bg-teal-50 cursor-grab"
+    >
+      {drill.tokens[token]}
+    </button>
+  );
+
+  return (
+    <div>
+      <p className="text-gray-600 italic mb-3">"{drill.translation}"</p>
+      <div
+        data-testid="answer-line"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => { e.preventDefault(); place(dragged(e)); }}
+        className={`min-h-[52px] flex flex-wrap gap-2 p-2 rounded-lg border-2 border-dashed ${answer === undefined ? 'border-teal-200 bg-teal-50/50' : correct ? 'border-green-400 bg-green-50' : 'border-red-300 bg-red-50'}`}
+      >
+        {placed.map((token, position) => tokenButton(token, () => remove(token), (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          place(dragged(e), position);
+        }))}
+      </div>
+      {answer === undefined && (
+        <>
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); remove(dragged(e)); }}
+            className="min-h-[52px] flex flex-wrap gap-2 p-2 mt-3"
+          >
+            {pool.map(token => tokenButton(token, () => place(token)))}
+          </div>
+          <button onClick={() => onAnswer(draft)} disabled={pool.length > 0} className={`mt-2 ${CHECK_BUTTON}`}>{m.check}</button>
+        </>
+      )}
+      {answer !== undefined && !correct && (
+        <p className="text-sm text-gray-700 mt-2">{m.correctOrder} <span className="font-bold text-green-800">{drill.tokens.join(' ')}</span></p>
+      )}
+    </div>
+  );
+};
+
+const ConjugationTable: React.FC<{ drill: ConjugationDrill; answer?: string[]; onAnswer: (answer: string[]) => void; m: Messages }> = ({ drill, answer, onAnswer, m }) => {
+  const [forms, setForms] = useState<string[]>(() => drill.forms.map(() => ''));
+
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); onAnswer(forms.map(f => f.trim())); }}>
+      <p className="text-lg text-gray-900 mb-3"><span className="font-bold">{drill.verb}</span> <span className="text-gray-500">({drill.tense})</span></p>
+      <table className="w-full">
+        <tbody>
+          {CONJUGATION_PERSONS.map((person, i) => {
+            const right = answer !== undefined && checkTypedAnswer(answer[i] || '', drill.forms[i]) === 'correct';
+            return (
+              <tr key={person}>
+                <td className="py-1 pr-3 text-gray-600 w-24">{person}</td>
+                <td className="py-1">
+                  {answer === undefined ? (
+                    <input
+                      type="text"
+                      aria-label={person}
+                      autoComplete="off"
+                      autoCapitalize="off"
+                      spellCheck={false}
+                      value={forms[i]}
+                      onChange={(e) => setForms(forms.map((f, j) => j === i ? e.target.value : f))}
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                  ) : (
+                    <span className="flex items-center gap-2">
+                      {right ? <Check size={16} className="text-green-600" /> : <X size={16} className="text-red-600" />}
+                      <span className={right ? 'text-green-900' : 'text-red-900 line-through'}>{answer[i] || '–'}</span>
+                      {!right && <span className="font-bold text-green-800">{drill.forms[i]}</span>}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {answer === undefined && (
+        <button type="submit" disabled={forms.some(f => !f.trim())} className={`mt-4 ${CHECK_BUTTON}`}>{m.check}</button>
+      )}
+    </form>
+  );
+};
+
+const GrammarDrillCard: React.FC<Props> = ({ drill, answer, onAnswer, m }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+    <p className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-3">{m.drillTitles[drill.kind]}</p>
+    {(drill.kind === 'cloze' || drill.kind === 'adjectiveEnding') && <GapDrill drill={drill} answer={answer as string | undefined} onAnswer={onAnswer} m={m} />}
+    {drill.kind === 'article' && <ArticleChoice drill={drill} answer={answer as string | undefined} onAnswer={onAnswer} />}
+    {drill.kind === 'wordOrder' && <WordOrder drill={drill} answer={answer as number[] | undefined} onAnswer={onAnswer} m={m} />}
+    {drill.kind === 'conjugation' && <ConjugationTable drill={drill} answer={answer as string[] | undefined} onAnswer={onAnswer} m={m} />}
+    {answer !== undefined && drill.explanation && (
+      <div className="mt-4 text-sm text-gray-700 bg-blue-50 p-3 rounded-lg border border-blue-100">
+        <span className="font-bold text-blue-800">{m.explanation}</span> {drill.explanation}
+      </div>
+    )}
+  </div>
+);
+
+export default GrammarDrillCard;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { DrillAnswer, GrammarDrill } from '../types';
+import GrammarDrillCard from './GrammarDrillCard';
+import { Messages } from '../services/messages';
+import { PencilLine } from 'lucide-react';
+
+interface Props {
+  drills: GrammarDrill[];
+  answers: Record<number, DrillAnswer>;
+  onAnswer: (drillIndex: number, answer: DrillAnswer) => void;
+  onContinue: () => void;
+  m: Messages;
+}
+
+const GrammarDrillStage: React.FC<Props> = ({ drills, answers, onAnswer, onContinue, m }) => {
+  const allAnswered = Object.keys(answers).length === drills.length;
+
+  return (
+    <div className="space-y-8 pb-24">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+            <h3 className="font-bold text-gray-900 flex items-center gap-2 text-lg">
+                <PencilLine size={22} /> {m.grammarTitle}
+            </h3>
+            <p className="text-gray-600 mt-2 text-sm">{m.umlautHint}</p>
+        </div>
+
+        {drills.map((drill, idx) => (
+            <GrammarDrillCard
+                key={idx}
+                drill={drill}
+                answer={answers[idx]}
+                onAnswer={(answer) => onAnswer(idx, answer)}
+                m={m}
+            />
+        ))}
+
+        {allAnswered && (
+            <button
+                onClick={onContinue}
+                className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold shadow-lg hover:bg-teal-700 transition-colors text-lg"
+            >
+                {m.continue}
+            </button>
+        )}
+    </div>
+  );
+};
+
+export default GrammarDrillStage;
@@ -1,136 +1,336 @@
-import React, { useState, useEffect } from 'react';
-import { LessonContent, LanguageLevel, VocabularyCard, QuizQuestion } from '../types';
-import { generateLesson, evaluateWriting } from '../services/geminiService';
-import { ArrowLeft, ArrowRight, Volume2, Check, X, Loader2, Languages } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { LessonContent, LanguageLevel, VocabularyCard, QuizQuestion, DeckCard, WritingEvaluation, SpeakingEvaluation, LessonResult, CurriculumLesson, LessonStage, UserProfile, DrillAnswer } from '../types';
+import { evaluateWriting } from '../services/geminiService';
+import { LessonSource, discardLesson, loadLesson } from '../services/lessonCache';
+import { SessionSnapshot, clearActiveSession, saveActiveSession } from '../services/sessionStore';
+import ReviewSession from './ReviewSession';
+import QuizQuestionCard from './QuizQuestionCard';
+import ListeningStage from './ListeningStage';
+import GrammarDrillStage from './GrammarDrillStage';
+import SpeakButton from './SpeakButton';
+import ReadingText from './ReadingText';
+import NativeText from './NativeText';
+import SpeakingStage from './SpeakingStage';
+import WritingFeedbackView from './WritingFeedbackView';
+import { LESSON_WRITING_PASS_PERCENT, lessonWritingPassed, writingXp } from '../services/writingFeedback';
+import { cardIdFor } from '../services/srsService';
+import { mistakesFromDrills, mistakesFromQuestions, mistakesFromWriting } from '../services/weakPointService';
+import { drillScore } from '../services/grammarDrills';
+import { buildPracticeAttempts } from '../services/examService';
+import { messagesFor } from '../services/messages';
+import { ArrowLeft, ArrowRight, Volume2, Check, X, Loader2, Languages, Snail, WifiOff } from 'lucide-react';
 
 interface Props {
   level: LanguageLevel;
   type: 'daily' | 'exam' | 'topic';
-  onComplete: (score: number) => void;
+  topic?: string;
+  lesson?: CurriculumLesson; // Course lesson from the curriculum
+  resume?: SessionSnapshot; // Continue a saved session instead of loading a new one
+  dueCards: DeckCard[];
+  deck: DeckCard[]; // For the add-to-deck buttons of the reading glossary
+  profile: UserProfile; // Native language, script and app language
+  onReviewCard: (card: DeckCard) => void;
+  onVocabularySeen: (cards: VocabularyCard[]) => void;
+  onComplete: (result: LessonResult) => void;
   onBack: () => void;
 }
 
-type Stage = 'loading' | 'vocab' | 'reading' | 'writing' | 'feedback' | 'finished';
+type Stage = LessonStage;
 
-const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) => {
-  const [content, setContent] = useState<LessonContent | null>(null);
-  const [stage, setStage] = useState<Stage>('loading');
-  const [currentCardIndex, setCurrentCardIndex] = useState(0);
-  const [readingAnswers, setReadingAnswers] = useState<Record<number, number>>({});
+// Max. number of due deck cards repeated at the start of a daily session
+const WARMUP_CARDS = 5;
+
+// Order of the stages generated by the model. Stages without content are skipped.
+const CONTENT_STAGES: Stage[] = ['vocab', 'reading', 'listening', 'grammar', 'writing', 'speaking'];
+
+const hasStage = (data: LessonContent, stage: Stage): boolean => {
+  switch (stage) {
+    case 'vocab': return data.vocabulary && data.vocabulary.length > 0;
+    case 'reading': return !!data.readingText;
+    case 'listening': return !!data.listeningDialogue && data.listeningDialogue.length > 0;
+    case 'grammar': return !!data.grammarDrills && data.grammarDrills.length > 0;
+    case 'writing': return !!data.writingPrompt;
+    case 'speaking': return !!data.speakingTask;
+    default: return false;
+  }
+};
+
+const nextContentStage = (data: LessonContent, after?: Stage): Stage => {
+  const start = after ? CONTENT_STAGES.indexOf(after) + 1 : 0;
+  return CONTENT_STAGES.slice(start).find(s => hasStage(data, s)) || 'finished';
+};
+
+const LessonSession: React.FC<Props> = ({ level, type, topic, lesson, resume, dueCards, deck, profile, onReviewCard, onVocabularySeen, onComplete, onBack }) => {
+  const { nativeLanguage: language, readNativeScript } = profile;
+  const m = messagesFor(profile.uiLanguage);
+  // Snapshot on mount, so grading a card does not reshuffle the warm-up
+  const [warmupCards] = useState<DeckCard[]>(() => type === 'daily' ? dueCards.slice(0, WARMUP_CARDS) : []);
+  const [content, setContent] = useState<LessonContent | null>(resume?.content || null);
+  const [source, setSource] = useState<{ key: string; source: LessonSource } | null>(resume ? { key: resume.cacheKey, source: resume.source } : null);
+  const [stage, setStage] = useState<Stage>(() => {
+    if (!resume) return 'loading';
+    // Warm-up cards graded before leaving are no longer due
+    return resume.stage === 'review' && warmupCards.length === 0 ? nextContentStage(resume.content) : resume.stage;
+  });
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [currentCardIndex, setCurrentCardIndex] = useState(resume?.currentCardIndex || 0);
+  const [readingAnswers, setReadingAnswers] = useState<Record<number, number>>(resume?.readingAnswers || {});
+  const [listeningAnswers, setListeningAnswers] = useState<Record<number, number>>(resume?.listeningAnswers || {});
+  const [listeningPlays, setListeningPlays] = useState(resume?.listeningPlays || 0);
+  const [grammarAnswers, setGrammarAnswers] = useState<Record<number, DrillAnswer>>(resume?.grammarAnswers || {});
   const [showTranslation, setShowTranslation] = useState(false);
-  const [writingText, setWritingText] = useState('');
-  const [writingFeedback, setWritingFeedback] = useState('');
+  const [slowAudio, setSlowAudio] = useState(false);
+  const [writingText, setWritingText] = useState(resume?.writingText || '');
+  const [writingEvaluation, setWritingEvaluation] = useState<WritingEvaluation | null>(resume?.writingEvaluation || null);
+  const [writingError, setWritingError] = useState(false);
   const [isEvaluating, setIsEvaluating] = useState(false);
-  const [score, setScore] = useState(0);
+  const [speakingEvaluation, setSpeakingEvaluation] = useState<SpeakingEvaluation | null>(resume?.speakingEvaluation || null);
+  const [score, setScore] = useState(resume?.score || 0);
+  // Timing for the exam analytics and the study log
+  const stageSeconds = useRef<Partial<Record<Stage, number>>>(resume?.stageSeconds || {});
+  const answerSeconds = useRef<{ reading: Record<number, number>; listening: Record<number, number> }>(resume?.answerSeconds || { reading: {}, listening: {} });
+  const lastAnswerAt = useRef(Date.now());
+  // Last saved snapshot, saved again with the stage time when the clock pauses
+  const snapshot = useRef<SessionSnapshot | null>(null);
+  const finished = useRef(false);
+
+  // Only active time counts: the clock stops while the tab is hidden
+  useEffect(() => {
+    let activeSince: number | null = document.hidden ? null : Date.now();
+    lastAnswerAt.current = Date.now();
+    const pause = () => {
+      if (activeSince === null) return;
+      stageSeconds.current[stage] = (stageSeconds.current[stage] || 0) + (Date.now() - activeSince) / 1000;
+      activeSince = null;
+      // The tab may be closed or discarded while hidden
+      if (snapshot.current && !finished.current) {
+        snapshot.current = { ...snapshot.current, stageSeconds: { ...stageSeconds.current }, updatedAt: new Date().toISOString() };
+        saveActiveSession(snapshot.current);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause();
+      else if (activeSince === null) activeSince = Date.now();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', pause);
+      pause();
+    };
+  }, [stage]);
+
+  const recordAnswerTime = (kind: 'reading' | 'listening', idx: number) => {
+    const now = Date.now();
+    answerSeconds.current[kind][idx] = (now - lastAnswerAt.current) / 1000;
+    lastAnswerAt.current = now;
+  };
 
   useEffect(() => {
+    if (resume) return;
     let isMounted = true;
     const loadContent = async () => {
-      const data = await generateLesson(level, type);
-      if (isMounted && data) {
-        setContent(data);
-        // If it's an exam or daily, the first stage might differ, but let's standardize order
-        if (data.vocabulary && data.vocabulary.length > 0) {
-            setStage('vocab');
-        } else if (data.readingText) {
-            setStage('reading');
-        } else if (data.writingPrompt) {
-            setStage('writing');
-        } else {
-            // Fallback
-            setStage('finished');
-        }
+      try {
+        const loaded = await loadLesson({ level, type, topic, lesson, language });
+        if (!isMounted) return;
+        setContent(loaded.content);
+        setSource({ key: loaded.key, source: loaded.source });
+        // Daily sessions start with a short review of due deck cards
+        setStage(warmupCards.length > 0 ? 'review' : nextContentStage(loaded.content));
+      } catch (e) {
+        console.error("Failed to load lesson", e);
+        if (isMounted) setLoadFailed(true);
       }
     };
     loadContent();
     return () => { isMounted = false; };
-  }, [level, type]);
+  }, [level, type, topic, lesson, language]);
+
+  // Offline fallback content is not the requested course lesson
+  const courseLesson = source?.source === 'offline' ? undefined : lesson;
+  const title = type === 'daily' ? m.dailyTraining : courseLesson?.title || content?.topic || m.lesson;
+
+  // Save on every change, so leaving or reloading the page loses nothing
+  useEffect(() => {
+    if (!content || !source || stage === 'loading') return;
+    snapshot.current = {
+      level,
+      type,
+      topic,
+      lessonId: lesson?.id,
+      title,
+      cacheKey: source.key,
+      source: source.source,
+      content,
+      stage,
+      currentCardIndex,
+      readingAnswers,
+      listeningAnswers,
+      listeningPlays,
+      grammarAnswers,
+      writingText,
+      writingEvaluation: writingEvaluation || undefined,
+      speakingEvaluation: speakingEvaluation || undefined,
+      score,
+      stageSeconds: { ...stageSeconds.current },
+      answerSeconds: answerSeconds.current,
+      updatedAt: new Date().toISOString()
+    };
+    saveActiveSession(snapshot.current);
+  }, [content, source, stage, currentCardIndex, readingAnswers, listeningAnswers, listeningPlays, grammarAnswers, writingText, writingEvaluation, speakingEvaluation, score]);
 
   const handleNext = () => {
     if (!content) return;
 
     if (stage === 'vocab') {
+      onVocabularySeen([content.vocabulary[currentCardIndex]]);
       if (currentCardIndex < content.vocabulary.length - 1) {
         setCurrentCardIndex(i => i + 1);
       } else {
-        if (content.readingText) {
-            setStage('reading');
-            setShowTranslation(false); // Reset translation for new section
-        }
-        else if (content.writingPrompt) setStage('writing');
-        else setStage('finished');
+        setShowTranslation(false); // Reset translation for new section
+        setStage(nextContentStage(content, 'vocab'));
       }
-    } else if (stage === 'reading') {
-        if (content.writingPrompt) setStage('writing');
-        else setStage('finished');
+    } else if (stage === 'reading' || stage === 'listening' || stage === 'grammar') {
+        setStage(nextContentStage(content, stage));
     }
   };
 
   const submitWriting = async () => {
     if (!content?.writingPrompt) return;
     setIsEvaluating(true);
-    const feedback = await evaluateWriting(content.writingPrompt, writingText, level);
-    setWritingFeedback(feedback);
+    setWritingError(false);
+    const evaluation = await evaluateWriting(content.writingPrompt, writingText, level, language);
     setIsEvaluating(false);
+    if (!evaluation) {
+        setWritingError(true);
+        return;
+    }
+    setWritingEvaluation(evaluation);
     setStage('feedback');
-    setScore(s => s + 10); // Reward for writing
+    setScore(s => s + writingXp(evaluation)); // Reward depends on the Goethe criteria score
   };
 
   const finishLesson = () => {
-      onComplete(score);
+      const mistakes = [
+          ...mistakesFromQuestions(content?.readingQuestions, readingAnswers, 'reading'),
+          ...mistakesFromQuestions(content?.listeningQuestions, listeningAnswers, 'listening'),
+          ...mistakesFromDrills(content?.grammarDrills, grammarAnswers),
+          ...(writingEvaluation ? mistakesFromWriting(writingEvaluation) : [])
+      ];
+      const examAttempts = type === 'exam' && content ? buildPracticeAttempts({
+          content,
+          readingAnswers,
+          listeningAnswers,
+          answerSeconds: answerSeconds.current,
+          stageSeconds: stageSeconds.current,
+          writing: writingEvaluation || undefined,
+          speaking: speakingEvaluation || undefined
+      }) : [];
+      const offline = source?.source === 'offline';
+      // The bundled lesson is not cached, a generated one is done and makes room for the next
+      if (source && !offline) discardLesson(source.key);
+      finished.current = true;
+      clearActiveSession();
+      onComplete({ score, writing: writingEvaluation || undefined, mistakes, examAttempts, offline, stageSeconds: stageSeconds.current });
   };
 
   // --- RENDERING ---
 
-  if (stage === 'loading') {
+  if (stage === 'loading' && !loadFailed) {
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-teal-50">
         <Loader2 className="animate-spin text-teal-600 mb-4" size={40} />
-        <p className="text-teal-800 font-medium">Preparing your customized lesson...</p>
-        <p className="text-teal-600 text-sm mt-2">Generating content with AI</p>
+        <p className="text-teal-800 font-medium">{lesson ? m.preparingLesson(lesson.title) : m.preparingCustomLesson}</p>
+        <p className="text-teal-600 text-sm mt-2">{m.generatingContent}</p>
       </div>
     );
   }
 
-  if (!content) return <div className="p-8 text-center text-red-500">Error loading lesson. <button onClick={onBack} className="underline">Go Back</button></div>;
+  if (!content) return <div className="p-8 text-center text-red-500">{m.loadError} <button onClick={onBack} className="underline">{m.goBack}</button></div>;
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       {/* Header */}
       <div className="bg-white p-4 shadow-sm flex items-center justify-between sticky top-0 z-10">
         <button onClick={onBack} className="text-gray-500 hover:text-gray-800"><ArrowLeft /></button>
-        <span className="font-bold text-gray-800">{type === 'daily' ? 'Daily Training' : content.topic || 'Lesson'}</span>
-        <div className="w-6" /> {/* Spacer */}
+        <span className="font-bold text-gray-800">{title}</span>
+        <button
+          onClick={() => setSlowAudio(!slowAudio)}
+          title={slowAudio ? m.slowAudioOn : m.slowAudioOff}
+          className={`p-1 rounded ${slowAudio ? 'text-white bg-teal-600' : 'text-gray-400 hover:text-gray-800'}`}
+        >
+          <Snail size={20} />
+        </button>
       </div>
 
       <div className="flex-1 p-4 max-w-lg mx-auto w-full">
+        {source?.source === 'offline' && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-900 rounded-xl p-3 mb-4 text-sm flex items-start gap-2">
+            <WifiOff size={16} className="mt-0.5 shrink-0" />
+            <span>
+              {m.offlineLesson}
+              {lesson && ` ${m.offlineCourseLesson(lesson.title)}`}
+            </span>
+          </div>
+        )}
         
+        {/* REVIEW WARM-UP STAGE */}
+        {stage === 'review' && (
+          <ReviewSession
+            embedded
+            cards={warmupCards}
+            language={language}
+            readNativeScript={readNativeScript}
+            onGrade={onReviewCard}
+            onFinish={() => setStage(nextContentStage(content))}
+            m={m}
+          />
+        )}
+
         {/* VOCAB STAGE */}
         {stage === 'vocab' && (
           <div className="h-full flex flex-col justify-center">
-             <h2 className="text-xl font-bold text-center mb-6 text-teal-800">New Words ({currentCardIndex + 1}/{content.vocabulary.length})</h2>
+             {courseLesson && currentCardIndex === 0 && (
+               <div className="bg-teal-50 border border-teal-100 rounded-xl p-4 mb-6 text-sm text-teal-900">
+                 <p><span className="font-semibold">{m.lessonGoal}</span> {courseLesson.goal}</p>
+                 <p className="mt-1"><span className="font-semibold">{m.lessonGrammar}</span> {courseLesson.grammar}</p>
+               </div>
+             )}
+             <h2 className="text-xl font-bold text-center mb-6 text-teal-800">{m.newWords(currentCardIndex + 1, content.vocabulary.length)}</h2>
              <div className="bg-white rounded-2xl shadow-lg p-8 text-center min-h-[300px] flex flex-col justify-center relative overflow-hidden group">
                 <div className="absolute top-0 left-0 w-2 h-full bg-teal-500"></div>
                 
-                <h3 className="text-3xl font-bold text-gray-900 mb-2">{content.vocabulary[currentCardIndex].german}</h3>
+                <h3 className="text-3xl font-bold text-gray-900 mb-2 flex items-center justify-center gap-2">
+                    {content.vocabulary[currentCardIndex].german}
+                    <SpeakButton text={content.vocabulary[currentCardIndex].german} slow={slowAudio} size={22} m={m} />
+                </h3>
                 
                 <div className="my-6 space-y-2">
-                    <p className="text-gray-600 text-lg italic">"{content.vocabulary[currentCardIndex].exampleSentence}"</p>
+                    <p className="text-gray-600 text-lg italic">
+                        "{content.vocabulary[currentCardIndex].exampleSentence}"
+                        <SpeakButton text={content.vocabulary[currentCardIndex].exampleSentence} slow={slowAudio} size={16} className="align-middle ml-1" m={m} />
+                    </p>
                 </div>
                 
                 <div className="border-t border-gray-100 pt-6 mt-4">
-                    <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Meaning</p>
+                    <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide">{m.meaning}</p>
                     <p className="text-gray-800 mb-2">{content.vocabulary[currentCardIndex].englishExplanation}</p>
-                    <p className="text-teal-700 font-medium font-serif bg-teal-50 inline-block px-3 py-1 rounded-full">
-                        {content.vocabulary[currentCardIndex].hindiTranslation}
-                    </p>
+                    <NativeText
+                        text={content.vocabulary[currentCardIndex].nativeTranslation}
+                        script={content.vocabulary[currentCardIndex].nativeScript}
+                        language={language}
+                        readNativeScript={readNativeScript}
+                        className="text-teal-700 font-medium font-serif bg-teal-50 inline-block px-3 py-1 rounded-full"
+                        m={m}
+                    />
                 </div>
              </div>
              <button 
                 onClick={handleNext}
                 className="mt-8 bg-teal-600 text-white w-full py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors"
              >
-                Next Word
+                {m.nextWord}
              </button>
           </div>
         )}
@@ -141,7 +341,7 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
                     <div className="flex justify-between items-start mb-4">
                         <h3 className="font-bold text-gray-900 flex items-center gap-2 text-lg">
-                            <BookOpenIcon /> Lesen (Reading)
+                            <BookOpenIcon /> {m.readingTitle}
                         </h3>
                         {/* Translation Toggle for A0 or if available */}
                         {(level === 'A0' || content.readingTextTranslation) && (
@@ -150,14 +350,23 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                                 className="text-sm flex items-center gap-1 text-teal-600 hover:text-teal-800 font-medium px-2 py-1 bg-teal-50 rounded"
                             >
                                 <Languages size={16} /> 
-                                {showTranslation ? 'Hide English' : 'Translate'}
+                                {showTranslation ? m.hideTranslation : m.showTranslation}
                             </button>
                         )}
                     </div>
                     
-                    <p className="leading-relaxed text-gray-800 whitespace-pre-wrap text-lg font-normal">
-                        {content.readingText}
-                    </p>
+                    <ReadingText
+                        text={content.readingText}
+                        slow={slowAudio}
+                        m={m}
+                        glossary={{
+                            level,
+                            language,
+                            readNativeScript,
+                            isInDeck: (card) => deck.some(c => c.id === cardIdFor(card.german)),
+                            onAddToDeck: (card) => onVocabularySeen([card])
+                        }}
+                    />
                     
                     {/* Translation Block */}
                     {showTranslation && content.readingTextTranslation && (
@@ -172,14 +381,19 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                     {content.vocabulary && content.vocabulary.length > 0 && (
                         <div className="mt-8 pt-6 border-t border-gray-100">
                             <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4 flex items-center gap-2">
-                                <span className="bg-teal-100 text-teal-700 py-0.5 px-2 rounded-full">Helper</span> Vocabulary from this lesson
+                                <span className="bg-teal-100 text-teal-700 py-0.5 px-2 rounded-full">{m.helper}</span> {m.lessonVocabulary}
                             </h4>
                             <div className="grid gap-3 sm:grid-cols-2">
                                 {content.vocabulary.map((vocab, i) => (
                                     <div key={i} className="text-sm bg-gray-50 p-3 rounded-lg border border-gray-100">
-                                        <div className="font-bold text-gray-900">{vocab.german}</div>
+                                        <div className="font-bold text-gray-900 flex items-center justify-between">
+                                            {vocab.german}
+                                            <SpeakButton text={vocab.german} slow={slowAudio} size={14} m={m} />
+                                        </div>
                                         <div className="text-gray-600 text-xs mt-1 leading-snug">{vocab.englishExplanation}</div>
-                                        <div className="text-teal-700 font-medium text-xs mt-1">{vocab.hindiTranslation}</div>
+                                        <div className="text-teal-700 font-medium text-xs mt-1">
+                                            <NativeText text={vocab.nativeTranslation} script={vocab.nativeScript} language={language} readNativeScript={readNativeScript} m={m} />
+                                        </div>
                                     </div>
                                 ))}
                             </div>
@@ -188,48 +402,17 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                 </div>
 
                 {content.readingQuestions?.map((q, idx) => (
-                    <div key={idx} className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-                        <p className="font-bold mb-4 text-gray-900 text-lg">{q.question}</p>
-                        <div className="space-y-3">
-                            {q.options.map((opt, optIdx) => {
-                                const isSelected = readingAnswers[idx] === optIdx;
-                                const isCorrect = q.correctAnswer === optIdx;
-                                const showResult = readingAnswers[idx] !== undefined;
-                                
-                                let style = "border-gray-200 hover:bg-gray-50 text-gray-700";
-                                if (showResult) {
-                                    if (isCorrect) style = "bg-green-100 border-green-500 text-green-900 font-medium";
-                                    else if (isSelected && !isCorrect) style = "bg-red-100 border-red-500 text-red-900";
-                                    else style = "border-gray-200 text-gray-400"; // Fade out others
-                                } else if (isSelected) {
-                                    style = "border-teal-500 bg-teal-50 text-teal-900 font-medium";
-                                }
-
-                                return (
-                                    <button 
-                                        key={optIdx}
-                                        disabled={showResult}
-                                        onClick={() => {
-                                            setReadingAnswers(prev => ({...prev, [idx]: optIdx}));
-                                            if (optIdx === q.correctAnswer) setScore(s => s + 5);
-                                        }}
-                                        className={`w-full text-left p-3.5 border rounded-lg text-base transition-colors ${style}`}
-                                    >
-                                        <div className="flex justify-between items-center w-full">
-                                            <span className="flex-1">{opt}</span>
-                                            {showResult && isCorrect && <Check size={20} className="text-green-600 ml-2 flex-shrink-0" />}
-                                            {showResult && isSelected && !isCorrect && <X size={20} className="text-red-600 ml-2 flex-shrink-0" />}
-                                        </div>
-                                    </button>
-                                );
-                            })}
-                        </div>
-                        {readingAnswers[idx] !== undefined && q.explanation && (
-                             <div className="mt-4 text-sm text-gray-700 bg-blue-50 p-3 rounded-lg border border-blue-100">
-                                <span className="font-bold text-blue-800">Explanation:</span> {q.explanation}
-                             </div>
-                        )}
-                    </div>
+                    <QuizQuestionCard
+                        key={idx}
+                        question={q}
+                        selected={readingAnswers[idx]}
+                        onAnswer={(optIdx) => {
+                            recordAnswerTime('reading', idx);
+                            setReadingAnswers(prev => ({...prev, [idx]: optIdx}));
+                            if (optIdx === q.correctAnswer) setScore(s => s + 5);
+                        }}
+                        m={m}
+                    />
                 ))}
 
                 {Object.keys(readingAnswers).length === (content.readingQuestions?.length || 0) && (
@@ -237,21 +420,54 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                      onClick={handleNext}
                      className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold shadow-lg hover:bg-teal-700 transition-colors text-lg"
                   >
-                     Continue
+                     {m.continue}
                   </button>
                 )}
             </div>
         )}
 
+        {/* LISTENING STAGE */}
+        {stage === 'listening' && content.listeningDialogue && (
+            <ListeningStage
+                scenario={content.listeningScenario}
+                dialogue={content.listeningDialogue}
+                questions={content.listeningQuestions || []}
+                answers={listeningAnswers}
+                playsUsed={listeningPlays}
+                onPlay={() => setListeningPlays(n => n + 1)}
+                onAnswer={(idx, optIdx) => {
+                    recordAnswerTime('listening', idx);
+                    setListeningAnswers(prev => ({...prev, [idx]: optIdx}));
+                    if (optIdx === content.listeningQuestions?.[idx]?.correctAnswer) setScore(s => s + 5);
+                }}
+                onContinue={handleNext}
+                m={m}
+            />
+        )}
+
+        {/* GRAMMAR STAGE */}
+        {stage === 'grammar' && content.grammarDrills && (
+            <GrammarDrillStage
+                drills={content.grammarDrills}
+                answers={grammarAnswers}
+                onAnswer={(idx, answer) => {
+                    setGrammarAnswers(prev => ({...prev, [idx]: answer}));
+                    setScore(s => s + Math.round(5 * drillScore(content.grammarDrills![idx], answer)));
+                }}
+                onContinue={handleNext}
+                m={m}
+            />
+        )}
+
         {/* WRITING STAGE */}
         {stage === 'writing' && (
              <div className="h-full flex flex-col pb-6">
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 mb-6">
-                    <h3 className="font-bold text-gray-900 mb-2 text-lg">Schreiben (Writing)</h3>
+                    <h3 className="font-bold text-gray-900 mb-2 text-lg">{m.writingTitle}</h3>
                     <p className="text-gray-800 mb-4 text-lg">{content.writingPrompt}</p>
                     {content.writingPoints && (
                         <div className="bg-orange-50 p-4 rounded-lg border border-orange-100">
-                            <p className="text-xs font-bold text-orange-800 uppercase mb-2">Points to cover:</p>
+                            <p className="text-xs font-bold text-orange-800 uppercase mb-2">{m.pointsToCover}</p>
                             <ul className="list-disc list-inside text-gray-800 space-y-1">
                                 {content.writingPoints.map((p, i) => <li key={i}>{p}</li>)}
                             </ul>
@@ -261,7 +477,7 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                 
                 <textarea 
                     className="w-full flex-1 border border-gray-300 rounded-xl p-4 text-gray-900 text-base focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none min-h-[200px]"
-                    placeholder="Type your German text here..."
+                    placeholder={m.writingPlaceholder}
                     value={writingText}
                     onChange={(e) => setWritingText(e.target.value)}
                 />
@@ -272,47 +488,69 @@ const LessonSession: React.FC<Props> = ({ level, type, onComplete, onBack }) =>
                         disabled={writingText.length < 10 || isEvaluating}
                         className="w-full bg-teal-600 disabled:bg-gray-300 text-white py-4 rounded-xl font-bold flex justify-center items-center gap-2 text-lg hover:bg-teal-700 transition-colors"
                     >
-                        {isEvaluating ? <Loader2 className="animate-spin" /> : 'Get Feedback'}
+                        {isEvaluating ? <Loader2 className="animate-spin" /> : m.getFeedback}
                     </button>
+                    {writingError && (
+                        <p className="text-sm text-red-500 mt-3 text-center">{m.feedbackFailed}</p>
+                    )}
                 </div>
              </div>
         )}
 
         {/* FEEDBACK STAGE */}
-        {stage === 'feedback' && (
+        {stage === 'feedback' && writingEvaluation && (
             <div className="pb-20">
                 <div className="bg-white p-6 rounded-xl shadow mb-6 border border-gray-200">
-                    <h3 className="font-bold text-xl mb-4 text-teal-800">Your Feedback</h3>
-                    <div className="prose prose-sm prose-teal max-w-none text-gray-800 whitespace-pre-wrap leading-relaxed">
-                        {writingFeedback}
-                    </div>
+                    <h3 className="font-bold text-xl mb-4 text-teal-800">{m.yourFeedback}</h3>
+                    <WritingFeedbackView text={writingText} evaluation={writingEvaluation} language={language} readNativeScript={readNativeScript} m={m} />
                 </div>
                 <button 
-                    onClick={() => setStage('finished')}
+                    onClick={() => setStage(nextContentStage(content, 'writing'))}
                     className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors"
                 >
-                    See Summary
+                    {content.speakingTask ? m.continue : m.seeSummary}
                 </button>
             </div>
         )}
 
+        {/* SPEAKING STAGE */}
+        {stage === 'speaking' && content.speakingTask && (
+            <SpeakingStage
+                task={content.speakingTask}
+                level={level}
+                language={language}
+                readNativeScript={readNativeScript}
+                onEvaluated={(evaluation) => {
+                    setSpeakingEvaluation(evaluation);
+                    setScore(s => s + 10); // Reward for speaking
+                }}
+                onContinue={() => setStage('finished')}
+                m={m}
+            />
+        )}
+
         {/* FINISHED STAGE */}
         {stage === 'finished' && (
              <div className="text-center pt-10">
                 <div className="inline-flex items-center justify-center w-24 h-24 bg-green-100 rounded-full mb-6 text-green-600 shadow-sm">
                     <Check size={48} />
                 </div>
-                <h2 className="text-3xl font-bold text-gray-900 mb-2">Well Done!</h2>
-                <p className="text-gray-600 mb-10 text-lg">You have completed this session.</p>
+                <h2 className="text-3xl font-bold text-gray-900 mb-2">{m.wellDone}</h2>
+                <p className="text-gray-600 mb-10 text-lg">{m.sessionComplete}</p>
+                {courseLesson && writingEvaluation && !lessonWritingPassed(level, writingEvaluation) && (
+                    <p className="bg-amber-50 border border-amber-200 text-amber-900 rounded-xl p-3 mb-8 text-sm">
+                        {m.writingNotPassed(LESSON_WRITING_PASS_PERCENT[level])}
+                    </p>
+                )}
                 <div className="bg-white p-6 rounded-xl shadow-sm max-w-xs mx-auto mb-10 border border-gray-100">
-                    <p className="text-sm text-gray-500 uppercase font-semibold tracking-wider">Session Score</p>
+                    <p className="text-sm text-gray-500 uppercase font-semibold tracking-wider">{m.sessionScore}</p>
                     <p className="text-4xl font-bold text-teal-600 mt-2">+{score} XP</p>
                 </div>
                 <button 
                     onClick={finishLesson}
                     className="w-full bg-gray-900 text-white py-4 rounded-xl font-bold text-lg hover:bg-gray-800 transition-colors"
                 >
-                    Back to Dashboard
+                    {m.backToDashboard}
                 </button>
              </div>
         )}
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { DialogueLine, QuizQuestion } from '../types';
+import { speakSequence, stopAudio, getAudioService } from '../services/audioService';
+import { Messages } from '../services/messages';
+import QuizQuestionCard from './QuizQuestionCard';
+import { Volume2, Square, Headphones, Eye } from 'lucide-react';
+
+interface Props {
+  scenario?: string;
+  dialogue: DialogueLine[];
+  questions: QuizQuestion[];
+  answers: Record<number, number>;
+  onAnswer: (questionIndex: number, optionIndex: number) => void;
+  onContinue: () => void;
+  playsUsed: number; // Kept in the saved session, so resuming does not give new plays
+  onPlay: () => void;
+  m: Messages;
+}
+
+// Like in the Goethe exam, every text is heard twice
+const MAX_PLAYS = 2;
+const SPEEDS = [0.75, 0.9, 1];
+
+const ListeningStage: React.FC<Props> = ({ scenario, dialogue, questions, answers, onAnswer, onContinue, playsUsed, onPlay, m }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [activeLine, setActiveLine] = useState(-1);
+  const [showTranscript, setShowTranscript] = useState(false);
+
+  // Stop the audio when the stage is left
+  useEffect(() => () => stopAudio(), []);
+
+  const audioAvailable = getAudioService().isAvailable();
+
+  const allAnswered = Object.keys(answers).length === questions.length;
+  const canPlay = playsUsed < MAX_PLAYS && !isPlaying;
+
+  const play = async () => {
+    if (!canPlay) return;
+    onPlay();
+    setIsPlaying(true);
+    await speakSequence(
+      dialogue.map(line => ({ text: line.text, speaker: line.speaker })),
+      { rate, onSegment: setActiveLine }
+    );
+    setIsPlaying(false);
+  };
+
+  const stop = () => {
+    stopAudio();
+    setIsPlaying(false);
+    setActiveLine(-1);
+  };
+
+  return (
+    <div className="space-y-8 pb-24">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+            <h3 className="font-bold text-gray-900 flex items-center gap-2 text-lg mb-2">
+                <Headphones size={22} /> {m.listeningTitle}
+            </h3>
+            {scenario && <p className="text-gray-600 mb-4">{scenario}</p>}
+
+            {!audioAvailable && (
+                <p className="text-sm text-orange-700 bg-orange-50 p-3 rounded-lg border border-orange-100 mb-4">
+                    {m.noAudio}
+                </p>
+            )}
+
+            <div className="flex items-center gap-3">
+                {isPlaying ? (
+                    <button
+                        onClick={stop}
+                        className="flex items-center gap-2 bg-gray-800 text-white px-4 py-2.5 rounded-lg font-medium"
+                    >
+                        <Square size={16} /> {m.stop}
+                    </button>
+                ) : (
+                    <button
+                        onClick={play}
+                        disabled={!canPlay || !audioAvailable}
+                        className="flex items-center gap-2 bg-teal-600 text-white px-4 py-2.5 rounded-lg font-medium hover:bg-teal-700 disabled:bg-gray-300"
+                    >
+                        <Volume2 size={18} /> {m.play}
+                    </button>
+                )}
+                <span className="text-sm text-gray-500">{m.playsLeft(MAX_PLAYS - playsUsed, MAX_PLAYS)}</span>
+            </div>
+
+            <div className="flex items-center gap-2 mt-4 text-sm">
+                <span className="text-gray-500">{m.speed}</span>
+                {SPEEDS.map(s => (
+                    <button
+                        key={s}
+                        onClick={() => setRate(s)}
+                        disabled={isPlaying}
+                        className={`px-2 py-1 rounded border ${rate === s ? 'border-teal-500 bg-teal-50 text-teal-900 font-medium' : 'border-gray-200 text-gray-600'}`}
+                    >
+                        {s}x
+                    </button>
+                ))}
+            </div>
+
+            {/* Transcript is available once all questions are answered, or without audio support */}
+            {(allAnswered || !audioAvailable) && (
+                <div className="mt-6 pt-4 border-t border-gray-100">
+                    <button
+                        onClick={() => setShowTranscript(!showTranscript)}
+                        className="text-sm flex items-center gap-1 text-teal-600 hover:text-teal-800 font-medium"
+                    >
+                        <Eye size={16} /> {showTranscript ? m.hideTranscript : m.showTranscript}
+                    </button>
+                    {showTranscript && (
+                        <div className="mt-3 space-y-2">
+                            {dialogue.map((line, i) => (
+                                <p key={i} className={`text-gray-800 ${activeLine === i ? 'bg-yellow-100 rounded' : ''}`}>
+                                    <span className="font-bold text-teal-700">{line.speaker}:</span> {line.text}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+
+        {questions.map((q, idx) => (
+            <QuizQuestionCard
+                key={idx}
+                question={q}
+                selected={answers[idx]}
+                onAnswer={(optIdx) => onAnswer(idx, optIdx)}
+                m={m}
+            />
+        ))}
+
+        {allAnswered && (
+            <button
+                onClick={onContinue}
+                className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold shadow-lg hover:bg-teal-700 transition-colors text-lg"
+            >
+                {m.continue}
+            </button>
+        )}
+    </div>
+  );
+};
+
+export default ListeningStage;
@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ExamAttempt, ExamModule, ExamPart, ExamPartResult, Mistake, NativeLanguage, QuestionResult } from '../types';
+import { generateExamPart, evaluateWriting, evaluateSpeaking } from '../services/geminiService';
+import {
+  EXAM_MODULES,
+  EXAM_MODULE_ORDER,
+  PASS_POINTS,
+  scoreObjectivePart,
+  scoreRatedPart,
+  buildMockAttempt,
+  mistakesFromExamPart,
+  questionFormatFor,
+  formatDuration
+} from '../services/examService';
+import { writingScorePercent } from '../services/writingFeedback';
+import { mistakesFromWriting } from '../services/weakPointService';
+import { Messages } from '../services/messages';
+import ExamPartView from './ExamPartView';
+import { ArrowLeft, ArrowRight, Loader2, Timer, GraduationCap, Check, X } from 'lucide-react';
+
+interface Props {
+  language: NativeLanguage; // Of the translations in the feedback
+  // Every module is saved once it is scored, so leaving early keeps it. examResults has all modules of this exam so far.
+  onModuleComplete: (attempt: ExamAttempt, mistakes: Mistake[], examResults: ExamAttempt[]) => void;
+  onBack: () => void;
+  m: Messages;
+}
+
+type Phase = 'select' | 'loading' | 'running' | 'evaluating' | 'moduleResult' | 'summary';
+
+const MockExam: React.FC<Props> = ({ language, onModuleComplete, onBack, m }) => {
+  const [phase, setPhase] = useState<Phase>('select');
+  const [selectedModules, setSelectedModules] = useState<ExamModule[]>(EXAM_MODULE_ORDER);
+  const [moduleIndex, setModuleIndex] = useState(0);
+  const [parts, setParts] = useState<ExamPart[]>([]);
+  const [partIndex, setPartIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<number, Record<number, number>>>({});
+  const [responses, setResponses] = useState<Record<number, string>>({});
+  // Per part, so going to another part and back does not give new plays
+  const [playsUsed, setPlaysUsed] = useState<Record<number, number>>({});
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [loadedParts, setLoadedParts] = useState(0);
+  const [loadError, setLoadError] = useState(false);
+  const [results, setResults] = useState<ExamAttempt[]>([]);
+  // Timing for the analytics: seconds per answered item and per part
+  const answerSeconds = useRef<Record<number, Record<number, number>>>({});
+  const partSeconds = useRef<Record<number, number>>({});
+  const lastActionAt = useRef(Date.now());
+  const partEnteredAt = useRef(Date.now());
+
+  const module = selectedModules[moduleIndex];
+  const moduleInfo = module ? EXAM_MODULES[module] : null;
+
+  const loadModule = async (index: number) => {
+    const info = EXAM_MODULES[selectedModules[index]];
+    setModuleIndex(index);
+    setPhase('loading');
+    setLoadError(false);
+    setLoadedParts(0);
+
+    const generated: ExamPart[] = [];
+    for (const spec of info.parts) {
+      const part = await generateExamPart(spec, language);
+      if (!part) {
+        setLoadError(true);
+        return;
+      }
+      generated.push(part);
+      setLoadedParts(generated.length);
+    }
+
+    setParts(generated);
+    setPartIndex(0);
+    answerSeconds.current = {};
+    partSeconds.current = {};
+    lastActionAt.current = Date.now();
+    partEnteredAt.current = Date.now();
+    setAnswers({});
+    setResponses({});
+    setPlaysUsed({});
+    setSecondsLeft(info.minutes * 60);
+    setPhase('running');
+  };
+
+  // Section timer
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const id = setInterval(() => setSecondsLeft(s => s - 1), 1000);
+    return () => clearInterval(id);
+  }, [phase]);
+
+  const leavePart = () => {
+    const now = Date.now();
+    partSeconds.current[partIndex] = (partSeconds.current[partIndex] || 0) + (now - partEnteredAt.current) / 1000;
+    partEnteredAt.current = now;
+    lastActionAt.current = now;
+  };
+
+  const goToPart = (index: number) => {
+    leavePart();
+    setPartIndex(index);
+  };
+
+  const answerItem = (item: number, option: number) => {
+    const now = Date.now();
+    if (answers[partIndex]?.[item] === undefined) {
+      answerSeconds.current[partIndex] = { ...answerSeconds.current[partIndex], [item]: (now - lastActionAt.current) / 1000 };
+    }
+    lastActionAt.current = now;
+    setAnswers(prev => ({ ...prev, [partIndex]: { ...prev[partIndex], [item]: option } }));
+  };
+
+  const submitModule = async () => {
+    if (!module || !moduleInfo) return;
+    leavePart();
+    setPhase('evaluating');
+    const durationSeconds = moduleInfo.minutes * 60 - Math.max(0, secondsLeft);
+    const partResults: ExamPartResult[] = [];
+    const questions: QuestionResult[] = [];
+    const newMistakes: Mistake[] = [];
+
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      const response = (responses[i] || '').trim();
+      if (part.writingTask) {
+        const task = [part.writingTask.prompt, ...part.texts, ...part.writingTask.points].join('\n');
+        const evaluation = response ? await evaluateWriting(task, response, 'B1', language) : null;
+        const result = scoreRatedPart(part, evaluation ? writingScorePercent(evaluation) : 0);
+        partResults.push(result);
+        questions.push({ format: 'writing', correct: result.points >= result.maxPoints * PASS_POINTS / 100, timeSeconds: partSeconds.current[i] || 0 });
+        if (evaluation) newMistakes.push(...mistakesFromWriting(evaluation));
+      } else if (part.speakingTask) {
+        const evaluation = response ? await evaluateSpeaking(part.speakingTask, response, 'B1', language) : null;
+        const result = scoreRatedPart(part, evaluation ? evaluation.score : 0);
+        partResults.push(result);
+        questions.push({ format: 'speaking', correct: result.points >= result.maxPoints * PASS_POINTS / 100, timeSeconds: partSeconds.current[i] || 0 });
+      } else {
+        partResults.push(scoreObjectivePart(part, answers[i] || {}));
+        newMistakes.push(...mistakesFromExamPart(part, answers[i] || {}));
+        part.items.forEach((item, j) => questions.push({
+          format: questionFormatFor(part, j),
+          correct: answers[i]?.[j] === item.correctAnswer,
+          timeSeconds: answerSeconds.current[i]?.[j] || 0
+        }));
+      }
+    }
+
+    const attempt = buildMockAttempt(module, partResults, questions, durationSeconds);
+    setResults([...results, attempt]);
+    onModuleComplete(attempt, newMistakes, [...results, attempt]);
+    setPhase('moduleResult');
+  };
+
+  // Time is up: hand in automatically, like in the exam
+  useEffect(() => {
+    if (phase === 'running' && secondsLeft <= 0) submitModule();
+  }, [phase, secondsLeft]);
+
+  const toggleModule = (toggled: ExamModule) => {
+    setSelectedModules(prev =>
+      prev.includes(toggled) ? prev.filter(x => x !== toggled) : EXAM_MODULE_ORDER.filter(x => x === toggled || prev.includes(x))
+    );
+  };
+
+  const continueAfterModule = () => {
+    if (moduleIndex < selectedModules.length - 1) loadModule(moduleIndex + 1);
+    else setPhase('summary');
+  };
+
+  const currentResult = results[results.length - 1];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white p-4 shadow-sm flex items-center justify-between sticky top-0 z-10">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-800"><ArrowLeft /></button>
+        <span className="font-bold text-gray-800">{moduleInfo && phase !== 'select' && phase !== 'summary' ? m.mockExamModule(moduleInfo.title) : m.mockExamB1}</span>
+        {phase === 'running' ? (
+          <span className={`flex items-center gap-1 text-sm font-mono font-bold ${secondsLeft < 300 ? 'text-red-600' : 'text-gray-700'}`}>
+            <Timer size={16} /> {formatDuration(Math.max(0, secondsLeft))}
+          </span>
+        ) : <div className="w-6" />}
+      </div>
+
+      <div className="flex-1 p-4 max-w-lg mx-auto w-full">
+
+        {phase === 'select' && (
+          <div className="space-y-6">
+            <div className="bg-indigo-50 p-5 rounded-xl border border-indigo-100">
+              <h2 className="text-lg font-bold text-indigo-900 flex items-center gap-2 mb-2">
+                <GraduationCap size={20} /> Goethe-Zertifikat B1
+              </h2>
+              <p className="text-sm text-indigo-800">
+                {m.examRules(PASS_POINTS)}
+              </p>
+            </div>
+            <div className="space-y-2">
+              {EXAM_MODULE_ORDER.map(mod => (
+                <button
+                  key={mod}
+                  onClick={() => toggleModule(mod)}
+                  className={`w-full text-left p-4 rounded-xl border flex justify-between items-center ${selectedModules.includes(mod) ? 'border-teal-500 bg-teal-50 text-teal-900' : 'border-gray-200 bg-white text-gray-500'}`}
+                >
+                  <span className="font-bold">{EXAM_MODULES[mod].title}</span>
+                  <span className="text-sm">{m.moduleSize(EXAM_MODULES[mod].parts.length, EXAM_MODULES[mod].minutes)}</span>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => loadModule(0)}
+              disabled={selectedModules.length === 0}
+              className="w-full bg-indigo-600 disabled:bg-gray-300 text-white py-4 rounded-xl font-bold text-lg hover:bg-indigo-700 transition-colors"
+            >
+              {m.startExam}
+            </button>
+          </div>
+        )}
+
+        {phase === 'loading' && moduleInfo && (
+          <div className="flex flex-col items-center justify-center pt-24 text-center">
+            {loadError ? (
+              <>
+                <p className="text-red-500 mb-4">{m.moduleFailed(moduleInfo.title)}</p>
+                <button onClick={() => loadModule(moduleIndex)} className="bg-teal-600 text-white px-4 py-2 rounded-lg font-medium">{m.tryAgain}</button>
+              </>
+            ) : (
+              <>
+                <Loader2 className="animate-spin text-teal-600 mb-4" size={40} />
+                <p className="text-teal-800 font-medium">{m.preparingModule(moduleInfo.title)}</p>
+                <p className="text-teal-600 text-sm mt-2">{m.partOf(Math.min(loadedParts + 1, moduleInfo.parts.length), moduleInfo.parts.length)}</p>
+              </>
+            )}
+          </div>
+        )}
+
+        {phase === 'running' && parts[partIndex] && (
+          <div className="pb-24">
+            <div className="flex gap-1 mb-4">
+              {parts.map((_, i) => (
+                <button
+                  key={i}
+                  onClick={() => goToPart(i)}
+                  className={`flex-1 h-2 rounded-full ${i === partIndex ? 'bg-teal-600' : 'bg-gray-200'}`}
+                  aria-label={m.partLabel(i + 1)}
+                />
+              ))}
+            </div>
+            <ExamPartView
+              key={partIndex}
+              part={parts[partIndex]}
+              answers={answers[partIndex] || {}}
+              onAnswer={answerItem}
+              response={responses[partIndex] || ''}
+              onResponseChange={(text) => setResponses(prev => ({ ...prev, [partIndex]: text }))}
+              playsUsed={playsUsed[partIndex] || 0}
+              onPlay={() => setPlaysUsed(prev => ({ ...prev, [partIndex]: (prev[partIndex] || 0) + 1 }))}
+              m={m}
+            />
+            <div className="flex gap-3 mt-6">
+              {partIndex > 0 && (
+                <button onClick={() => goToPart(partIndex - 1)} className="flex-1 border border-gray-300 text-gray-700 py-4 rounded-xl font-bold">
+                  {m.back}
+                </button>
+              )}
+              {partIndex < parts.length - 1 ? (
+                <button onClick={() => goToPart(partIndex + 1)} className="flex-1 bg-teal-600 text-white py-4 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-teal-700">
+                  {m.nextPart} <ArrowRight size={18} />
+                </button>
+              ) : (
+                <button onClick={submitModule} className="flex-1 bg-indigo-600 text-white py-4 rounded-xl font-bold hover:bg-indigo-700">
+                  {m.handIn}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === 'evaluating' && (
+          <div className="flex flex-col items-center justify-center pt-24">
+            <Loader2 className="animate-spin text-teal-600 mb-4" size={40} />
+            <p className="text-teal-800 font-medium">{m.scoringAnswers}</p>
+          </div>
+        )}
+
+        {phase === 'moduleResult' && currentResult && (
+          <div className="space-y-6 pt-6">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 text-center">
+              <p className="text-sm text-gray-500 uppercase font-semibold tracking-wider">{EXAM_MODULES[currentResult.module].title}</p>
+              <p className={`text-5xl font-bold mt-2 ${currentResult.passed ? 'text-teal-600' : 'text-red-600'}`}>{currentResult.percentage}<span className="text-xl text-gray-400">/100</span></p>
+              <p className={`mt-2 font-medium ${currentResult.passed ? 'text-teal-700' : 'text-red-700'}`}>
+                {currentResult.passed ? m.modulePassed : m.moduleNotPassed(PASS_POINTS)}
+              </p>
+              <p className="text-xs text-gray-400 mt-1">{m.timeUsed(formatDuration(currentResult.durationSeconds))}</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-2">
+              {currentResult.parts.map(p => (
+                <div key={p.part} className="flex justify-between text-sm">
+                  <span className="text-gray-600">{EXAM_MODULES[currentResult.module].parts.find(s => s.part === p.part)?.title}</span>
+                  <span className="font-medium text-gray-900">{p.points} / {p.maxPoints}</span>
+                </div>
+              ))}
+            </div>
+            <button onClick={continueAfterModule} className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors">
+              {moduleIndex < selectedModules.length - 1 ? m.continueWith(EXAM_MODULES[selectedModules[moduleIndex + 1]].title) : m.seeResults}
+            </button>
+          </div>
+        )}
+
+        {phase === 'summary' && (
+          <div className="space-y-6 pt-6">
+            <h2 className="text-2xl font-bold text-gray-900 text-center">{m.yourMockExam}</h2>
+            <div className="space-y-2">
+              {results.map(r => (
+                <div key={r.module} className="bg-white p-4 rounded-xl border border-gray-100 flex justify-between items-center">
+                  <span className="font-bold text-gray-800">{EXAM_MODULES[r.module].title}</span>
+                  <span className={`flex items-center gap-2 font-bold ${r.passed ? 'text-teal-600' : 'text-red-600'}`}>
+                    {r.percentage}/100 {r.passed ? <Check size={18} /> : <X size={18} />}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={onBack}
+              className="w-full bg-gray-900 text-white py-4 rounded-xl font-bold text-lg hover:bg-gray-800 transition-colors"
+            >
+              {m.backToDashboard}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MockExam;
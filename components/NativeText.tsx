@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { NativeLanguage } from '../types';
+import { LANGUAGES } from '../services/languages';
+import { Messages } from '../services/messages';
+
+interface Props {
+  text: string; // Latin script
+  script?: string; // From the model; transliterated from 'text' where the language allows it
+  language: NativeLanguage;
+  readNativeScript?: boolean; // Learner's script setting
+  className?: string;
+  m: Messages;
+}
+
+// Translation in the learner's script. The own script switches to Latin (and back) on tap.
+const NativeText: React.FC<Props> = ({ text, script, language, readNativeScript, className = '', m }) => {
+  const [showLatin, setShowLatin] = useState(false);
+  const info = LANGUAGES[language];
+  const scriptText = script || info.script?.transliterate?.(text);
+
+  if (!text || !readNativeScript || !info.script || !scriptText) return <span className={className}>{text}</span>;
+
+  return (
+    <button
+      type="button"
+      lang={showLatin ? undefined : info.code}
+      dir={!showLatin && info.script.rtl ? 'rtl' : undefined}
+      onClick={(e) => { e.stopPropagation(); setShowLatin(!showLatin); }}
+      title={showLatin ? m.showScript(info.script.name) : m.showLatinScript}
+      className={`text-left ${className}`}
+    >
+      {showLatin ? text : scriptText}
+    </button>
+  );
+};
+
+export default NativeText;
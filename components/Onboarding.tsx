@@ -1,12 +1,20 @@
 import React, { useState } from 'react';
-import { UserProfile, LanguageLevel } from '../types';
-import { ArrowRight, CheckCircle2 } from 'lucide-react';
+import { UserProfile, LanguageLevel, Mistake, AppState, NativeLanguage } from '../types';
+import { PlacementResult } from '../services/placementService';
+import { parseBackup } from '../services/backupService';
+import { LANGUAGES, NATIVE_LANGUAGES } from '../services/languages';
+import { messagesFor } from '../services/messages';
+import PlacementTest from './PlacementTest';
+import { ArrowRight, CheckCircle2, ClipboardCheck } from 'lucide-react';
 
 interface Props {
-  onComplete: (profile: UserProfile) => void;
+  onComplete: (profile: UserProfile, placementMistakes: Mistake[]) => void;
+  onRestore: (state: AppState) => void; // Backup file from another device
 }
 
-const Onboarding: React.FC<Props> = ({ onComplete }) => {
+type LevelMode = 'ask' | 'test' | 'choose';
+
+const Onboarding: React.FC<Props> = ({ onComplete, onRestore }) => {
   const [step, setStep] = useState(1);
   const [data, setData] = useState<Partial<UserProfile>>({
     name: '',
@@ -14,28 +22,52 @@ const Onboarding: React.FC<Props> = ({ onComplete }) => {
     currentLevel: 'A0',
     dailyMinutes: 20,
     nativeLanguage: 'Hindi',
-    readDevanagari: false,
+    readNativeScript: false,
+    uiLanguage: 'English',
     onboardingComplete: false
   });
+  const [levelMode, setLevelMode] = useState<LevelMode>('ask');
+  const [placement, setPlacement] = useState<PlacementResult | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const info = LANGUAGES[data.nativeLanguage || 'Hindi'];
+  const m = messagesFor(data.uiLanguage || 'English');
+
+  const handleRestoreFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { backup, error } = parseBackup(await file.text());
+    if (backup) onRestore(backup.state);
+    else setRestoreError(error || m.restoreFailed);
+  };
 
   const handleNext = () => setStep(s => s + 1);
 
+  // An app shown in the previous native language switches along
+  const chooseNativeLanguage = (nativeLanguage: NativeLanguage) => {
+    setData({...data, nativeLanguage, uiLanguage: data.uiLanguage === 'English' ? 'English' : nativeLanguage});
+  };
+
+  const handlePlacementFinish = (result: PlacementResult) => {
+    setPlacement(result);
+    setData({...data, currentLevel: result.level});
+    setLevelMode('choose');
+  };
+
   const finish = () => {
-    // Basic auto-estimation based on self-report
-    onComplete(data as UserProfile);
+    // The level comes from the placement test (or self-report), mistakes become the first weak points
+    onComplete(data as UserProfile, placement?.mistakes || []);
   };
 
   return (
-    <div className="max-w-md mx-auto p-6 bg-white rounded-xl shadow-sm mt-10">
+    <div dir={m.dir} className="max-w-md mx-auto p-6 bg-white rounded-xl shadow-sm mt-10">
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-teal-800">Willkommen!</h1>
-        <p className="text-gray-600">Let's set up your personal German plan.</p>
+        <p className="text-gray-600">{m.setupIntro}</p>
       </div>
 
       {step === 1 && (
         <div className="space-y-4">
           <label className="block">
-            <span className="text-gray-700">What is your name?</span>
+            <span className="text-gray-700">{m.askName}</span>
             <input 
               type="text" 
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-teal-500 focus:ring focus:ring-teal-200 p-2 border text-gray-900"
@@ -43,19 +75,98 @@ const Onboarding: React.FC<Props> = ({ onComplete }) => {
               onChange={(e) => setData({...data, name: e.target.value})}
             />
           </label>
+          <div>
+            <p className="text-gray-700">{m.askNativeLanguage}</p>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {NATIVE_LANGUAGES.map(lang => (
+                <button
+                  key={lang}
+                  type="button"
+                  onClick={() => chooseNativeLanguage(lang)}
+                  className={`p-2 rounded-lg border text-sm transition-colors ${data.nativeLanguage === lang ? 'border-teal-500 bg-teal-50 text-teal-900 font-bold' : 'border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {lang} · <span lang={LANGUAGES[lang].code}>{LANGUAGES[lang].nativeName}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-gray-700">{m.askUiLanguage}</p>
+            <div className="mt-2 flex gap-2">
+              {(['English', data.nativeLanguage || 'Hindi'] as const).map(uiLanguage => (
+                <button
+                  key={uiLanguage}
+                  type="button"
+                  onClick={() => setData({...data, uiLanguage})}
+                  className={`flex-1 p-2 rounded-lg border text-sm transition-colors ${data.uiLanguage === uiLanguage ? 'border-teal-500 bg-teal-50 text-teal-900 font-bold' : 'border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {uiLanguage === 'English' ? 'English' : info.nativeName}
+                </button>
+              ))}
+            </div>
+          </div>
           <button 
             disabled={!data.name}
             onClick={handleNext}
             className="w-full flex items-center justify-center gap-2 bg-teal-600 text-white py-2 px-4 rounded-lg hover:bg-teal-700 disabled:opacity-50 font-medium"
           >
-            Next <ArrowRight size={18} />
+            {m.next} <ArrowRight size={18} />
           </button>
+          <label className="block text-center text-sm text-gray-500 hover:text-teal-700 cursor-pointer pt-2">
+            {m.restorePrompt} <span className="underline">{m.restoreLink}</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleRestoreFile(e.target.files?.[0])}
+            />
+          </label>
+          {restoreError && <p className="text-sm text-red-500 text-center">{restoreError}</p>}
         </div>
       )}
 
-      {step === 2 && (
+      {step === 2 && levelMode === 'ask' && (
+        <div className="space-y-4">
+          <p className="font-medium text-gray-700">{m.askLevel}</p>
+          <button
+            onClick={() => setLevelMode('test')}
+            className="w-full text-left p-4 rounded-lg border border-teal-500 bg-teal-50 text-teal-900 hover:bg-teal-100"
+          >
+            <div className="font-bold flex items-center gap-2"><ClipboardCheck size={18} /> {m.placementTest}</div>
+            <div className="text-xs text-teal-700 mt-1">{m.placementTestInfo}</div>
+          </button>
+          <button
+            onClick={() => setLevelMode('choose')}
+            className="w-full text-left p-4 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50"
+          >
+            <div className="font-bold">{m.chooseLevel}</div>
+            <div className="text-xs text-gray-500 mt-1">{m.chooseLevelInfo}</div>
+          </button>
+        </div>
+      )}
+
+      {step === 2 && levelMode === 'test' && (
+        <PlacementTest onFinish={handlePlacementFinish} onCancel={() => setLevelMode('choose')} m={m} />
+      )}
+
+      {step === 2 && levelMode === 'choose' && (
         <div className="space-y-4">
-          <p className="font-medium text-gray-700">What is your current German level?</p>
+          {placement ? (
+            <div className="bg-teal-50 p-4 rounded-lg border border-teal-100">
+              <p className="text-teal-900">
+                {m.placementResult} <span className="font-bold">{placement.level}</span>
+                <span className="text-sm text-teal-700"> {m.placementCorrect(placement.answers.filter(a => a.answer === a.question.correctAnswer).length, placement.answers.length)}</span>
+              </p>
+              {placement.mistakes.length > 0 && (
+                <p className="text-xs text-teal-800 mt-2">
+                  {m.placementFocus(Array.from(new Set(placement.mistakes.map(mistake => mistake.topic))).join(', '))}
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-2">{m.changeLevelHint}</p>
+            </div>
+          ) : (
+            <p className="font-medium text-gray-700">{m.askLevel}</p>
+          )}
           <div className="space-y-2">
             {(['A0', 'A1', 'A2', 'B1'] as LanguageLevel[]).map(level => (
               <button
@@ -65,47 +176,50 @@ const Onboarding: React.FC<Props> = ({ onComplete }) => {
               >
                 <div className="font-bold">{level}</div>
                 <div className="text-xs text-gray-500">
-                  {level === 'A0' ? 'Absolute Beginner' : 
-                   level === 'A1' ? 'I know some basics' :
-                   level === 'A2' ? 'I can have short conversations' : 'I am advanced'}
+                  {m.levelDescriptions[level]}
                 </div>
               </button>
             ))}
           </div>
-          <button onClick={handleNext} className="w-full bg-teal-600 text-white py-2 rounded-lg mt-4 font-medium">Next</button>
+          <button onClick={handleNext} className="w-full bg-teal-600 text-white py-2 rounded-lg mt-4 font-medium">{m.next}</button>
         </div>
       )}
 
       {step === 3 && (
         <div className="space-y-4">
-          <p className="font-medium text-gray-700">Can you read Devanagari script (हिंदी)?</p>
+          {info.script && (
+          <>
+          <p className="font-medium text-gray-700">{m.askScript(info.script.name, info.script.greeting)}</p>
           <div className="flex gap-4">
             <button 
               type="button"
-              onClick={() => setData({...data, readDevanagari: true})}
+              onClick={() => setData({...data, readNativeScript: true})}
               className={`flex-1 p-3 border rounded-lg font-bold transition-all ${
-                data.readDevanagari 
+                data.readNativeScript 
                   ? 'border-teal-600 bg-teal-100 text-teal-900 ring-2 ring-teal-200' 
                   : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50'
               }`}
             >
-              Yes
+              {m.yes}
             </button>
             <button 
               type="button"
-              onClick={() => setData({...data, readDevanagari: false})}
+              onClick={() => setData({...data, readNativeScript: false})}
               className={`flex-1 p-3 border rounded-lg font-bold transition-all ${
-                data.readDevanagari === false 
+                data.readNativeScript === false 
                   ? 'border-teal-600 bg-teal-100 text-teal-900 ring-2 ring-teal-200' 
                   : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50'
               }`}
             >
-              No
+              {m.no}
             </button>
           </div>
+          <p className="text-xs text-gray-500">{m.scriptHint(data.nativeLanguage || 'Hindi')}</p>
+          </>
+          )}
 
-          <div className="pt-4">
-            <p className="font-medium text-gray-700">Minutes per day?</p>
+          <div className={info.script ? 'pt-4' : ''}>
+            <p className="font-medium text-gray-700">{m.askMinutes}</p>
              <div className="mt-2">
                 <input 
                     type="range" min="10" max="60" step="5"
@@ -123,7 +237,7 @@ const Onboarding: React.FC<Props> = ({ onComplete }) => {
           </div>
 
           <button onClick={finish} className="w-full flex items-center justify-center gap-2 bg-teal-600 text-white py-3 rounded-lg mt-6 font-medium shadow-md hover:bg-teal-700 transition-transform active:scale-95">
-            <CheckCircle2 size={18} /> Start Learning
+            <CheckCircle2 size={18} /> {m.startLearning}
           </button>
         </div>
       )}
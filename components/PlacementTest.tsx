@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { PLACEMENT_LEVELS, PlacementAnswer, PlacementResult, blockOutcome, buildPlacementResult, placementQuestionsFor } from '../services/placementService';
+import { Messages } from '../services/messages';
+import QuizQuestionCard from './QuizQuestionCard';
+import { ArrowRight } from 'lucide-react';
+
+interface Props {
+  onFinish: (result: PlacementResult) => void;
+  onCancel: () => void;
+  m: Messages;
+}
+
+const SKILL_LABELS = { grammar: 'Grammar', vocabulary: 'Vocabulary', reading: 'Reading' };
+
+const PlacementTest: React.FC<Props> = ({ onFinish, onCancel, m }) => {
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [answers, setAnswers] = useState<PlacementAnswer[]>([]);
+  const [selected, setSelected] = useState<number | undefined>(undefined);
+
+  const level = PLACEMENT_LEVELS[levelIndex];
+  const question = placementQuestionsFor(level)[questionIndex];
+
+  const answer = (optionIndex: number) => {
+    setSelected(optionIndex);
+    setAnswers(prev => [...prev, { question, answer: optionIndex }]);
+  };
+
+  // Move up a level once a block is passed, stop at the first failed block
+  const next = () => {
+    setSelected(undefined);
+    const outcome = blockOutcome(level, answers);
+    if (outcome === 'open') {
+      setQuestionIndex(i => i + 1);
+    } else if (outcome === 'pass' && levelIndex < PLACEMENT_LEVELS.length - 1) {
+      setLevelIndex(i => i + 1);
+      setQuestionIndex(0);
+    } else {
+      onFinish(buildPlacementResult(answers));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>Placement test · Question {answers.length + (selected === undefined ? 1 : 0)}</span>
+        <span className="font-semibold text-teal-700">{SKILL_LABELS[question.skill]}</span>
+      </div>
+      <div className="w-full bg-gray-100 rounded-full h-1.5">
+        <div className="bg-teal-500 h-1.5 rounded-full transition-all" style={{ width: `${((levelIndex + 1) / PLACEMENT_LEVELS.length) * 100}%` }}></div>
+      </div>
+
+      {question.text && (
+        <div className="bg-gray-50 p-4 rounded-lg border border-gray-100 text-gray-800">{question.text}</div>
+      )}
+      <QuizQuestionCard question={question} selected={selected} onAnswer={answer} m={m} />
+
+      {selected !== undefined ? (
+        <button
+          onClick={next}
+          className="w-full flex items-center justify-center gap-2 bg-teal-600 text-white py-2 px-4 rounded-lg hover:bg-teal-700 font-medium"
+        >
+          Next <ArrowRight size={18} />
+        </button>
+      ) : (
+        <button onClick={onCancel} className="w-full text-sm text-gray-500 hover:text-gray-800">
+          Skip test and choose my level myself
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PlacementTest;
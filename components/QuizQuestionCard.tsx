@@ -0,0 +1,58 @@
+import React from 'react';
+import { QuizQuestion } from '../types';
+import { Messages } from '../services/messages';
+import { Check, X } from 'lucide-react';
+
+interface Props {
+  question: QuizQuestion;
+  selected?: number; // Index of the chosen option, undefined while unanswered
+  onAnswer: (optionIndex: number) => void;
+  m: Messages;
+}
+
+const QuizQuestionCard: React.FC<Props> = ({ question: q, selected, onAnswer, m }) => {
+  const showResult = selected !== undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+        <p className="font-bold mb-4 text-gray-900 text-lg">{q.question}</p>
+        <div className="space-y-3">
+            {q.options.map((opt, optIdx) => {
+                const isSelected = selected === optIdx;
+                const isCorrect = q.correctAnswer === optIdx;
+
+                let style = "border-gray-200 hover:bg-gray-50 text-gray-700";
+                if (showResult) {
+                    if (isCorrect) style = "bg-green-100 border-green-500 text-green-900 font-medium";
+                    else if (isSelected && !isCorrect) style = "bg-red-100 border-red-500 text-red-900";
+                    else style = "border-gray-200 text-gray-400"; // Fade out others
+                } else if (isSelected) {
+                    style = "border-teal-500 bg-teal-50 text-teal-900 font-medium";
+                }
+
+                return (
+                    <button
+                        key={optIdx}
+                        disabled={showResult}
+                        onClick={() => onAnswer(optIdx)}
+                        className={`w-full text-left p-3.5 border rounded-lg text-base transition-colors ${style}`}
+                    >
+                        <div className="flex justify-between items-center w-full">
+                            <span className="flex-1">{opt}</span>
+                            {showResult && isCorrect && <Check size={20} className="text-green-600 ml-2 flex-shrink-0" />}
+                            {showResult && isSelected && !isCorrect && <X size={20} className="text-red-600 ml-2 flex-shrink-0" />}
+                        </div>
+                    </button>
+                );
+            })}
+        </div>
+        {showResult && q.explanation && (
+             <div className="mt-4 text-sm text-gray-700 bg-blue-50 p-3 rounded-lg border border-blue-100">
+                <span className="font-bold text-blue-800">{m.explanation}</span> {q.explanation}
+             </div>
+        )}
+    </div>
+  );
+};
+
+export default QuizQuestionCard;
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { LanguageLevel, NativeLanguage, VocabularyCard } from '../types';
+import { speakSequence, stopAudio, splitSentences, getAudioService, SLOW_RATE } from '../services/audioService';
+import { glossaryKey, loadUnknownWords } from '../services/glossaryService';
+import { Messages } from '../services/messages';
+import SpeakButton from './SpeakButton';
+import GlossaryPopover from './GlossaryPopover';
+import { Play, Square } from 'lucide-react';
+
+interface Props {
+  text: string;
+  slow?: boolean;
+  m: Messages;
+  // Tap-to-translate, only with a level to explain the words for
+  glossary?: {
+    level: LanguageLevel;
+    language: NativeLanguage;
+    readNativeScript?: boolean;
+    isInDeck: (card: VocabularyCard) => boolean;
+    onAddToDeck: (card: VocabularyCard) => void;
+  };
+}
+
+// Words (including hyphenated ones) and the text between them
+const WORD_PATTERN = /(\p{L}+(?:-\p{L}+)*)/u;
+
+// Reading text split into sentences, each with its own speaker button.
+// "Read aloud" plays the whole text and highlights the current sentence.
+// With a glossary every word can be tapped; words looked up before are underlined.
+const ReadingText: React.FC<Props> = ({ text, slow, m, glossary }) => {
+  const [activeSentence, setActiveSentence] = useState(-1);
+  const [isReading, setIsReading] = useState(false);
+  const [selected, setSelected] = useState<{ word: string; sentence: string; id: string } | null>(null);
+  const [unknownWords, setUnknownWords] = useState<Set<string>>(new Set());
+  const paragraphs = text.split(/\n+/).map(p => splitSentences(p)).filter(p => p.length > 0);
+  const sentences = paragraphs.flat();
+
+  useEffect(() => () => stopAudio(), []);
+
+  useEffect(() => {
+    if (glossary) loadUnknownWords().then(setUnknownWords);
+  }, []);
+
+  const renderWords = (sentence: string, sentenceIdx: number) => {
+    if (!glossary) return sentence;
+    return sentence.split(WORD_PATTERN).map((part, i) => {
+      // Odd parts are the words matched by the split pattern
+      if (i % 2 === 0) return part;
+      const id = `${sentenceIdx}-${i}`;
+      const isUnknown = unknownWords.has(glossaryKey(part));
+      return (
+        <span
+          key={i}
+          role="button"
+          tabIndex={0}
+          onClick={() => setSelected({ word: part, sentence, id })}
+          onKeyDown={(e) => { if (e.key === 'Enter') setSelected({ word: part, sentence, id }); }}
+          className={`cursor-pointer rounded hover:bg-teal-50 ${selected?.id === id ? 'bg-teal-100' : ''} ${isUnknown ? 'underline decoration-orange-400 decoration-dotted underline-offset-4' : ''}`}
+        >
+          {part}
+        </span>
+      );
+    });
+  };
+
+  const readAloud = async () => {
+    if (isReading) {
+      stopAudio();
+      setIsReading(false);
+      setActiveSentence(-1);
+      return;
+    }
+    setIsReading(true);
+    await speakSequence(sentences.map(s => ({ text: s })), {
+      rate: slow ? SLOW_RATE : 1,
+      onSegment: setActiveSentence
+    });
+    setIsReading(false);
+  };
+
+  let sentenceIndex = 0;
+
+  return (
+    <div>
+      {getAudioService().isAvailable() && (
+        <button
+          onClick={readAloud}
+          className="mb-3 text-sm flex items-center gap-1 text-teal-600 hover:text-teal-800 font-medium px-2 py-1 bg-teal-50 rounded"
+        >
+          {isReading ? <><Square size={14} /> {m.stop}</> : <><Play size={14} /> {m.readAloud}</>}
+        </button>
+      )}
+      {glossary && <p className="text-xs text-gray-400 mb-2">{m.tapAnyWord}</p>}
+      {paragraphs.map((paragraph, p) => (
+        <p key={p} className="leading-relaxed text-gray-800 text-lg font-normal mb-3">
+          {paragraph.map(sentence => {
+            const i = sentenceIndex++;
+            return (
+              <span key={i} className={`transition-colors rounded ${activeSentence === i ? 'bg-yellow-100' : ''}`}>
+                {renderWords(sentence, i)}
+                <SpeakButton text={sentence} slow={slow} size={14} className="align-middle mx-0.5" m={m} />
+                {' '}
+              </span>
+            );
+          })}
+        </p>
+      ))}
+      {glossary && selected && (
+        <GlossaryPopover
+          word={selected.word}
+          sentence={selected.sentence}
+          level={glossary.level}
+          language={glossary.language}
+          readNativeScript={glossary.readNativeScript}
+          isInDeck={glossary.isInDeck}
+          onLookedUp={(entry) => setUnknownWords(prev => new Set(prev).add(entry.word))}
+          onAddToDeck={glossary.onAddToDeck}
+          onClose={() => setSelected(null)}
+          m={m}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReadingText;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { DeckCard, NativeLanguage, ReviewGrade } from '../types';
+import { scheduleCard, formatInterval } from '../services/srsService';
+import { Messages } from '../services/messages';
+import SpeakButton from './SpeakButton';
+import NativeText from './NativeText';
+import { useActiveSeconds } from './useActiveSeconds';
+import { ArrowLeft, Check, Layers } from 'lucide-react';
+
+interface Props {
+  cards: DeckCard[];
+  onGrade: (card: DeckCard) => void; // Receives the rescheduled card
+  onFinish: (reviewedCount: number, activeSeconds: number) => void;
+  onBack?: (reviewedCount: number, activeSeconds: number) => void; // Only shown in standalone Review mode, cards graded before leaving still count
+  embedded?: boolean; // Rendered inside a lesson instead of full screen
+  language: NativeLanguage;
+  readNativeScript?: boolean;
+  m: Messages;
+}
+
+const GRADES: { grade: ReviewGrade; style: string }[] = [
+  { grade: 'again', style: 'bg-red-50 border-red-200 text-red-800 hover:bg-red-100' },
+  { grade: 'hard', style: 'bg-orange-50 border-orange-200 text-orange-800 hover:bg-orange-100' },
+  { grade: 'good', style: 'bg-teal-50 border-teal-200 text-teal-800 hover:bg-teal-100' },
+  { grade: 'easy', style: 'bg-blue-50 border-blue-200 text-blue-800 hover:bg-blue-100' },
+];
+
+const ReviewSession: React.FC<Props> = ({ cards, onGrade, onFinish, onBack, embedded, language, readNativeScript, m }) => {
+  const [queue, setQueue] = useState<DeckCard[]>(cards);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const activeSeconds = useActiveSeconds();
+
+  const current = queue[0];
+
+  const grade = (g: ReviewGrade) => {
+    if (!current) return;
+    const updated = scheduleCard(current, g);
+    onGrade(updated);
+    setReviewedCount(n => n + 1);
+    setRevealed(false);
+    // Failed cards go to the back of the queue and are shown again in this session
+    setQueue(q => (g === 'again' ? [...q.slice(1), updated] : q.slice(1)));
+  };
+
+  const body = !current ? (
+    <div className="text-center pt-10">
+      <div className="inline-flex items-center justify-center w-20 h-20 bg-green-100 rounded-full mb-6 text-green-600 shadow-sm">
+        <Check size={40} />
+      </div>
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">{m.reviewComplete}</h2>
+      <p className="text-gray-600 mb-8">{m.reviewedCards(reviewedCount)}</p>
+      <button
+        onClick={() => onFinish(reviewedCount, activeSeconds())}
+        className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors"
+      >
+        {embedded ? m.continue : m.backToDashboard}
+      </button>
+    </div>
+  ) : (
+    <div className="flex flex-col justify-center">
+      <h2 className="text-xl font-bold text-center mb-6 text-teal-800">
+        {m.reviewLeft(queue.length)}
+      </h2>
+      <div className="bg-white rounded-2xl shadow-lg p-8 text-center min-h-[300px] flex flex-col justify-center relative overflow-hidden">
+        <div className="absolute top-0 left-0 w-2 h-full bg-indigo-500"></div>
+        <h3 className="text-3xl font-bold text-gray-900 mb-2 flex items-center justify-center gap-2">
+          {current.german}
+          <SpeakButton text={current.german} size={22} m={m} />
+        </h3>
+
+        {revealed ? (
+          <>
+            <div className="my-6 space-y-2">
+              <p className="text-gray-600 text-lg italic">
+                "{current.exampleSentence}"
+                <SpeakButton text={current.exampleSentence} size={16} className="align-middle ml-1" m={m} />
+              </p>
+            </div>
+            <div className="border-t border-gray-100 pt-6 mt-4">
+              <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide">{m.meaning}</p>
+              <p className="text-gray-800 mb-2">{current.englishExplanation}</p>
+              <NativeText
+                text={current.nativeTranslation}
+                script={current.nativeScript}
+                language={language}
+                readNativeScript={readNativeScript}
+                className="text-teal-700 font-medium font-serif bg-teal-50 inline-block px-3 py-1 rounded-full"
+                m={m}
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-400 text-sm mt-6">{m.rememberMeaning}</p>
+        )}
+      </div>
+
+      {revealed ? (
+        <div className="mt-8 grid grid-cols-4 gap-2">
+          {GRADES.map(({ grade: g, style }) => (
+            <button
+              key={g}
+              onClick={() => grade(g)}
+              className={`border rounded-xl py-3 font-bold text-sm transition-colors ${style}`}
+            >
+              {m.grades[g]}
+              <span className="block text-xs font-normal opacity-70">{formatInterval(current, g)}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <button
+          onClick={() => setRevealed(true)}
+          className="mt-8 bg-teal-600 text-white w-full py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors"
+        >
+          {m.showAnswer}
+        </button>
+      )}
+    </div>
+  );
+
+  if (embedded) return body;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <div className="bg-white p-4 shadow-sm flex items-center justify-between sticky top-0 z-10">
+        <button aria-label={m.backToDashboard} onClick={() => onBack?.(reviewedCount, activeSeconds())} className="text-gray-500 hover:text-gray-800"><ArrowLeft /></button>
+        <span className="font-bold text-gray-800 flex items-center gap-2"><Layers size={18} /> {m.vocabularyReview}</span>
+        <div className="w-6" /> {/* Spacer */}
+      </div>
+      <div className="flex-1 p-4 max-w-lg mx-auto w-full">
+        {body}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,50 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { speakText, stopAudio, getAudioService, SLOW_RATE } from '../services/audioService';
+import { Messages } from '../services/messages';
+import { Volume2 } from 'lucide-react';
+
+interface Props {
+  text: string;
+  slow?: boolean;
+  size?: number;
+  className?: string;
+  m: Messages;
+}
+
+// Pronounces a German word or sentence with the current audio backend
+const SpeakButton: React.FC<Props> = ({ text, slow, size = 18, className = '', m }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playingRef = useRef(false);
+
+  // Only stop on unmount if this button is the one playing
+  useEffect(() => () => { if (playingRef.current) stopAudio(); }, []);
+
+  if (!getAudioService().isAvailable()) return null;
+
+  const play = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isPlaying) {
+      stopAudio();
+      return;
+    }
+    setIsPlaying(true);
+    playingRef.current = true;
+    await speakText(text, slow ? SLOW_RATE : 1);
+    playingRef.current = false;
+    setIsPlaying(false);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={play}
+      title={m.listen}
+      aria-label={m.listenTo(text)}
+      className={`inline-flex items-center justify-center rounded-full p-1.5 transition-colors ${isPlaying ? 'text-white bg-teal-600' : 'text-teal-600 hover:bg-teal-50'} ${className}`}
+    >
+      <Volume2 size={size} />
+    </button>
+  );
+};
+
+export default SpeakButton;
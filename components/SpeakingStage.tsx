@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SpeakingTask, SpeakingEvaluation, LanguageLevel, NativeLanguage } from '../types';
+import { evaluateSpeaking } from '../services/geminiService';
+import { Messages } from '../services/messages';
+import SpeakButton from './SpeakButton';
+import NativeText from './NativeText';
+import SpeechInput from './SpeechInput';
+import { Loader2, MessageCircle } from 'lucide-react';
+
+interface Props {
+  task: SpeakingTask;
+  level: LanguageLevel;
+  language: NativeLanguage;
+  readNativeScript?: boolean;
+  onEvaluated: (evaluation: SpeakingEvaluation) => void;
+  onContinue: () => void;
+  m: Messages;
+}
+
+const PART_TITLES: Record<SpeakingTask['part'], string> = {
+  1: 'Teil 1 · Gemeinsam etwas planen',
+  2: 'Teil 2 · Ein Thema präsentieren',
+  3: 'Teil 3 · Auf Fragen reagieren'
+};
+
+const SpeakingStage: React.FC<Props> = ({ task, level, language, readNativeScript, onEvaluated, onContinue, m }) => {
+  const [transcript, setTranscript] = useState('');
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [evaluation, setEvaluation] = useState<SpeakingEvaluation | null>(null);
+  const [evaluationFailed, setEvaluationFailed] = useState(false);
+
+  const submit = async () => {
+    setIsEvaluating(true);
+    setEvaluationFailed(false);
+    const result = await evaluateSpeaking(task, transcript, level, language);
+    setIsEvaluating(false);
+    if (result) {
+      setEvaluation(result);
+      onEvaluated(result);
+    } else {
+      setEvaluationFailed(true);
+    }
+  };
+
+  if (evaluation) {
+    return (
+      <div className="pb-20">
+        <div className="bg-white p-6 rounded-xl shadow mb-6 border border-gray-200 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="font-bold text-xl text-teal-800">{m.speakingFeedback}</h3>
+            <span className="text-sm font-semibold bg-teal-50 text-teal-800 px-3 py-1 rounded-full">{evaluation.rating} · {evaluation.score}%</span>
+          </div>
+          {[
+            [m.feedbackGrammar, evaluation.grammar],
+            [m.feedbackVocabulary, evaluation.vocabularyRange],
+            [m.feedbackTask, evaluation.taskFulfilment]
+          ].map(([label, text]) => (
+            <div key={label}>
+              <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">{label}</p>
+              <p className="text-gray-800 mt-1">{text}</p>
+            </div>
+          ))}
+          <div className="bg-orange-50 p-4 rounded-lg border border-orange-100">
+            <p className="text-xs font-bold text-orange-800 uppercase mb-2 flex items-center gap-1">
+              {m.betterAnswer} <SpeakButton text={evaluation.improvedAnswer} size={14} m={m} />
+            </p>
+            <p className="text-gray-900">{evaluation.improvedAnswer}</p>
+            <p className="text-teal-700 text-sm mt-2">
+              <NativeText text={evaluation.improvedAnswerTranslation} script={evaluation.improvedAnswerNativeScript} language={language} readNativeScript={readNativeScript} m={m} />
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onContinue}
+          className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 transition-colors"
+        >
+          {m.continue}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col pb-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 mb-6">
+        <h3 className="font-bold text-gray-900 mb-1 text-lg flex items-center gap-2">
+          <MessageCircle size={20} /> {m.speakingTitle}
+        </h3>
+        <p className="text-xs text-gray-500 mb-3">{PART_TITLES[task.part]}</p>
+        <p className="text-gray-800 mb-4 text-lg">{task.prompt}</p>
+        {task.points.length > 0 && (
+          <div className="bg-orange-50 p-4 rounded-lg border border-orange-100">
+            <p className="text-xs font-bold text-orange-800 uppercase mb-2">{m.talkAbout}</p>
+            <ul className="list-disc list-inside text-gray-800 space-y-1">
+              {task.points.map((p, i) => <li key={i}>{p}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <SpeechInput value={transcript} onChange={setTranscript} disabled={isEvaluating} m={m} />
+
+      {evaluationFailed && (
+        <p className="text-sm text-red-500 mt-3">{m.feedbackFailed}</p>
+      )}
+
+      <div className="mt-6">
+        <button
+          onClick={submit}
+          disabled={transcript.trim().length < 10 || isEvaluating}
+          className="w-full bg-teal-600 disabled:bg-gray-300 text-white py-4 rounded-xl font-bold flex justify-center items-center gap-2 text-lg hover:bg-teal-700 transition-colors"
+        >
+          {isEvaluating ? <Loader2 className="animate-spin" /> : m.getFeedback}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakingStage;
@@ -0,0 +1,74 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { isRecognitionSupported, startRecognition } from '../services/speechRecognitionService';
+import { Messages } from '../services/messages';
+import { Mic, Square } from 'lucide-react';
+
+interface Props {
+  value: string;
+  onChange: (text: string) => void;
+  disabled?: boolean; // Also stops a running recording
+  placeholder?: string;
+  m: Messages;
+}
+
+// Microphone button with speech recognition, plus a textarea for the transcript or a typed answer
+const SpeechInput: React.FC<Props> = ({ value, onChange, disabled, m, placeholder = m.answerPlaceholder }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recognitionError, setRecognitionError] = useState('');
+  const stopRef = useRef<(() => void) | null>(null);
+
+  // Stop the microphone when the input is left or disabled
+  useEffect(() => () => stopRef.current?.(), []);
+  useEffect(() => { if (disabled) stopRef.current?.(); }, [disabled]);
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      stopRef.current?.();
+      return;
+    }
+    setRecognitionError('');
+    const previous = value ? value + ' ' : '';
+    setIsRecording(true);
+    stopRef.current = startRecognition({
+      onTranscript: text => onChange(previous + text),
+      onEnd: () => {
+        setIsRecording(false);
+        stopRef.current = null;
+      },
+      onError: error => setRecognitionError(
+        error === 'not-allowed' ? m.micDenied : m.recognitionStopped
+      )
+    });
+  };
+
+  return (
+    <div className="flex flex-col flex-1">
+      {isRecognitionSupported() && (
+        <button
+          onClick={toggleRecording}
+          disabled={disabled}
+          className={`mx-auto mb-4 w-20 h-20 rounded-full flex items-center justify-center shadow-lg transition-colors disabled:bg-gray-300 ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-teal-600 text-white hover:bg-teal-700'}`}
+          aria-label={isRecording ? m.stopRecording : m.startRecording}
+        >
+          {isRecording ? <Square size={28} /> : <Mic size={32} />}
+        </button>
+      )}
+      <p className="text-center text-sm text-gray-500 mb-4">
+        {!isRecognitionSupported()
+          ? m.noRecognition
+          : isRecording ? m.listeningNow : m.tapMicrophone}
+      </p>
+      {recognitionError && <p className="text-center text-sm text-orange-700 mb-4">{recognitionError}</p>}
+
+      <textarea
+        className="w-full flex-1 border border-gray-300 rounded-xl p-4 text-gray-900 text-base focus:ring-2 focus:ring-teal-500 focus:border-transparent resize-none min-h-[150px]"
+        placeholder={placeholder}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+};
+
+export default SpeechInput;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { parseBackup } from '../services/backupService';
+import { AlertTriangle, RefreshCw, Upload } from 'lucide-react';
+
+interface Props {
+  backupKey?: string; // Copy of the unreadable data in the 'backups' store
+  onRestore: (state: AppState) => void;
+  onStartOver: () => void;
+}
+
+// Shown instead of the onboarding when the saved data could not be read, so nothing overwrites it
+// before the learner decides. The texts stay English: the chosen app language is part of the unreadable data.
+const StorageRecovery: React.FC<Props> = ({ backupKey, onRestore, onStartOver }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    const { backup, error } = parseBackup(await file.text());
+    if (backup) onRestore(backup.state);
+    else setError(error || 'The backup could not be read.');
+  };
+
+  const startOver = () => {
+    if (confirm("Start over with a new profile? Your saved progress will be deleted.")) onStartOver();
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-6 bg-white rounded-xl shadow-sm mt-10 space-y-5">
+      <div>
+        <h1 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <AlertTriangle className="text-amber-500" size={22} /> Your saved data could not be read
+        </h1>
+        <p className="text-sm text-gray-600 mt-2">
+          Nothing has been changed yet. It may help to close other tabs of the app and try again.
+          {backupKey && ` A copy of the data was kept (${backupKey}).`}
+        </p>
+      </div>
+
+      <button
+        onClick={() => window.location.reload()}
+        className="w-full bg-teal-600 text-white py-2.5 rounded-lg font-medium hover:bg-teal-700 flex items-center justify-center gap-2"
+      >
+        <RefreshCw size={16} /> Try again
+      </button>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 flex items-center gap-2 mb-2">
+          <Upload size={16} /> Restore from a backup file
+        </p>
+        <input
+          type="file"
+          accept="application/json,.json"
+          aria-label="Backup file"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-indigo-50 file:text-indigo-700 file:font-medium"
+        />
+        {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+      </div>
+
+      <button onClick={startOver} className="w-full text-sm text-gray-500 hover:text-red-600">
+        Start over with a new profile
+      </button>
+    </div>
+  );
+};
+
+export default StorageRecovery;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { NativeLanguage, WritingEvaluation, WRITING_CRITERION_MAX } from '../types';
+import {
+  buildCorrectionSegments,
+  FeedbackSegment,
+  WRITING_CRITERIA,
+  writingScorePercent,
+  WRITING_PASS_PERCENT
+} from '../services/writingFeedback';
+import { Messages } from '../services/messages';
+import SpeakButton from './SpeakButton';
+import NativeText from './NativeText';
+
+interface Props {
+  text: string; // What the student wrote
+  evaluation: WritingEvaluation;
+  language: NativeLanguage;
+  readNativeScript?: boolean;
+  m: Messages;
+}
+
+const WritingFeedbackView: React.FC<Props> = ({ text, evaluation, language, readNativeScript, m }) => {
+  const [selectedError, setSelectedError] = useState<number | null>(null);
+  const segments = buildCorrectionSegments(text, evaluation.errors);
+  const errorSegments = segments.filter((s): s is Extract<FeedbackSegment, { kind: 'error' }> => s.kind === 'error');
+  const selected = selectedError !== null ? errorSegments[selectedError] : undefined;
+  const percent = writingScorePercent(evaluation);
+  let errorIndex = 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Score */}
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">{m.goetheScore}</p>
+          <p className={`text-3xl font-bold ${percent >= WRITING_PASS_PERCENT ? 'text-teal-600' : 'text-orange-600'}`}>{percent}%</p>
+        </div>
+        <span className="text-sm font-semibold bg-teal-50 text-teal-800 px-3 py-1 rounded-full">
+          {m.estimatedLevel(evaluation.estimatedLevel)}
+        </span>
+      </div>
+      <div className="space-y-2">
+        {WRITING_CRITERIA.map(c => (
+          <div key={c.key} className="flex items-center gap-3 text-sm">
+            <span className="w-32 text-gray-600">{m.writingCriteria[c.key]}</span>
+            <div className="flex-1 bg-gray-100 rounded-full h-2">
+              <div className="bg-teal-500 h-2 rounded-full" style={{ width: `${(evaluation.scores[c.key] / WRITING_CRITERION_MAX) * 100}%` }}></div>
+            </div>
+            <span className="w-8 text-right font-medium text-gray-800">{evaluation.scores[c.key]}/{WRITING_CRITERION_MAX}</span>
+          </div>
+        ))}
+      </div>
+      {evaluation.summary && <p className="text-gray-700 italic">{evaluation.summary}</p>}
+
+      {/* Inline corrections */}
+      <div>
+        <p className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">
+          {m.yourText(errorSegments.length)}
+        </p>
+        <p className="leading-relaxed text-gray-800 whitespace-pre-wrap bg-gray-50 p-4 rounded-lg border border-gray-100">
+          {segments.map((seg, i) => {
+            if (seg.kind === 'text') return <span key={i}>{seg.text}</span>;
+            const idx = errorIndex++;
+            return (
+              <button
+                key={i}
+                onClick={() => setSelectedError(selectedError === idx ? null : idx)}
+                className={`inline rounded px-0.5 ${selectedError === idx ? 'bg-red-100 ring-1 ring-red-300' : 'hover:bg-red-50'}`}
+              >
+                <span className="line-through decoration-red-500 text-red-700">{seg.text}</span>
+                <span className="text-green-700 font-medium ml-1">{seg.error.correction}</span>
+              </button>
+            );
+          })}
+        </p>
+        {selected && (
+          <div className="mt-3 text-sm text-gray-700 bg-blue-50 p-3 rounded-lg border border-blue-100">
+            <span className="font-bold text-blue-800">{selected.error.topic || m.writingCategories[selected.error.category]}:</span> {selected.error.explanation}
+          </div>
+        )}
+      </div>
+
+      {/* Improved version */}
+      {evaluation.improvedVersion && (
+        <div className="bg-orange-50 p-4 rounded-lg border border-orange-100">
+          <p className="text-xs font-bold text-orange-800 uppercase mb-2 flex items-center gap-1">
+            {m.improvedVersion} <SpeakButton text={evaluation.improvedVersion} size={14} m={m} />
+          </p>
+          <p className="text-gray-900 whitespace-pre-wrap">{evaluation.improvedVersion}</p>
+          <p className="text-teal-700 text-sm mt-2">
+            <NativeText text={evaluation.improvedVersionTranslation} script={evaluation.improvedVersionNativeScript} language={language} readNativeScript={readNativeScript} m={m} />
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WritingFeedbackView;
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+// Seconds spent while `active` and the tab is visible, read with the returned function
+export const useActiveSeconds = (active = true): (() => number) => {
+  const total = useRef(0);
+  const activeSince = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    const start = () => {
+      if (activeSince.current === null && !document.hidden) activeSince.current = Date.now();
+    };
+    const pause = () => {
+      if (activeSince.current === null) return;
+      total.current += (Date.now() - activeSince.current) / 1000;
+      activeSince.current = null;
+    };
+    const handleVisibilityChange = () => (document.hidden ? pause() : start());
+    start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      pause();
+    };
+  }, [active]);
+
+  return () => total.current + (activeSince.current === null ? 0 : (Date.now() - activeSince.current) / 1000);
+};
@@ -0,0 +1,145 @@
+// Text-to-speech abstraction. The UI only talks to an AudioService, so the backend can be
+// swapped (browser synthesis today, an offline engine later) and replaced by a fake in tests.
+
+export interface SpeakOptions {
+  rate?: number; // 1 = normal speed
+  speaker?: string; // Same speaker name -> same voice
+}
+
+export interface AudioService {
+  isAvailable(): boolean;
+  // Resolves when the text has been spoken or playback was stopped
+  speak(text: string, options?: SpeakOptions): Promise<void>;
+  stop(): void;
+}
+
+export const SLOW_RATE = 0.7;
+
+interface SpeakerVoice {
+  voice: SpeechSynthesisVoice | null;
+  pitch: number;
+}
+
+export class BrowserSpeechAudioService implements AudioService {
+  private speakerVoices = new Map<string, SpeakerVoice>();
+  private voicesPromise: Promise<SpeechSynthesisVoice[]> | null = null;
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  // Voices load asynchronously in most browsers, so wait for 'voiceschanged' once
+  private germanVoices(): Promise<SpeechSynthesisVoice[]> {
+    if (!this.voicesPromise) {
+      this.voicesPromise = new Promise<SpeechSynthesisVoice[]>(resolve => {
+        const voices = window.speechSynthesis.getVoices();
+        if (voices.length > 0) return resolve(voices);
+        const done = () => resolve(window.speechSynthesis.getVoices());
+        window.speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+        setTimeout(done, 1500); // Some browsers never fire the event
+      }).then(voices => voices.filter(v => v.lang.toLowerCase().startsWith('de')));
+    }
+    return this.voicesPromise;
+  }
+
+  // Give every speaker a distinct voice. With fewer voices than speakers, vary the pitch instead.
+  private voiceFor(speaker: string, voices: SpeechSynthesisVoice[]): SpeakerVoice {
+    let assigned = this.speakerVoices.get(speaker);
+    if (!assigned) {
+      const i = this.speakerVoices.size;
+      const pitches = [1, 0.8, 1.25, 0.9];
+      assigned = {
+        voice: voices.length > 0 ? voices[i % voices.length] : null,
+        pitch: i < voices.length ? 1 : pitches[i % pitches.length]
+      };
+      this.speakerVoices.set(speaker, assigned);
+    }
+    return assigned;
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!this.isAvailable() || !text.trim()) return;
+    const voices = await this.germanVoices();
+    const voice = this.voiceFor(options.speaker || '', voices);
+
+    return new Promise(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = 'de-DE';
+      if (voice.voice) utterance.voice = voice.voice;
+      utterance.pitch = voice.pitch;
+      utterance.rate = options.rate ?? 1;
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve(); // Also fired on cancel()
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  stop() {
+    if (this.isAvailable()) window.speechSynthesis.cancel();
+  }
+}
+
+// Records everything it is asked to say and finishes immediately
+export class FakeAudioService implements AudioService {
+  spoken: { text: string; options: SpeakOptions }[] = [];
+  stopCount = 0;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    this.spoken.push({ text, options });
+  }
+
+  stop() {
+    this.stopCount++;
+  }
+}
+
+let service: AudioService = new BrowserSpeechAudioService();
+
+export const getAudioService = (): AudioService => service;
+
+export const setAudioService = (next: AudioService) => {
+  service.stop();
+  service = next;
+};
+
+// --- Playback helpers shared by all components ---
+
+let playbackId = 0;
+
+export interface Segment {
+  text: string;
+  speaker?: string;
+}
+
+// Speak segments one after another. Starting a new playback or calling stopAudio() cancels it.
+export const speakSequence = async (
+  segments: Segment[],
+  options: { rate?: number; onSegment?: (index: number) => void } = {}
+): Promise<void> => {
+  stopAudio();
+  const id = ++playbackId;
+  for (let i = 0; i < segments.length; i++) {
+    if (id !== playbackId) return;
+    options.onSegment?.(i);
+    await service.speak(segments[i].text, { rate: options.rate, speaker: segments[i].speaker });
+  }
+  if (id === playbackId) options.onSegment?.(-1);
+};
+
+export const speakText = (text: string, rate?: number): Promise<void> =>
+  speakSequence([{ text }], { rate });
+
+export const stopAudio = () => {
+  playbackId++;
+  service.stop();
+};
+
+// Split German text into sentences, keeping the closing punctuation
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]+["“”»«]?|[^.!?]+$/g) || [])
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
@@ -0,0 +1,133 @@
+import { AppState, DeckCard, WeakPoint } from "../types";
+import { SCHEMA_VERSION, migrateState, validateState } from "./storage";
+import { COURSE_LEVELS } from "./curriculum";
+import { LEVEL_ORDER } from "./checkpointService";
+
+const BACKUP_FORMAT = 'deutsch-coach-backup';
+
+// The exported file. 'schemaVersion' is the AppState version, so older files can be migrated.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  state: AppState;
+}
+
+export interface ParsedBackup {
+  exportedAt: string;
+  state: AppState;
+  issues: string[]; // Entries that were dropped while validating
+}
+
+export interface BackupSummary {
+  name: string;
+  level: string;
+  lessons: number;
+  cards: number;
+  examAttempts: number;
+  weakPoints: number;
+}
+
+export const createBackupFile = (state: AppState, now: Date = new Date()): BackupFile => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: now.toISOString(),
+  state
+});
+
+export const downloadBackup = (state: AppState) => {
+  const file = createBackupFile(state);
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `deutsch-coach-backup-${file.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+// Returns an error message instead of throwing, the text comes from a user-picked file
+export const parseBackup = (text: string): { backup?: ParsedBackup; error?: string } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { error: 'This file is not valid JSON.' };
+  }
+  if (raw?.format !== BACKUP_FORMAT || typeof raw.schemaVersion !== 'number') {
+    return { error: 'This file is not a Deutsch Coach backup.' };
+  }
+  if (raw.schemaVersion > SCHEMA_VERSION) {
+    return { error: 'This backup was made with a newer version of the app. Please update first.' };
+  }
+  try {
+    const { state, issues } = validateState(migrateState(raw.state, raw.schemaVersion));
+    if (!state.profile.name) return { error: 'The backup does not contain a learner profile.' };
+    return { backup: { exportedAt: String(raw.exportedAt || ''), state, issues } };
+  } catch (e) {
+    console.error("Failed to migrate backup", e);
+    return { error: 'The backup could not be read.' };
+  }
+};
+
+export const summarizeState = (state: AppState): BackupSummary => ({
+  name: state.profile.name,
+  level: state.profile.currentLevel,
+  lessons: COURSE_LEVELS.reduce((sum, level) => sum + state.courseProgress[level].completedLessonIds.length, 0),
+  cards: state.vocabularyDeck.length,
+  examAttempts: state.examHistory.length,
+  weakPoints: state.examStats.weakPoints.length
+});
+
+// --- Merging ---
+
+const unionBy = <T>(a: T[], b: T[], key: (item: T) => string, pick: (x: T, y: T) => T = x => x): T[] => {
+  const merged = new Map(a.map(item => [key(item), item]));
+  for (const item of b) {
+    const existing = merged.get(key(item));
+    merged.set(key(item), existing ? pick(existing, item) : item);
+  }
+  return Array.from(merged.values());
+};
+
+const byDate = (x: { date: string }, y: { date: string }) => x.date.localeCompare(y.date);
+
+// The card that was reviewed more often keeps its schedule
+const pickCard = (x: DeckCard, y: DeckCard) => y.history.length > x.history.length ? y : x;
+
+const pickWeakPoint = (x: WeakPoint, y: WeakPoint) => y.lastSeen > x.lastSeen ? y : x;
+
+// Combines two copies of a learner's data: lessons, cards and histories are united,
+// the current profile is kept but moves up to the higher level
+export const mergeStates = (current: AppState, imported: AppState): AppState => {
+  const courseProgress = { ...current.courseProgress };
+  for (const level of COURSE_LEVELS) {
+    courseProgress[level] = {
+      completedLessonIds: Array.from(new Set([
+        ...current.courseProgress[level].completedLessonIds,
+        ...imported.courseProgress[level].completedLessonIds
+      ]))
+    };
+  }
+  const newerStats = imported.examStats.lastSessionDate > current.examStats.lastSessionDate ? imported.examStats : current.examStats;
+
+  return {
+    profile: {
+      ...current.profile,
+      currentLevel: LEVEL_ORDER.indexOf(imported.profile.currentLevel) > LEVEL_ORDER.indexOf(current.profile.currentLevel)
+        ? imported.profile.currentLevel
+        : current.profile.currentLevel
+    },
+    courseProgress,
+    examStats: {
+      ...newerStats,
+      weakPoints: unionBy(current.examStats.weakPoints, imported.examStats.weakPoints, p => p.topic.trim().toLowerCase(), pickWeakPoint)
+    },
+    vocabularyDeck: unionBy(current.vocabularyDeck, imported.vocabularyDeck, c => c.id, pickCard),
+    examHistory: unionBy(current.examHistory, imported.examHistory, a => a.id).sort(byDate),
+    checkpointResults: unionBy(current.checkpointResults, imported.checkpointResults, r => `${r.level}-${r.date}`).sort(byDate),
+    levelHistory: unionBy(current.levelHistory, imported.levelHistory, c => `${c.to}-${c.date}`).sort(byDate),
+    studyLog: unionBy(current.studyLog, imported.studyLog, s => s.id).sort(byDate)
+  };
+};
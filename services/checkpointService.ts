@@ -0,0 +1,69 @@
+import { AppState, CheckpointQuestion, CheckpointResult, LanguageLevel, Mistake } from "../types";
+import { CURRICULUM, completedCount } from "./curriculum";
+import { PASS_POINTS } from "./examService";
+import { recordMistakes } from "./weakPointService";
+
+export const LEVEL_ORDER: LanguageLevel[] = ['A0', 'A1', 'A2', 'B1'];
+
+// Share of a level's lessons that must be completed before its checkpoint test unlocks
+const CHECKPOINT_UNLOCK_RATIO = 0.8;
+
+export type JourneyStatus = 'locked' | 'unlocked' | 'passed';
+
+export const nextLevel = (level: LanguageLevel): LanguageLevel | null =>
+  LEVEL_ORDER[LEVEL_ORDER.indexOf(level) + 1] || null;
+
+export const lessonsToUnlock = (level: LanguageLevel): number =>
+  Math.ceil(CURRICULUM[level].length * CHECKPOINT_UNLOCK_RATIO);
+
+export const isCheckpointUnlocked = (state: AppState, level: LanguageLevel): boolean =>
+  completedCount(state.courseProgress, level) >= lessonsToUnlock(level);
+
+export const latestCheckpoint = (state: AppState, level: LanguageLevel): CheckpointResult | undefined =>
+  [...state.checkpointResults].reverse().find(r => r.level === level);
+
+// Levels below the current one count as passed (by checkpoint or placement)
+export const journeyStatus = (state: AppState, level: LanguageLevel): JourneyStatus => {
+  if (state.checkpointResults.some(r => r.level === level && r.passed)) return 'passed';
+  const diff = LEVEL_ORDER.indexOf(level) - LEVEL_ORDER.indexOf(state.profile.currentLevel);
+  if (diff < 0) return 'passed';
+  return diff === 0 ? 'unlocked' : 'locked';
+};
+
+export const buildCheckpointResult = (
+  level: LanguageLevel,
+  questions: CheckpointQuestion[],
+  answers: Record<number, number>,
+  now: Date = new Date()
+): { result: CheckpointResult; mistakes: Mistake[] } => {
+  const wrong = questions.filter((q, i) => answers[i] !== q.correctAnswer);
+  const percentage = questions.length > 0 ? Math.round(((questions.length - wrong.length) / questions.length) * 100) : 0;
+  const passed = percentage >= PASS_POINTS;
+  const wrongLessonIds = new Set(wrong.map(q => q.lessonId));
+
+  return {
+    result: {
+      level,
+      date: now.toISOString(),
+      percentage,
+      passed,
+      // Curriculum order, so the plan follows the course
+      remediationLessonIds: passed ? [] : CURRICULUM[level].filter(l => wrongLessonIds.has(l.id)).map(l => l.id)
+    },
+    mistakes: wrong.map(q => ({ topic: q.topic || level, skill: 'grammar' }))
+  };
+};
+
+// Promotes the learner after a passed test; B1 stays B1 (target reached)
+export const applyCheckpointResult = (state: AppState, result: CheckpointResult, mistakes: Mistake[]): AppState => {
+  const promoted = result.passed && state.profile.currentLevel === result.level ? nextLevel(result.level) : null;
+  return {
+    ...state,
+    profile: promoted ? { ...state.profile, currentLevel: promoted } : state.profile,
+    examStats: { ...state.examStats, weakPoints: recordMistakes(state.examStats.weakPoints, mistakes) },
+    checkpointResults: [...state.checkpointResults, result],
+    levelHistory: promoted
+      ? [...state.levelHistory, { date: result.date, from: result.level, to: promoted, reason: 'checkpoint' }]
+      : state.levelHistory
+  };
+};
@@ -0,0 +1,117 @@
+import { LanguageLevel, CourseProgress, CurriculumLesson, ExamModule } from "../types";
+
+export const COURSE_LEVELS: LanguageLevel[] = ['A0', 'A1', 'A2', 'B1'];
+
+const ALL_SKILLS: ExamModule[] = ['lesen', 'hoeren', 'schreiben', 'sprechen'];
+
+type LessonSpec = Omit<CurriculumLesson, 'id' | 'level'>;
+
+const buildLevel = (level: LanguageLevel, specs: LessonSpec[]): CurriculumLesson[] =>
+  specs.map((spec, i) => ({ id: `${level.toLowerCase()}-${String(i + 1).padStart(2, '0')}`, level, ...spec }));
+
+// A0 lays the foundations (sounds, letters, first phrases). From A1 on, the lesson order
+// follows the Goethe-Zertifikat A1/A2/B1 topic and grammar lists.
+export const CURRICULUM: Record<LanguageLevel, CurriculumLesson[]> = {
+  A0: buildLevel('A0', [
+    { title: 'Das Alphabet', goal: 'Can say the German alphabet and spell their name', grammar: 'Buchstaben, Buchstabieren', vocabulary: 'Letters, names', skills: ['hoeren', 'sprechen'] },
+    { title: 'Umlaute und ß', goal: 'Can hear and pronounce ä, ö, ü and ß', grammar: 'Aussprache: Umlaute, ß', vocabulary: 'Short everyday words with umlauts', skills: ['hoeren', 'sprechen'] },
+    { title: 'Besondere Laute', goal: 'Can pronounce ch, sch, ei/ie, w and z correctly', grammar: 'Aussprache: ch, sch, ei, ie, w, z', vocabulary: 'Short everyday words', skills: ['hoeren', 'sprechen'] },
+    { title: 'Hallo und Tschüss', goal: 'Can greet and say goodbye at different times of day', grammar: 'Feste Wendungen: Guten Morgen, Guten Tag, Tschüss', vocabulary: 'Greetings, farewells', skills: ['hoeren', 'sprechen'] },
+    { title: 'Zahlen von 0 bis 20', goal: 'Can count to 20 and understand small numbers', grammar: 'Zahlen 0-20', vocabulary: 'Numbers', skills: ['hoeren', 'lesen'] },
+    { title: 'Zahlen bis 100', goal: 'Can say numbers up to 100, including ages and prices', grammar: 'Zahlen bis 100 (einundzwanzig ...)', vocabulary: 'Numbers, age, prices', skills: ['hoeren', 'sprechen'] },
+    { title: 'Bitte und Danke', goal: 'Can use polite everyday phrases', grammar: 'Feste Wendungen: bitte, danke, Entschuldigung', vocabulary: 'Politeness phrases', skills: ['hoeren', 'sprechen'] },
+    { title: 'Ich heiße ...', goal: 'Can say their name and where they come from in one sentence each', grammar: 'ich heiße, ich komme aus, ich bin', vocabulary: 'Names, countries', skills: ALL_SKILLS }
+  ]),
+  A1: buildLevel('A1', [
+    { title: 'Hallo! Ich bin ...', goal: 'Can greet people and introduce themselves', grammar: 'Personalpronomen, sein und heißen', vocabulary: 'Greetings, names, countries', skills: ['hoeren', 'sprechen'] },
+    { title: 'Woher kommst du?', goal: 'Can say where they come from and which languages they speak', grammar: 'Regelmäßige Verben im Präsens, W-Fragen', vocabulary: 'Countries, languages, cities', skills: ['hoeren', 'sprechen'] },
+    { title: 'Zahlen und Kontakte', goal: 'Can give a phone number, age and address', grammar: 'Zahlen bis 1000, Ja/Nein-Fragen', vocabulary: 'Numbers, address, contact details', skills: ['hoeren', 'schreiben'] },
+    { title: 'Meine Familie', goal: 'Can talk about family members', grammar: 'Possessivartikel mein/dein, haben', vocabulary: 'Family', skills: ['lesen', 'sprechen'] },
+    { title: 'Essen und Trinken', goal: 'Can say what they like to eat and order in a café', grammar: 'Nominativ und Akkusativ, unbestimmter Artikel', vocabulary: 'Food, drinks, café', skills: ['hoeren', 'sprechen'] },
+    { title: 'Einkaufen', goal: 'Can ask for prices and buy things in a shop', grammar: 'Akkusativ, kein/keine, Plural', vocabulary: 'Shopping, groceries, prices', skills: ['hoeren', 'lesen'] },
+    { title: 'Meine Wohnung', goal: 'Can describe their flat and furniture', grammar: 'Bestimmter Artikel, Adjektive nach sein', vocabulary: 'Rooms, furniture, colours', skills: ['lesen', 'schreiben'] },
+    { title: 'Der Tagesablauf', goal: 'Can describe their daily routine and tell the time', grammar: 'Trennbare Verben, Uhrzeit, Satzklammer', vocabulary: 'Daily routine, times of day', skills: ['lesen', 'sprechen'] },
+    { title: 'Freizeit und Hobbys', goal: 'Can talk about hobbies and make plans with friends', grammar: 'Modalverben können und wollen', vocabulary: 'Hobbies, sports, weekdays', skills: ['hoeren', 'sprechen'] },
+    { title: 'Termine machen', goal: 'Can make, accept and cancel appointments', grammar: 'Temporale Präpositionen am/um/im', vocabulary: 'Appointments, months, dates', skills: ['hoeren', 'schreiben'] },
+    { title: 'In der Stadt', goal: 'Can ask for and give directions', grammar: 'Imperativ, Präpositionen mit Dativ (Ortsangaben)', vocabulary: 'Places in town, transport', skills: ['hoeren', 'lesen'] },
+    { title: 'Beim Arzt', goal: 'Can describe symptoms and understand simple advice', grammar: 'Modalverben müssen und dürfen', vocabulary: 'Body, illness, doctor', skills: ['hoeren', 'sprechen'] },
+    { title: 'Kleidung und Wetter', goal: 'Can talk about clothes and the weather', grammar: 'Personalpronomen im Akkusativ, Komparativ gern/lieber', vocabulary: 'Clothes, weather, seasons', skills: ['lesen', 'sprechen'] },
+    { title: 'Was hast du gemacht?', goal: 'Can tell what they did at the weekend', grammar: 'Perfekt mit haben und sein', vocabulary: 'Weekend activities, past time expressions', skills: ALL_SKILLS }
+  ]),
+  A2: buildLevel('A2', [
+    { title: 'Kennenlernen', goal: 'Can talk about their background and life so far', grammar: 'Perfekt (Wiederholung), Präteritum von sein und haben', vocabulary: 'Biography, life events', skills: ['sprechen', 'schreiben'] },
+    { title: 'Wohnen und Nachbarn', goal: 'Can describe their living situation and talk to neighbours', grammar: 'Wechselpräpositionen, stellen/stehen, legen/liegen', vocabulary: 'Housing, neighbourhood', skills: ['lesen', 'hoeren'] },
+    { title: 'Arbeit und Beruf', goal: 'Can talk about their job and working day', grammar: 'Nebensätze mit weil', vocabulary: 'Professions, workplace', skills: ['lesen', 'sprechen'] },
+    { title: 'Feste und Geschenke', goal: 'Can invite people, congratulate and talk about presents', grammar: 'Dativ als indirektes Objekt, Verben mit Dativ', vocabulary: 'Celebrations, presents, invitations', skills: ['schreiben', 'sprechen'] },
+    { title: 'Gesund leben', goal: 'Can give advice about health and habits', grammar: 'Nebensätze mit wenn, Modalverb sollen', vocabulary: 'Health, sport, nutrition', skills: ['hoeren', 'sprechen'] },
+    { title: 'Reisen und Verkehr', goal: 'Can plan a trip and buy tickets', grammar: 'Lokale Präpositionen (nach, in, zu), Präteritum der Modalverben', vocabulary: 'Travel, train, hotel', skills: ['hoeren', 'lesen'] },
+    { title: 'Einkaufen und Mode', goal: 'Can compare products and give opinions on clothes', grammar: 'Adjektivdeklination nach bestimmtem Artikel', vocabulary: 'Fashion, shopping, materials', skills: ['lesen', 'sprechen'] },
+    { title: 'Medien im Alltag', goal: 'Can talk about how they use media and technology', grammar: 'Nebensätze mit dass', vocabulary: 'Media, internet, devices', skills: ['lesen', 'schreiben'] },
+    { title: 'Schule und Ausbildung', goal: 'Can talk about school and training', grammar: 'Präteritum regelmäßiger Verben, Possessivartikel im Dativ', vocabulary: 'School, education, subjects', skills: ['lesen', 'hoeren'] },
+    { title: 'Gefühle und Beziehungen', goal: 'Can talk about feelings and relationships', grammar: 'Reflexive Verben', vocabulary: 'Feelings, friendship, partnership', skills: ['sprechen', 'schreiben'] },
+    { title: 'Dienstleistungen', goal: 'Can deal with services at the bank, post office and on the phone', grammar: 'Indirekte Fragen mit ob und W-Wort', vocabulary: 'Bank, post office, services', skills: ['hoeren', 'sprechen'] },
+    { title: 'Natur und Umwelt', goal: 'Can talk about the environment and the weather', grammar: 'Komparativ und Superlativ', vocabulary: 'Nature, environment, animals', skills: ['lesen', 'sprechen'] },
+    { title: 'Essen gehen', goal: 'Can reserve a table, order and complain in a restaurant', grammar: 'Adjektivdeklination nach unbestimmtem Artikel', vocabulary: 'Restaurant, dishes, cooking', skills: ['hoeren', 'sprechen'] },
+    { title: 'Pläne und Wünsche', goal: 'Can talk about plans and wishes for the future', grammar: 'Konjunktiv II: würde, hätte, wäre', vocabulary: 'Future plans, wishes', skills: ALL_SKILLS }
+  ]),
+  B1: buildLevel('B1', [
+    { title: 'Lebenswege', goal: 'Can tell a longer story about important life events', grammar: 'Präteritum, Plusquamperfekt', vocabulary: 'Biography, life stages', skills: ['lesen', 'sprechen'] },
+    { title: 'Wohnen in der Stadt und auf dem Land', goal: 'Can compare places to live and give reasons', grammar: 'Nebensätze mit obwohl, trotzdem', vocabulary: 'City, countryside, housing', skills: ['lesen', 'sprechen'] },
+    { title: 'Arbeitswelt', goal: 'Can understand job ads and write an application', grammar: 'Relativsätze (Nominativ, Akkusativ, Dativ)', vocabulary: 'Job search, application, contracts', skills: ['lesen', 'schreiben'] },
+    { title: 'Konsum und Werbung', goal: 'Can discuss advertising and consumer behaviour', grammar: 'Adjektivdeklination (alle Artikel), n-Deklination', vocabulary: 'Advertising, shopping habits', skills: ['lesen', 'hoeren'] },
+    { title: 'Gesundheit und Ernährung', goal: 'Can give and justify advice about a healthy lifestyle', grammar: 'Konjunktiv II für Ratschläge (sollte, könnte)', vocabulary: 'Health, nutrition, fitness', skills: ['hoeren', 'sprechen'] },
+    { title: 'Reisen und Mobilität', goal: 'Can report on travel experiences and solve problems on the road', grammar: 'Temporale Nebensätze mit als, wenn, während', vocabulary: 'Travel, transport, holidays', skills: ['hoeren', 'schreiben'] },
+    { title: 'Medien und Kommunikation', goal: 'Can discuss the pros and cons of social media', grammar: 'Passiv Präsens und Präteritum', vocabulary: 'Media, social networks', skills: ['lesen', 'sprechen'] },
+    { title: 'Bildung und Lernen', goal: 'Can talk about learning experiences and education systems', grammar: 'Infinitivsätze mit zu, um ... zu, damit', vocabulary: 'School, university, courses', skills: ['lesen', 'schreiben'] },
+    { title: 'Zusammenleben', goal: 'Can discuss rules, conflicts and solutions in everyday life', grammar: 'Verben mit Präpositionen, da- und wo-Wörter', vocabulary: 'Neighbours, rules, conflicts', skills: ['hoeren', 'sprechen'] },
+    { title: 'Umwelt und Klima', goal: 'Can express opinions on environmental topics', grammar: 'Zweiteilige Konnektoren (nicht nur ... sondern auch, entweder ... oder)', vocabulary: 'Environment, climate, recycling', skills: ['lesen', 'schreiben'] },
+    { title: 'Kultur und Freizeit', goal: 'Can recommend events and write about cultural experiences', grammar: 'Genitiv, Präpositionen mit Genitiv (wegen, trotz)', vocabulary: 'Culture, events, leisure', skills: ['hoeren', 'schreiben'] },
+    { title: 'Behörden und Formulare', goal: 'Can handle official matters and formal letters', grammar: 'Passiv mit Modalverben, formelle Briefe', vocabulary: 'Authorities, forms, documents', skills: ['lesen', 'schreiben'] },
+    { title: 'Meinungen und Diskussionen', goal: 'Can take part in a discussion and plan something together', grammar: 'Redemittel für Meinung und Zustimmung, Konjunktiv II Vergangenheit', vocabulary: 'Opinions, agreement, disagreement', skills: ['hoeren', 'sprechen'] },
+    { title: 'Eine Präsentation halten', goal: 'Can give a structured presentation on an everyday topic', grammar: 'Textstruktur und Konnektoren (zuerst, außerdem, zum Schluss)', vocabulary: 'Presentations, home country comparisons', skills: ALL_SKILLS }
+  ])
+};
+
+// First lesson of the level that is not completed yet (lessons can be repeated, so gaps are possible)
+const completedIds = (progress: CourseProgress, level: LanguageLevel): string[] =>
+  progress[level]?.completedLessonIds || [];
+
+export const findLesson = (id: string): CurriculumLesson | undefined =>
+  COURSE_LEVELS.map(level => CURRICULUM[level].find(lesson => lesson.id === id)).find(Boolean);
+
+export const getNextLesson = (progress: CourseProgress, level: LanguageLevel): CurriculumLesson | undefined => {
+  const done = new Set(completedIds(progress, level));
+  return CURRICULUM[level].find(lesson => !done.has(lesson.id));
+};
+
+export const getUpcomingLessons = (progress: CourseProgress, level: LanguageLevel, count: number): CurriculumLesson[] => {
+  const done = new Set(completedIds(progress, level));
+  return CURRICULUM[level].filter(lesson => !done.has(lesson.id)).slice(0, count);
+};
+
+export const completedCount = (progress: CourseProgress, level: LanguageLevel): number => {
+  const done = new Set(completedIds(progress, level));
+  return CURRICULUM[level].filter(lesson => done.has(lesson.id)).length;
+};
+
+export const markLessonCompleted = (progress: CourseProgress, lesson: CurriculumLesson): CourseProgress => {
+  const ids = completedIds(progress, lesson.level);
+  if (ids.includes(lesson.id)) return progress;
+  return { ...progress, [lesson.level]: { completedLessonIds: [...ids, lesson.id] } };
+};
+
+// Saved states before the curriculum only had a lesson counter per level (and no A0).
+// The counter is mapped onto the first lessons of the level, missing levels start empty.
+export const migrateCourseProgress = (raw: any): CourseProgress => {
+  const progress = {} as CourseProgress;
+  for (const level of COURSE_LEVELS) {
+    const entry = raw?.[level];
+    if (Array.isArray(entry?.completedLessonIds)) {
+      progress[level] = { completedLessonIds: entry.completedLessonIds.filter((id: unknown) => typeof id === 'string') };
+    } else {
+      const count = typeof entry?.lessonsDone === 'number' ? entry.lessonsDone : 0;
+      progress[level] = { completedLessonIds: CURRICULUM[level].slice(0, count).map(lesson => lesson.id) };
+    }
+  }
+  return progress;
+};
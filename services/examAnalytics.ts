@@ -0,0 +1,112 @@
+import { ExamAttempt, ExamModule, ExamPartFormat } from "../types";
+import { EXAM_MODULE_ORDER, PASS_POINTS } from "./examService";
+
+// Older attempts count less: each step back in history weighs this much of the next one
+const RECENCY_DECAY = 0.7;
+// Attempts used for the prediction
+const PREDICTION_WINDOW = 5;
+// Predictions this close to the pass mark are shown as borderline
+const BORDERLINE_MARGIN = 5;
+
+export type PredictionStatus = 'pass' | 'borderline' | 'fail';
+
+export interface ModulePrediction {
+  module: ExamModule;
+  attempts: number;
+  predicted: number; // 0-100
+  trend: number; // Percentage points per attempt, positive = improving
+  status: PredictionStatus;
+}
+
+export interface FormatStats {
+  format: ExamPartFormat;
+  answered: number;
+  accuracy: number; // 0-100
+  avgSeconds: number | null; // Only questions with a recorded time
+}
+
+export const FORMAT_LABELS: Record<ExamPartFormat, string> = {
+  true_false: 'Richtig/Falsch',
+  multiple_choice: 'Multiple choice',
+  matching: 'Matching',
+  writing: 'Writing',
+  speaking: 'Speaking'
+};
+
+export const attemptsForModule = (history: ExamAttempt[], module: ExamModule): ExamAttempt[] =>
+  history.filter(a => a.module === module);
+
+// Least-squares slope over the recent attempts
+const slope = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((s, v) => s + v, 0) / n;
+  let num = 0;
+  let den = 0;
+  values.forEach((v, x) => {
+    num += (x - meanX) * (v - meanY);
+    den += (x - meanX) * (x - meanX);
+  });
+  return num / den;
+};
+
+// Recency-weighted average of the latest attempts, compared to the 60% pass mark
+export const predictModule = (history: ExamAttempt[], module: ExamModule): ModulePrediction | null => {
+  const recent = attemptsForModule(history, module).slice(-PREDICTION_WINDOW);
+  if (recent.length === 0) return null;
+
+  let weighted = 0;
+  let totalWeight = 0;
+  recent.forEach((a, i) => {
+    const weight = Math.pow(RECENCY_DECAY, recent.length - 1 - i);
+    weighted += a.percentage * weight;
+    totalWeight += weight;
+  });
+  const predicted = Math.round(weighted / totalWeight);
+
+  return {
+    module,
+    attempts: attemptsForModule(history, module).length,
+    predicted,
+    trend: Math.round(slope(recent.map(a => a.percentage)) * 10) / 10,
+    status: predicted >= PASS_POINTS + BORDERLINE_MARGIN ? 'pass' : predicted >= PASS_POINTS ? 'borderline' : 'fail'
+  };
+};
+
+export const predictAllModules = (history: ExamAttempt[]): Partial<Record<ExamModule, ModulePrediction>> => {
+  const predictions: Partial<Record<ExamModule, ModulePrediction>> = {};
+  for (const module of EXAM_MODULE_ORDER) {
+    const prediction = predictModule(history, module);
+    if (prediction) predictions[module] = prediction;
+  }
+  return predictions;
+};
+
+// Accuracy and time per question, grouped by question type
+export const statsByFormat = (history: ExamAttempt[]): FormatStats[] => {
+  const groups = new Map<ExamPartFormat, { answered: number; correct: number; seconds: number; timed: number }>();
+  for (const attempt of history) {
+    for (const q of attempt.questions) {
+      const g = groups.get(q.format) || { answered: 0, correct: 0, seconds: 0, timed: 0 };
+      g.answered += 1;
+      if (q.correct) g.correct += 1;
+      if (q.timeSeconds > 0) {
+        g.seconds += q.timeSeconds;
+        g.timed += 1;
+      }
+      groups.set(q.format, g);
+    }
+  }
+  return (Object.keys(FORMAT_LABELS) as ExamPartFormat[])
+    .filter(format => groups.has(format))
+    .map(format => {
+      const g = groups.get(format)!;
+      return {
+        format,
+        answered: g.answered,
+        accuracy: Math.round((g.correct / g.answered) * 100),
+        avgSeconds: g.timed > 0 ? Math.round(g.seconds / g.timed) : null
+      };
+    });
+};
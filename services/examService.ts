@@ -0,0 +1,281 @@
+import {
+  ExamAttempt,
+  ExamModule,
+  ExamPart,
+  ExamPartResult,
+  ExamPartSpec,
+  LessonContent,
+  Mistake,
+  QuestionResult,
+  QuizQuestion,
+  SpeakingEvaluation,
+  WritingEvaluation
+} from "../types";
+import { writingScorePercent } from "./writingFeedback";
+
+// Structure of the Goethe-Zertifikat B1 (version since 2019).
+// Lesen and Hören have 30 items each, scaled to 100 points.
+const ITEM_POINTS = 100 / 30;
+
+export const PASS_POINTS = 60;
+
+export interface ExamModuleInfo {
+  title: string;
+  minutes: number;
+  parts: ExamPartSpec[];
+}
+
+export const EXAM_MODULES: Record<ExamModule, ExamModuleInfo> = {
+  lesen: {
+    title: 'Lesen',
+    minutes: 65,
+    parts: [
+      {
+        module: 'lesen', part: 1, title: 'Lesen Teil 1', format: 'true_false', itemCount: 6, maxPoints: 6 * ITEM_POINTS,
+        instructions: 'Lesen Sie den Text und die Aufgaben. Wählen Sie: Sind die Aussagen richtig oder falsch?',
+        generation: 'One personal blog post (about 250 words) in "txt". 6 statements about it in "it", "ans" 0 = richtig, 1 = falsch.'
+      },
+      {
+        module: 'lesen', part: 2, title: 'Lesen Teil 2', format: 'multiple_choice', itemCount: 6, maxPoints: 6 * ITEM_POINTS,
+        instructions: 'Lesen Sie die Texte und die Aufgaben. Wählen Sie die richtige Lösung a, b oder c.',
+        generation: 'Two short newspaper articles (about 150 words each) in "txt". 6 questions in "it" (3 per article, in order), each with EXACTLY 3 options.'
+      },
+      {
+        module: 'lesen', part: 3, title: 'Lesen Teil 3', format: 'matching', itemCount: 7, maxPoints: 7 * ITEM_POINTS,
+        instructions: 'Lesen Sie die Situationen und die Anzeigen. Welche Anzeige passt zu welcher Person? Sie können jede Anzeige nur einmal wählen. Für eine Situation gibt es keine passende Anzeige (0).',
+        generation: '10 short classified ads (max 40 words each) in "txt". 7 situations of people looking for something in "it", "ans" is the index of the matching ad (0-9), or 10 if no ad fits (exactly one situation).'
+      },
+      {
+        module: 'lesen', part: 4, title: 'Lesen Teil 4', format: 'true_false', itemCount: 7, maxPoints: 7 * ITEM_POINTS,
+        instructions: 'Lesen Sie die Texte. Wählen Sie: Ist die Person für das Thema? Ja oder Nein?',
+        generation: 'One discussion question as the first "txt" entry, then 7 short reader comments (about 60 words each, signed with a name and age) as further "txt" entries. 7 items in "it", "pr" is the name of the commenter, "ans" 0 = ja (in favour), 1 = nein.'
+      },
+      {
+        module: 'lesen', part: 5, title: 'Lesen Teil 5', format: 'multiple_choice', itemCount: 4, maxPoints: 4 * ITEM_POINTS,
+        instructions: 'Lesen Sie die Aufgaben und den Text dazu. Wählen Sie die richtige Lösung a, b oder c.',
+        generation: 'One text with rules or instructions (e.g. a house or course regulation, about 200 words) in "txt". 4 questions in "it", each with EXACTLY 3 options.'
+      },
+    ]
+  },
+  hoeren: {
+    title: 'Hören',
+    minutes: 40,
+    parts: [
+      {
+        module: 'hoeren', part: 1, title: 'Hören Teil 1', format: 'multiple_choice', itemCount: 10, maxPoints: 10 * ITEM_POINTS, plays: 2,
+        instructions: 'Sie hören fünf kurze Texte. Sie hören jeden Text zweimal. Zu jedem Text lösen Sie zwei Aufgaben.',
+        generation: '5 short announcements or voicemail messages (about 50 words each) in "dlg", speaker "Text 1" to "Text 5". 10 items in "it", two per text in order: first a statement with "ops" ["Richtig", "Falsch"], then a question with EXACTLY 3 options.'
+      },
+      {
+        module: 'hoeren', part: 2, title: 'Hören Teil 2', format: 'multiple_choice', itemCount: 5, maxPoints: 5 * ITEM_POINTS, plays: 1,
+        instructions: 'Sie hören einen Text. Sie hören den Text einmal. Wählen Sie die richtige Lösung a, b oder c.',
+        generation: 'One monologue of a tour guide or presenter (about 250 words) in "dlg", split into 5-8 lines by the same speaker. 5 questions in "it", each with EXACTLY 3 options.'
+      },
+      {
+        module: 'hoeren', part: 3, title: 'Hören Teil 3', format: 'true_false', itemCount: 7, maxPoints: 7 * ITEM_POINTS, plays: 1,
+        instructions: 'Sie hören ein Gespräch. Sie hören das Gespräch einmal. Sind die Aussagen richtig oder falsch?',
+        generation: 'One informal conversation between two people (12-16 lines) in "dlg". 7 statements in "it", "ans" 0 = richtig, 1 = falsch.'
+      },
+      {
+        module: 'hoeren', part: 4, title: 'Hören Teil 4', format: 'matching', itemCount: 8, maxPoints: 8 * ITEM_POINTS, plays: 2,
+        instructions: 'Sie hören eine Diskussion. Sie hören die Diskussion zweimal. Wer sagt was?',
+        generation: 'A radio discussion between a moderator and two guests (16-20 lines) in "dlg". The three speaker names (moderator first) are the "txt" entries. 8 statements in "it", "ans" is the index (0-2) of the person who says it.'
+      },
+    ]
+  },
+  schreiben: {
+    title: 'Schreiben',
+    minutes: 60,
+    parts: [
+      {
+        module: 'schreiben', part: 1, title: 'Schreiben Aufgabe 1', format: 'writing', itemCount: 0, maxPoints: 40,
+        instructions: 'Schreiben Sie eine E-Mail an einen Freund oder eine Freundin (circa 80 Wörter). Behandeln Sie alle drei Punkte.',
+        generation: '"wr": the situation of a personal email to a friend and EXACTLY 3 content points.'
+      },
+      {
+        module: 'schreiben', part: 2, title: 'Schreiben Aufgabe 2', format: 'writing', itemCount: 0, maxPoints: 40,
+        instructions: 'Sie haben im Fernsehen eine Diskussionssendung gesehen. Im Online-Gästebuch der Sendung finden Sie einen Kommentar. Schreiben Sie Ihre Meinung (circa 80 Wörter).',
+        generation: 'The forum comment (about 50 words) in "txt". "wr": the discussion topic and an empty "pts" list.'
+      },
+      {
+        module: 'schreiben', part: 3, title: 'Schreiben Aufgabe 3', format: 'writing', itemCount: 0, maxPoints: 20,
+        instructions: 'Schreiben Sie eine kurze, formelle Nachricht (circa 40 Wörter). Vergessen Sie nicht die Anrede und den Gruß am Schluss.',
+        generation: '"wr": a situation for a short formal message (e.g. cancelling an appointment with a teacher) and an empty "pts" list.'
+      },
+    ]
+  },
+  sprechen: {
+    title: 'Sprechen',
+    minutes: 15,
+    parts: [
+      {
+        module: 'sprechen', part: 1, title: 'Sprechen Teil 1', format: 'speaking', itemCount: 0, maxPoints: 28,
+        instructions: 'Gemeinsam etwas planen: Sprechen Sie über die Punkte und machen Sie Vorschläge.',
+        generation: '"spk": an activity to plan with a partner (e.g. a farewell party) and EXACTLY 4 points to discuss.'
+      },
+      {
+        module: 'sprechen', part: 2, title: 'Sprechen Teil 2', format: 'speaking', itemCount: 0, maxPoints: 40,
+        instructions: 'Ein Thema präsentieren: Stellen Sie Ihr Thema vor (Einleitung, persönliche Erfahrung, Situation im Heimatland, Vor- und Nachteile, Abschluss).',
+        generation: '"spk": a presentation topic from everyday life as the prompt and the 5 presentation slides as points.'
+      },
+      {
+        module: 'sprechen', part: 3, title: 'Sprechen Teil 3', format: 'speaking', itemCount: 0, maxPoints: 16,
+        instructions: 'Über ein Thema sprechen: Reagieren Sie auf die Fragen zu Ihrer Präsentation.',
+        generation: '"spk": a short question round about the topic (prompt) and EXACTLY 3 questions as points.'
+      },
+    ]
+  },
+};
+
+export const EXAM_MODULE_ORDER: ExamModule[] = ['lesen', 'hoeren', 'schreiben', 'sprechen'];
+
+// Options for items whose choices are fixed by the part format
+export const fixedOptionsFor = (spec: ExamPartSpec, texts: string[]): string[] | null => {
+  if (spec.module === 'lesen' && spec.part === 4) return ['Ja', 'Nein'];
+  if (spec.format === 'true_false') return ['Richtig', 'Falsch'];
+  if (spec.module === 'lesen' && spec.part === 3) {
+    return [...texts.map((_, i) => `Anzeige ${String.fromCharCode(97 + i)}`), '0 (keine Anzeige)'];
+  }
+  if (spec.module === 'hoeren' && spec.part === 4) return texts;
+  return null;
+};
+
+// Hören Teil 1 mixes richtig/falsch and a/b/c items within one part
+export const questionFormatFor = (part: ExamPart, itemIndex: number): ExamPartSpec['format'] =>
+  part.spec.format === 'multiple_choice' && part.items[itemIndex]?.options.length === 2 ? 'true_false' : part.spec.format;
+
+export const scoreObjectivePart = (part: ExamPart, answers: Record<number, number>): ExamPartResult => {
+  const correct = part.items.filter((item, i) => answers[i] === item.correctAnswer).length;
+  const points = part.items.length > 0 ? (correct / part.items.length) * part.spec.maxPoints : 0;
+  return { part: part.spec.part, points, maxPoints: part.spec.maxPoints };
+};
+
+// Points for a writing or speaking part from an evaluation percentage (0-100)
+export const scoreRatedPart = (part: ExamPart, percent: number): ExamPartResult => ({
+  part: part.spec.part,
+  points: (percent / 100) * part.spec.maxPoints,
+  maxPoints: part.spec.maxPoints
+});
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+interface AttemptInput {
+  type: ExamAttempt['type'];
+  module: ExamModule;
+  rawPoints: number;
+  maxPoints: number;
+  durationSeconds: number;
+  parts?: ExamPartResult[];
+  questions: QuestionResult[];
+}
+
+export const buildExamAttempt = (input: AttemptInput, now: Date = new Date()): ExamAttempt => {
+  const percentage = input.maxPoints > 0 ? Math.round((input.rawPoints / input.maxPoints) * 100) : 0;
+  return {
+    id: `${now.getTime()}-${input.module}-${Math.random().toString(36).slice(2, 8)}`,
+    date: now.toISOString(),
+    type: input.type,
+    module: input.module,
+    rawPoints: round1(input.rawPoints),
+    maxPoints: round1(input.maxPoints),
+    percentage,
+    passed: percentage >= PASS_POINTS,
+    durationSeconds: Math.round(input.durationSeconds),
+    parts: (input.parts || []).map(p => ({ ...p, points: round1(p.points), maxPoints: round1(p.maxPoints) })),
+    questions: input.questions
+  };
+};
+
+// Mock exam module on the 100-point scale. Sprechen only has 84 task points in this trainer
+// (pronunciation cannot be rated from a transcript), so all modules are normalized.
+export const buildMockAttempt = (
+  module: ExamModule,
+  parts: ExamPartResult[],
+  questions: QuestionResult[],
+  durationSeconds: number,
+  now: Date = new Date()
+): ExamAttempt =>
+  buildExamAttempt({
+    type: 'mock',
+    module,
+    rawPoints: parts.reduce((sum, p) => sum + p.points, 0),
+    maxPoints: parts.reduce((sum, p) => sum + p.maxPoints, 0),
+    durationSeconds,
+    parts,
+    questions
+  }, now);
+
+export interface PracticeOutcome {
+  content: LessonContent;
+  readingAnswers: Record<number, number>;
+  listeningAnswers: Record<number, number>;
+  answerSeconds: { reading: Record<number, number>; listening: Record<number, number> };
+  stageSeconds: { reading?: number; listening?: number; writing?: number; speaking?: number };
+  writing?: WritingEvaluation;
+  speaking?: SpeakingEvaluation;
+}
+
+const quizQuestions = (questions: QuizQuestion[], answers: Record<number, number>, seconds: Record<number, number>): QuestionResult[] =>
+  questions.map((q, i) => ({ format: 'multiple_choice', correct: answers[i] === q.correctAnswer, timeSeconds: seconds[i] || 0 }));
+
+// One attempt per module covered by an exam practice session
+export const buildPracticeAttempts = (outcome: PracticeOutcome, now: Date = new Date()): ExamAttempt[] => {
+  const { content, stageSeconds } = outcome;
+  const attempts: ExamAttempt[] = [];
+
+  const addQuiz = (module: ExamModule, questions: QuizQuestion[] | undefined, answers: Record<number, number>, seconds: Record<number, number>, duration = 0) => {
+    if (!questions || questions.length === 0 || Object.keys(answers).length === 0) return;
+    const results = quizQuestions(questions, answers, seconds);
+    attempts.push(buildExamAttempt({
+      type: 'practice',
+      module,
+      rawPoints: results.filter(r => r.correct).length,
+      maxPoints: results.length,
+      durationSeconds: duration,
+      questions: results
+    }, now));
+  };
+
+  const addRated = (module: ExamModule, percent: number, duration = 0) => {
+    attempts.push(buildExamAttempt({
+      type: 'practice',
+      module,
+      rawPoints: percent,
+      maxPoints: 100,
+      durationSeconds: duration,
+      questions: [{ format: module === 'schreiben' ? 'writing' : 'speaking', correct: percent >= PASS_POINTS, timeSeconds: duration }]
+    }, now));
+  };
+
+  addQuiz('lesen', content.readingQuestions, outcome.readingAnswers, outcome.answerSeconds.reading, stageSeconds.reading);
+  addQuiz('hoeren', content.listeningQuestions, outcome.listeningAnswers, outcome.answerSeconds.listening, stageSeconds.listening);
+  if (outcome.writing) addRated('schreiben', writingScorePercent(outcome.writing), stageSeconds.writing);
+  if (outcome.speaking) addRated('sprechen', outcome.speaking.score, stageSeconds.speaking);
+  return attempts;
+};
+
+// Wrong objective answers become weak points named after the exam part
+export const mistakesFromExamPart = (part: ExamPart, answers: Record<number, number>): Mistake[] =>
+  part.items
+    .filter((item, i) => answers[i] !== item.correctAnswer)
+    .map(() => ({
+      topic: part.spec.title,
+      skill: part.spec.module === 'hoeren' ? 'listening' : 'reading'
+    }));
+
+// Latest attempt per module, to show which module would fail today
+export const latestModuleResults = (history: ExamAttempt[]): Partial<Record<ExamModule, ExamAttempt>> => {
+  const latest: Partial<Record<ExamModule, ExamAttempt>> = {};
+  for (const attempt of history) latest[attempt.module] = attempt;
+  return latest;
+};
+
+// Short summary for ExamStats.lastScore, e.g. "Lesen 70% · Hören 55%"
+export const formatAttemptsScore = (attempts: ExamAttempt[]): string =>
+  attempts.map(a => `${EXAM_MODULES[a.module].title} ${a.percentage}%`).join(' · ');
+
+export const formatDuration = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
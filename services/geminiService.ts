@@ -1,21 +1,67 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { LessonContent, LanguageLevel } from "../types";
+import { Schema, Type } from "@google/genai";
+import {
+  LessonContent,
+  LanguageLevel,
+  GrammarDrill,
+  ArticleDrill,
+  SpeakingTask,
+  SpeakingEvaluation,
+  SpeakingPart,
+  WritingEvaluation,
+  WritingError,
+  WritingErrorCategory,
+  WRITING_CRITERION_MAX,
+  ExamItem,
+  ExamPart,
+  ExamPartSpec,
+  DialogueLine,
+  CurriculumLesson,
+  CheckpointQuestion,
+  GlossaryEntry,
+  NativeLanguage,
+  PartOfSpeech
+} from "../types";
+import { fixedOptionsFor } from "./examService";
+import { generateJson } from "./llmProviders";
+import { LANGUAGES, nativeScriptOf } from "./languages";
+import { GAP } from "./grammarDrills";
+import {
+  LESSON_SECTIONS,
+  LessonSection,
+  LessonValidation,
+  RawGrammarDrill,
+  RawLesson,
+  RawQuestion,
+  SECTION_FIELDS,
+  fieldsOf,
+  isText,
+  isTextList,
+  mergeSections,
+  validateRawLesson,
+  withoutSections
+} from "./lessonValidation";
 
-// Initialize Gemini
-// NOTE: Process.env.API_KEY must be available in the build environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Translations are requested in Latin script, plus the language's own script where it has one
+const translationRule = (language: NativeLanguage): string => {
+  const { greeting, sentence, script } = LANGUAGES[language];
+  const rule = `Translations must be in ${language} using Latin script (e.g., "${greeting}", "${sentence}").`;
+  return script
+    ? `${rule}\n   Where a ${script.name} field is requested, it holds the same translation in ${script.name} script (e.g., "${script.greeting}", "${script.sentence}").`
+    : rule;
+};
 
-const BASE_INSTRUCTION = `
-You are a private German tutor for a student whose native language is Hindi but speaks English well.
-Goal: Guide her to Goethe-Zertifikat B1.
+// Tutor instruction for the learner's native language
+const baseInstruction = (language: NativeLanguage) => `
+You are a private German tutor for a student whose native language is ${language} but who speaks English well.
+Goal: Guide the student to Goethe-Zertifikat B1.
 Rules:
 1. German text must be correct and natural.
 2. Explanations must be in simple English.
-3. Translations must be in Hindi using Latin script (e.g., "Namaste", "Main ghar ja rahi hoon").
+3. ${translationRule(language)}
 4. Adapt complexity to the requested CEFR level (A0, A1, A2, or B1).
 `;
 
-const JSON_INSTRUCTION = BASE_INSTRUCTION + `
+const jsonInstruction = (language: NativeLanguage) => baseInstruction(language) + `
 5. Output MUST be valid JSON matching the requested schema.
 6. Keep strings concise. English explanations should be short (max 15 words).
 7. ANTI-REPETITION RULE: Do NOT repeat sentences, phrases, or words. Each sentence must be unique.
@@ -25,80 +71,268 @@ const JSON_INSTRUCTION = BASE_INSTRUCTION + `
 11. Do not include markdown code blocks (like \`\`\`json). Just return the raw JSON.
 `;
 
+// How the prompts ask for the translation fields: "Tamil translation in Latin script ("nt") and Tamil script ("nt_s")"
+const translationFields = (language: NativeLanguage, latinField: string, scriptField: string): string => {
+  const script = LANGUAGES[language].script;
+  return `${language} translation in Latin script ("${latinField}")${script ? ` and ${script.name} script ("${scriptField}")` : ''}`;
+};
+
+export const mapRawQuestion = (q: RawQuestion) => ({
+  question: q.qu,
+  options: q.ops,
+  correctAnswer: q.ans,
+  explanation: q.exp,
+  topic: q.tp || undefined
+});
+
+// Model answers other than lessons are checked while mapping: missing text becomes '', broken list items are dropped
+const textOf = (value: unknown): string => isText(value) ? value : '';
+
+const listOf = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const clamp = (value: unknown, max: number): number =>
+  Math.max(0, Math.min(max, Math.round(Number(value) || 0)));
+
+// The gap is always written '___', however many underscores the model used
+const withGap = (text: string) => text.replace(/_{3,}/, GAP);
+
+export const mapRawDrill = (d: RawGrammarDrill): GrammarDrill => {
+  const base = { explanation: d.exp, topic: d.tp || undefined };
+  switch (d.k) {
+    case 'order': return { ...base, kind: 'wordOrder', tokens: d.tok || [], translation: d.tr || '' };
+    case 'article': return { ...base, kind: 'article', noun: d.n || '', answer: (d.ans || '').trim().toLowerCase() as ArticleDrill['answer'] };
+    case 'conj': return { ...base, kind: 'conjugation', verb: d.vb || '', tense: d.tns || 'Präsens', forms: d.f || [] };
+    case 'adj': return { ...base, kind: 'adjectiveEnding', sentence: withGap(d.tx || ''), answer: (d.ans || '').trim().toLowerCase() };
+    default: return { ...base, kind: 'cloze', sentence: withGap(d.tx || ''), answer: (d.ans || '').trim(), hint: d.h || undefined };
+  }
+};
+
 // Helper to map minified JSON back to full Application Types
-const mapRawToLesson = (raw: any): LessonContent => {
+export const mapRawToLesson = (raw: RawLesson, language: NativeLanguage): LessonContent => {
   return {
     topic: raw.t || 'Lesson',
     level: raw.l || 'A1',
-    vocabulary: (raw.voc || []).map((v: any) => ({
+    vocabulary: raw.voc.map(v => ({
       german: v.de,
       englishExplanation: v.en,
-      hindiTranslation: v.hi,
+      nativeTranslation: v.nt,
+      nativeScript: nativeScriptOf(language, v.nt_s),
       exampleSentence: v.ex
     })),
     readingText: raw.txt,
     readingTextTranslation: raw.txt_tr, // Map the new translation field
-    readingQuestions: (raw.q || []).map((q: any) => ({
-      question: q.qu,
-      options: q.ops,
-      correctAnswer: q.ans,
-      explanation: q.exp
-    })),
+    readingQuestions: (raw.q || []).map(mapRawQuestion),
     writingPrompt: raw.wr,
     writingPoints: raw.pts,
-    listeningScenario: raw.lis
+    listeningScenario: raw.lis,
+    listeningDialogue: (raw.dlg || []).map(d => ({
+      speaker: d.sp,
+      text: d.tx
+    })),
+    listeningQuestions: (raw.lq || []).map(mapRawQuestion),
+    grammarDrills: (raw.gd || []).map(mapRawDrill),
+    speakingTask: raw.spk?.pr ? {
+      part: ([1, 2, 3].includes(raw.spk.p) ? raw.spk.p : 3) as SpeakingPart,
+      prompt: raw.spk.pr,
+      points: raw.spk.pts || []
+    } : undefined
   };
 };
 
-// Validate response to prevent loops
-const validateResponse = (raw: any, level: LanguageLevel): boolean => {
-  // Check if txt exists and is not absurdly long
-  if (raw.txt) {
-    const wordCount = raw.txt.split(/\s+/).length;
-    const maxWords = level === 'A0' ? 60 : 150; // Safety margin
-    if (wordCount > maxWords) {
-      console.warn(`Reading text too long: ${wordCount} words (max: ${maxWords})`);
-      return false;
-    }
-    
-    // Check for repetition (same word appears >8 times)
-    const words = raw.txt.toLowerCase().split(/\s+/);
-    const wordFreq: Record<string, number> = {};
-    for (const word of words) {
-      if (word.length > 3) { // Ignore short words like "der", "die"
-        wordFreq[word] = (wordFreq[word] || 0) + 1;
-        if (wordFreq[word] > 8) {
-          console.warn(`Repetition detected: "${word}" appears ${wordFreq[word]} times`);
-          return false;
-        }
+// Descriptions of the three Goethe B1 speaking parts, used in the prompts
+const SPEAKING_PARTS: Record<SpeakingPart, string> = {
+  1: 'Teil 1 "Gemeinsam etwas planen": plan an activity with a friend (e.g. a farewell party). The student says what they suggest for each point.',
+  2: 'Teil 2 "Ein Thema präsentieren": a short presentation on an everyday topic (own experience, situation in the home country, pros and cons, own opinion).',
+  3: 'Teil 3 "Über ein Thema sprechen": react to 3 short questions about a topic from everyday life.'
+};
+
+// Field format of the grammar drills ("gd"), shared by all prompts that ask for them
+const GRAMMAR_DRILL_FORMAT = `Each drill has "k" (kind), "exp" (short English explanation) and "tp" (grammar topic in German), plus by kind:
+       "cloze": "tx" a German sentence with ONE gap written as ___, "ans" the missing word(s), "h" a hint (e.g. the infinitive);
+       "order": "tok" a German sentence split into 4-10 tokens IN THE CORRECT ORDER (punctuation stays on its word), "tr" its English translation;
+       "article": "n" a noun WITHOUT article, "ans" "der", "die" or "das";
+       "conj": "vb" the infinitive, "tns" the tense, "f" EXACTLY 6 forms for ich, du, er/sie/es, wir, ihr, sie/Sie (without the pronoun, e.g. "habe gemacht");
+       "adj": "tx" a German sentence with ___ directly after the adjective stem (e.g. "ein klein___ Haus"), "ans" the ending (e, en, em, er or es).`;
+
+const grammarDrillInstruction = (level: LanguageLevel): string => {
+  if (level === 'A0') return `EXACTLY 4 very simple drills of the kinds "article", "conj" (Präsens of sein, haben or a regular verb) and "cloze". ${GRAMMAR_DRILL_FORMAT}`;
+  if (level === 'B1') return `EXACTLY 5 drills of different kinds. At least one "order" drill with a subordinate clause (verb at the end, e.g. weil, dass, obwohl) and one "adj" drill. ${GRAMMAR_DRILL_FORMAT}`;
+  return `EXACTLY 4 drills of different kinds ("order" drills practise the verb in second position). ${GRAMMAR_DRILL_FORMAT}`;
+};
+
+// Sections every lesson of this kind must have. Exam tasks and free topics cover only some skills.
+const requiredSections = (type: 'daily' | 'exam' | 'topic', lesson?: CurriculumLesson): LessonSection[] =>
+  type === 'daily' || lesson ? LESSON_SECTIONS : ['vocabulary'];
+
+const MAX_REPAIR_ROUNDS = 2;
+
+// Remove markdown code blocks if present (safety check)
+const parseJson = (text: string): unknown =>
+  JSON.parse(text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''));
+
+const LESSON_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    t: { type: Type.STRING, description: "Topic" },
+    l: { type: Type.STRING, description: "Level" },
+    voc: {
+      type: Type.ARRAY,
+      description: "Vocabulary (max 4 items)",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          de: { type: Type.STRING, description: "German Word" },
+          en: { type: Type.STRING, description: "English Explanation" },
+          nt: { type: Type.STRING, description: "Native Language Translation (Latin)" },
+          nt_s: { type: Type.STRING, description: "Native Language Translation (own script)" },
+          ex: { type: Type.STRING, description: "Example Sentence (German)" }
+        },
+        required: ["de", "en", "nt", "ex"]
+      }
+    },
+    txt: { type: Type.STRING, description: "Reading Text (German only)" },
+    txt_tr: { type: Type.STRING, description: "English translation of reading text (for A0)" },
+    q: {
+      type: Type.ARRAY,
+      description: "Questions (max 3)",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          qu: { type: Type.STRING, description: "Question" },
+          ops: { type: Type.ARRAY, items: { type: Type.STRING }, description: "4 Options" },
+          ans: { type: Type.INTEGER, description: "Correct Answer Index (0-3)" },
+          exp: { type: Type.STRING, description: "Explanation" },
+          tp: { type: Type.STRING, description: "Tested Topic (German)" }
+        },
+        required: ["qu", "ops", "ans", "exp"]
+      }
+    },
+    wr: { type: Type.STRING, description: "Writing Prompt Instruction" },
+    pts: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Writing Bullet Points (max 3)" },
+    lis: { type: Type.STRING, description: "Listening Scenario (English, one sentence)" },
+    dlg: {
+      type: Type.ARRAY,
+      description: "Listening Dialogue (German only)",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          sp: { type: Type.STRING, description: "Speaker Name" },
+          tx: { type: Type.STRING, description: "Spoken Line (German)" }
+        },
+        required: ["sp", "tx"]
+      }
+    },
+    lq: {
+      type: Type.ARRAY,
+      description: "Listening Questions (max 3)",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          qu: { type: Type.STRING, description: "Question" },
+          ops: { type: Type.ARRAY, items: { type: Type.STRING }, description: "4 Options" },
+          ans: { type: Type.INTEGER, description: "Correct Answer Index (0-3)" },
+          exp: { type: Type.STRING, description: "Explanation" },
+          tp: { type: Type.STRING, description: "Tested Topic (German)" }
+        },
+        required: ["qu", "ops", "ans", "exp"]
+      }
+    },
+    gd: {
+      type: Type.ARRAY,
+      description: "Grammar Drills",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          k: { type: Type.STRING, description: "Kind", enum: ['cloze', 'order', 'article', 'conj', 'adj'] },
+          tx: { type: Type.STRING, description: "Sentence with ___ gap (German)" },
+          ans: { type: Type.STRING, description: "Answer: missing word(s), article or ending" },
+          h: { type: Type.STRING, description: "Hint" },
+          tok: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Tokens in correct order (German)" },
+          tr: { type: Type.STRING, description: "English translation" },
+          n: { type: Type.STRING, description: "Noun without article" },
+          vb: { type: Type.STRING, description: "Infinitive" },
+          tns: { type: Type.STRING, description: "Tense" },
+          f: { type: Type.ARRAY, items: { type: Type.STRING }, description: "6 forms: ich, du, er/sie/es, wir, ihr, sie/Sie" },
+          exp: { type: Type.STRING, description: "Explanation" },
+          tp: { type: Type.STRING, description: "Grammar Topic (German)" }
+        },
+        required: ["k", "exp"]
       }
+    },
+    spk: {
+      type: Type.OBJECT,
+      description: "Speaking Task",
+      properties: {
+        p: { type: Type.INTEGER, description: "Goethe B1 Speaking Part (1-3)" },
+        pr: { type: Type.STRING, description: "Task (German)" },
+        pts: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Points or Questions (German)" }
+      },
+      required: ["p", "pr", "pts"]
     }
+  },
+  required: ["t", "l", "voc"]
+};
+
+// Schema with only the fields of the given sections
+const sectionSchema = (sections: LessonSection[]): Schema => {
+  const fields = sections.flatMap(section => SECTION_FIELDS[section]);
+  return {
+  type: Type.OBJECT,
+  properties: Object.fromEntries(fields.map(field => [field, LESSON_SCHEMA.properties![field]])),
+  // Translation and scenario stay optional, like in the full schema
+  required: fields.filter(field => field !== 'txt_tr' && field !== 'lis')
+  };
+};
+
+const generateSections = async (originalPrompt: string, validation: LessonValidation, sections: LessonSection[], language: NativeLanguage): Promise<unknown | null> => {
+  const problems = validation.issues
+    .filter(issue => issue.severity === 'error' && sections.includes(issue.section))
+    .map(issue => `${issue.path}: ${issue.message}`);
+  const prompt = `Some parts of a generated lesson were unusable. Create ONLY these fields again: ${sections.flatMap(s => SECTION_FIELDS[s]).join(', ')}.
+  Problems found: ${problems.join('; ')}.
+  Lesson topic: "${validation.lesson.t}".${validation.lesson.txt && !sections.includes('reading') ? `
+  Reading text of the lesson: "${validation.lesson.txt}"` : ''}
+  Follow the original request for these fields:
+  ${originalPrompt}`;
+  try {
+    const text = await generateJson('lesson', {
+      system: jsonInstruction(language),
+      prompt,
+      maxOutputTokens: 4096,
+      temperature: 0.2,
+      topP: 0.8,
+      schema: sectionSchema(sections)
+    });
+    return text ? parseJson(text) : null;
+  } catch (error) {
+    console.error(`Lesson repair failed (${sections.join(', ')}):`, error);
+    return null;
   }
-  
-  // Check if vocabulary exists
-  if (!raw.voc || raw.voc.length === 0) {
-    console.warn("No vocabulary found in response");
-    return false;
-  }
-  
-  return true;
 };
 
 export const generateLesson = async (
   level: LanguageLevel,
   type: 'daily' | 'exam' | 'topic',
-  topic?: string
+  language: NativeLanguage,
+  topic?: string,
+  lesson?: CurriculumLesson
 ): Promise<LessonContent | null> => {
   
   let levelInstruction = level as string;
   let textLength = "EXACTLY 60-80 words. Count carefully. STOP after reaching 80 words.";
   let vocabInstruction = "EXACTLY 4 German words (not more).";
   let textContentInstruction = "Topic: everyday life.";
+  let dialogueLength = "6-8 lines between 2 speakers, max 15 words per line";
+  // Rotate through the three speaking parts
+  const speakingPart = (1 + Math.floor(Math.random() * 3)) as SpeakingPart;
+  let speakingInstruction = `A speaking task for ${SPEAKING_PARTS[speakingPart]} "p": ${speakingPart}, "pr": the task in German, "pts": EXACTLY 3-4 German points or questions to cover.`;
   
   if (level === 'A0') {
     levelInstruction = "A0 (Absolute Beginner).";
     vocabInstruction = "EXACTLY 4 basic words (e.g. Hallo, Name, sein, kommen).";
     textLength = "EXACTLY 20-30 words. 3-4 very short sentences.";
+    dialogueLength = "4 very short lines between 2 speakers, max 6 words per line";
+    speakingInstruction = `A very simple speaking task: "p": 3, "pr": "Stell dich vor." or similar, "pts": EXACTLY 3 simple German questions (e.g. "Wie heißt du?").`;
     // Critical change for A0: Text must use the vocab
     textContentInstruction = "CRITICAL FOR A0: The text must be extremely simple (Subject-Verb-Object). It MUST primarily use the 4 vocabulary words generated above. Do not use complex grammar.";
   }
@@ -108,144 +342,532 @@ export const generateLesson = async (
     prompt = `Create a daily training session for level ${levelInstruction}. 
     The response MUST be valid JSON.
     Include:
-    1. voc: ${vocabInstruction} Each with English explanation (max 15 words), Hindi translation (Latin script), and ONE example sentence.
+    1. voc: ${vocabInstruction} Each with English explanation (max 15 words), ${translationFields(language, 'nt', 'nt_s')}, and ONE example sentence.
     2. txt: A German reading text (${textLength}). ${textContentInstruction}
        CRITICAL: 'txt' must contain ONLY German.
     3. txt_tr: (Optional) Full English translation of the 'txt'. REQUIRED for A0 level.
-    4. q: EXACTLY 2 Multiple Choice questions about the text. Each question has "qu" (string), "ops" (array of 4 strings), "ans" (integer 0-3), "exp" (short explanation).
-    5. wr: A writing task instruction (e.g. "Write a short message..."). Just the scenario.
-    6. pts: EXACTLY 3 bullet points (strings) that must be covered in the writing task.
+    4. q: EXACTLY 2 Multiple Choice questions about the text. Each question has "qu" (string), "ops" (array of 4 strings), "ans" (integer 0-3), "exp" (short explanation), "tp" (the skill or grammar topic tested, in German, e.g. "Detailverstehen", "Perfekt", "Nebensätze mit weil").
+    5. lis: One English sentence describing a listening situation (e.g. "Two friends plan a weekend trip.").
+    6. dlg: A short German dialogue for this situation (${dialogueLength}). Each line has "sp" (speaker first name) and "tx" (German only).
+    7. lq: EXACTLY 2 Multiple Choice questions about the dialogue, same format as "q".
+    8. gd: ${grammarDrillInstruction(level)}
+    9. wr: A writing task instruction (e.g. "Write a short message..."). Just the scenario.
+    10. pts: EXACTLY 3 bullet points (strings) that must be covered in the writing task.
+    11. spk: ${speakingInstruction}
     
     STOP RULE: After generating all fields, stop immediately.`;
   } else if (type === 'exam') {
     prompt = `Create a B1 Exam simulation task. 
-    Focus on ONE skill: Reading or Writing.
-    If Reading: Provide a German text (${textLength}) and EXACTLY 3 multiple choice questions (with 4 string options each).
+    Focus on ONE skill: Reading, Listening, Writing or Speaking.
+    If Reading: Provide a German text (${textLength}) and EXACTLY 3 multiple choice questions (with 4 string options each, and "tp" the tested skill or grammar topic).
+    If Listening: Provide "lis" (one English sentence describing the situation), a German dialogue "dlg" (${dialogueLength}, lines with "sp" and "tx") and EXACTLY 3 multiple choice questions "lq" about it.
     If Writing: Provide a scenario and EXACTLY 3 points that must be covered in an email (approx 80 words).
+    If Speaking: Provide "spk": ${speakingInstruction}
     Level must be strict B1.
     STOP after generating the content.`;
+  } else if (lesson) {
+    prompt = `Create course lesson "${lesson.title}" for level ${levelInstruction}.
+    Communicative goal: ${lesson.goal}.
+    Grammar focus: ${lesson.grammar}. The text, dialogue, questions and writing task must use and practise it.
+    Vocabulary field: ${lesson.vocabulary}.
+    Include:
+    - EXACTLY 4 vocabulary words from the vocabulary field
+    - A short dialogue or text (${textLength}) that shows the communicative goal${level === 'A0' ? `. ${textContentInstruction}
+    - txt_tr: Full English translation of the text (REQUIRED for A0)` : ''}
+    - EXACTLY 2 comprehension questions with multiple choice options (each with "tp", the tested topic)
+    - lis, dlg, lq: A listening situation, a German dialogue (${dialogueLength}) and EXACTLY 2 multiple choice questions about it
+    - gd: Grammar drills practising the grammar focus: ${grammarDrillInstruction(level)}
+    - wr, pts: A writing task where the learner reaches the communicative goal, with EXACTLY 3 points
+    - spk: ${speakingInstruction}
+    STOP after generating all content.`;
   } else {
-    prompt = `Create a lesson about "${topic}" for level ${levelInstruction}.
+    prompt = `Create a lesson about "${topic || 'everyday life'}" for level ${levelInstruction}.
     Include:
     - EXACTLY 4 vocabulary words
-    - A short dialogue or text (${textLength})
-    - EXACTLY 2 comprehension questions with multiple choice options
+    - A short dialogue or text (${textLength})${level === 'A0' ? `. ${textContentInstruction}
+    - txt_tr: Full English translation of the text (REQUIRED for A0)` : ''}
+    - EXACTLY 2 comprehension questions with multiple choice options (each with "tp", the tested topic)
+    - lis, dlg, lq: A listening situation, a German dialogue (${dialogueLength}) and EXACTLY 2 multiple choice questions about it
+    - gd: Grammar drills: ${grammarDrillInstruction(level)}
+    - wr, pts: A writing task on the topic, with EXACTLY 3 points
+    - spk: ${speakingInstruction}
+    If the topic is a grammar point or skill (e.g. "Dativ", "Perfekt"), the text, questions, drills and writing task must practise it.
     STOP after generating all content.`;
   }
 
+  const required = requiredSections(type, lesson);
+  let validation: LessonValidation | null = null;
+
   // Retry logic
-  for (let attempt = 0; attempt < 3; attempt++) {
+  for (let attempt = 0; attempt < 3 && !validation; attempt++) {
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          systemInstruction: JSON_INSTRUCTION,
-          responseMimeType: "application/json",
-          maxOutputTokens: 8192, // Increased to 8192 to prevent truncation during long responses
-          temperature: 0.2, 
-          topP: 0.8,
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              t: { type: Type.STRING, description: "Topic" },
-              l: { type: Type.STRING, description: "Level" },
-              voc: {
-                type: Type.ARRAY,
-                description: "Vocabulary (max 4 items)",
-                items: {
+      const text = await generateJson('lesson', {
+        system: jsonInstruction(language),
+        prompt,
+        maxOutputTokens: 8192, // Increased to 8192 to prevent truncation during long responses
+        temperature: 0.2,
+        topP: 0.8,
+        schema: LESSON_SCHEMA
+      });
+      if (text) validation = validateRawLesson(parseJson(text), level, required);
+    } catch (error) {
+      console.error(`Gemini Generation Error (Attempt ${attempt + 1}):`, error);
+      if (attempt < 2) await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+    }
+  }
+  if (!validation) return null;
+
+  // Ask again for the failing sections only, the rest of the lesson is kept
+  for (let round = 0; round < MAX_REPAIR_ROUNDS && validation.failedSections.length > 0; round++) {
+    const sections = validation.failedSections;
+    console.warn(`Lesson sections failed validation (quality ${validation.quality}): ${sections.join(', ')}`, validation.issues);
+    const patch = await generateSections(prompt, validation, sections, language);
+    if (patch) validation = validateRawLesson(mergeSections(validation.lesson, patch, sections), level, required);
+  }
+
+  if (validation.failedSections.includes('vocabulary')) {
+    console.error("Lesson has no usable vocabulary, giving up", validation.issues);
+    return null;
+  }
+  if (validation.failedSections.length > 0) {
+    console.warn(`Dropping unrepaired sections: ${validation.failedSections.join(', ')}`);
+  }
+  return {
+    ...mapRawToLesson(withoutSections(validation.lesson, validation.failedSections), language),
+    quality: validation.quality
+  };
+};
+
+const WRITING_ERROR_CATEGORIES: WritingErrorCategory[] = [
+  'case', 'word_order', 'verb_conjugation', 'article', 'preposition', 'spelling', 'vocabulary', 'other'
+];
+
+const ESTIMATED_LEVELS: LanguageLevel[] = ['A0', 'A1', 'A2', 'B1'];
+
+const clampScore = (value: unknown): number => clamp(value, WRITING_CRITERION_MAX);
+
+// An error is only usable if its span can be found in the student's text
+const mapRawWritingError = (value: unknown, userText: string): WritingError | null => {
+  const e = fieldsOf(value);
+  if (!isText(e.o) || !isText(e.c) || !userText.includes(e.o)) return null;
+  return {
+    original: e.o,
+    correction: e.c,
+    category: WRITING_ERROR_CATEGORIES.find(category => category === e.cat) || 'other',
+    topic: isText(e.tp) ? e.tp : undefined,
+    explanation: textOf(e.exp)
+  };
+};
+
+// Helper to map the evaluation JSON to WritingEvaluation, dropping unusable error entries
+const mapRawToWritingEvaluation = (value: unknown, userText: string, level: LanguageLevel, language: NativeLanguage): WritingEvaluation => {
+  const raw = fieldsOf(value);
+  const scores = fieldsOf(raw.sc);
+  return {
+    errors: listOf(raw.err)
+      .map(e => mapRawWritingError(e, userText))
+      .filter((e): e is WritingError => e !== null),
+    improvedVersion: textOf(raw.imp),
+    improvedVersionTranslation: textOf(raw.imp_nt),
+    improvedVersionNativeScript: nativeScriptOf(language, raw.imp_nt_s),
+    scores: {
+      taskFulfilment: clampScore(scores.task),
+      coherence: clampScore(scores.coh),
+      vocabulary: clampScore(scores.voc),
+      structures: clampScore(scores.str)
+    },
+    estimatedLevel: ESTIMATED_LEVELS.find(l => l === raw.lvl) || level,
+    summary: textOf(raw.sum)
+  };
+};
+
+export const evaluateWriting = async (prompt: string, userText: string, level: LanguageLevel, language: NativeLanguage): Promise<WritingEvaluation | null> => {
+    try {
+        const text = await generateJson('writing', {
+            prompt: `The student (Level ${level}) was asked: "${prompt}".
+            Student wrote: "${userText}".
+            
+            Evaluate the text like a Goethe-Zertifikat B1 examiner:
+            1. err: Every German error. "o" is the EXACT wrong span copied from the student's text (as short as possible), "c" the correction,
+               "cat" one of: ${WRITING_ERROR_CATEGORIES.join(', ')}, "tp" the specific grammar topic in German (e.g. "Dativ", "Perfekt", "Nebensätze mit weil"),
+               "exp" a short English explanation (max 12 words).
+            2. imp: An improved version of the whole text (German), and its ${translationFields(language, 'imp_nt', 'imp_nt_s')}.
+            3. sc: Scores from 0 (E) to 5 (A) for "task" (task fulfilment), "coh" (coherence), "voc" (vocabulary), "str" (structures).
+               Judge against the requested level ${level}.
+            4. lvl: Estimated CEFR level of the text (A0, A1, A2 or B1).
+            5. sum: One short encouraging sentence in simple English.`,
+              system: baseInstruction(language),
+              maxOutputTokens: 3000,
+              temperature: 0.3,
+              schema: {
                   type: Type.OBJECT,
                   properties: {
-                    de: { type: Type.STRING, description: "German Word" },
-                    en: { type: Type.STRING, description: "English Explanation" },
-                    hi: { type: Type.STRING, description: "Hindi Translation (Latin)" },
-                    ex: { type: Type.STRING, description: "Example Sentence (German)" }
+                      err: {
+                          type: Type.ARRAY,
+                          description: "Errors",
+                          items: {
+                              type: Type.OBJECT,
+                              properties: {
+                                  o: { type: Type.STRING, description: "Original span" },
+                                  c: { type: Type.STRING, description: "Correction" },
+                                  tp: { type: Type.STRING, description: "Grammar topic (German)" },
+                                  cat: { type: Type.STRING, description: "Category", enum: WRITING_ERROR_CATEGORIES },
+                                  exp: { type: Type.STRING, description: "Explanation (English)" }
+                              },
+                              required: ["o", "c", "cat"]
+                          }
+                      },
+                      imp: { type: Type.STRING, description: "Improved version (German)" },
+                      imp_nt: { type: Type.STRING, description: "Native language translation (Latin)" },
+                      imp_nt_s: { type: Type.STRING, description: "Native language translation (own script)" },
+                      sc: {
+                          type: Type.OBJECT,
+                          properties: {
+                              task: { type: Type.INTEGER },
+                              coh: { type: Type.INTEGER },
+                              voc: { type: Type.INTEGER },
+                              str: { type: Type.INTEGER }
+                          },
+                          required: ["task", "coh", "voc", "str"]
+                      },
+                      lvl: { type: Type.STRING, description: "Estimated level" },
+                      sum: { type: Type.STRING, description: "Summary" }
                   },
-                  required: ["de", "en", "hi", "ex"]
-                }
-              },
-              txt: { type: Type.STRING, description: "Reading Text (German only)" },
-              txt_tr: { type: Type.STRING, description: "English translation of reading text (for A0)" },
-              q: {
-                type: Type.ARRAY,
-                description: "Questions (max 3)",
-                items: {
+                  required: ["err", "imp", "imp_nt", "sc", "lvl"]
+              }
+        });
+        return text ? mapRawToWritingEvaluation(JSON.parse(text), userText, level, language) : null;
+    } catch (e) {
+        console.error("Evaluation error:", e);
+        return null;
+    }
+}
+
+// Null if the answer has no usable feedback at all
+const mapRawToSpeakingEvaluation = (value: unknown, language: NativeLanguage): SpeakingEvaluation | null => {
+  const raw = fieldsOf(value);
+  const evaluation: SpeakingEvaluation = {
+    grammar: textOf(raw.grammar),
+    vocabularyRange: textOf(raw.vocabularyRange),
+    taskFulfilment: textOf(raw.taskFulfilment),
+    improvedAnswer: textOf(raw.improvedAnswer),
+    improvedAnswerTranslation: textOf(raw.improvedAnswerTranslation),
+    improvedAnswerNativeScript: nativeScriptOf(language, raw.improvedAnswerNativeScript),
+    rating: textOf(raw.rating),
+    score: clamp(raw.score, 100)
+  };
+  return evaluation.grammar || evaluation.taskFulfilment || evaluation.improvedAnswer ? evaluation : null;
+};
+
+export const evaluateSpeaking = async (task: SpeakingTask, transcript: string, level: string, language: NativeLanguage): Promise<SpeakingEvaluation | null> => {
+    const script = LANGUAGES[language].script;
+    try {
+        const text = await generateJson('speaking', {
+            prompt: `The student (Level ${level}) did a speaking exercise: ${SPEAKING_PARTS[task.part]}
+            Task: "${task.prompt}"
+            Points to cover: ${task.points.join('; ')}
+            Transcript of the spoken answer (from speech recognition, may contain recognition errors): "${transcript}".
+
+            Give short feedback in simple English (max 40 words per field):
+            - grammar: the most important grammar errors with corrections.
+            - vocabularyRange: how varied and level-appropriate the vocabulary is.
+            - taskFulfilment: which points were covered or missed.
+            - improvedAnswer: a better answer in German (max 80 words).
+            - improvedAnswerTranslation: ${language} (Latin script) translation of the improved answer.${script ? `
+            - improvedAnswerNativeScript: the same ${language} translation in ${script.name} script.` : ''}
+            - rating: a loose rating (e.g. "Good A2", "Weak B1").
+            - score: 0-100, how many of the Goethe B1 points for this task the answer would get (task fulfilment, interaction, vocabulary, grammar).
+
+            Ignore punctuation and capitalization, they come from the speech recognizer. Keep it encouraging.`,
+              system: baseInstruction(language),
+              maxOutputTokens: 2000,
+              temperature: 0.3,
+              schema: {
                   type: Type.OBJECT,
                   properties: {
-                    qu: { type: Type.STRING, description: "Question" },
-                    ops: { type: Type.ARRAY, items: { type: Type.STRING }, description: "4 Options" },
-                    ans: { type: Type.INTEGER, description: "Correct Answer Index (0-3)" },
-                    exp: { type: Type.STRING, description: "Explanation" }
+                      grammar: { type: Type.STRING },
+                      vocabularyRange: { type: Type.STRING },
+                      taskFulfilment: { type: Type.STRING },
+                      improvedAnswer: { type: Type.STRING },
+                      improvedAnswerTranslation: { type: Type.STRING },
+                      improvedAnswerNativeScript: { type: Type.STRING },
+                      rating: { type: Type.STRING },
+                      score: { type: Type.INTEGER }
                   },
-                  required: ["qu", "ops", "ans"]
-                }
-              },
-              wr: { type: Type.STRING, description: "Writing Prompt Instruction" },
-              pts: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Writing Bullet Points (max 3)" },
-              lis: { type: Type.STRING, description: "Listening Scenario" }
+                  required: ["grammar", "vocabularyRange", "taskFulfilment", "improvedAnswer", "improvedAnswerTranslation", "rating", "score"]
+              }
+        });
+        return text ? mapRawToSpeakingEvaluation(JSON.parse(text), language) : null;
+    } catch (e) {
+        console.error("Speaking evaluation error:", e);
+        return null;
+    }
+}
+
+const PARTS_OF_SPEECH: PartOfSpeech[] = ['noun', 'verb', 'adjective', 'adverb', 'pronoun', 'preposition', 'conjunction', 'article', 'numeral', 'other'];
+
+const isPartOfSpeech = (value: unknown): value is PartOfSpeech => PARTS_OF_SPEECH.some(part => part === value);
+
+// Without a lemma and an English meaning there is nothing to show or add to the deck
+const mapRawGlossaryEntry = (value: unknown, word: string, language: NativeLanguage): GlossaryEntry | null => {
+  const raw = fieldsOf(value);
+  if (!isText(raw.lemma) || !isText(raw.english)) return null;
+  const article = textOf(raw.article).trim().toLowerCase();
+  return {
+    word: word.toLowerCase(),
+    lemma: raw.lemma.trim(),
+    article: article === 'der' || article === 'die' || article === 'das' ? article : undefined,
+    partOfSpeech: isPartOfSpeech(raw.partOfSpeech) ? raw.partOfSpeech : 'other',
+    english: raw.english.trim(),
+    nativeTranslation: textOf(raw.nativeTranslation),
+    nativeScript: nativeScriptOf(language, raw.nativeScript)
+  };
+};
+
+// Meaning of one word in the sentence it was tapped in
+export const translateWord = async (word: string, sentence: string, level: string, language: NativeLanguage): Promise<GlossaryEntry | null> => {
+    const script = LANGUAGES[language].script;
+    try {
+        const text = await generateJson('glossary', {
+            prompt: `A student (Level ${level}) tapped a word in a German reading text.
+            Word: "${word}"
+            Sentence: "${sentence}"
+
+            Explain the word as it is used in this sentence:
+            - lemma: dictionary form (infinitive for verbs, nominative singular for nouns, base form for adjectives).
+            - article: "der", "die" or "das" for nouns, empty otherwise.
+            - partOfSpeech: one of ${PARTS_OF_SPEECH.join(', ')}.
+            - english: short English meaning (max 6 words).
+            - nativeTranslation: ${language} meaning in Latin script (max 6 words).${script ? `
+            - nativeScript: the same ${language} meaning in ${script.name} script.` : ''}`,
+            system: baseInstruction(language),
+            maxOutputTokens: 300,
+            temperature: 0.1,
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    lemma: { type: Type.STRING },
+                    article: { type: Type.STRING },
+                    partOfSpeech: { type: Type.STRING },
+                    english: { type: Type.STRING },
+                    nativeTranslation: { type: Type.STRING },
+                    nativeScript: { type: Type.STRING }
+                },
+                required: ["lemma", "partOfSpeech", "english", "nativeTranslation"]
+            }
+        });
+        if (!text) return null;
+        return mapRawGlossaryEntry(parseJson(text), word, language);
+    } catch (e) {
+        console.error("Word lookup error:", e);
+        return null;
+    }
+}
+
+const isAnswerIndex = (value: unknown, options: string[]): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < options.length;
+
+const mapRawExamItem = (value: unknown, fixedOptions: string[] | null): ExamItem | null => {
+  const it = fieldsOf(value);
+  const options = fixedOptions || (isTextList(it.ops) ? it.ops : []);
+  if (!isText(it.pr) || !isAnswerIndex(it.ans, options)) return null;
+  return { prompt: it.pr, options, correctAnswer: it.ans };
+};
+
+const mapRawDialogueLine = (value: unknown): DialogueLine | null => {
+  const d = fieldsOf(value);
+  return isText(d.sp) && isText(d.tx) ? { speaker: d.sp, text: d.tx } : null;
+};
+
+// Writing and speaking tasks of the mock exam, null without a prompt
+const mapRawTask = (value: unknown): { prompt: string; points: string[] } | null => {
+  const task = fieldsOf(value);
+  return isText(task.pr) ? { prompt: task.pr, points: listOf(task.pts).filter(isText) } : null;
+};
+
+// Helper to map the minified exam part JSON, using the fixed answer options of the part format.
+// Broken items and dialogue lines are dropped.
+const mapRawToExamPart = (value: unknown, spec: ExamPartSpec): ExamPart | null => {
+  const raw = fieldsOf(value);
+  const texts = listOf(raw.txt).filter(isText);
+  const fixedOptions = fixedOptionsFor(spec, texts);
+  const items = listOf(raw.it)
+    .map(it => mapRawExamItem(it, fixedOptions))
+    .filter((it): it is ExamItem => it !== null)
+    .slice(0, spec.itemCount);
+
+  if (items.length < spec.itemCount) {
+    console.warn(`${spec.title}: expected ${spec.itemCount} items, got ${items.length}`);
+    return null;
+  }
+
+  const part: ExamPart = {
+    spec,
+    texts,
+    dialogue: raw.dlg ? listOf(raw.dlg).map(mapRawDialogueLine).filter((d): d is DialogueLine => d !== null) : undefined,
+    items
+  };
+  if (spec.format === 'writing') {
+    const task = mapRawTask(raw.wr);
+    if (!task) return null;
+    part.writingTask = { ...task, minWords: spec.part === 3 ? 40 : 80 };
+  }
+  if (spec.format === 'speaking') {
+    const task = mapRawTask(raw.spk);
+    if (!task) return null;
+    part.speakingTask = { ...task, part: spec.part as SpeakingPart };
+  }
+  return part;
+};
+
+export const generateExamPart = async (spec: ExamPartSpec, language: NativeLanguage): Promise<ExamPart | null> => {
+  const prompt = `Create ${spec.title} of a Goethe-Zertifikat B1 mock exam, following the official task format.
+  Task for the candidate: "${spec.instructions}"
+  Generate: ${spec.generation}
+  All exam texts, items and options must be in German and strictly B1 level. Items must be answerable from the texts only.
+  STOP after generating the content.`;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const text = await generateJson('examPart', {
+        prompt,
+        system: jsonInstruction(language),
+        maxOutputTokens: 8192,
+        temperature: 0.4,
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            txt: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Texts (German)" },
+            dlg: {
+              type: Type.ARRAY,
+              description: "Audio Script (German)",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  sp: { type: Type.STRING, description: "Speaker" },
+                  tx: { type: Type.STRING, description: "Spoken Line" }
+                },
+                required: ["sp", "tx"]
+              }
+            },
+            it: {
+              type: Type.ARRAY,
+              description: "Items",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  pr: { type: Type.STRING, description: "Statement, Question or Situation" },
+                  ops: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Options" },
+                  ans: { type: Type.INTEGER, description: "Correct Answer Index" }
+                },
+                required: ["pr", "ans"]
+              }
             },
-            required: ["t", "l", "voc"]
+            wr: {
+              type: Type.OBJECT,
+              properties: {
+                pr: { type: Type.STRING, description: "Writing Situation" },
+                pts: { type: Type.ARRAY, items: { type: Type.STRING } }
+              }
+            },
+            spk: {
+              type: Type.OBJECT,
+              properties: {
+                pr: { type: Type.STRING, description: "Speaking Task" },
+                pts: { type: Type.ARRAY, items: { type: Type.STRING } }
+              }
+            }
           }
         }
       });
 
-      if (response.text) {
-        let cleanText = response.text.trim();
-        // Remove markdown code blocks if present (safety check)
-        if (cleanText.startsWith('```json')) {
-          cleanText = cleanText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanText.startsWith('```')) {
-          cleanText = cleanText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        const rawData = JSON.parse(cleanText);
-        
-        // Validate before returning
-        if (validateResponse(rawData, level)) {
-          return mapRawToLesson(rawData);
-        } else {
-          console.warn(`Attempt ${attempt + 1}: Response validation failed, retrying...`);
-          if (attempt === 2) {
-            console.error("All retry attempts failed, returning partial data");
-            return mapRawToLesson(rawData);
-          }
-          continue; // Retry
-        }
+      if (text) {
+        const part = mapRawToExamPart(JSON.parse(text), spec);
+        if (part) return part;
+        console.warn(`Attempt ${attempt + 1}: ${spec.title} incomplete, retrying...`);
       }
     } catch (error) {
-      console.error(`Gemini Generation Error (Attempt ${attempt + 1}):`, error);
-      if (attempt === 2) {
-        return null; // All retries exhausted
-      }
+      console.error(`Exam Generation Error (Attempt ${attempt + 1}):`, error);
       await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
     }
   }
-  
   return null;
 };
 
-export const evaluateWriting = async (prompt: string, userText: string, level: string): Promise<string> => {
+// --- Level checkpoint test ---
+
+// Null for broken questions and questions about lessons outside the level
+const mapRawCheckpointQuestion = (value: unknown, lessonIds: Set<string>): CheckpointQuestion | null => {
+  const q = fieldsOf(value);
+  if (!isText(q.qu) || !isTextList(q.ops) || q.ops.length < 2 || !isAnswerIndex(q.ans, q.ops)) return null;
+  if (!isText(q.les) || !lessonIds.has(q.les)) return null;
+  return {
+    question: q.qu,
+    options: q.ops,
+    correctAnswer: q.ans,
+    explanation: textOf(q.exp),
+    topic: isText(q.tp) ? q.tp : undefined,
+    lessonId: q.les
+  };
+};
+
+const mapRawToCheckpointQuestions = (value: unknown, lessons: CurriculumLesson[]): CheckpointQuestion[] => {
+  const lessonIds = new Set(lessons.map(l => l.id));
+  return listOf(fieldsOf(value).q)
+    .map(q => mapRawCheckpointQuestion(q, lessonIds))
+    .filter((q): q is CheckpointQuestion => q !== null);
+};
+
+export const generateCheckpointTest = async (level: LanguageLevel, lessons: CurriculumLesson[], language: NativeLanguage): Promise<CheckpointQuestion[] | null> => {
+  const prompt = `Create a checkpoint test for the end of German level ${level}.
+  It checks these course lessons (id: title, grammar focus):
+  ${lessons.map(l => `- ${l.id}: ${l.title}, ${l.grammar}`).join('\n  ')}
+  q: EXACTLY one multiple choice question per lesson, in the order above. Each question has "qu" (German sentence or short situation, strictly level ${level}),
+  "ops" (4 German options), "ans" (integer 0-3), "exp" (short English explanation), "tp" (the grammar focus of the lesson, in German) and "les" (the lesson id).
+  Test grammar and vocabulary in context, not knowledge about grammar terms.
+  STOP after generating the questions.`;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `The student (Level ${level}) was asked: "${prompt}".
-            Student wrote: "${userText}".
-            
-            Please provide feedback in simple English (max 200 words):
-            1. Correct the German errors (if any).
-            2. Suggest a better way to say it (German) with Hindi (Latin script) translation.
-            3. Rate it loosely (e.g., "Good A2", "Weak B1").
-            
-            Keep it encouraging. STOP after 200 words.`,
-            config: {
-                systemInstruction: BASE_INSTRUCTION,
-                maxOutputTokens: 1000,
-                temperature: 0.3,
+      const text = await generateJson('checkpoint', {
+        prompt,
+        system: jsonInstruction(language),
+        maxOutputTokens: 8192,
+        temperature: 0.3,
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            q: {
+              type: Type.ARRAY,
+              description: "Questions, one per lesson",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  qu: { type: Type.STRING, description: "Question" },
+                  ops: { type: Type.ARRAY, items: { type: Type.STRING }, description: "4 Options" },
+                  ans: { type: Type.INTEGER, description: "Correct Answer Index (0-3)" },
+                  exp: { type: Type.STRING, description: "Explanation (English)" },
+                  tp: { type: Type.STRING, description: "Grammar Focus (German)" },
+                  les: { type: Type.STRING, description: "Lesson Id" }
+                },
+                required: ["qu", "ops", "ans", "les"]
+              }
             }
-        });
-        return response.text || "Could not generate feedback.";
-    } catch (e) {
-        console.error("Evaluation error:", e);
-        return "Error generating feedback. Please try again.";
+          },
+          required: ["q"]
+        }
+      });
+
+      if (text) {
+        const questions = mapRawToCheckpointQuestions(JSON.parse(text), lessons);
+        // Allow a few dropped items, but the test must still cover most of the level
+        if (questions.length >= Math.ceil(lessons.length * 0.75)) return questions;
+        console.warn(`Attempt ${attempt + 1}: checkpoint test has only ${questions.length} valid questions, retrying...`);
+      }
+    } catch (error) {
+      console.error(`Checkpoint Generation Error (Attempt ${attempt + 1}):`, error);
+      await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
     }
-}
\ No newline at end of file
+  }
+  return null;
+};
@@ -0,0 +1,60 @@
+import { GlossaryEntry, LanguageLevel, NativeLanguage, VocabularyCard } from "../types";
+import { translateWord } from "./geminiService";
+import { getStorageBackend } from "./storageBackends";
+
+// Words tapped in reading texts, by glossaryKey. Every stored word was unknown to the
+// learner once, so the texts mark it; the model is only asked for words not stored yet.
+export interface GlossaryRecord {
+  entry: GlossaryEntry;
+  language?: NativeLanguage; // Of the translation, missing in records from before other languages
+  lookups: number;
+  lastLookup: string; // ISO timestamp
+}
+
+// The word as cached: lower case, without surrounding punctuation
+export const glossaryKey = (word: string): string =>
+  word.toLowerCase().replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const readRecords = async (): Promise<Record<string, GlossaryRecord>> => {
+  try {
+    return await getStorageBackend().read('glossary') as Record<string, GlossaryRecord>;
+  } catch (e) {
+    console.warn("Glossary could not be read", e);
+    return {};
+  }
+};
+
+const writeRecord = async (key: string, record: GlossaryRecord) => {
+  try {
+    await getStorageBackend().write([{ type: 'put', store: 'glossary', key, value: record }]);
+  } catch (e) {
+    console.warn("Glossary entry could not be saved", e);
+  }
+};
+
+// Looks a tapped word up and marks it as unknown. Null when it is neither cached nor
+// answered by the model (e.g. offline). Entries in another language are looked up again.
+export const lookupWord = async (word: string, sentence: string, level: LanguageLevel, language: NativeLanguage): Promise<GlossaryEntry | null> => {
+  const key = glossaryKey(word);
+  if (!key) return null;
+  const cached = (await readRecords())[key];
+  const entry = (cached?.language === language ? cached.entry : null)
+    || (isOnline() ? await translateWord(key, sentence, level, language) : null);
+  if (!entry) return null;
+  await writeRecord(key, { entry, language, lookups: (cached?.lookups || 0) + 1, lastLookup: new Date().toISOString() });
+  return entry;
+};
+
+// Keys of all words the learner has looked up
+export const loadUnknownWords = async (): Promise<Set<string>> =>
+  new Set(Object.keys(await readRecords()));
+
+export const glossaryCard = (entry: GlossaryEntry, sentence: string): VocabularyCard => ({
+  german: entry.article ? `${entry.article} ${entry.lemma}` : entry.lemma,
+  englishExplanation: entry.english,
+  nativeTranslation: entry.nativeTranslation,
+  nativeScript: entry.nativeScript,
+  exampleSentence: sentence
+});
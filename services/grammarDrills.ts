@@ -0,0 +1,73 @@
+import { DrillAnswer, GrammarDrill, GrammarDrillKind } from "../types";
+
+// Rows of a conjugation table, in the order of ConjugationDrill.forms
+export const CONJUGATION_PERSONS = ['ich', 'du', 'er/sie/es', 'wir', 'ihr', 'sie/Sie'];
+
+// Weak point topic for drills the model gave no topic
+export const DRILL_TOPICS: Record<GrammarDrillKind, string> = {
+  cloze: 'Grammatik: Lückentext',
+  wordOrder: 'Wortstellung',
+  article: 'Artikel (der/die/das)',
+  conjugation: 'Konjugation',
+  adjectiveEnding: 'Adjektivendungen'
+};
+
+export const GAP = '___';
+
+// 'umlaut': right apart from missing umlaut dots or ß ("Mutter" for "Mütter")
+export type AnswerCheck = 'correct' | 'umlaut' | 'wrong';
+
+// Case, spacing and final punctuation do not matter; ae/oe/ue/ss are accepted spellings of ä/ö/ü/ß
+const normalize = (text: string) =>
+  text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?,;:]+$/, '')
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss');
+
+// Drops the dots where the text really has umlauts, before normalize turns them into ae/oe/ue
+const withoutUmlauts = (text: string) =>
+  text.toLowerCase().replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u').replace(/ß/g, 's');
+
+export const checkTypedAnswer = (input: string, expected: string): AnswerCheck => {
+  const typed = normalize(input);
+  if (typed === normalize(expected)) return 'correct';
+  return typed === normalize(withoutUmlauts(expected)) ? 'umlaut' : 'wrong';
+};
+
+const isTyped = (answer: DrillAnswer | undefined): answer is string => typeof answer === 'string';
+
+// Share of the drill answered correctly, 0-1. Conjugation tables count per form, and there a
+// missing umlaut is wrong: "du fährst" is the point of the drill.
+export const drillScore = (drill: GrammarDrill, answer: DrillAnswer | undefined): number => {
+  if (answer === undefined) return 0;
+  switch (drill.kind) {
+    case 'cloze':
+    case 'adjectiveEnding':
+      return isTyped(answer) && checkTypedAnswer(answer, drill.answer) !== 'wrong' ? 1 : 0;
+    case 'article':
+      return isTyped(answer) && answer.toLowerCase() === drill.answer ? 1 : 0;
+    case 'wordOrder': {
+      const placed = (answer as number[]).map(i => drill.tokens[i]);
+      return placed.join(' ') === drill.tokens.join(' ') ? 1 : 0;
+    }
+    case 'conjugation': {
+      const forms = answer as string[];
+      const right = drill.forms.filter((form, i) => checkTypedAnswer(forms[i] || '', form) === 'correct').length;
+      return drill.forms.length > 0 ? right / drill.forms.length : 0;
+    }
+  }
+};
+
+const hash = (text: string) => Array.from(text).reduce((h, c) => (Math.imul(h, 31) + c.charCodeAt(0)) >>> 0, 7);
+
+// Token indices in a scrambled order that stays the same across renders and resumed sessions,
+// and never is the solution itself
+export const scrambledOrder = (tokens: string[]): number[] => {
+  let seed = hash(tokens.join(' '));
+  const order = tokens.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.every((index, i) => tokens[index] === tokens[i])) order.push(order.shift()!);
+  return order;
+};
@@ -0,0 +1,87 @@
+import { NativeLanguage } from "../types";
+import { toDevanagari } from "./transliteration";
+
+// What the app needs to know about a learner's native language. Translations are always
+// stored in Latin script (as learners type them in chats); languages that are usually
+// written in another script get that form as well, if the learner reads it.
+export interface LanguageInfo {
+  code: string; // BCP 47, for the lang attribute
+  nativeName: string; // Name of the language in its own script
+  greeting: string; // Latin script, e.g. "Namaste"
+  sentence: string; // Example translation for the prompts, Latin script
+  script?: {
+    name: string; // e.g. "Devanagari"
+    greeting: string;
+    sentence: string;
+    letters: RegExp; // Matches a letter of the script
+    rtl?: boolean;
+    transliterate?: (latin: string) => string; // Local fallback when the model gave no script form
+  };
+}
+
+export const LANGUAGES: Record<NativeLanguage, LanguageInfo> = {
+  Hindi: {
+    code: 'hi',
+    nativeName: 'हिन्दी',
+    greeting: 'Namaste',
+    sentence: 'Main ghar ja rahi hoon',
+    script: {
+      name: 'Devanagari',
+      greeting: 'नमस्ते',
+      sentence: 'मैं घर जा रही हूँ',
+      letters: /[ऀ-ॿ]/,
+      transliterate: toDevanagari
+    }
+  },
+  Tamil: {
+    code: 'ta',
+    nativeName: 'தமிழ்',
+    greeting: 'Vanakkam',
+    sentence: 'Naan veetukku pogiren',
+    script: {
+      name: 'Tamil',
+      greeting: 'வணக்கம்',
+      sentence: 'நான் வீட்டுக்குப் போகிறேன்',
+      letters: /[஀-௿]/
+    }
+  },
+  Urdu: {
+    code: 'ur',
+    nativeName: 'اردو',
+    greeting: 'Salaam',
+    sentence: 'Main ghar ja rahi hoon',
+    script: {
+      name: 'Urdu (Nastaliq)',
+      greeting: 'سلام',
+      sentence: 'میں گھر جا رہی ہوں',
+      letters: /[؀-ۿ]/,
+      rtl: true
+    }
+  },
+  Bengali: {
+    code: 'bn',
+    nativeName: 'বাংলা',
+    greeting: 'Nomoskar',
+    sentence: 'Ami bari jachchhi',
+    script: {
+      name: 'Bengali',
+      greeting: 'নমস্কার',
+      sentence: 'আমি বাড়ি যাচ্ছি',
+      letters: /[ঀ-৿]/
+    }
+  },
+  Turkish: {
+    code: 'tr',
+    nativeName: 'Türkçe',
+    greeting: 'Merhaba',
+    sentence: 'Eve gidiyorum'
+  }
+};
+
+export const NATIVE_LANGUAGES = Object.keys(LANGUAGES) as NativeLanguage[];
+
+// Model output that is not actually written in the language's script is dropped
+export const nativeScriptOf = (language: NativeLanguage, value: unknown): string | undefined => {
+  const script = LANGUAGES[language].script;
+  return script && typeof value === 'string' && script.letters.test(value) ? value : undefined;
+};
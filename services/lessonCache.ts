@@ -0,0 +1,145 @@
+import { CourseProgress, CurriculumLesson, LanguageLevel, LessonContent, NativeLanguage } from "../types";
+import { generateLesson } from "./geminiService";
+import { getUpcomingLessons } from "./curriculum";
+import { offlineLessonFor } from "./offlineLessons";
+import { getStorageBackend } from "./storageBackends";
+
+export type LessonType = 'daily' | 'exam' | 'topic';
+
+export interface LessonRequest {
+  level: LanguageLevel;
+  type: LessonType;
+  topic?: string;
+  lesson?: CurriculumLesson;
+  language: NativeLanguage; // Of the translations
+}
+
+// One generated lesson per key. It stays cached until the lesson is finished,
+// so leaving a lesson and coming back resumes the same content.
+export interface CachedLesson {
+  key: string;
+  content: LessonContent;
+  createdAt: string; // ISO timestamp
+  startedAt?: string; // Set when the lesson was opened
+}
+
+export type LessonSource = 'cache' | 'generated' | 'offline';
+
+export interface LoadedLesson {
+  key: string;
+  content: LessonContent;
+  source: LessonSource;
+}
+
+// Pre-generated lessons that were never opened are dropped after this many days
+const MAX_UNSTARTED_AGE_DAYS = 14;
+// Course lessons generated ahead of time, besides the daily session
+const PREFETCH_COURSE_LESSONS = 2;
+
+export const lessonCacheKey = ({ level, type, topic, lesson, language }: LessonRequest): string =>
+  `${level}|${type}|${lesson ? lesson.id : (topic || '').trim().toLowerCase()}|${language}`;
+
+// Cards saved before translations were generic (schema version 1) had 'hindiTranslation'
+export const hasCurrentCards = (content: LessonContent | undefined): boolean =>
+  Array.isArray(content?.vocabulary) && content.vocabulary.every(v => typeof v?.nativeTranslation === 'string');
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const isExpired = (entry: CachedLesson, now: number) =>
+  !entry.startedAt && now - Date.parse(entry.createdAt) > MAX_UNSTARTED_AGE_DAYS * 86400000;
+
+const readEntry = async (key: string): Promise<CachedLesson | null> => {
+  try {
+    const records = await getStorageBackend().read('lessons');
+    const entry = records[key] as CachedLesson | undefined;
+    if (!entry) return null;
+    if (!hasCurrentCards(entry.content) || isExpired(entry, Date.now())) {
+      await getStorageBackend().write([{ type: 'delete', store: 'lessons', key }]);
+      return null;
+    }
+    return entry;
+  } catch (e) {
+    console.warn("Lesson cache not readable", e);
+    return null;
+  }
+};
+
+const writeEntry = async (entry: CachedLesson) => {
+  try {
+    await getStorageBackend().write([{ type: 'put', store: 'lessons', key: entry.key, value: entry }]);
+  } catch (e) {
+    console.warn("Lesson could not be cached", e);
+  }
+};
+
+// Generation runs at most once per key, the session and the prefetch queue share the result
+const inFlight = new Map<string, Promise<CachedLesson | null>>();
+
+const generateEntry = (request: LessonRequest): Promise<CachedLesson | null> => {
+  const key = lessonCacheKey(request);
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = generateLesson(request.level, request.type, request.language, request.topic, request.lesson)
+      .then(async content => {
+        if (!content) return null;
+        const entry: CachedLesson = { key, content, createdAt: new Date().toISOString() };
+        await writeEntry(entry);
+        return entry;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+};
+
+// Cached lesson first, then a new one from the model, then the bundled lesson of the level
+export const loadLesson = async (request: LessonRequest): Promise<LoadedLesson> => {
+  const key = lessonCacheKey(request);
+  let source: LessonSource = 'cache';
+  let entry = await readEntry(key);
+  if (!entry && isOnline()) {
+    entry = await generateEntry(request);
+    source = 'generated';
+  }
+  if (!entry) return { key, content: offlineLessonFor(request.level, request.language), source: 'offline' };
+  if (!entry.startedAt) await writeEntry({ ...entry, startedAt: new Date().toISOString() });
+  return { key, content: entry.content, source };
+};
+
+// Called when a lesson is finished, the next visit gets a new one
+export const discardLesson = async (key: string) => {
+  try {
+    await getStorageBackend().write([{ type: 'delete', store: 'lessons', key }]);
+  } catch (e) {
+    console.warn("Cached lesson could not be removed", e);
+  }
+};
+
+// --- Background generation ---
+
+let queue: Promise<void> = Promise.resolve();
+const queued = new Set<string>();
+
+// Generates the given lessons one after another while online. Lessons that are
+// cached, queued or being generated are skipped.
+export const prefetchLessons = (requests: LessonRequest[]) => {
+  for (const request of requests) {
+    const key = lessonCacheKey(request);
+    if (queued.has(key) || inFlight.has(key)) continue;
+    queued.add(key);
+    queue = queue
+      .then(async () => {
+        if (!isOnline() || await readEntry(key)) return;
+        await generateEntry(request);
+      })
+      .catch(e => console.warn("Prefetching lesson failed", e))
+      .finally(() => queued.delete(key));
+  }
+};
+
+// What the dashboard will most likely offer next: the daily session and the next course lessons
+export const upcomingLessonRequests = (progress: CourseProgress, level: LanguageLevel, language: NativeLanguage): LessonRequest[] => [
+  ...getUpcomingLessons(progress, level, PREFETCH_COURSE_LESSONS)
+    .map(lesson => ({ type: 'topic' as const, level: lesson.level, topic: lesson.title, lesson, language })),
+  { type: 'daily', level, language }
+];
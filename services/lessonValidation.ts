@@ -0,0 +1,376 @@
+import { LanguageLevel } from "../types";
+
+// Raw lesson format as requested from the model (minified keys, see the schema in geminiService.ts)
+
+export interface RawVocabulary {
+  de: string;
+  en: string;
+  nt: string; // Native language translation, Latin script
+  nt_s?: string; // Same in the language's own script
+  ex: string;
+}
+
+export interface RawQuestion {
+  qu: string;
+  ops: string[];
+  ans: number;
+  exp: string;
+  tp?: string;
+}
+
+export interface RawDialogueLine {
+  sp: string;
+  tx: string;
+}
+
+export interface RawSpeakingTask {
+  p: 1 | 2 | 3;
+  pr: string;
+  pts: string[];
+}
+
+export type RawDrillKind = 'cloze' | 'order' | 'article' | 'conj' | 'adj';
+
+export interface RawGrammarDrill {
+  k: RawDrillKind;
+  tx?: string; // Sentence with the gap (cloze, adj)
+  ans?: string; // Gap text, article or ending
+  h?: string; // Hint (cloze)
+  tok?: string[]; // Tokens in the correct order (order)
+  tr?: string; // English translation (order)
+  n?: string; // Noun (article)
+  vb?: string; // Infinitive (conj)
+  tns?: string; // Tense (conj)
+  f?: string[]; // Six forms (conj)
+  exp: string;
+  tp?: string;
+}
+
+export interface RawLesson {
+  t: string;
+  l: string;
+  voc: RawVocabulary[];
+  txt?: string;
+  txt_tr?: string;
+  q?: RawQuestion[];
+  wr?: string;
+  pts?: string[];
+  lis?: string;
+  dlg?: RawDialogueLine[];
+  lq?: RawQuestion[];
+  gd?: RawGrammarDrill[];
+  spk?: RawSpeakingTask;
+}
+
+export type LessonSection = 'vocabulary' | 'reading' | 'listening' | 'grammar' | 'writing' | 'speaking';
+
+export const LESSON_SECTIONS: LessonSection[] = ['vocabulary', 'reading', 'listening', 'grammar', 'writing', 'speaking'];
+
+// Raw fields that belong to a section. A failing section is asked for again as a whole.
+export const SECTION_FIELDS: Record<LessonSection, (keyof RawLesson)[]> = {
+  vocabulary: ['voc'],
+  reading: ['txt', 'txt_tr', 'q'],
+  listening: ['lis', 'dlg', 'lq'],
+  grammar: ['gd'],
+  writing: ['wr', 'pts'],
+  speaking: ['spk']
+};
+
+export interface ValidationIssue {
+  section: LessonSection;
+  path: string; // e.g. "q[1].ans"
+  message: string;
+  severity: 'error' | 'warning'; // Errors drop the item or fail the section
+}
+
+export interface LessonValidation {
+  lesson: RawLesson; // Invalid items removed, failed sections still included
+  issues: ValidationIssue[];
+  failedSections: LessonSection[];
+  quality: number; // 0-100
+}
+
+const OPTION_COUNT = 4;
+const CONJUGATION_FORMS = 6;
+const MIN_ORDER_TOKENS = 3;
+const ARTICLES = ['der', 'die', 'das'];
+const ADJECTIVE_ENDINGS = ['e', 'en', 'em', 'er', 'es'];
+const MAX_READING_WORDS: Record<LanguageLevel, number> = { A0: 60, A1: 150, A2: 150, B1: 150 };
+const MAX_WORD_REPEATS = 8;
+// Share of English function words above which a German text counts as mixed
+const MAX_ENGLISH_SHARE = 0.05;
+const ERROR_PENALTY = 12;
+const WARNING_PENALTY = 4;
+const FAILED_SECTION_PENALTY = 20;
+
+// Frequent English words that are not also German words
+const ENGLISH_WORDS = new Set([
+  'the', 'and', 'is', 'are', 'you', 'your', 'with', 'this', 'that', 'what', 'of', 'to', 'my', 'we',
+  'they', 'he', 'she', 'it', 'have', 'has', 'for', 'on', 'at', 'be', 'do', 'does', 'there'
+]);
+
+export const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+export const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+// Fields of a JSON object, empty for anything else
+export const fieldsOf = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const DRILL_KINDS: RawDrillKind[] = ['cloze', 'order', 'article', 'conj', 'adj'];
+
+const isDrillKind = (value: unknown): value is RawDrillKind => DRILL_KINDS.some(kind => kind === value);
+
+const isAnswerIndex = (value: unknown, options: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < options;
+
+const words = (text: string) => text.toLowerCase().split(/\s+/).map(w => w.replace(/[^\p{L}]/gu, '')).filter(Boolean);
+
+export const englishShare = (text: string): number => {
+  const all = words(text);
+  return all.length > 0 ? all.filter(w => ENGLISH_WORDS.has(w)).length / all.length : 0;
+};
+
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+  failed = new Set<LessonSection>();
+
+  error(section: LessonSection, path: string, message: string) {
+    this.issues.push({ section, path, message, severity: 'error' });
+  }
+
+  warning(section: LessonSection, path: string, message: string) {
+    this.issues.push({ section, path, message, severity: 'warning' });
+  }
+
+  fail(section: LessonSection, path: string, message: string) {
+    this.error(section, path, message);
+    this.failed.add(section);
+  }
+}
+
+// Keeps the valid entries of a list, reporting every dropped one. A check returns the typed entry or null.
+const validEntries = <T>(
+  value: unknown,
+  section: LessonSection,
+  field: string,
+  check: (item: unknown, path: string, issues: IssueCollector) => T | null,
+  issues: IssueCollector
+): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.error(section, field, 'is not a list');
+    return [];
+  }
+  return value.flatMap((item, i) => {
+    const entry = check(item, `${field}[${i}]`, issues);
+    return entry ? [entry] : [];
+  });
+};
+
+const checkVocabulary = (item: unknown, path: string, issues: IssueCollector): RawVocabulary | null => {
+  const v = fieldsOf(item);
+  const { de, en, nt, ex } = v;
+  if (isText(de) && isText(en) && isText(nt) && isText(ex)) {
+    return { de, en, nt, ...(isText(v.nt_s) && { nt_s: v.nt_s }), ex };
+  }
+  const missing = (['de', 'en', 'nt', 'ex'] as const).filter(key => !isText(v[key]));
+  issues.error('vocabulary', path, `missing ${missing.join(', ')}`);
+  return null;
+};
+
+const questionChecker = (section: LessonSection) => (item: unknown, path: string, issues: IssueCollector): RawQuestion | null => {
+  const { qu, ops, ans, exp, tp } = fieldsOf(item);
+  const errors: string[] = [];
+  if (!isText(qu)) errors.push('missing question');
+  if (!isTextList(ops) || ops.length !== OPTION_COUNT) errors.push(`needs ${OPTION_COUNT} options`);
+  else if (new Set(ops.map(o => o.trim().toLowerCase())).size !== ops.length) errors.push('has duplicate options');
+  if (!isAnswerIndex(ans, Array.isArray(ops) ? ops.length : 0)) errors.push('answer index out of range');
+  if (!isText(exp)) errors.push('missing explanation');
+  errors.forEach(message => issues.error(section, path, message));
+  if (errors.length > 0 || !isText(qu) || !isTextList(ops) || !isAnswerIndex(ans, ops.length) || !isText(exp)) return null;
+  if (!isText(tp)) issues.warning(section, `${path}.tp`, 'missing topic');
+  return { qu, ops, ans, exp, ...(isText(tp) && { tp }) };
+};
+
+const checkDialogueLine = (item: unknown, path: string, issues: IssueCollector): RawDialogueLine | null => {
+  const { sp, tx } = fieldsOf(item);
+  if (isText(sp) && isText(tx)) return { sp, tx };
+  issues.error('listening', path, 'needs speaker and text');
+  return null;
+};
+
+const gapCount = (text: string) => (text.match(/_{3,}/g) || []).length;
+
+// Problems that keep a drill from being checked, by its kind
+const drillErrors = (k: RawDrillKind, d: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  switch (k) {
+    case 'cloze':
+    case 'adj':
+      if (!isText(d.tx) || gapCount(d.tx) !== 1) errors.push('needs a sentence with one gap');
+      if (!isText(d.ans)) errors.push('missing answer');
+      else if (k === 'adj' && !ADJECTIVE_ENDINGS.includes(d.ans.trim().toLowerCase())) errors.push(`"${d.ans}" is not an adjective ending`);
+      if (k === 'adj' && isText(d.tx) && !/\p{L}_{3,}/u.test(d.tx)) errors.push('gap must follow the adjective stem');
+      break;
+    case 'order':
+      if (!isTextList(d.tok) || d.tok.length < MIN_ORDER_TOKENS) errors.push(`needs at least ${MIN_ORDER_TOKENS} tokens`);
+      if (!isText(d.tr)) errors.push('missing translation');
+      break;
+    case 'article':
+      if (!isText(d.n)) errors.push('missing noun');
+      else if (ARTICLES.includes(d.n.trim().split(/\s+/)[0].toLowerCase())) errors.push('noun includes its article');
+      if (!isText(d.ans) || !ARTICLES.includes(d.ans.trim().toLowerCase())) errors.push('answer must be der, die or das');
+      break;
+    case 'conj':
+      if (!isText(d.vb)) errors.push('missing verb');
+      if (!isTextList(d.f) || d.f.length !== CONJUGATION_FORMS) errors.push(`needs ${CONJUGATION_FORMS} forms`);
+      break;
+  }
+  return errors;
+};
+
+const checkGrammarDrill = (item: unknown, path: string, issues: IssueCollector): RawGrammarDrill | null => {
+  const d = fieldsOf(item);
+  const { k, exp } = d;
+  const errors = isDrillKind(k) ? drillErrors(k, d) : ['unknown drill kind'];
+  if (!isText(exp)) errors.push('missing explanation');
+  errors.forEach(message => issues.error('grammar', path, message));
+  if (errors.length > 0 || !isDrillKind(k) || !isText(exp)) return null;
+  if (!isText(d.tp)) issues.warning('grammar', `${path}.tp`, 'missing topic');
+  // Only the fields of the raw format, each with its type
+  return {
+    k,
+    ...(isText(d.tx) && { tx: d.tx }),
+    ...(isText(d.ans) && { ans: d.ans }),
+    ...(isText(d.h) && { h: d.h }),
+    ...(isTextList(d.tok) && { tok: d.tok }),
+    ...(isText(d.tr) && { tr: d.tr }),
+    ...(isText(d.n) && { n: d.n }),
+    ...(isText(d.vb) && { vb: d.vb }),
+    ...(isText(d.tns) && { tns: d.tns }),
+    ...(isTextList(d.f) && { f: d.f }),
+    exp,
+    ...(isText(d.tp) && { tp: d.tp })
+  };
+};
+
+const validateReading = (raw: Record<string, unknown>, level: LanguageLevel, lesson: RawLesson, issues: IssueCollector) => {
+  const { txt, txt_tr } = raw;
+  if (!isText(txt)) {
+    if (txt !== undefined) issues.fail('reading', 'txt', 'is empty');
+    return;
+  }
+  lesson.txt = txt;
+  const all = words(txt);
+  if (all.length > MAX_READING_WORDS[level]) issues.fail('reading', 'txt', `too long: ${all.length} words (max ${MAX_READING_WORDS[level]})`);
+  const counts: Record<string, number> = {};
+  for (const word of all.filter(w => w.length > 3)) counts[word] = (counts[word] || 0) + 1;
+  const repeated = Object.keys(counts).find(word => counts[word] > MAX_WORD_REPEATS);
+  if (repeated) issues.fail('reading', 'txt', `"${repeated}" repeated more than ${MAX_WORD_REPEATS} times`);
+  // Translations tend to come in brackets: "Ich heiße Ravi (My name is Ravi)"
+  const bracketed = Array.from(txt.matchAll(/\(([^)]*)\)/g), m => m[1]);
+  if (englishShare(txt) > MAX_ENGLISH_SHARE || bracketed.some(b => englishShare(b) > 0.2)) {
+    issues.fail('reading', 'txt', 'contains English or translations');
+  }
+
+  if (isText(txt_tr)) lesson.txt_tr = txt_tr;
+  else if (level === 'A0') issues.fail('reading', 'txt_tr', 'translation is required for A0');
+
+  lesson.q = validEntries(raw.q, 'reading', 'q', questionChecker('reading'), issues);
+  if (lesson.q.length === 0) issues.fail('reading', 'q', 'no valid questions');
+};
+
+const validateListening = (raw: Record<string, unknown>, lesson: RawLesson, issues: IssueCollector) => {
+  if (raw.dlg === undefined && raw.lq === undefined) return;
+  if (isText(raw.lis)) lesson.lis = raw.lis;
+  else issues.warning('listening', 'lis', 'missing scenario');
+  lesson.dlg = validEntries(raw.dlg, 'listening', 'dlg', checkDialogueLine, issues);
+  if (lesson.dlg.length < 2) issues.fail('listening', 'dlg', 'dialogue needs at least 2 lines');
+  lesson.lq = validEntries(raw.lq, 'listening', 'lq', questionChecker('listening'), issues);
+  if (lesson.lq.length === 0) issues.fail('listening', 'lq', 'no valid questions');
+};
+
+const validateGrammar = (raw: Record<string, unknown>, lesson: RawLesson, issues: IssueCollector) => {
+  if (raw.gd === undefined) return;
+  lesson.gd = validEntries(raw.gd, 'grammar', 'gd', checkGrammarDrill, issues);
+  if (lesson.gd.length === 0) issues.fail('grammar', 'gd', 'no valid drills');
+};
+
+const validateWriting = (raw: Record<string, unknown>, lesson: RawLesson, issues: IssueCollector) => {
+  const { wr, pts } = raw;
+  if (wr === undefined && pts === undefined) return;
+  if (isText(wr)) lesson.wr = wr;
+  else issues.fail('writing', 'wr', 'missing task');
+  if (isTextList(pts) && pts.length > 0) lesson.pts = pts;
+  else issues.fail('writing', 'pts', 'missing points to cover');
+};
+
+const isSpeakingPart = (value: unknown): value is RawSpeakingTask['p'] => value === 1 || value === 2 || value === 3;
+
+const validateSpeaking = (raw: Record<string, unknown>, lesson: RawLesson, issues: IssueCollector) => {
+  if (raw.spk === undefined) return;
+  const { p, pr, pts } = fieldsOf(raw.spk);
+  if (!isText(pr)) return issues.fail('speaking', 'spk.pr', 'missing task');
+  if (!isTextList(pts) || pts.length === 0) return issues.fail('speaking', 'spk.pts', 'missing points');
+  if (!isSpeakingPart(p)) issues.warning('speaking', 'spk.p', 'unknown speaking part, using 3');
+  lesson.spk = { p: isSpeakingPart(p) ? p : 3, pr, pts };
+};
+
+// Checks a parsed model answer field by field. 'required' sections fail when they are missing.
+export const validateRawLesson = (raw: unknown, level: LanguageLevel, required: LessonSection[] = ['vocabulary']): LessonValidation => {
+  const issues = new IssueCollector();
+  const source = fieldsOf(raw);
+  const lesson: RawLesson = {
+    t: isText(source.t) ? source.t : 'Lesson',
+    l: isText(source.l) ? source.l : level,
+    voc: validEntries(source.voc, 'vocabulary', 'voc', checkVocabulary, issues)
+  };
+  if (!isText(source.t)) issues.warning('vocabulary', 't', 'missing topic');
+  if (lesson.voc.length === 0) issues.fail('vocabulary', 'voc', 'no valid vocabulary');
+
+  validateReading(source, level, lesson, issues);
+  validateListening(source, lesson, issues);
+  validateGrammar(source, lesson, issues);
+  validateWriting(source, lesson, issues);
+  validateSpeaking(source, lesson, issues);
+
+  for (const section of required) {
+    if (!issues.failed.has(section) && SECTION_FIELDS[section].every(field => lesson[field] === undefined)) {
+      issues.fail(section, SECTION_FIELDS[section][0], 'section is missing');
+    }
+  }
+
+  const failedSections = LESSON_SECTIONS.filter(s => issues.failed.has(s));
+  const penalty = issues.issues.reduce((sum, i) => sum + (i.severity === 'error' ? ERROR_PENALTY : WARNING_PENALTY), 0)
+    + failedSections.length * FAILED_SECTION_PENALTY;
+
+  return {
+    lesson,
+    issues: issues.issues,
+    failedSections,
+    quality: Math.max(0, 100 - penalty)
+  };
+};
+
+// Puts a newly generated section into the lesson, replacing the old fields of that section.
+// The result is unchecked model output again and goes back through validateRawLesson.
+export const mergeSections = (lesson: RawLesson, patch: unknown, sections: LessonSection[]): Record<string, unknown> => {
+  const fields = fieldsOf(patch);
+  const merged: Record<string, unknown> = { ...lesson };
+  for (const section of sections) {
+    for (const field of SECTION_FIELDS[section]) {
+      if (fields[field] !== undefined) merged[field] = fields[field];
+    }
+  }
+  return merged;
+};
+
+// Removes sections that could not be repaired, so the session skips their stage
+export const withoutSections = (lesson: RawLesson, sections: LessonSection[]): RawLesson => {
+  const result: RawLesson = { ...lesson };
+  for (const section of sections) {
+    for (const field of SECTION_FIELDS[section]) delete result[field];
+  }
+  return result;
+};
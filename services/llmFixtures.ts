@@ -0,0 +1,125 @@
+import { LlmFixture, LlmRequest, LlmTask } from "./llmProviders";
+
+// Recorded model answers in the minified formats of services/geminiService.ts,
+// served by the mock provider (LLM_PROVIDER=mock) for development without network or keys.
+
+const LESSON = {
+  t: 'Im Café',
+  l: 'A1',
+  voc: [
+    { de: 'bestellen', en: 'to order (food or drinks)', nt: 'order karna', nt_s: 'ऑर्डर करना', ex: 'Ich möchte einen Kaffee bestellen.' },
+    { de: 'die Rechnung', en: 'the bill', nt: 'bill', nt_s: 'बिल', ex: 'Die Rechnung, bitte!' },
+    { de: 'der Kuchen', en: 'cake', nt: 'cake', nt_s: 'केक', ex: 'Der Kuchen ist sehr lecker.' },
+    { de: 'bezahlen', en: 'to pay', nt: 'bhugtaan karna', nt_s: 'भुगतान करना', ex: 'Wir bezahlen zusammen.' }
+  ],
+  txt: 'Lena und Tom sind im Café. Lena bestellt einen Tee und einen Kuchen. Tom trinkt einen Kaffee. Der Kuchen ist sehr lecker. Am Ende möchte Tom bezahlen. Er sagt: "Die Rechnung, bitte!"',
+  txt_tr: 'Lena and Tom are in the café. Lena orders a tea and a cake. Tom drinks a coffee. The cake is very tasty. At the end Tom wants to pay. He says: "The bill, please!"',
+  q: [
+    { qu: 'Was bestellt Lena?', ops: ['Einen Kaffee', 'Einen Tee und einen Kuchen', 'Ein Wasser', 'Nichts'], ans: 1, exp: 'Lena orders tea and cake.', tp: 'Detailverstehen' },
+    { qu: 'Wer möchte bezahlen?', ops: ['Lena', 'Der Kellner', 'Tom', 'Niemand'], ans: 2, exp: 'Tom asks for the bill.', tp: 'Detailverstehen' }
+  ],
+  wr: 'Schreiben Sie Ihrer Freundin eine kurze Nachricht: Sie möchten am Samstag ins Café gehen.',
+  pts: ['Wann?', 'Welches Café?', 'Was möchten Sie essen oder trinken?'],
+  lis: 'A guest orders at a café counter.',
+  dlg: [
+    { sp: 'Kellner', tx: 'Guten Tag! Was möchten Sie trinken?' },
+    { sp: 'Gast', tx: 'Einen Kaffee mit Milch, bitte.' },
+    { sp: 'Kellner', tx: 'Möchten Sie auch einen Kuchen?' },
+    { sp: 'Gast', tx: 'Ja, einen Apfelkuchen, bitte.' },
+    { sp: 'Kellner', tx: 'Das macht sechs Euro.' },
+    { sp: 'Gast', tx: 'Hier, bitte. Stimmt so.' }
+  ],
+  lq: [
+    { qu: 'Wie trinkt der Gast den Kaffee?', ops: ['Schwarz', 'Mit Milch', 'Mit Zucker', 'Kalt'], ans: 1, exp: '"Einen Kaffee mit Milch"', tp: 'Detailverstehen' },
+    { qu: 'Wie viel kostet alles?', ops: ['Vier Euro', 'Fünf Euro', 'Sechs Euro', 'Sieben Euro'], ans: 2, exp: '"Das macht sechs Euro."', tp: 'Zahlen' }
+  ],
+  gd: [
+    { k: 'cloze', tx: 'Lena ___ einen Tee.', ans: 'bestellt', h: 'bestellen', exp: 'sie → -t', tp: 'Präsens' },
+    { k: 'order', tok: ['Tom', 'möchte', 'am Ende', 'bezahlen.'], tr: 'Tom wants to pay at the end.', exp: 'möchte in second position, the infinitive at the end.', tp: 'Modalverben' },
+    { k: 'article', n: 'Rechnung', ans: 'die', exp: 'Nouns on -ung are feminine.', tp: 'Artikel' },
+    { k: 'conj', vb: 'essen', tns: 'Präsens', f: ['esse', 'isst', 'isst', 'essen', 'esst', 'essen'], exp: 'e → i for du and er/sie/es', tp: 'Präsens: Vokalwechsel' },
+    { k: 'adj', tx: 'Der Kuchen ist lecker. Ich möchte einen groß___ Kuchen.', ans: 'en', exp: 'Akkusativ maskulin after einen: -en', tp: 'Adjektivdeklination' }
+  ],
+  spk: { p: 3, pr: 'Sprechen Sie über Ihr Lieblingscafé.', pts: ['Wo ist es?', 'Was trinken Sie dort?', 'Mit wem gehen Sie hin?'] }
+};
+
+const WRITING = {
+  err: [],
+  imp: 'Liebe Anna, hast du am Samstag Zeit? Ich möchte mit dir ins Café Sonne gehen. Dort gibt es sehr guten Kuchen. Viele Grüße',
+  imp_nt: 'Pyari Anna, kya tumhare paas Shanivaar ko samay hai? Main tumhare saath Café Sonne jaana chahti hoon. Wahan bahut achha cake milta hai.',
+  imp_nt_s: 'प्यारी अन्ना, क्या तुम्हारे पास शनिवार को समय है? मैं तुम्हारे साथ कैफ़े सोने जाना चाहती हूँ। वहाँ बहुत अच्छा केक मिलता है।',
+  sc: { task: 4, coh: 4, voc: 3, str: 3 },
+  lvl: 'A2',
+  sum: 'Good message, all points are covered.'
+};
+
+const SPEAKING = {
+  grammar: 'Mostly correct. Remember: "Ich gehe gern ins Café" (ins = in das).',
+  vocabularyRange: 'Simple but fitting words for the topic.',
+  taskFulfilment: 'All three questions were answered.',
+  improvedAnswer: 'Mein Lieblingscafé ist in der Altstadt. Dort trinke ich meistens einen Cappuccino. Ich gehe oft mit meiner Schwester hin.',
+  improvedAnswerTranslation: 'Mera pasandida café purane shahar mein hai. Wahan main aksar cappuccino peeti hoon. Main aksar apni behen ke saath jaati hoon.',
+  improvedAnswerNativeScript: 'मेरा पसंदीदा कैफ़े पुराने शहर में है। वहाँ मैं अक्सर कैपुचीनो पीती हूँ। मैं अक्सर अपनी बहन के साथ जाती हूँ।',
+  rating: 'Good A2',
+  score: 70
+};
+
+// One answer for every exam part: more items than any part needs, and answers 0/1
+// are valid for every option set (Richtig/Falsch, Ja/Nein, a/b/c, matching)
+const EXAM_PART = {
+  txt: [
+    'Sprachkurs am Abend: Deutsch B1, montags und mittwochs, 18 bis 20 Uhr.',
+    'Fahrradverleih am Bahnhof: ab 8 Euro pro Tag, Helme inklusive.',
+    'Kochkurs für Anfänger: Italienische Küche, samstags, Anmeldung erforderlich.'
+  ],
+  dlg: [
+    { sp: 'Sprecherin', tx: 'Achtung an Gleis 3: Der Zug nach München hat zehn Minuten Verspätung.' },
+    { sp: 'Sprecher', tx: 'Wegen Bauarbeiten fährt die Linie 5 heute nur bis zum Hauptbahnhof.' }
+  ],
+  it: Array.from({ length: 10 }, (_, i) => ({
+    pr: `Aussage ${i + 1}: Der Sprachkurs findet am Abend statt.`,
+    ops: ['a) stimmt', 'b) stimmt nicht', 'c) steht nicht im Text'],
+    ans: i % 2
+  })),
+  wr: {
+    pr: 'Sie haben letzte Woche einen Kochkurs gemacht. Schreiben Sie einer Freundin eine E-Mail.',
+    pts: ['Beschreiben Sie den Kurs.', 'Begründen Sie, was Ihnen gefallen hat.', 'Machen Sie einen Vorschlag für ein Treffen.']
+  },
+  spk: {
+    pr: 'Sprechen Sie über das Thema "Einkaufen im Internet".',
+    pts: ['Eigene Erfahrungen', 'Situation im Heimatland', 'Vor- und Nachteile', 'Ihre Meinung']
+  }
+};
+
+// The checkpoint test needs one question per lesson id listed in the prompt
+const checkpoint = (request: LlmRequest) => ({
+  q: Array.from(request.prompt.matchAll(/^\s*- ([a-z0-9]+-\d+):/gm), ([, id]) => ({
+    qu: 'Ich ___ jeden Tag Deutsch.',
+    ops: ['lerne', 'lernst', 'lernt', 'lernen'],
+    ans: 0,
+    exp: 'ich → lerne',
+    tp: 'Verbkonjugation Präsens',
+    les: id
+  }))
+});
+
+// Word lookups answer for the word in the prompt, known words with their recorded meaning
+const GLOSSARY: Record<string, object> = {
+  bestellt: { lemma: 'bestellen', article: '', partOfSpeech: 'verb', english: 'to order', nativeTranslation: 'order karna', nativeScript: 'ऑर्डर करना' },
+  kuchen: { lemma: 'Kuchen', article: 'der', partOfSpeech: 'noun', english: 'cake', nativeTranslation: 'cake', nativeScript: 'केक' },
+  lecker: { lemma: 'lecker', article: '', partOfSpeech: 'adjective', english: 'tasty', nativeTranslation: 'swaadisht', nativeScript: 'स्वादिष्ट' }
+};
+
+const glossary = (request: LlmRequest) => {
+  const word = request.prompt.match(/Word: "([^"]*)"/)?.[1] || '';
+  return GLOSSARY[word.toLowerCase()] || { lemma: word, article: '', partOfSpeech: 'other', english: word, nativeTranslation: word };
+};
+
+export const LLM_FIXTURES: Record<LlmTask, LlmFixture> = {
+  lesson: LESSON,
+  writing: WRITING,
+  speaking: SPEAKING,
+  examPart: EXAM_PART,
+  checkpoint,
+  glossary
+};
@@ -0,0 +1,219 @@
+// Language model backends. The prompts live in services/geminiService.ts; every call
+// (lesson generation, writing and speaking evaluation, exam parts, checkpoint tests, word lookups) asks
+// a provider for JSON matching a schema. Which provider and model is used is set per task.
+import { GoogleGenAI, Schema } from "@google/genai";
+import { LLM_FIXTURES } from "./llmFixtures";
+
+export type LlmTask = 'lesson' | 'writing' | 'speaking' | 'examPart' | 'checkpoint' | 'glossary';
+
+export type LlmProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  system: string;
+  prompt: string;
+  schema: Schema; // Gemini schema format, other providers convert it
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmProvider {
+  // Resolves with the raw JSON text of the answer, null if the model returned nothing
+  generateJson(request: LlmRequest): Promise<string | null>;
+}
+
+export interface LlmTaskConfig {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export class GeminiProvider implements LlmProvider {
+  private client: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string | undefined = process.env.API_KEY) {}
+
+  async generateJson(request: LlmRequest): Promise<string | null> {
+    // Created on first use, so the app starts without a key when another provider is configured
+    if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.system,
+        responseMimeType: "application/json",
+        maxOutputTokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        topP: request.topP,
+        responseSchema: request.schema
+      }
+    });
+    return response.text || null;
+  }
+}
+
+// Gemini schemas use upper-case type names ('OBJECT'), JSON Schema lower-case ones
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+// Local models like to wrap JSON in a markdown code block
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+// Any server with an OpenAI style /chat/completions endpoint: OpenAI, Ollama, llama.cpp, LM Studio, ...
+export class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(
+    private baseUrl: string = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  async generateJson(request: LlmRequest): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt }
+        ],
+        temperature: request.temperature,
+        top_p: request.topP,
+        max_tokens: request.maxOutputTokens,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.task, schema: toJsonSchema(request.schema) }
+        }
+      })
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}: ${await response.text()}`);
+    const data = await response.json();
+    const text: unknown = data.choices?.[0]?.message?.content;
+    return typeof text === 'string' && text.trim() ? stripCodeFence(text) : null;
+  }
+}
+
+export type LlmFixture = unknown | ((request: LlmRequest) => unknown);
+
+// Answers from recorded fixtures, without network or keys. Same request, same answer.
+export class MockLlmProvider implements LlmProvider {
+  requests: LlmRequest[] = [];
+
+  constructor(private fixtures: Partial<Record<LlmTask, LlmFixture>> = LLM_FIXTURES) {}
+
+  async generateJson(request: LlmRequest): Promise<string | null> {
+    this.requests.push(request);
+    const fixture = this.fixtures[request.task];
+    if (fixture === undefined) return null;
+    return JSON.stringify(typeof fixture === 'function' ? fixture(request) : fixture);
+  }
+}
+
+// --- Configuration ---
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: process.env.OPENAI_MODEL || 'llama3.1',
+  mock: 'fixtures'
+};
+
+const isProviderName = (name: unknown): name is LlmProviderName =>
+  name === 'gemini' || name === 'openai' || name === 'mock';
+
+export interface LlmConfig {
+  default: LlmTaskConfig;
+  tasks: Partial<Record<LlmTask, Partial<LlmTaskConfig>>>;
+}
+
+const LLM_TASKS: LlmTask[] = ['lesson', 'writing', 'speaking', 'examPart', 'checkpoint', 'glossary'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Task overrides from LLM_TASKS, e.g. {"writing": {"provider": "openai", "model": "qwen2.5:14b"}}.
+// Unknown tasks and providers and anything that is not a string are left out.
+export const parseTaskConfig = (json: string | undefined): LlmConfig['tasks'] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json || '{}');
+  } catch (e) {
+    console.warn("LLM_TASKS is not valid JSON, ignoring it", e);
+    return {};
+  }
+  if (!isPlainObject(raw)) {
+    console.warn("LLM_TASKS is not a JSON object, ignoring it");
+    return {};
+  }
+  const tasks: LlmConfig['tasks'] = {};
+  for (const task of LLM_TASKS) {
+    const entry = raw[task];
+    if (!isPlainObject(entry)) continue;
+    const override: Partial<LlmTaskConfig> = {};
+    if (isProviderName(entry.provider)) override.provider = entry.provider;
+    else if (entry.provider !== undefined) console.warn(`LLM_TASKS: unknown provider for ${task}, using the default`);
+    if (typeof entry.model === 'string' && entry.model) override.model = entry.model;
+    tasks[task] = override;
+  }
+  return tasks;
+};
+
+// LLM_PROVIDER / LLM_MODEL set the default, LLM_TASKS overrides single tasks
+const configFromEnv = (): LlmConfig => {
+  const provider = isProviderName(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+  return { default: { provider, model: process.env.LLM_MODEL || DEFAULT_MODELS[provider] }, tasks: parseTaskConfig(process.env.LLM_TASKS) };
+};
+
+let config = configFromEnv();
+
+export const getLlmConfig = (task: LlmTask): LlmTaskConfig => {
+  const override = config.tasks[task];
+  const provider = isProviderName(override?.provider) ? override.provider : config.default.provider;
+  // A task that switches provider without naming a model gets that provider's default model
+  const model = override?.model || (provider === config.default.provider ? config.default.model : DEFAULT_MODELS[provider]);
+  return { provider, model };
+};
+
+// Changes the default (task omitted) or the configuration of one task
+export const setLlmConfig = (next: LlmTaskConfig, task?: LlmTask) => {
+  config = task
+    ? { ...config, tasks: { ...config.tasks, [task]: next } }
+    : { ...config, default: next };
+};
+
+const providers: Partial<Record<LlmProviderName, LlmProvider>> = {};
+
+const createProvider = (name: LlmProviderName): LlmProvider => {
+  switch (name) {
+    case 'gemini': return new GeminiProvider();
+    case 'openai': return new OpenAiCompatibleProvider();
+    case 'mock': return new MockLlmProvider();
+  }
+};
+
+export const getLlmProvider = (name: LlmProviderName): LlmProvider => {
+  if (!providers[name]) providers[name] = createProvider(name);
+  return providers[name];
+};
+
+export const setLlmProvider = (name: LlmProviderName, provider: LlmProvider) => {
+  providers[name] = provider;
+};
+
+// Runs a request with the provider and model configured for its task
+export const generateJson = (task: LlmTask, request: Omit<LlmRequest, 'task' | 'model'>): Promise<string | null> => {
+  const { provider, model } = getLlmConfig(task);
+  return getLlmProvider(provider).generateJson({ ...request, task, model });
+};
@@ -0,0 +1,1607 @@
+import { GrammarDrillKind, LanguageLevel, LessonStage, NativeLanguage, PartOfSpeech, ReviewGrade, UiLanguage, WritingErrorCategory, WritingScores } from "../types";
+
+// Texts of the App, Dashboard, Onboarding, LessonSession and its stages, the mock exam and the
+// checkpoint test. Lesson and exam content (German, English explanations) is not translated.
+// A catalog is only ever used for its own language, so its functions may ignore the language
+// name they are given.
+
+const EN = {
+  dir: 'ltr' as 'ltr' | 'rtl',
+
+  // Shared
+  next: 'Next',
+  continue: 'Continue',
+  dailyTraining: 'Daily Training',
+  stageLabels: {
+    review: 'Warm-up review',
+    vocab: 'New words',
+    reading: 'Reading',
+    listening: 'Listening',
+    grammar: 'Grammar drills',
+    writing: 'Writing',
+    feedback: 'Writing feedback',
+    speaking: 'Speaking',
+    finished: 'Summary'
+  } as Partial<Record<LessonStage, string>>,
+
+  // Dashboard
+  greeting: (hello: string, name: string) => `${hello}, ${name}!`, // 'hello' in the native language
+  currentLevel: 'Current Level',
+  target: 'Target',
+  todayGoal: (minutes: number, goal: number) => `${minutes} of ${goal} min today`,
+  streak: (days: number) => `${days}-day streak`,
+  streakFreezes: (count: number) => `${count} streak ${count === 1 ? 'freeze' : 'freezes'}`,
+  activity: 'Your Activity',
+  longestStreak: (days: number) => `Longest streak: ${days} ${days === 1 ? 'day' : 'days'}`,
+  freezeInfo: (days: number) => `Every ${days} days in a row earn a streak freeze, which covers a day you miss.`,
+  activityDay: (date: string, minutes: number) => `${date}: ${minutes} min`,
+  frozenDay: (date: string) => `${date}: streak freeze`,
+  less: 'Less',
+  more: 'More',
+  scriptSetting: (language: string) => `Script for ${language} translations`,
+  latinScript: 'Latin',
+  uiLanguageSetting: 'Language of the app',
+  resumeLesson: 'Resume Lesson',
+  draftWords: (count: number) => `draft with ${count} words`,
+  savedAt: (time: string) => `saved ${time}`,
+  abandonLesson: 'Abandon lesson',
+  resume: 'Resume',
+  restart: 'Restart',
+  dailyMix: (level: string) => `Your personalized mix: Vocab, Reading, Listening, Writing, Speaking for ${level}.`,
+  warmupCards: (count: number) => `Starts with ${count} review cards.`,
+  startDailySession: "Start Today's Session",
+  myVocabulary: 'My Vocabulary',
+  dueCards: (count: number) => `${count} due`,
+  deckSize: (count: number) => `${count} words in your deck`,
+  review: 'Review',
+  journey: 'Your Journey to B1',
+  levelName: (level: string) => `Level ${level}`,
+  levelPassed: 'Passed',
+  lessonsDone: (done: number, total: number) => `${done}/${total} lessons`,
+  continueCourse: 'Continue Course',
+  allLessonsDone: (level: string) => `All ${level} lessons completed!`,
+  revisionPlan: (percentage: number) => `Revision plan · Checkpoint ${percentage}%`,
+  takeCheckpoint: (level: string) => `Take Checkpoint Test ${level}`,
+  retryCheckpoint: (level: string) => `Retry Checkpoint Test ${level}`,
+  checkpointLocked: (lessons: number) => `Checkpoint test unlocks after ${lessons} lessons`,
+  examTraining: 'Exam Training B1',
+  lastScore: 'Last Score',
+  practice: 'Practice',
+  mockExam: 'Mock Exam',
+  analytics: 'Progress & Analytics',
+  focusOn: 'Focus on',
+  errorCount: (count: number) => `${count} ${count === 1 ? 'error' : 'errors'}`,
+  backupAndReset: 'Backup, Restore & Reset',
+
+  // Onboarding
+  setupIntro: "Let's set up your personal German plan.",
+  askName: 'What is your name?',
+  askNativeLanguage: 'What is your native language?',
+  askUiLanguage: 'Show the app in',
+  restorePrompt: 'Already learning on another device?',
+  restoreLink: 'Restore from backup',
+  restoreFailed: 'The backup could not be read.',
+  askLevel: 'What is your current German level?',
+  placementTest: 'Take the placement test',
+  placementTestInfo: 'Grammar, vocabulary and reading questions that get harder as you go. About 5 minutes.',
+  chooseLevel: "I'll choose my level myself",
+  chooseLevelInfo: 'Absolute beginners can start right away.',
+  placementResult: 'Placement result:',
+  placementCorrect: (correct: number, total: number) => `(${correct}/${total} correct)`,
+  placementFocus: (topics: string) => `We'll focus on: ${topics}`,
+  changeLevelHint: 'You can still change your level below.',
+  levelDescriptions: {
+    A0: 'Absolute Beginner',
+    A1: 'I know some basics',
+    A2: 'I can have short conversations',
+    B1: 'I am advanced'
+  } as Record<LanguageLevel, string>,
+  askScript: (script: string, sample: string) => `Can you read ${script} script (${sample})?`,
+  scriptHint: (language: string) => `${language} translations are shown in this script. You can switch it on the dashboard.`,
+  yes: 'Yes',
+  no: 'No',
+  askMinutes: 'Minutes per day?',
+  startLearning: 'Start Learning',
+
+  // LessonSession
+  preparingLesson: (title: string) => `Preparing "${title}"...`,
+  preparingCustomLesson: 'Preparing your customized lesson...',
+  generatingContent: 'Generating content with AI',
+  loadError: 'Error loading lesson.',
+  goBack: 'Go Back',
+  lesson: 'Lesson',
+  slowAudioOn: 'Slow audio on',
+  slowAudioOff: 'Slow audio off',
+  offlineLesson: 'No connection, so this is a practice lesson stored in the app.',
+  offlineCourseLesson: (title: string) => `"${title}" will be prepared once you are online again.`,
+  lessonGoal: 'Goal:',
+  lessonGrammar: 'Grammar:',
+  newWords: (current: number, total: number) => `New Words (${current}/${total})`,
+  meaning: 'Meaning',
+  nextWord: 'Next Word',
+  readingTitle: 'Lesen (Reading)',
+  hideTranslation: 'Hide English',
+  showTranslation: 'Translate',
+  helper: 'Helper',
+  lessonVocabulary: 'Vocabulary from this lesson',
+  writingTitle: 'Schreiben (Writing)',
+  pointsToCover: 'Points to cover:',
+  writingPlaceholder: 'Type your German text here...',
+  getFeedback: 'Get Feedback',
+  feedbackFailed: 'Error generating feedback. Please try again.',
+  yourFeedback: 'Your Feedback',
+  seeSummary: 'See Summary',
+  wellDone: 'Well Done!',
+  sessionComplete: 'You have completed this session.',
+  writingNotPassed: (needed: number) => `Your text needs ${needed}% to complete this course lesson. Try the lesson again to finish it.`,
+  sessionScore: 'Session Score',
+  backToDashboard: 'Back to Dashboard',
+
+  // Grammar drills
+  grammarTitle: 'Grammatik (Grammar)',
+  umlautHint: 'Umlauts can be typed as ae, oe and ue, ß as ss.',
+  drillTitles: {
+    cloze: 'Fill in the gap',
+    wordOrder: 'Put the words in order',
+    article: 'der, die or das?',
+    conjugation: 'Conjugate the verb',
+    adjectiveEnding: 'Add the adjective ending'
+  } as Record<GrammarDrillKind, string>,
+  check: 'Check',
+  gapLabel: 'Gap',
+  endingLabel: 'Ending',
+  mindTheUmlaut: 'Correct, but mind the umlaut:',
+  correctAnswer: 'Correct answer:',
+  correctOrder: 'Correct order:',
+  explanation: 'Explanation:',
+
+  // Listening and speaking
+  listeningTitle: 'Hören (Listening)',
+  noAudio: 'Your browser cannot play audio. Please read the transcript instead.',
+  play: 'Play',
+  stop: 'Stop',
+  playsLeft: (left: number, max: number) => `${left} of ${max} plays left`,
+  speed: 'Speed:',
+  showTranscript: 'Show transcript',
+  hideTranscript: 'Hide transcript',
+  speakingTitle: 'Sprechen (Speaking)',
+  talkAbout: 'Talk about:',
+  speakingFeedback: 'Speaking Feedback',
+  feedbackGrammar: 'Grammar',
+  feedbackVocabulary: 'Vocabulary range',
+  feedbackTask: 'Task fulfilment',
+  betterAnswer: 'Better answer',
+  answerPlaceholder: 'Your answer appears here...',
+  micDenied: 'Microphone access was denied. You can type your answer instead.',
+  recognitionStopped: 'Speech recognition stopped. You can type your answer instead.',
+  startRecording: 'Start recording',
+  stopRecording: 'Stop recording',
+  noRecognition: 'Speech recognition is not available in this browser. Type what you would say.',
+  listeningNow: 'Listening... speak German now.',
+  tapMicrophone: 'Tap the microphone and answer aloud, or type below.',
+
+  // ReviewSession
+  reviewComplete: 'Review complete',
+  reviewedCards: (count: number) => `You reviewed ${count} cards.`,
+  reviewLeft: (count: number) => `Review (${count} left)`,
+  rememberMeaning: 'Do you remember the meaning?',
+  showAnswer: 'Show Answer',
+  grades: { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' } as Record<ReviewGrade, string>,
+  vocabularyReview: 'Vocabulary Review',
+
+  // Writing feedback
+  goetheScore: 'Goethe B1 score',
+  estimatedLevel: (level: string) => `Level ~${level}`,
+  writingCriteria: {
+    taskFulfilment: 'Task fulfilment',
+    coherence: 'Coherence',
+    vocabulary: 'Vocabulary',
+    structures: 'Structures'
+  } as Record<keyof WritingScores, string>,
+  writingCategories: {
+    case: 'Case',
+    word_order: 'Word order',
+    verb_conjugation: 'Verb conjugation',
+    article: 'Article',
+    preposition: 'Preposition',
+    spelling: 'Spelling',
+    vocabulary: 'Vocabulary',
+    other: 'Other'
+  } as Record<WritingErrorCategory, string>,
+  yourText: (count: number) => `Your text (${count} ${count === 1 ? 'correction' : 'corrections'}) — tap a mistake`,
+  improvedVersion: 'Improved version',
+
+  // Word lookup
+  readAloud: 'Read aloud',
+  tapAnyWord: 'Tap any word to see its meaning.',
+  meaningOf: (word: string) => `Meaning of ${word}`,
+  close: 'Close',
+  lookingUp: 'Looking up...',
+  lookupFailed: 'Could not look up this word. Please check your connection.',
+  partsOfSpeech: {
+    noun: 'Noun',
+    verb: 'Verb',
+    adjective: 'Adjective',
+    adverb: 'Adverb',
+    pronoun: 'Pronoun',
+    preposition: 'Preposition',
+    conjunction: 'Conjunction',
+    article: 'Article',
+    numeral: 'Number',
+    other: 'Word'
+  } as Record<PartOfSpeech, string>,
+  inDeck: 'In your deck',
+  addToDeck: 'Add to deck',
+  listen: 'Listen',
+  listenTo: (text: string) => `Listen: ${text}`,
+  showScript: (script: string) => `Show ${script} script`,
+  showLatinScript: 'Show Latin script',
+
+  // MockExam
+  mockExamB1: 'Mock Exam B1',
+  mockExamModule: (module: string) => `Mock Exam · ${module}`,
+  examRules: (points: number) => `Every module has its own timer and is scored out of 100 points. You need ${points} points in each module to pass.`,
+  moduleSize: (parts: number, minutes: number) => `${parts} parts · ${minutes} min`,
+  startExam: 'Start Exam',
+  moduleFailed: (module: string) => `Error preparing the ${module} module.`,
+  tryAgain: 'Try again',
+  preparingModule: (module: string) => `Preparing ${module}...`,
+  partOf: (part: number, total: number) => `Part ${part} of ${total}`,
+  partLabel: (part: number) => `Part ${part}`,
+  back: 'Back',
+  nextPart: 'Next Part',
+  handIn: 'Hand In',
+  scoringAnswers: 'Scoring your answers...',
+  modulePassed: 'Bestanden (passed)',
+  moduleNotPassed: (points: number) => `Not passed — ${points} points needed`,
+  timeUsed: (time: string) => `Time used: ${time}`,
+  continueWith: (module: string) => `Continue with ${module}`,
+  seeResults: 'See Results',
+  yourMockExam: 'Your Mock Exam',
+  playing: 'Playing...',
+  choose: 'Choose...',
+  wordCount: (count: number, target: number) => `${count} / ~${target} words`,
+
+  // CheckpointTest
+  checkpointTitle: (level: string) => `Checkpoint ${level}`,
+  preparingCheckpoint: (level: string) => `Preparing your ${level} checkpoint test...`,
+  checkpointFailed: 'Error creating the test.',
+  checkpointRules: (level: string, percent: number) => `One question per lesson of ${level}. You need ${percent}% to move up.`,
+  seeResult: 'See Result',
+  movedUp: (level: string) => `Passed! You move up to ${level}.`,
+  courseCompleted: (level: string) => `Passed! You have completed the ${level} course.`,
+  notYet: (level: string) => `Not yet. You stay at ${level} and can retry after some revision.`,
+  yourRevisionPlan: 'Your revision plan',
+  revisionPlanInfo: 'Repeat these lessons, then take the checkpoint again:',
+
+  // App
+  discardSessionConfirm: (title: string) => `Start a new lesson? Your unfinished lesson "${title}" will be discarded.`,
+  abandonSessionConfirm: (title: string) => `Abandon "${title}"? Your answers will be lost.`,
+  storageRepaired: 'Some saved data could not be read and was reset.',
+  backupKept: (key: string) => `A copy of the original data was kept (${key}).`,
+  ok: 'OK'
+};
+
+export type Messages = typeof EN;
+
+const HINDI: Partial<Messages> = {
+  next: 'आगे',
+  continue: 'जारी रखें',
+  dailyTraining: 'रोज़ का अभ्यास',
+  stageLabels: {
+    review: 'वॉर्म-अप दोहराई',
+    vocab: 'नए शब्द',
+    reading: 'पढ़ना',
+    listening: 'सुनना',
+    grammar: 'व्याकरण अभ्यास',
+    writing: 'लिखना',
+    feedback: 'लेखन पर फ़ीडबैक',
+    speaking: 'बोलना',
+    finished: 'सारांश'
+  },
+
+  greeting: (_hello, name) => `नमस्ते, ${name}!`,
+  currentLevel: 'मौजूदा स्तर',
+  target: 'लक्ष्य',
+  todayGoal: (minutes, goal) => `आज ${goal} में से ${minutes} मिनट`,
+  streak: (days) => `लगातार ${days} दिन`,
+  streakFreezes: (count) => `${count} स्ट्रीक फ़्रीज़`,
+  activity: 'आपकी गतिविधि',
+  longestStreak: (days) => `सबसे लंबी स्ट्रीक: ${days} दिन`,
+  freezeInfo: (days) => `लगातार हर ${days} दिन पर एक स्ट्रीक फ़्रीज़ मिलता है, जो छूटे हुए एक दिन को बचा लेता है।`,
+  activityDay: (date, minutes) => `${date}: ${minutes} मिनट`,
+  frozenDay: (date) => `${date}: स्ट्रीक फ़्रीज़`,
+  less: 'कम',
+  more: 'ज़्यादा',
+  scriptSetting: () => 'हिन्दी अनुवाद की लिपि',
+  latinScript: 'रोमन',
+  uiLanguageSetting: 'ऐप की भाषा',
+  resumeLesson: 'पाठ जारी रखें',
+  draftWords: (count) => `${count} शब्दों का मसौदा`,
+  savedAt: (time) => `${time} को सहेजा गया`,
+  abandonLesson: 'पाठ छोड़ें',
+  resume: 'जारी रखें',
+  restart: 'नए सिरे से शुरू करें',
+  dailyMix: (level) => `${level} के लिए आपका अपना मिश्रण: शब्द, पढ़ना, सुनना, लिखना, बोलना।`,
+  warmupCards: (count) => `शुरुआत ${count} दोहराई कार्ड से।`,
+  startDailySession: 'आज का सत्र शुरू करें',
+  myVocabulary: 'मेरी शब्दावली',
+  dueCards: (count) => `${count} बाकी`,
+  deckSize: (count) => `आपके डेक में ${count} शब्द`,
+  review: 'दोहराएँ',
+  journey: 'B1 तक आपका सफ़र',
+  levelName: (level) => `स्तर ${level}`,
+  levelPassed: 'पास',
+  lessonsDone: (done, total) => `${done}/${total} पाठ`,
+  continueCourse: 'कोर्स जारी रखें',
+  allLessonsDone: (level) => `${level} के सभी पाठ पूरे हुए!`,
+  revisionPlan: (percentage) => `दोहराने की योजना · चेकपॉइंट ${percentage}%`,
+  takeCheckpoint: (level) => `चेकपॉइंट टेस्ट ${level} दें`,
+  retryCheckpoint: (level) => `चेकपॉइंट टेस्ट ${level} फिर से दें`,
+  checkpointLocked: (lessons) => `चेकपॉइंट टेस्ट ${lessons} पाठों के बाद खुलेगा`,
+  examTraining: 'परीक्षा की तैयारी B1',
+  lastScore: 'पिछला स्कोर',
+  practice: 'अभ्यास',
+  mockExam: 'मॉक परीक्षा',
+  analytics: 'प्रगति और विश्लेषण',
+  focusOn: 'इन पर ध्यान दें',
+  errorCount: (count) => `${count} ${count === 1 ? 'गलती' : 'गलतियाँ'}`,
+  backupAndReset: 'बैकअप, रीस्टोर और रीसेट',
+
+  setupIntro: 'आइए, आपकी जर्मन सीखने की योजना बनाते हैं।',
+  askName: 'आपका नाम क्या है?',
+  askNativeLanguage: 'आपकी मातृभाषा क्या है?',
+  askUiLanguage: 'ऐप इस भाषा में दिखाएँ',
+  restorePrompt: 'किसी दूसरे डिवाइस पर पहले से सीख रहे हैं?',
+  restoreLink: 'बैकअप से रीस्टोर करें',
+  restoreFailed: 'बैकअप पढ़ा नहीं जा सका।',
+  askLevel: 'अभी आपका जर्मन का स्तर क्या है?',
+  placementTest: 'प्लेसमेंट टेस्ट दें',
+  placementTestInfo: 'व्याकरण, शब्दावली और पढ़ने के सवाल, जो धीरे-धीरे कठिन होते जाते हैं। लगभग 5 मिनट।',
+  chooseLevel: 'अपना स्तर खुद चुनें',
+  chooseLevelInfo: 'बिल्कुल नए सीखने वाले तुरंत शुरू कर सकते हैं।',
+  placementResult: 'प्लेसमेंट का नतीजा:',
+  placementCorrect: (correct, total) => `(${correct}/${total} सही)`,
+  placementFocus: (topics) => `हम इन पर ध्यान देंगे: ${topics}`,
+  changeLevelHint: 'आप नीचे अपना स्तर अब भी बदल सकते हैं।',
+  levelDescriptions: {
+    A0: 'बिल्कुल शुरुआत',
+    A1: 'कुछ बुनियादी बातें आती हैं',
+    A2: 'छोटी बातचीत कर लेते हैं',
+    B1: 'काफ़ी आगे हैं'
+  },
+  askScript: () => 'क्या आप देवनागरी लिपि पढ़ सकते हैं?',
+  scriptHint: () => 'हिन्दी अनुवाद इसी लिपि में दिखेंगे। आप इसे डैशबोर्ड पर बदल सकते हैं।',
+  yes: 'हाँ',
+  no: 'नहीं',
+  askMinutes: 'रोज़ कितने मिनट?',
+  startLearning: 'सीखना शुरू करें',
+
+  preparingLesson: (title) => `"${title}" तैयार हो रहा है...`,
+  preparingCustomLesson: 'आपका पाठ तैयार हो रहा है...',
+  generatingContent: 'AI से सामग्री बनाई जा रही है',
+  loadError: 'पाठ लोड नहीं हो सका।',
+  goBack: 'वापस जाएँ',
+  lesson: 'पाठ',
+  slowAudioOn: 'धीमा ऑडियो चालू',
+  slowAudioOff: 'धीमा ऑडियो बंद',
+  offlineLesson: 'इंटरनेट नहीं है, इसलिए यह ऐप में रखा गया अभ्यास पाठ है।',
+  offlineCourseLesson: (title) => `ऑनलाइन होते ही "${title}" तैयार किया जाएगा।`,
+  lessonGoal: 'लक्ष्य:',
+  lessonGrammar: 'व्याकरण:',
+  newWords: (current, total) => `नए शब्द (${current}/${total})`,
+  meaning: 'अर्थ',
+  nextWord: 'अगला शब्द',
+  readingTitle: 'Lesen (पढ़ना)',
+  hideTranslation: 'अंग्रेज़ी छिपाएँ',
+  showTranslation: 'अंग्रेज़ी अनुवाद',
+  helper: 'मदद',
+  lessonVocabulary: 'इस पाठ के शब्द',
+  writingTitle: 'Schreiben (लिखना)',
+  pointsToCover: 'इन बातों को शामिल करें:',
+  writingPlaceholder: 'अपना जर्मन पाठ यहाँ लिखें...',
+  getFeedback: 'फ़ीडबैक पाएँ',
+  feedbackFailed: 'फ़ीडबैक नहीं बन सका। कृपया फिर से कोशिश करें।',
+  yourFeedback: 'आपका फ़ीडबैक',
+  seeSummary: 'सारांश देखें',
+  wellDone: 'बहुत बढ़िया!',
+  sessionComplete: 'आपने यह सत्र पूरा कर लिया है।',
+  writingNotPassed: (needed) => `यह कोर्स पाठ पूरा करने के लिए आपके लेख को ${needed}% चाहिए। इसे पूरा करने के लिए पाठ फिर से करें।`,
+  sessionScore: 'सत्र का स्कोर',
+  backToDashboard: 'डैशबोर्ड पर वापस',
+
+  grammarTitle: 'Grammatik (व्याकरण)',
+  umlautHint: 'उमलाउट को ae, oe और ue, और ß को ss लिखकर भी टाइप कर सकते हैं।',
+  drillTitles: {
+    cloze: 'खाली जगह भरें',
+    wordOrder: 'शब्दों को सही क्रम में लगाएँ',
+    article: 'der, die या das?',
+    conjugation: 'क्रिया के रूप लिखें',
+    adjectiveEnding: 'विशेषण का अंत जोड़ें'
+  },
+  check: 'जाँचें',
+  gapLabel: 'खाली जगह',
+  endingLabel: 'अंत',
+  mindTheUmlaut: 'सही, पर उमलाउट पर ध्यान दें:',
+  correctAnswer: 'सही उत्तर:',
+  correctOrder: 'सही क्रम:',
+  explanation: 'व्याख्या:',
+
+  listeningTitle: 'Hören (सुनना)',
+  noAudio: 'आपका ब्राउज़र ऑडियो नहीं चला सकता। कृपया इसके बजाय ट्रांसक्रिप्ट पढ़ें।',
+  play: 'चलाएँ',
+  stop: 'रोकें',
+  playsLeft: (left, max) => `${max} में से ${left} बार सुनना बाकी`,
+  speed: 'गति:',
+  showTranscript: 'ट्रांसक्रिप्ट दिखाएँ',
+  hideTranscript: 'ट्रांसक्रिप्ट छिपाएँ',
+  speakingTitle: 'Sprechen (बोलना)',
+  talkAbout: 'इन बातों पर बोलें:',
+  speakingFeedback: 'बोलने पर फ़ीडबैक',
+  feedbackGrammar: 'व्याकरण',
+  feedbackVocabulary: 'शब्दों की विविधता',
+  feedbackTask: 'कार्य की पूर्ति',
+  betterAnswer: 'बेहतर उत्तर',
+  answerPlaceholder: 'आपका उत्तर यहाँ दिखेगा...',
+  micDenied: 'माइक्रोफ़ोन की अनुमति नहीं मिली। आप अपना उत्तर टाइप भी कर सकते हैं।',
+  recognitionStopped: 'आवाज़ पहचानना रुक गया। आप अपना उत्तर टाइप भी कर सकते हैं।',
+  startRecording: 'रिकॉर्डिंग शुरू करें',
+  stopRecording: 'रिकॉर्डिंग रोकें',
+  noRecognition: 'इस ब्राउज़र में आवाज़ पहचानने की सुविधा नहीं है। जो कहना चाहते हैं, वह टाइप करें।',
+  listeningNow: 'सुन रहे हैं... अब जर्मन में बोलें।',
+  tapMicrophone: 'माइक्रोफ़ोन दबाकर बोलकर उत्तर दें, या नीचे टाइप करें।',
+
+  reviewComplete: 'दोहराई पूरी हुई',
+  reviewedCards: (count) => `आपने ${count} कार्ड दोहराए।`,
+  reviewLeft: (count) => `दोहराई (${count} बाकी)`,
+  rememberMeaning: 'क्या आपको अर्थ याद है?',
+  showAnswer: 'उत्तर दिखाएँ',
+  grades: { again: 'फिर से', hard: 'कठिन', good: 'ठीक', easy: 'आसान' },
+  vocabularyReview: 'शब्दावली दोहराई',
+
+  goetheScore: 'Goethe B1 स्कोर',
+  estimatedLevel: (level) => `स्तर ~${level}`,
+  writingCriteria: {
+    taskFulfilment: 'कार्य की पूर्ति',
+    coherence: 'सुसंगति',
+    vocabulary: 'शब्दावली',
+    structures: 'वाक्य रचना'
+  },
+  writingCategories: {
+    case: 'कारक (Kasus)',
+    word_order: 'शब्द क्रम',
+    verb_conjugation: 'क्रिया के रूप',
+    article: 'आर्टिकल',
+    preposition: 'पूर्वसर्ग',
+    spelling: 'वर्तनी',
+    vocabulary: 'शब्दावली',
+    other: 'अन्य'
+  },
+  yourText: (count) => `आपका पाठ (${count} सुधार) — किसी गलती पर टैप करें`,
+  improvedVersion: 'बेहतर रूप',
+
+  readAloud: 'ज़ोर से पढ़ें',
+  tapAnyWord: 'किसी भी शब्द का अर्थ देखने के लिए उस पर टैप करें।',
+  meaningOf: (word) => `${word} का अर्थ`,
+  close: 'बंद करें',
+  lookingUp: 'खोज रहे हैं...',
+  lookupFailed: 'इस शब्द का अर्थ नहीं मिल सका। कृपया अपना इंटरनेट कनेक्शन जाँचें।',
+  partsOfSpeech: {
+    noun: 'संज्ञा',
+    verb: 'क्रिया',
+    adjective: 'विशेषण',
+    adverb: 'क्रियाविशेषण',
+    pronoun: 'सर्वनाम',
+    preposition: 'पूर्वसर्ग',
+    conjunction: 'समुच्चयबोधक',
+    article: 'आर्टिकल',
+    numeral: 'संख्या',
+    other: 'शब्द'
+  },
+  inDeck: 'आपके डेक में है',
+  addToDeck: 'डेक में जोड़ें',
+  listen: 'सुनें',
+  listenTo: (text) => `सुनें: ${text}`,
+  showScript: () => 'देवनागरी लिपि दिखाएँ',
+  showLatinScript: 'रोमन लिपि दिखाएँ',
+
+  mockExamB1: 'मॉक परीक्षा B1',
+  mockExamModule: (module) => `मॉक परीक्षा · ${module}`,
+  examRules: (points) => `हर मॉड्यूल का अपना टाइमर है और उसे 100 अंकों में से आँका जाता है। पास होने के लिए हर मॉड्यूल में ${points} अंक चाहिए।`,
+  moduleSize: (parts, minutes) => `${parts} भाग · ${minutes} मिनट`,
+  startExam: 'परीक्षा शुरू करें',
+  moduleFailed: (module) => `${module} मॉड्यूल तैयार नहीं हो सका।`,
+  tryAgain: 'फिर से कोशिश करें',
+  preparingModule: (module) => `${module} तैयार हो रहा है...`,
+  partOf: (part, total) => `${total} में से भाग ${part}`,
+  partLabel: (part) => `भाग ${part}`,
+  back: 'पीछे',
+  nextPart: 'अगला भाग',
+  handIn: 'जमा करें',
+  scoringAnswers: 'आपके उत्तर जाँचे जा रहे हैं...',
+  modulePassed: 'Bestanden (पास)',
+  moduleNotPassed: (points) => `पास नहीं — ${points} अंक चाहिए`,
+  timeUsed: (time) => `लगा समय: ${time}`,
+  continueWith: (module) => `${module} के साथ आगे बढ़ें`,
+  seeResults: 'नतीजे देखें',
+  yourMockExam: 'आपकी मॉक परीक्षा',
+  playing: 'चल रहा है...',
+  choose: 'चुनें...',
+  wordCount: (count, target) => `${count} / ~${target} शब्द`,
+
+  checkpointTitle: (level) => `चेकपॉइंट ${level}`,
+  preparingCheckpoint: (level) => `आपका ${level} चेकपॉइंट टेस्ट तैयार हो रहा है...`,
+  checkpointFailed: 'टेस्ट नहीं बन सका।',
+  checkpointRules: (level, percent) => `${level} के हर पाठ से एक सवाल। अगले लेवल के लिए ${percent}% चाहिए।`,
+  seeResult: 'नतीजा देखें',
+  movedUp: (level) => `पास! अब आप ${level} पर हैं।`,
+  courseCompleted: (level) => `पास! आपने ${level} कोर्स पूरा कर लिया है।`,
+  notYet: (level) => `अभी नहीं। आप ${level} पर रहेंगे और दोहराने के बाद फिर से कोशिश कर सकते हैं।`,
+  yourRevisionPlan: 'आपकी दोहराने की योजना',
+  revisionPlanInfo: 'ये पाठ दोहराएँ, फिर चेकपॉइंट दोबारा दें:',
+
+  discardSessionConfirm: (title) => `नया पाठ शुरू करें? आपका अधूरा पाठ "${title}" हटा दिया जाएगा।`,
+  abandonSessionConfirm: (title) => `"${title}" छोड़ दें? आपके उत्तर मिट जाएँगे।`,
+  storageRepaired: 'कुछ सहेजा गया डेटा पढ़ा नहीं जा सका और रीसेट कर दिया गया।',
+  backupKept: (key) => `मूल डेटा की एक कॉपी रखी गई है (${key})।`,
+  ok: 'ठीक है'
+};
+
+const TAMIL: Partial<Messages> = {
+  next: 'அடுத்து',
+  continue: 'தொடரவும்',
+  dailyTraining: 'தினசரி பயிற்சி',
+  stageLabels: {
+    review: 'மீள்பார்வை',
+    vocab: 'புதிய சொற்கள்',
+    reading: 'வாசிப்பு',
+    listening: 'கேட்டல்',
+    grammar: 'இலக்கணப் பயிற்சி',
+    writing: 'எழுதுதல்',
+    feedback: 'எழுத்துக்கான கருத்து',
+    speaking: 'பேசுதல்',
+    finished: 'சுருக்கம்'
+  },
+
+  greeting: (_hello, name) => `வணக்கம், ${name}!`,
+  currentLevel: 'தற்போதைய நிலை',
+  target: 'இலக்கு',
+  todayGoal: (minutes, goal) => `இன்று ${goal} இல் ${minutes} நிமிடம்`,
+  streak: (days) => `தொடர்ந்து ${days} நாள்`,
+  streakFreezes: (count) => `${count} தொடர் பாதுகாப்பு`,
+  activity: 'உங்கள் செயல்பாடு',
+  longestStreak: (days) => `நீண்ட தொடர்: ${days} நாள்`,
+  freezeInfo: (days) => `தொடர்ந்து ஒவ்வொரு ${days} நாளுக்கும் ஒரு தொடர் பாதுகாப்பு கிடைக்கும்; அது தவறிய ஒரு நாளை ஈடுசெய்யும்.`,
+  activityDay: (date, minutes) => `${date}: ${minutes} நிமிடம்`,
+  frozenDay: (date) => `${date}: தொடர் பாதுகாப்பு`,
+  less: 'குறைவு',
+  more: 'அதிகம்',
+  scriptSetting: () => 'தமிழ் மொழிபெயர்ப்புகளின் எழுத்து',
+  latinScript: 'லத்தீன்',
+  uiLanguageSetting: 'செயலியின் மொழி',
+  resumeLesson: 'பாடத்தைத் தொடரவும்',
+  draftWords: (count) => `${count} சொற்கள் கொண்ட வரைவு`,
+  savedAt: (time) => `${time} அன்று சேமிக்கப்பட்டது`,
+  abandonLesson: 'பாடத்தைக் கைவிடு',
+  resume: 'தொடரவும்',
+  restart: 'மீண்டும் தொடங்கு',
+  dailyMix: (level) => `${level} நிலைக்கான உங்கள் கலவை: சொற்கள், வாசிப்பு, கேட்டல், எழுதுதல், பேசுதல்.`,
+  warmupCards: (count) => `${count} மீள்பார்வை அட்டைகளுடன் தொடங்கும்.`,
+  startDailySession: 'இன்றைய பயிற்சியைத் தொடங்கு',
+  myVocabulary: 'என் சொற்களஞ்சியம்',
+  dueCards: (count) => `${count} நிலுவையில்`,
+  deckSize: (count) => `உங்கள் தொகுப்பில் ${count} சொற்கள்`,
+  review: 'மீள்பார்வை',
+  journey: 'B1 நோக்கிய உங்கள் பயணம்',
+  levelName: (level) => `நிலை ${level}`,
+  levelPassed: 'தேர்ச்சி',
+  lessonsDone: (done, total) => `${done}/${total} பாடங்கள்`,
+  continueCourse: 'பாடத்திட்டத்தைத் தொடரவும்',
+  allLessonsDone: (level) => `${level} பாடங்கள் அனைத்தும் முடிந்தன!`,
+  revisionPlan: (percentage) => `மீள்பார்வைத் திட்டம் · நிலைச் சோதனை ${percentage}%`,
+  takeCheckpoint: (level) => `நிலைச் சோதனை ${level} எழுது`,
+  retryCheckpoint: (level) => `நிலைச் சோதனை ${level} மீண்டும் எழுது`,
+  checkpointLocked: (lessons) => `${lessons} பாடங்களுக்குப் பிறகு நிலைச் சோதனை திறக்கும்`,
+  examTraining: 'தேர்வுப் பயிற்சி B1',
+  lastScore: 'கடைசி மதிப்பெண்',
+  practice: 'பயிற்சி',
+  mockExam: 'மாதிரித் தேர்வு',
+  analytics: 'முன்னேற்றம் & பகுப்பாய்வு',
+  focusOn: 'கவனம் தேவை',
+  errorCount: (count) => `${count} ${count === 1 ? 'பிழை' : 'பிழைகள்'}`,
+  backupAndReset: 'காப்புப்பிரதி, மீட்பு & மீட்டமைப்பு',
+
+  setupIntro: 'உங்கள் ஜெர்மன் கற்றல் திட்டத்தை அமைப்போம்.',
+  askName: 'உங்கள் பெயர் என்ன?',
+  askNativeLanguage: 'உங்கள் தாய்மொழி எது?',
+  askUiLanguage: 'செயலியைக் காட்டும் மொழி',
+  restorePrompt: 'வேறு சாதனத்தில் ஏற்கனவே கற்கிறீர்களா?',
+  restoreLink: 'காப்புப்பிரதியிலிருந்து மீட்டெடு',
+  restoreFailed: 'காப்புப்பிரதியைப் படிக்க முடியவில்லை.',
+  askLevel: 'உங்கள் தற்போதைய ஜெர்மன் நிலை என்ன?',
+  placementTest: 'நிலை அறியும் சோதனையை எழுது',
+  placementTestInfo: 'இலக்கணம், சொற்கள், வாசிப்புக் கேள்விகள்; போகப் போகக் கடினமாகும். சுமார் 5 நிமிடங்கள்.',
+  chooseLevel: 'என் நிலையை நானே தேர்வு செய்கிறேன்',
+  chooseLevelInfo: 'முற்றிலும் புதியவர்கள் உடனே தொடங்கலாம்.',
+  placementResult: 'சோதனை முடிவு:',
+  placementCorrect: (correct, total) => `(${correct}/${total} சரி)`,
+  placementFocus: (topics) => `நாம் கவனம் செலுத்துவது: ${topics}`,
+  changeLevelHint: 'கீழே உங்கள் நிலையை இன்னும் மாற்றலாம்.',
+  levelDescriptions: {
+    A0: 'முற்றிலும் புதியவர்',
+    A1: 'சில அடிப்படைகள் தெரியும்',
+    A2: 'சிறிய உரையாடல்கள் செய்ய முடியும்',
+    B1: 'நன்கு முன்னேறியவர்'
+  },
+  askScript: () => 'தமிழ் எழுத்துகளைப் படிக்க முடியுமா?',
+  scriptHint: () => 'தமிழ் மொழிபெயர்ப்புகள் இந்த எழுத்தில் காட்டப்படும். இதை டாஷ்போர்டில் மாற்றலாம்.',
+  yes: 'ஆம்',
+  no: 'இல்லை',
+  askMinutes: 'தினமும் எத்தனை நிமிடங்கள்?',
+  startLearning: 'கற்கத் தொடங்கு',
+
+  preparingLesson: (title) => `"${title}" தயாராகிறது...`,
+  preparingCustomLesson: 'உங்கள் பாடம் தயாராகிறது...',
+  generatingContent: 'AI மூலம் உள்ளடக்கம் உருவாக்கப்படுகிறது',
+  loadError: 'பாடத்தை ஏற்ற முடியவில்லை.',
+  goBack: 'திரும்பிச் செல்',
+  lesson: 'பாடம்',
+  slowAudioOn: 'மெதுவான ஒலி இயக்கத்தில்',
+  slowAudioOff: 'மெதுவான ஒலி அணைப்பில்',
+  offlineLesson: 'இணைய இணைப்பு இல்லை, எனவே இது செயலியில் சேமிக்கப்பட்ட பயிற்சிப் பாடம்.',
+  offlineCourseLesson: (title) => `இணைய இணைப்பு வந்ததும் "${title}" தயாராகும்.`,
+  lessonGoal: 'இலக்கு:',
+  lessonGrammar: 'இலக்கணம்:',
+  newWords: (current, total) => `புதிய சொற்கள் (${current}/${total})`,
+  meaning: 'பொருள்',
+  nextWord: 'அடுத்த சொல்',
+  readingTitle: 'Lesen (வாசிப்பு)',
+  hideTranslation: 'ஆங்கிலத்தை மறை',
+  showTranslation: 'ஆங்கில மொழிபெயர்ப்பு',
+  helper: 'உதவி',
+  lessonVocabulary: 'இந்தப் பாடத்தின் சொற்கள்',
+  writingTitle: 'Schreiben (எழுதுதல்)',
+  pointsToCover: 'சேர்க்க வேண்டிய கருத்துகள்:',
+  writingPlaceholder: 'உங்கள் ஜெர்மன் உரையை இங்கே எழுதுங்கள்...',
+  getFeedback: 'கருத்தைப் பெறு',
+  feedbackFailed: 'கருத்தை உருவாக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  yourFeedback: 'உங்களுக்கான கருத்து',
+  seeSummary: 'சுருக்கத்தைப் பார்',
+  wellDone: 'அருமை!',
+  sessionComplete: 'இந்தப் பயிற்சியை முடித்துவிட்டீர்கள்.',
+  writingNotPassed: (needed) => `இந்தப் பாடத்தை முடிக்க உங்கள் எழுத்துக்கு ${needed}% தேவை. முடிக்க பாடத்தை மீண்டும் செய்யுங்கள்.`,
+  sessionScore: 'பயிற்சி மதிப்பெண்',
+  backToDashboard: 'டாஷ்போர்டுக்குத் திரும்பு',
+
+  grammarTitle: 'Grammatik (இலக்கணம்)',
+  umlautHint: 'உம்லாட்டை ae, oe, ue எனவும் ß-ஐ ss எனவும் தட்டச்சு செய்யலாம்.',
+  drillTitles: {
+    cloze: 'இடைவெளியை நிரப்புங்கள்',
+    wordOrder: 'சொற்களைச் சரியான வரிசையில் அமையுங்கள்',
+    article: 'der, die அல்லது das?',
+    conjugation: 'வினைச்சொல்லின் வடிவங்களை எழுதுங்கள்',
+    adjectiveEnding: 'பெயரடையின் முடிவைச் சேர்க்கவும்'
+  },
+  check: 'சரிபார்',
+  gapLabel: 'இடைவெளி',
+  endingLabel: 'முடிவு',
+  mindTheUmlaut: 'சரி, ஆனால் உம்லாட்டைக் கவனியுங்கள்:',
+  correctAnswer: 'சரியான விடை:',
+  correctOrder: 'சரியான வரிசை:',
+  explanation: 'விளக்கம்:',
+
+  listeningTitle: 'Hören (கேட்டல்)',
+  noAudio: 'உங்கள் உலாவியில் ஒலியை இயக்க முடியாது. அதற்குப் பதிலாக உரைப்பதிவைப் படியுங்கள்.',
+  play: 'இயக்கு',
+  stop: 'நிறுத்து',
+  playsLeft: (left, max) => `${max} முறைகளில் ${left} மீதம்`,
+  speed: 'வேகம்:',
+  showTranscript: 'உரைப்பதிவைக் காட்டு',
+  hideTranscript: 'உரைப்பதிவை மறை',
+  speakingTitle: 'Sprechen (பேசுதல்)',
+  talkAbout: 'இவற்றைப் பற்றிப் பேசுங்கள்:',
+  speakingFeedback: 'பேச்சுக்கான கருத்து',
+  feedbackGrammar: 'இலக்கணம்',
+  feedbackVocabulary: 'சொல்வளம்',
+  feedbackTask: 'பணி நிறைவு',
+  betterAnswer: 'சிறந்த பதில்',
+  answerPlaceholder: 'உங்கள் பதில் இங்கே தோன்றும்...',
+  micDenied: 'மைக்ரோஃபோன் அனுமதி மறுக்கப்பட்டது. உங்கள் பதிலைத் தட்டச்சு செய்யலாம்.',
+  recognitionStopped: 'குரல் அறிதல் நின்றுவிட்டது. உங்கள் பதிலைத் தட்டச்சு செய்யலாம்.',
+  startRecording: 'பதிவைத் தொடங்கு',
+  stopRecording: 'பதிவை நிறுத்து',
+  noRecognition: 'இந்த உலாவியில் குரல் அறிதல் இல்லை. நீங்கள் சொல்ல விரும்புவதைத் தட்டச்சு செய்யுங்கள்.',
+  listeningNow: 'கேட்கிறது... இப்போது ஜெர்மனில் பேசுங்கள்.',
+  tapMicrophone: 'மைக்ரோஃபோனைத் தட்டிப் பேசிப் பதிலளியுங்கள், அல்லது கீழே தட்டச்சு செய்யுங்கள்.',
+
+  reviewComplete: 'மீள்பார்வை முடிந்தது',
+  reviewedCards: (count) => `நீங்கள் ${count} அட்டைகளை மீள்பார்வை செய்தீர்கள்.`,
+  reviewLeft: (count) => `மீள்பார்வை (${count} மீதம்)`,
+  rememberMeaning: 'பொருள் நினைவிருக்கிறதா?',
+  showAnswer: 'பதிலைக் காட்டு',
+  grades: { again: 'மீண்டும்', hard: 'கடினம்', good: 'சரி', easy: 'எளிது' },
+  vocabularyReview: 'சொற்கள் மீள்பார்வை',
+
+  goetheScore: 'Goethe B1 மதிப்பெண்',
+  estimatedLevel: (level) => `நிலை ~${level}`,
+  writingCriteria: {
+    taskFulfilment: 'பணி நிறைவு',
+    coherence: 'ஒத்திசைவு',
+    vocabulary: 'சொல்வளம்',
+    structures: 'வாக்கிய அமைப்பு'
+  },
+  writingCategories: {
+    case: 'வேற்றுமை (Kasus)',
+    word_order: 'சொல் வரிசை',
+    verb_conjugation: 'வினை வடிவம்',
+    article: 'ஆர்டிகிள்',
+    preposition: 'முன்னிடைச்சொல்',
+    spelling: 'எழுத்துப்பிழை',
+    vocabulary: 'சொல்வளம்',
+    other: 'மற்றவை'
+  },
+  yourText: (count) => `உங்கள் உரை (${count} திருத்தங்கள்) — ஒரு பிழையைத் தட்டுங்கள்`,
+  improvedVersion: 'மேம்படுத்திய வடிவம்',
+
+  readAloud: 'உரக்கப் படி',
+  tapAnyWord: 'எந்தச் சொல்லின் பொருளையும் காண அதைத் தட்டுங்கள்.',
+  meaningOf: (word) => `${word} என்பதன் பொருள்`,
+  close: 'மூடு',
+  lookingUp: 'தேடுகிறது...',
+  lookupFailed: 'இந்தச் சொல்லின் பொருளைக் கண்டறிய முடியவில்லை. உங்கள் இணைய இணைப்பைச் சரிபாருங்கள்.',
+  partsOfSpeech: {
+    noun: 'பெயர்ச்சொல்',
+    verb: 'வினைச்சொல்',
+    adjective: 'பெயரடை',
+    adverb: 'வினையடை',
+    pronoun: 'பிரதிப்பெயர்',
+    preposition: 'முன்னிடைச்சொல்',
+    conjunction: 'இணைப்புச்சொல்',
+    article: 'ஆர்டிகிள்',
+    numeral: 'எண்',
+    other: 'சொல்'
+  },
+  inDeck: 'உங்கள் தொகுப்பில் உள்ளது',
+  addToDeck: 'தொகுப்பில் சேர்',
+  listen: 'கேள்',
+  listenTo: (text) => `கேள்: ${text}`,
+  showScript: () => 'தமிழ் எழுத்தைக் காட்டு',
+  showLatinScript: 'லத்தீன் எழுத்தைக் காட்டு',
+
+  mockExamB1: 'மாதிரித் தேர்வு B1',
+  mockExamModule: (module) => `மாதிரித் தேர்வு · ${module}`,
+  examRules: (points) => `ஒவ்வொரு பகுதிக்கும் தனி நேரக்கணிப்பு உண்டு, 100 புள்ளிகளுக்கு மதிப்பிடப்படும். தேர்ச்சி பெற ஒவ்வொரு பகுதியிலும் ${points} புள்ளிகள் தேவை.`,
+  moduleSize: (parts, minutes) => `${parts} பாகங்கள் · ${minutes} நிமிடம்`,
+  startExam: 'தேர்வைத் தொடங்கு',
+  moduleFailed: (module) => `${module} பகுதியைத் தயாரிக்க முடியவில்லை.`,
+  tryAgain: 'மீண்டும் முயல்',
+  preparingModule: (module) => `${module} தயாராகிறது...`,
+  partOf: (part, total) => `பாகம் ${part} / ${total}`,
+  partLabel: (part) => `பாகம் ${part}`,
+  back: 'பின்',
+  nextPart: 'அடுத்த பாகம்',
+  handIn: 'சமர்ப்பி',
+  scoringAnswers: 'உங்கள் பதில்கள் மதிப்பிடப்படுகின்றன...',
+  modulePassed: 'Bestanden (தேர்ச்சி)',
+  moduleNotPassed: (points) => `தேர்ச்சி இல்லை — ${points} புள்ளிகள் தேவை`,
+  timeUsed: (time) => `எடுத்த நேரம்: ${time}`,
+  continueWith: (module) => `${module} உடன் தொடர்`,
+  seeResults: 'முடிவுகளைப் பார்',
+  yourMockExam: 'உங்கள் மாதிரித் தேர்வு',
+  playing: 'இயங்குகிறது...',
+  choose: 'தேர்ந்தெடு...',
+  wordCount: (count, target) => `${count} / ~${target} சொற்கள்`,
+
+  checkpointTitle: (level) => `நிலைச் சோதனை ${level}`,
+  preparingCheckpoint: (level) => `உங்கள் ${level} நிலைச் சோதனை தயாராகிறது...`,
+  checkpointFailed: 'சோதனையை உருவாக்க முடியவில்லை.',
+  checkpointRules: (level, percent) => `${level} இன் ஒவ்வொரு பாடத்திலிருந்தும் ஒரு கேள்வி. அடுத்த நிலைக்குச் செல்ல ${percent}% தேவை.`,
+  seeResult: 'முடிவைப் பார்',
+  movedUp: (level) => `தேர்ச்சி! நீங்கள் ${level} நிலைக்குச் செல்கிறீர்கள்.`,
+  courseCompleted: (level) => `தேர்ச்சி! ${level} பாடநெறியை முடித்துவிட்டீர்கள்.`,
+  notYet: (level) => `இன்னும் இல்லை. நீங்கள் ${level} இல் இருப்பீர்கள், மீள்பார்வைக்குப் பிறகு மீண்டும் முயலலாம்.`,
+  yourRevisionPlan: 'உங்கள் மீள்பார்வைத் திட்டம்',
+  revisionPlanInfo: 'இந்தப் பாடங்களை மீண்டும் படித்து, பிறகு நிலைச் சோதனையை மீண்டும் எழுதுங்கள்:',
+
+  discardSessionConfirm: (title) => `புதிய பாடத்தைத் தொடங்கவா? முடிக்காத பாடம் "${title}" நீக்கப்படும்.`,
+  abandonSessionConfirm: (title) => `"${title}" பாடத்தைக் கைவிடவா? உங்கள் பதில்கள் அழிந்துவிடும்.`,
+  storageRepaired: 'சேமித்த சில தரவுகளைப் படிக்க முடியவில்லை, அவை மீட்டமைக்கப்பட்டன.',
+  backupKept: (key) => `மூலத் தரவின் ஒரு நகல் வைக்கப்பட்டுள்ளது (${key}).`,
+  ok: 'சரி'
+};
+
+const URDU: Partial<Messages> = {
+  dir: 'rtl',
+  next: 'آگے',
+  continue: 'جاری رکھیں',
+  dailyTraining: 'روزانہ کی مشق',
+  stageLabels: {
+    review: 'وارم اپ دہرائی',
+    vocab: 'نئے الفاظ',
+    reading: 'پڑھنا',
+    listening: 'سننا',
+    grammar: 'گرامر کی مشق',
+    writing: 'لکھنا',
+    feedback: 'تحریر پر رائے',
+    speaking: 'بولنا',
+    finished: 'خلاصہ'
+  },
+
+  greeting: (_hello, name) => `السلام علیکم، ${name}!`,
+  currentLevel: 'موجودہ سطح',
+  target: 'ہدف',
+  todayGoal: (minutes, goal) => `آج ${goal} میں سے ${minutes} منٹ`,
+  streak: (days) => `مسلسل ${days} دن`,
+  streakFreezes: (count) => `${count} اسٹریک فریز`,
+  activity: 'آپ کی سرگرمی',
+  longestStreak: (days) => `سب سے لمبا سلسلہ: ${days} دن`,
+  freezeInfo: (days) => `ہر ${days} مسلسل دنوں پر ایک اسٹریک فریز ملتا ہے، جو چھوٹے ہوئے ایک دن کو بچا لیتا ہے۔`,
+  activityDay: (date, minutes) => `${date}: ${minutes} منٹ`,
+  frozenDay: (date) => `${date}: اسٹریک فریز`,
+  less: 'کم',
+  more: 'زیادہ',
+  scriptSetting: () => 'اردو ترجمے کا رسم الخط',
+  latinScript: 'رومن',
+  uiLanguageSetting: 'ایپ کی زبان',
+  resumeLesson: 'سبق جاری رکھیں',
+  draftWords: (count) => `${count} الفاظ کا مسودہ`,
+  savedAt: (time) => `${time} کو محفوظ کیا گیا`,
+  abandonLesson: 'سبق چھوڑ دیں',
+  resume: 'جاری رکھیں',
+  restart: 'دوبارہ شروع کریں',
+  dailyMix: (level) => `${level} کے لیے آپ کا ذاتی مجموعہ: الفاظ، پڑھنا، سننا، لکھنا، بولنا۔`,
+  warmupCards: (count) => `${count} دہرائی کارڈز سے آغاز۔`,
+  startDailySession: 'آج کا سیشن شروع کریں',
+  myVocabulary: 'میرا ذخیرۂ الفاظ',
+  dueCards: (count) => `${count} باقی`,
+  deckSize: (count) => `آپ کے ڈیک میں ${count} الفاظ`,
+  review: 'دہرائیں',
+  journey: 'B1 تک آپ کا سفر',
+  levelName: (level) => `سطح ${level}`,
+  levelPassed: 'پاس',
+  lessonsDone: (done, total) => `${done}/${total} اسباق`,
+  continueCourse: 'کورس جاری رکھیں',
+  allLessonsDone: (level) => `${level} کے تمام اسباق مکمل!`,
+  revisionPlan: (percentage) => `دہرائی کا منصوبہ · چیک پوائنٹ ${percentage}%`,
+  takeCheckpoint: (level) => `چیک پوائنٹ ٹیسٹ ${level} دیں`,
+  retryCheckpoint: (level) => `چیک پوائنٹ ٹیسٹ ${level} دوبارہ دیں`,
+  checkpointLocked: (lessons) => `چیک پوائنٹ ٹیسٹ ${lessons} اسباق کے بعد کھلے گا`,
+  examTraining: 'امتحان کی تیاری B1',
+  lastScore: 'پچھلا اسکور',
+  practice: 'مشق',
+  mockExam: 'فرضی امتحان',
+  analytics: 'پیش رفت اور تجزیہ',
+  focusOn: 'ان پر توجہ دیں',
+  errorCount: (count) => `${count} ${count === 1 ? 'غلطی' : 'غلطیاں'}`,
+  backupAndReset: 'بیک اپ، بحالی اور ری سیٹ',
+
+  setupIntro: 'آئیے آپ کا جرمن سیکھنے کا منصوبہ بنائیں۔',
+  askName: 'آپ کا نام کیا ہے؟',
+  askNativeLanguage: 'آپ کی مادری زبان کیا ہے؟',
+  askUiLanguage: 'ایپ اس زبان میں دکھائیں',
+  restorePrompt: 'کیا آپ کسی دوسرے آلے پر پہلے سے سیکھ رہے ہیں؟',
+  restoreLink: 'بیک اپ سے بحال کریں',
+  restoreFailed: 'بیک اپ پڑھا نہیں جا سکا۔',
+  askLevel: 'آپ کی جرمن کی موجودہ سطح کیا ہے؟',
+  placementTest: 'پلیسمنٹ ٹیسٹ دیں',
+  placementTestInfo: 'گرامر، الفاظ اور پڑھنے کے سوالات جو آہستہ آہستہ مشکل ہوتے جاتے ہیں۔ تقریباً 5 منٹ۔',
+  chooseLevel: 'اپنی سطح خود چنیں',
+  chooseLevelInfo: 'بالکل نئے سیکھنے والے فوراً شروع کر سکتے ہیں۔',
+  placementResult: 'پلیسمنٹ کا نتیجہ:',
+  placementCorrect: (correct, total) => `(${correct}/${total} درست)`,
+  placementFocus: (topics) => `ہم ان پر توجہ دیں گے: ${topics}`,
+  changeLevelHint: 'آپ نیچے اپنی سطح اب بھی بدل سکتے ہیں۔',
+  levelDescriptions: {
+    A0: 'بالکل ابتدائی',
+    A1: 'کچھ بنیادی باتیں آتی ہیں',
+    A2: 'مختصر بات چیت کر لیتے ہیں',
+    B1: 'کافی آگے ہیں'
+  },
+  askScript: () => 'کیا آپ اردو رسم الخط پڑھ سکتے ہیں؟',
+  scriptHint: () => 'اردو ترجمے اسی رسم الخط میں دکھائے جائیں گے۔ آپ اسے ڈیش بورڈ پر بدل سکتے ہیں۔',
+  yes: 'ہاں',
+  no: 'نہیں',
+  askMinutes: 'روزانہ کتنے منٹ؟',
+  startLearning: 'سیکھنا شروع کریں',
+
+  preparingLesson: (title) => `"${title}" تیار ہو رہا ہے...`,
+  preparingCustomLesson: 'آپ کا سبق تیار ہو رہا ہے...',
+  generatingContent: 'AI سے مواد بنایا جا رہا ہے',
+  loadError: 'سبق لوڈ نہیں ہو سکا۔',
+  goBack: 'واپس جائیں',
+  lesson: 'سبق',
+  slowAudioOn: 'آہستہ آڈیو آن',
+  slowAudioOff: 'آہستہ آڈیو بند',
+  offlineLesson: 'انٹرنیٹ نہیں ہے، اس لیے یہ ایپ میں محفوظ مشقی سبق ہے۔',
+  offlineCourseLesson: (title) => `آن لائن ہوتے ہی "${title}" تیار کیا جائے گا۔`,
+  lessonGoal: 'ہدف:',
+  lessonGrammar: 'گرامر:',
+  newWords: (current, total) => `نئے الفاظ (${current}/${total})`,
+  meaning: 'معنی',
+  nextWord: 'اگلا لفظ',
+  readingTitle: 'Lesen (پڑھنا)',
+  hideTranslation: 'انگریزی چھپائیں',
+  showTranslation: 'انگریزی ترجمہ',
+  helper: 'مدد',
+  lessonVocabulary: 'اس سبق کے الفاظ',
+  writingTitle: 'Schreiben (لکھنا)',
+  pointsToCover: 'یہ نکات شامل کریں:',
+  writingPlaceholder: 'اپنا جرمن متن یہاں لکھیں...',
+  getFeedback: 'رائے حاصل کریں',
+  feedbackFailed: 'رائے نہیں بن سکی۔ براہ کرم دوبارہ کوشش کریں۔',
+  yourFeedback: 'آپ کے لیے رائے',
+  seeSummary: 'خلاصہ دیکھیں',
+  wellDone: 'شاباش!',
+  sessionComplete: 'آپ نے یہ سیشن مکمل کر لیا ہے۔',
+  writingNotPassed: (needed) => `یہ کورس سبق مکمل کرنے کے لیے آپ کی تحریر کو ${needed}% درکار ہے۔ مکمل کرنے کے لیے سبق دوبارہ کریں۔`,
+  sessionScore: 'سیشن کا اسکور',
+  backToDashboard: 'ڈیش بورڈ پر واپس',
+
+  grammarTitle: 'Grammatik (گرامر)',
+  umlautHint: 'اوملاؤٹ کو ae، oe اور ue، اور ß کو ss لکھ کر بھی ٹائپ کر سکتے ہیں۔',
+  drillTitles: {
+    cloze: 'خالی جگہ پُر کریں',
+    wordOrder: 'الفاظ کو صحیح ترتیب میں لگائیں',
+    article: 'der، die یا das؟',
+    conjugation: 'فعل کی گردان لکھیں',
+    adjectiveEnding: 'صفت کا آخری حصہ لگائیں'
+  },
+  check: 'جانچیں',
+  gapLabel: 'خالی جگہ',
+  endingLabel: 'آخری حصہ',
+  mindTheUmlaut: 'درست، لیکن اوملاؤٹ کا خیال رکھیں:',
+  correctAnswer: 'درست جواب:',
+  correctOrder: 'درست ترتیب:',
+  explanation: 'وضاحت:',
+
+  listeningTitle: 'Hören (سننا)',
+  noAudio: 'آپ کا براؤزر آڈیو نہیں چلا سکتا۔ براہِ کرم اس کی بجائے ٹرانسکرپٹ پڑھیں۔',
+  play: 'چلائیں',
+  stop: 'روکیں',
+  playsLeft: (left, max) => `${max} میں سے ${left} بار باقی`,
+  speed: 'رفتار:',
+  showTranscript: 'ٹرانسکرپٹ دکھائیں',
+  hideTranscript: 'ٹرانسکرپٹ چھپائیں',
+  speakingTitle: 'Sprechen (بولنا)',
+  talkAbout: 'ان باتوں پر بولیں:',
+  speakingFeedback: 'بولنے پر فیڈبیک',
+  feedbackGrammar: 'گرامر',
+  feedbackVocabulary: 'الفاظ کا تنوع',
+  feedbackTask: 'کام کی تکمیل',
+  betterAnswer: 'بہتر جواب',
+  answerPlaceholder: 'آپ کا جواب یہاں نظر آئے گا...',
+  micDenied: 'مائیکروفون کی اجازت نہیں ملی۔ آپ اپنا جواب ٹائپ بھی کر سکتے ہیں۔',
+  recognitionStopped: 'آواز کی شناخت رک گئی۔ آپ اپنا جواب ٹائپ بھی کر سکتے ہیں۔',
+  startRecording: 'ریکارڈنگ شروع کریں',
+  stopRecording: 'ریکارڈنگ روکیں',
+  noRecognition: 'اس براؤزر میں آواز کی شناخت دستیاب نہیں۔ جو کہنا چاہتے ہیں وہ ٹائپ کریں۔',
+  listeningNow: 'سن رہا ہے... اب جرمن میں بولیں۔',
+  tapMicrophone: 'مائیکروفون دبا کر بول کر جواب دیں، یا نیچے ٹائپ کریں۔',
+
+  reviewComplete: 'دہرائی مکمل',
+  reviewedCards: (count) => `آپ نے ${count} کارڈ دہرائے۔`,
+  reviewLeft: (count) => `دہرائی (${count} باقی)`,
+  rememberMeaning: 'کیا آپ کو معنی یاد ہے؟',
+  showAnswer: 'جواب دکھائیں',
+  grades: { again: 'دوبارہ', hard: 'مشکل', good: 'ٹھیک', easy: 'آسان' },
+  vocabularyReview: 'الفاظ کی دہرائی',
+
+  goetheScore: 'Goethe B1 اسکور',
+  estimatedLevel: (level) => `سطح ~${level}`,
+  writingCriteria: {
+    taskFulfilment: 'کام کی تکمیل',
+    coherence: 'ربط',
+    vocabulary: 'الفاظ',
+    structures: 'جملوں کی ساخت'
+  },
+  writingCategories: {
+    case: 'حالت (Kasus)',
+    word_order: 'الفاظ کی ترتیب',
+    verb_conjugation: 'فعل کی گردان',
+    article: 'آرٹیکل',
+    preposition: 'حرفِ جار',
+    spelling: 'املا',
+    vocabulary: 'الفاظ',
+    other: 'دیگر'
+  },
+  yourText: (count) => `آپ کی تحریر (${count} اصلاحات) — کسی غلطی پر ٹیپ کریں`,
+  improvedVersion: 'بہتر شکل',
+
+  readAloud: 'بلند آواز سے پڑھیں',
+  tapAnyWord: 'کسی بھی لفظ کا مطلب دیکھنے کے لیے اس پر ٹیپ کریں۔',
+  meaningOf: (word) => `${word} کا مطلب`,
+  close: 'بند کریں',
+  lookingUp: 'تلاش جاری ہے...',
+  lookupFailed: 'اس لفظ کا مطلب نہیں مل سکا۔ براہِ کرم اپنا انٹرنیٹ کنکشن چیک کریں۔',
+  partsOfSpeech: {
+    noun: 'اسم',
+    verb: 'فعل',
+    adjective: 'صفت',
+    adverb: 'متعلق فعل',
+    pronoun: 'ضمیر',
+    preposition: 'حرفِ جار',
+    conjunction: 'حرفِ عطف',
+    article: 'آرٹیکل',
+    numeral: 'عدد',
+    other: 'لفظ'
+  },
+  inDeck: 'آپ کے ڈیک میں ہے',
+  addToDeck: 'ڈیک میں شامل کریں',
+  listen: 'سنیں',
+  listenTo: (text) => `سنیں: ${text}`,
+  showScript: () => 'اردو رسم الخط دکھائیں',
+  showLatinScript: 'رومن رسم الخط دکھائیں',
+
+  mockExamB1: 'فرضی امتحان B1',
+  mockExamModule: (module) => `فرضی امتحان · ${module}`,
+  examRules: (points) => `ہر ماڈیول کا اپنا ٹائمر ہے اور اسے 100 نمبروں میں سے جانچا جاتا ہے۔ پاس ہونے کے لیے ہر ماڈیول میں ${points} نمبر چاہییں۔`,
+  moduleSize: (parts, minutes) => `${parts} حصے · ${minutes} منٹ`,
+  startExam: 'امتحان شروع کریں',
+  moduleFailed: (module) => `${module} ماڈیول تیار نہیں ہو سکا۔`,
+  tryAgain: 'دوبارہ کوشش کریں',
+  preparingModule: (module) => `${module} تیار ہو رہا ہے...`,
+  partOf: (part, total) => `${total} میں سے حصہ ${part}`,
+  partLabel: (part) => `حصہ ${part}`,
+  back: 'پیچھے',
+  nextPart: 'اگلا حصہ',
+  handIn: 'جمع کرائیں',
+  scoringAnswers: 'آپ کے جوابات جانچے جا رہے ہیں...',
+  modulePassed: 'Bestanden (پاس)',
+  moduleNotPassed: (points) => `پاس نہیں — ${points} نمبر چاہییں`,
+  timeUsed: (time) => `لگا وقت: ${time}`,
+  continueWith: (module) => `${module} کے ساتھ جاری رکھیں`,
+  seeResults: 'نتائج دیکھیں',
+  yourMockExam: 'آپ کا فرضی امتحان',
+  playing: 'چل رہا ہے...',
+  choose: 'منتخب کریں...',
+  wordCount: (count, target) => `${count} / ~${target} الفاظ`,
+
+  checkpointTitle: (level) => `چیک پوائنٹ ${level}`,
+  preparingCheckpoint: (level) => `آپ کا ${level} چیک پوائنٹ ٹیسٹ تیار ہو رہا ہے...`,
+  checkpointFailed: 'ٹیسٹ نہیں بن سکا۔',
+  checkpointRules: (level, percent) => `${level} کے ہر سبق سے ایک سوال۔ اگلے لیول کے لیے ${percent}% چاہییں۔`,
+  seeResult: 'نتیجہ دیکھیں',
+  movedUp: (level) => `پاس! اب آپ ${level} پر ہیں۔`,
+  courseCompleted: (level) => `پاس! آپ نے ${level} کورس مکمل کر لیا ہے۔`,
+  notYet: (level) => `ابھی نہیں۔ آپ ${level} پر رہیں گے اور دہرائی کے بعد دوبارہ کوشش کر سکتے ہیں۔`,
+  yourRevisionPlan: 'آپ کا دہرائی کا منصوبہ',
+  revisionPlanInfo: 'یہ اسباق دہرائیں، پھر چیک پوائنٹ دوبارہ دیں:',
+
+  discardSessionConfirm: (title) => `نیا سبق شروع کریں؟ آپ کا نامکمل سبق "${title}" ختم ہو جائے گا۔`,
+  abandonSessionConfirm: (title) => `"${title}" چھوڑ دیں؟ آپ کے جوابات مٹ جائیں گے۔`,
+  storageRepaired: 'کچھ محفوظ ڈیٹا پڑھا نہیں جا سکا اور ری سیٹ کر دیا گیا۔',
+  backupKept: (key) => `اصل ڈیٹا کی ایک کاپی رکھی گئی ہے (${key})۔`,
+  ok: 'ٹھیک ہے'
+};
+
+const BENGALI: Partial<Messages> = {
+  next: 'পরবর্তী',
+  continue: 'চালিয়ে যান',
+  dailyTraining: 'প্রতিদিনের অনুশীলন',
+  stageLabels: {
+    review: 'ওয়ার্ম-আপ পুনরাবৃত্তি',
+    vocab: 'নতুন শব্দ',
+    reading: 'পড়া',
+    listening: 'শোনা',
+    grammar: 'ব্যাকরণ অনুশীলন',
+    writing: 'লেখা',
+    feedback: 'লেখার মতামত',
+    speaking: 'বলা',
+    finished: 'সারসংক্ষেপ'
+  },
+
+  greeting: (_hello, name) => `নমস্কার, ${name}!`,
+  currentLevel: 'বর্তমান স্তর',
+  target: 'লক্ষ্য',
+  todayGoal: (minutes, goal) => `আজ ${goal} মিনিটের মধ্যে ${minutes} মিনিট`,
+  streak: (days) => `টানা ${days} দিন`,
+  streakFreezes: (count) => `${count}টি স্ট্রিক ফ্রিজ`,
+  activity: 'আপনার কার্যকলাপ',
+  longestStreak: (days) => `দীর্ঘতম ধারা: ${days} দিন`,
+  freezeInfo: (days) => `টানা প্রতি ${days} দিনে একটি স্ট্রিক ফ্রিজ পাবেন, যা একটি বাদ পড়া দিন রক্ষা করে।`,
+  activityDay: (date, minutes) => `${date}: ${minutes} মিনিট`,
+  frozenDay: (date) => `${date}: স্ট্রিক ফ্রিজ`,
+  less: 'কম',
+  more: 'বেশি',
+  scriptSetting: () => 'বাংলা অনুবাদের লিপি',
+  latinScript: 'রোমান',
+  uiLanguageSetting: 'অ্যাপের ভাষা',
+  resumeLesson: 'পাঠ চালিয়ে যান',
+  draftWords: (count) => `${count} শব্দের খসড়া`,
+  savedAt: (time) => `${time}-এ সংরক্ষিত`,
+  abandonLesson: 'পাঠ বাদ দিন',
+  resume: 'চালিয়ে যান',
+  restart: 'নতুন করে শুরু',
+  dailyMix: (level) => `${level}-এর জন্য আপনার নিজস্ব মিশ্রণ: শব্দ, পড়া, শোনা, লেখা, বলা।`,
+  warmupCards: (count) => `${count}টি পুনরাবৃত্তি কার্ড দিয়ে শুরু।`,
+  startDailySession: 'আজকের সেশন শুরু করুন',
+  myVocabulary: 'আমার শব্দভান্ডার',
+  dueCards: (count) => `${count}টি বাকি`,
+  deckSize: (count) => `আপনার ডেকে ${count}টি শব্দ`,
+  review: 'পুনরাবৃত্তি',
+  journey: 'B1-এর পথে আপনার যাত্রা',
+  levelName: (level) => `স্তর ${level}`,
+  levelPassed: 'উত্তীর্ণ',
+  lessonsDone: (done, total) => `${done}/${total} পাঠ`,
+  continueCourse: 'কোর্স চালিয়ে যান',
+  allLessonsDone: (level) => `${level}-এর সব পাঠ শেষ!`,
+  revisionPlan: (percentage) => `পুনরাবৃত্তির পরিকল্পনা · চেকপয়েন্ট ${percentage}%`,
+  takeCheckpoint: (level) => `চেকপয়েন্ট টেস্ট ${level} দিন`,
+  retryCheckpoint: (level) => `চেকপয়েন্ট টেস্ট ${level} আবার দিন`,
+  checkpointLocked: (lessons) => `${lessons}টি পাঠের পরে চেকপয়েন্ট টেস্ট খুলবে`,
+  examTraining: 'পরীক্ষার প্রস্তুতি B1',
+  lastScore: 'শেষ স্কোর',
+  practice: 'অনুশীলন',
+  mockExam: 'মক পরীক্ষা',
+  analytics: 'অগ্রগতি ও বিশ্লেষণ',
+  focusOn: 'যেগুলোতে মনোযোগ দিন',
+  errorCount: (count) => `${count}টি ভুল`,
+  backupAndReset: 'ব্যাকআপ, পুনরুদ্ধার ও রিসেট',
+
+  setupIntro: 'চলুন, আপনার জার্মান শেখার পরিকল্পনা তৈরি করি।',
+  askName: 'আপনার নাম কী?',
+  askNativeLanguage: 'আপনার মাতৃভাষা কী?',
+  askUiLanguage: 'অ্যাপটি এই ভাষায় দেখান',
+  restorePrompt: 'অন্য ডিভাইসে আগে থেকেই শিখছেন?',
+  restoreLink: 'ব্যাকআপ থেকে পুনরুদ্ধার করুন',
+  restoreFailed: 'ব্যাকআপটি পড়া যায়নি।',
+  askLevel: 'আপনার বর্তমান জার্মান স্তর কী?',
+  placementTest: 'প্লেসমেন্ট টেস্ট দিন',
+  placementTestInfo: 'ব্যাকরণ, শব্দভান্ডার ও পড়ার প্রশ্ন, যা ধীরে ধীরে কঠিন হয়। প্রায় 5 মিনিট।',
+  chooseLevel: 'নিজের স্তর নিজেই বেছে নিন',
+  chooseLevelInfo: 'একেবারে নতুনরা এখনই শুরু করতে পারেন।',
+  placementResult: 'প্লেসমেন্টের ফলাফল:',
+  placementCorrect: (correct, total) => `(${correct}/${total} সঠিক)`,
+  placementFocus: (topics) => `আমরা মনোযোগ দেব: ${topics}`,
+  changeLevelHint: 'নিচে আপনি এখনও স্তর বদলাতে পারেন।',
+  levelDescriptions: {
+    A0: 'একেবারে নতুন',
+    A1: 'কিছু মৌলিক জিনিস জানি',
+    A2: 'ছোট কথোপকথন করতে পারি',
+    B1: 'আমি অনেকটা এগিয়ে আছি'
+  },
+  askScript: () => 'আপনি কি বাংলা লিপি পড়তে পারেন?',
+  scriptHint: () => 'বাংলা অনুবাদ এই লিপিতে দেখানো হবে। ড্যাশবোর্ডে এটি বদলাতে পারবেন।',
+  yes: 'হ্যাঁ',
+  no: 'না',
+  askMinutes: 'দিনে কত মিনিট?',
+  startLearning: 'শেখা শুরু করুন',
+
+  preparingLesson: (title) => `"${title}" তৈরি হচ্ছে...`,
+  preparingCustomLesson: 'আপনার পাঠ তৈরি হচ্ছে...',
+  generatingContent: 'AI দিয়ে বিষয়বস্তু তৈরি হচ্ছে',
+  loadError: 'পাঠ লোড করা যায়নি।',
+  goBack: 'ফিরে যান',
+  lesson: 'পাঠ',
+  slowAudioOn: 'ধীর অডিও চালু',
+  slowAudioOff: 'ধীর অডিও বন্ধ',
+  offlineLesson: 'ইন্টারনেট সংযোগ নেই, তাই এটি অ্যাপে রাখা একটি অনুশীলন পাঠ।',
+  offlineCourseLesson: (title) => `অনলাইনে এলেই "${title}" তৈরি করা হবে।`,
+  lessonGoal: 'লক্ষ্য:',
+  lessonGrammar: 'ব্যাকরণ:',
+  newWords: (current, total) => `নতুন শব্দ (${current}/${total})`,
+  meaning: 'অর্থ',
+  nextWord: 'পরের শব্দ',
+  readingTitle: 'Lesen (পড়া)',
+  hideTranslation: 'ইংরেজি লুকান',
+  showTranslation: 'ইংরেজি অনুবাদ',
+  helper: 'সহায়িকা',
+  lessonVocabulary: 'এই পাঠের শব্দ',
+  writingTitle: 'Schreiben (লেখা)',
+  pointsToCover: 'যে বিষয়গুলো লিখতে হবে:',
+  writingPlaceholder: 'আপনার জার্মান লেখা এখানে লিখুন...',
+  getFeedback: 'মতামত নিন',
+  feedbackFailed: 'মতামত তৈরি করা যায়নি। আবার চেষ্টা করুন।',
+  yourFeedback: 'আপনার মতামত',
+  seeSummary: 'সারসংক্ষেপ দেখুন',
+  wellDone: 'দারুণ!',
+  sessionComplete: 'আপনি এই সেশনটি শেষ করেছেন।',
+  writingNotPassed: (needed) => `এই কোর্সের পাঠ শেষ করতে আপনার লেখার ${needed}% দরকার। শেষ করতে পাঠটি আবার করুন।`,
+  sessionScore: 'সেশনের স্কোর',
+  backToDashboard: 'ড্যাশবোর্ডে ফিরুন',
+
+  grammarTitle: 'Grammatik (ব্যাকরণ)',
+  umlautHint: 'উমলাউট ae, oe ও ue, আর ß ss লিখেও টাইপ করা যায়।',
+  drillTitles: {
+    cloze: 'ফাঁকা জায়গা পূরণ করুন',
+    wordOrder: 'শব্দগুলো সঠিক ক্রমে সাজান',
+    article: 'der, die নাকি das?',
+    conjugation: 'ক্রিয়ার রূপগুলো লিখুন',
+    adjectiveEnding: 'বিশেষণের শেষাংশ যোগ করুন'
+  },
+  check: 'যাচাই করুন',
+  gapLabel: 'ফাঁকা জায়গা',
+  endingLabel: 'শেষাংশ',
+  mindTheUmlaut: 'ঠিক, তবে উমলাউটের দিকে খেয়াল রাখুন:',
+  correctAnswer: 'সঠিক উত্তর:',
+  correctOrder: 'সঠিক ক্রম:',
+  explanation: 'ব্যাখ্যা:',
+
+  listeningTitle: 'Hören (শোনা)',
+  noAudio: 'আপনার ব্রাউজার অডিও চালাতে পারে না। দয়া করে এর বদলে ট্রান্সক্রিপ্ট পড়ুন।',
+  play: 'চালান',
+  stop: 'থামান',
+  playsLeft: (left, max) => `${max} বারের মধ্যে ${left} বার বাকি`,
+  speed: 'গতি:',
+  showTranscript: 'ট্রান্সক্রিপ্ট দেখান',
+  hideTranscript: 'ট্রান্সক্রিপ্ট লুকান',
+  speakingTitle: 'Sprechen (বলা)',
+  talkAbout: 'এগুলো নিয়ে বলুন:',
+  speakingFeedback: 'বলার ফিডব্যাক',
+  feedbackGrammar: 'ব্যাকরণ',
+  feedbackVocabulary: 'শব্দভান্ডারের বৈচিত্র্য',
+  feedbackTask: 'কাজ সম্পূর্ণ করা',
+  betterAnswer: 'আরও ভালো উত্তর',
+  answerPlaceholder: 'আপনার উত্তর এখানে দেখা যাবে...',
+  micDenied: 'মাইক্রোফোনের অনুমতি পাওয়া যায়নি। আপনি উত্তর টাইপও করতে পারেন।',
+  recognitionStopped: 'কণ্ঠস্বর শনাক্তকরণ থেমে গেছে। আপনি উত্তর টাইপও করতে পারেন।',
+  startRecording: 'রেকর্ডিং শুরু করুন',
+  stopRecording: 'রেকর্ডিং থামান',
+  noRecognition: 'এই ব্রাউজারে কণ্ঠস্বর শনাক্তকরণ নেই। যা বলতে চান তা টাইপ করুন।',
+  listeningNow: 'শুনছে... এখন জার্মানে বলুন।',
+  tapMicrophone: 'মাইক্রোফোনে ট্যাপ করে মুখে উত্তর দিন, অথবা নিচে টাইপ করুন।',
+
+  reviewComplete: 'পুনরাবৃত্তি শেষ',
+  reviewedCards: (count) => `আপনি ${count}টি কার্ড পুনরাবৃত্তি করেছেন।`,
+  reviewLeft: (count) => `পুনরাবৃত্তি (${count}টি বাকি)`,
+  rememberMeaning: 'অর্থটা কি মনে আছে?',
+  showAnswer: 'উত্তর দেখান',
+  grades: { again: 'আবার', hard: 'কঠিন', good: 'ভালো', easy: 'সহজ' },
+  vocabularyReview: 'শব্দ পুনরাবৃত্তি',
+
+  goetheScore: 'Goethe B1 স্কোর',
+  estimatedLevel: (level) => `স্তর ~${level}`,
+  writingCriteria: {
+    taskFulfilment: 'কাজ সম্পূর্ণ করা',
+    coherence: 'সংগতি',
+    vocabulary: 'শব্দভান্ডার',
+    structures: 'বাক্যগঠন'
+  },
+  writingCategories: {
+    case: 'কারক (Kasus)',
+    word_order: 'শব্দক্রম',
+    verb_conjugation: 'ক্রিয়ার রূপ',
+    article: 'আর্টিকেল',
+    preposition: 'পদান্বয়ী অব্যয়',
+    spelling: 'বানান',
+    vocabulary: 'শব্দভান্ডার',
+    other: 'অন্যান্য'
+  },
+  yourText: (count) => `আপনার লেখা (${count}টি সংশোধন) — কোনো ভুলে ট্যাপ করুন`,
+  improvedVersion: 'উন্নত রূপ',
+
+  readAloud: 'জোরে পড়ুন',
+  tapAnyWord: 'যেকোনো শব্দের অর্থ দেখতে সেটিতে ট্যাপ করুন।',
+  meaningOf: (word) => `${word}-এর অর্থ`,
+  close: 'বন্ধ করুন',
+  lookingUp: 'খোঁজা হচ্ছে...',
+  lookupFailed: 'এই শব্দের অর্থ পাওয়া যায়নি। দয়া করে আপনার ইন্টারনেট সংযোগ দেখুন।',
+  partsOfSpeech: {
+    noun: 'বিশেষ্য',
+    verb: 'ক্রিয়া',
+    adjective: 'বিশেষণ',
+    adverb: 'ক্রিয়াবিশেষণ',
+    pronoun: 'সর্বনাম',
+    preposition: 'পদান্বয়ী অব্যয়',
+    conjunction: 'সংযোজক অব্যয়',
+    article: 'আর্টিকেল',
+    numeral: 'সংখ্যা',
+    other: 'শব্দ'
+  },
+  inDeck: 'আপনার ডেকে আছে',
+  addToDeck: 'ডেকে যোগ করুন',
+  listen: 'শুনুন',
+  listenTo: (text) => `শুনুন: ${text}`,
+  showScript: () => 'বাংলা লিপি দেখান',
+  showLatinScript: 'রোমান লিপি দেখান',
+
+  mockExamB1: 'মক পরীক্ষা B1',
+  mockExamModule: (module) => `মক পরীক্ষা · ${module}`,
+  examRules: (points) => `প্রতিটি মডিউলের নিজস্ব টাইমার আছে এবং ১০০ নম্বরে মূল্যায়ন হয়। পাস করতে প্রতিটি মডিউলে ${points} নম্বর লাগবে।`,
+  moduleSize: (parts, minutes) => `${parts}টি অংশ · ${minutes} মিনিট`,
+  startExam: 'পরীক্ষা শুরু করুন',
+  moduleFailed: (module) => `${module} মডিউল তৈরি করা যায়নি।`,
+  tryAgain: 'আবার চেষ্টা করুন',
+  preparingModule: (module) => `${module} তৈরি হচ্ছে...`,
+  partOf: (part, total) => `${total}টির মধ্যে অংশ ${part}`,
+  partLabel: (part) => `অংশ ${part}`,
+  back: 'পিছনে',
+  nextPart: 'পরের অংশ',
+  handIn: 'জমা দিন',
+  scoringAnswers: 'আপনার উত্তর মূল্যায়ন করা হচ্ছে...',
+  modulePassed: 'Bestanden (পাস)',
+  moduleNotPassed: (points) => `পাস হয়নি — ${points} নম্বর লাগবে`,
+  timeUsed: (time) => `সময় লেগেছে: ${time}`,
+  continueWith: (module) => `${module} দিয়ে চালিয়ে যান`,
+  seeResults: 'ফলাফল দেখুন',
+  yourMockExam: 'আপনার মক পরীক্ষা',
+  playing: 'চলছে...',
+  choose: 'বেছে নিন...',
+  wordCount: (count, target) => `${count} / ~${target} শব্দ`,
+
+  checkpointTitle: (level) => `চেকপয়েন্ট ${level}`,
+  preparingCheckpoint: (level) => `আপনার ${level} চেকপয়েন্ট টেস্ট তৈরি হচ্ছে...`,
+  checkpointFailed: 'টেস্ট তৈরি করা যায়নি।',
+  checkpointRules: (level, percent) => `${level}-এর প্রতিটি পাঠ থেকে একটি প্রশ্ন। পরের লেভেলে যেতে ${percent}% লাগবে।`,
+  seeResult: 'ফলাফল দেখুন',
+  movedUp: (level) => `পাস! আপনি ${level}-এ উঠলেন।`,
+  courseCompleted: (level) => `পাস! আপনি ${level} কোর্স শেষ করেছেন।`,
+  notYet: (level) => `এখনও নয়। আপনি ${level}-এ থাকবেন এবং পুনরাবৃত্তির পরে আবার চেষ্টা করতে পারবেন।`,
+  yourRevisionPlan: 'আপনার পুনরাবৃত্তির পরিকল্পনা',
+  revisionPlanInfo: 'এই পাঠগুলো আবার পড়ুন, তারপর আবার চেকপয়েন্ট দিন:',
+
+  discardSessionConfirm: (title) => `নতুন পাঠ শুরু করবেন? আপনার অসমাপ্ত পাঠ "${title}" মুছে যাবে।`,
+  abandonSessionConfirm: (title) => `"${title}" ছেড়ে দেবেন? আপনার উত্তরগুলো মুছে যাবে।`,
+  storageRepaired: 'সংরক্ষিত কিছু ডেটা পড়া যায়নি এবং রিসেট করা হয়েছে।',
+  backupKept: (key) => `মূল ডেটার একটি কপি রাখা হয়েছে (${key})।`,
+  ok: 'ঠিক আছে'
+};
+
+const TURKISH: Partial<Messages> = {
+  next: 'İleri',
+  continue: 'Devam',
+  dailyTraining: 'Günlük Antrenman',
+  stageLabels: {
+    review: 'Isınma tekrarı',
+    vocab: 'Yeni kelimeler',
+    reading: 'Okuma',
+    listening: 'Dinleme',
+    grammar: 'Dilbilgisi alıştırmaları',
+    writing: 'Yazma',
+    feedback: 'Yazma geri bildirimi',
+    speaking: 'Konuşma',
+    finished: 'Özet'
+  },
+
+  greeting: (_hello, name) => `Merhaba, ${name}!`,
+  currentLevel: 'Mevcut Seviye',
+  target: 'Hedef',
+  todayGoal: (minutes, goal) => `Bugün ${goal} dakikanın ${minutes} dakikası`,
+  streak: (days) => `${days} günlük seri`,
+  streakFreezes: (count) => `${count} seri dondurma`,
+  activity: 'Etkinliğin',
+  longestStreak: (days) => `En uzun seri: ${days} gün`,
+  freezeInfo: (days) => `Arka arkaya her ${days} gün bir seri dondurma kazandırır; kaçırdığın bir günü kurtarır.`,
+  activityDay: (date, minutes) => `${date}: ${minutes} dk`,
+  frozenDay: (date) => `${date}: seri dondurma`,
+  less: 'Az',
+  more: 'Çok',
+  uiLanguageSetting: 'Uygulama dili',
+  resumeLesson: 'Derse Devam Et',
+  draftWords: (count) => `${count} kelimelik taslak`,
+  savedAt: (time) => `${time} kaydedildi`,
+  abandonLesson: 'Dersi bırak',
+  resume: 'Devam et',
+  restart: 'Baştan başla',
+  dailyMix: (level) => `${level} için kişisel karışımın: Kelime, Okuma, Dinleme, Yazma, Konuşma.`,
+  warmupCards: (count) => `${count} tekrar kartıyla başlar.`,
+  startDailySession: 'Bugünkü Oturumu Başlat',
+  myVocabulary: 'Kelimelerim',
+  dueCards: (count) => `${count} tekrar bekliyor`,
+  deckSize: (count) => `destende ${count} kelime`,
+  review: 'Tekrar et',
+  journey: "B1'e Yolculuğun",
+  levelName: (level) => `Seviye ${level}`,
+  levelPassed: 'Geçildi',
+  lessonsDone: (done, total) => `${done}/${total} ders`,
+  continueCourse: 'Kursa Devam Et',
+  allLessonsDone: (level) => `${level} derslerinin hepsi tamamlandı!`,
+  revisionPlan: (percentage) => `Tekrar planı · Ara sınav %${percentage}`,
+  takeCheckpoint: (level) => `${level} Ara Sınavına Gir`,
+  retryCheckpoint: (level) => `${level} Ara Sınavını Tekrarla`,
+  checkpointLocked: (lessons) => `Ara sınav ${lessons} dersten sonra açılır`,
+  examTraining: 'Sınav Hazırlığı B1',
+  lastScore: 'Son Puan',
+  practice: 'Alıştırma',
+  mockExam: 'Deneme Sınavı',
+  analytics: 'İlerleme ve Analiz',
+  focusOn: 'Odaklan',
+  errorCount: (count) => `${count} hata`,
+  backupAndReset: 'Yedekle, Geri Yükle ve Sıfırla',
+
+  setupIntro: 'Kişisel Almanca planını oluşturalım.',
+  askName: 'Adın ne?',
+  askNativeLanguage: 'Ana dilin ne?',
+  askUiLanguage: 'Uygulamanın dili',
+  restorePrompt: 'Başka bir cihazda zaten öğreniyor musun?',
+  restoreLink: 'Yedekten geri yükle',
+  restoreFailed: 'Yedek okunamadı.',
+  askLevel: 'Şu anki Almanca seviyen ne?',
+  placementTest: 'Seviye belirleme testine gir',
+  placementTestInfo: 'Giderek zorlaşan dil bilgisi, kelime ve okuma soruları. Yaklaşık 5 dakika.',
+  chooseLevel: 'Seviyemi kendim seçeceğim',
+  chooseLevelInfo: 'Yeni başlayanlar hemen başlayabilir.',
+  placementResult: 'Seviye testi sonucu:',
+  placementCorrect: (correct, total) => `(${correct}/${total} doğru)`,
+  placementFocus: (topics) => `Odaklanacağımız konular: ${topics}`,
+  changeLevelHint: 'Seviyeni aşağıda yine de değiştirebilirsin.',
+  levelDescriptions: {
+    A0: 'Sıfırdan başlıyorum',
+    A1: 'Temel bilgilerim var',
+    A2: 'Kısa sohbetler yapabiliyorum',
+    B1: 'İleri seviyedeyim'
+  },
+  yes: 'Evet',
+  no: 'Hayır',
+  askMinutes: 'Günde kaç dakika?',
+  startLearning: 'Öğrenmeye Başla',
+
+  preparingLesson: (title) => `"${title}" hazırlanıyor...`,
+  preparingCustomLesson: 'Sana özel ders hazırlanıyor...',
+  generatingContent: 'İçerik yapay zekâ ile oluşturuluyor',
+  loadError: 'Ders yüklenemedi.',
+  goBack: 'Geri Dön',
+  lesson: 'Ders',
+  slowAudioOn: 'Yavaş ses açık',
+  slowAudioOff: 'Yavaş ses kapalı',
+  offlineLesson: 'Bağlantı yok, bu yüzden bu, uygulamada kayıtlı bir alıştırma dersi.',
+  offlineCourseLesson: (title) => `"${title}" tekrar çevrimiçi olduğunda hazırlanacak.`,
+  lessonGoal: 'Hedef:',
+  lessonGrammar: 'Dil bilgisi:',
+  newWords: (current, total) => `Yeni Kelimeler (${current}/${total})`,
+  meaning: 'Anlamı',
+  nextWord: 'Sonraki Kelime',
+  readingTitle: 'Lesen (Okuma)',
+  hideTranslation: 'İngilizceyi gizle',
+  showTranslation: 'İngilizce çeviri',
+  helper: 'Yardımcı',
+  lessonVocabulary: 'Bu dersin kelimeleri',
+  writingTitle: 'Schreiben (Yazma)',
+  pointsToCover: 'Değinilecek noktalar:',
+  writingPlaceholder: 'Almanca metnini buraya yaz...',
+  getFeedback: 'Geri Bildirim Al',
+  feedbackFailed: 'Geri bildirim oluşturulamadı. Lütfen tekrar dene.',
+  yourFeedback: 'Geri Bildirimin',
+  seeSummary: 'Özeti Gör',
+  wellDone: 'Aferin!',
+  sessionComplete: 'Bu oturumu tamamladın.',
+  writingNotPassed: (needed) => `Bu ders için metninin en az %${needed} alması gerekiyor. Dersi bitirmek için tekrar dene.`,
+  sessionScore: 'Oturum Puanı',
+  backToDashboard: 'Ana Sayfaya Dön',
+
+  grammarTitle: 'Grammatik (Dilbilgisi)',
+  umlautHint: 'Umlautları ae, oe ve ue, ß harfini ss olarak da yazabilirsin.',
+  drillTitles: {
+    cloze: 'Boşluğu doldur',
+    wordOrder: 'Kelimeleri sıraya koy',
+    article: 'der, die mi das mı?',
+    conjugation: 'Fiili çek',
+    adjectiveEnding: 'Sıfat ekini ekle'
+  },
+  check: 'Kontrol et',
+  gapLabel: 'Boşluk',
+  endingLabel: 'Ek',
+  mindTheUmlaut: 'Doğru, ama umlauta dikkat et:',
+  correctAnswer: 'Doğru cevap:',
+  correctOrder: 'Doğru sıra:',
+  explanation: 'Açıklama:',
+
+  listeningTitle: 'Hören (Dinleme)',
+  noAudio: 'Tarayıcın ses çalamıyor. Lütfen bunun yerine metni oku.',
+  play: 'Oynat',
+  stop: 'Durdur',
+  playsLeft: (left, max) => `${max} dinleme hakkından ${left} kaldı`,
+  speed: 'Hız:',
+  showTranscript: 'Metni göster',
+  hideTranscript: 'Metni gizle',
+  speakingTitle: 'Sprechen (Konuşma)',
+  talkAbout: 'Şunlardan bahset:',
+  speakingFeedback: 'Konuşma geri bildirimi',
+  feedbackGrammar: 'Dilbilgisi',
+  feedbackVocabulary: 'Kelime çeşitliliği',
+  feedbackTask: 'Görevin yerine getirilmesi',
+  betterAnswer: 'Daha iyi cevap',
+  answerPlaceholder: 'Cevabın burada görünecek...',
+  micDenied: 'Mikrofon izni verilmedi. Cevabını yazabilirsin.',
+  recognitionStopped: 'Ses tanıma durdu. Cevabını yazabilirsin.',
+  startRecording: 'Kaydı başlat',
+  stopRecording: 'Kaydı durdur',
+  noRecognition: 'Bu tarayıcıda ses tanıma yok. Söylemek istediğini yaz.',
+  listeningNow: 'Dinleniyor... şimdi Almanca konuş.',
+  tapMicrophone: 'Mikrofona dokunup sesli cevap ver ya da aşağıya yaz.',
+
+  reviewComplete: 'Tekrar tamamlandı',
+  reviewedCards: (count) => `${count} kartı tekrar ettin.`,
+  reviewLeft: (count) => `Tekrar (${count} kaldı)`,
+  rememberMeaning: 'Anlamını hatırlıyor musun?',
+  showAnswer: 'Cevabı göster',
+  grades: { again: 'Tekrar', hard: 'Zor', good: 'İyi', easy: 'Kolay' },
+  vocabularyReview: 'Kelime tekrarı',
+
+  goetheScore: 'Goethe B1 puanı',
+  estimatedLevel: (level) => `Seviye ~${level}`,
+  writingCriteria: {
+    taskFulfilment: 'Görevin yerine getirilmesi',
+    coherence: 'Tutarlılık',
+    vocabulary: 'Kelime bilgisi',
+    structures: 'Cümle yapıları'
+  },
+  writingCategories: {
+    case: 'Hâl (Kasus)',
+    word_order: 'Kelime sırası',
+    verb_conjugation: 'Fiil çekimi',
+    article: 'Artikel',
+    preposition: 'Edat',
+    spelling: 'Yazım',
+    vocabulary: 'Kelime',
+    other: 'Diğer'
+  },
+  yourText: (count) => `Metnin (${count} düzeltme) — bir hataya dokun`,
+  improvedVersion: 'Geliştirilmiş hâli',
+
+  readAloud: 'Sesli oku',
+  tapAnyWord: 'Anlamını görmek için herhangi bir kelimeye dokun.',
+  meaningOf: (word) => `${word} kelimesinin anlamı`,
+  close: 'Kapat',
+  lookingUp: 'Aranıyor...',
+  lookupFailed: 'Bu kelime aranamadı. Lütfen bağlantını kontrol et.',
+  partsOfSpeech: {
+    noun: 'İsim',
+    verb: 'Fiil',
+    adjective: 'Sıfat',
+    adverb: 'Zarf',
+    pronoun: 'Zamir',
+    preposition: 'Edat',
+    conjunction: 'Bağlaç',
+    article: 'Artikel',
+    numeral: 'Sayı',
+    other: 'Kelime'
+  },
+  inDeck: 'Destende var',
+  addToDeck: 'Desteye ekle',
+  listen: 'Dinle',
+  listenTo: (text) => `Dinle: ${text}`,
+
+  mockExamB1: 'Deneme Sınavı B1',
+  mockExamModule: (module) => `Deneme Sınavı · ${module}`,
+  examRules: (points) => `Her modülün kendi süresi var ve 100 puan üzerinden değerlendirilir. Geçmek için her modülde ${points} puan gerekir.`,
+  moduleSize: (parts, minutes) => `${parts} bölüm · ${minutes} dk`,
+  startExam: 'Sınava Başla',
+  moduleFailed: (module) => `${module} modülü hazırlanamadı.`,
+  tryAgain: 'Tekrar dene',
+  preparingModule: (module) => `${module} hazırlanıyor...`,
+  partOf: (part, total) => `Bölüm ${part} / ${total}`,
+  partLabel: (part) => `Bölüm ${part}`,
+  back: 'Geri',
+  nextPart: 'Sonraki Bölüm',
+  handIn: 'Teslim Et',
+  scoringAnswers: 'Cevapların değerlendiriliyor...',
+  modulePassed: 'Bestanden (geçtin)',
+  moduleNotPassed: (points) => `Geçemedin — ${points} puan gerekli`,
+  timeUsed: (time) => `Kullanılan süre: ${time}`,
+  continueWith: (module) => `${module} ile devam et`,
+  seeResults: 'Sonuçları Gör',
+  yourMockExam: 'Deneme Sınavın',
+  playing: 'Oynatılıyor...',
+  choose: 'Seç...',
+  wordCount: (count, target) => `${count} / ~${target} kelime`,
+
+  checkpointTitle: (level) => `Ara Sınav ${level}`,
+  preparingCheckpoint: (level) => `${level} ara sınavın hazırlanıyor...`,
+  checkpointFailed: 'Sınav oluşturulamadı.',
+  checkpointRules: (level, percent) => `${level} seviyesinin her dersinden bir soru. Üst seviyeye geçmek için %${percent} gerekir.`,
+  seeResult: 'Sonucu Gör',
+  movedUp: (level) => `Geçtin! Artık ${level} seviyesindesin.`,
+  courseCompleted: (level) => `Geçtin! ${level} kursunu tamamladın.`,
+  notYet: (level) => `Henüz değil. ${level} seviyesinde kalıyorsun, biraz tekrar yaptıktan sonra yeniden deneyebilirsin.`,
+  yourRevisionPlan: 'Tekrar planın',
+  revisionPlanInfo: 'Bu dersleri tekrarla, sonra ara sınava yeniden gir:',
+
+  discardSessionConfirm: (title) => `Yeni bir ders başlatılsın mı? Bitmemiş "${title}" dersin silinecek.`,
+  abandonSessionConfirm: (title) => `"${title}" bırakılsın mı? Cevapların silinecek.`,
+  storageRepaired: 'Kayıtlı verilerin bir kısmı okunamadı ve sıfırlandı.',
+  backupKept: (key) => `Orijinal verilerin bir kopyası saklandı (${key}).`,
+  ok: 'Tamam'
+};
+
+const CATALOGS: Record<NativeLanguage, Partial<Messages>> = {
+  Hindi: HINDI,
+  Tamil: TAMIL,
+  Urdu: URDU,
+  Bengali: BENGALI,
+  Turkish: TURKISH
+};
+
+// Missing translations fall back to English
+export const messagesFor = (language: UiLanguage): Messages =>
+  language === 'English' ? EN : { ...EN, ...CATALOGS[language] };
@@ -0,0 +1,132 @@
+import { LanguageLevel, LessonContent, NativeLanguage, VocabularyCard } from "../types";
+
+// Bundled words carry a translation for every native language, Latin script
+type OfflineLesson = Omit<LessonContent, 'vocabulary'> & {
+  vocabulary: (Omit<VocabularyCard, 'nativeTranslation'> & { translations: Record<NativeLanguage, string> })[];
+};
+
+// Shipped with the app and served when nothing is cached and no lesson can be generated.
+// Only locally scored stages (vocabulary, reading, listening), writing and speaking need the model.
+const OFFLINE_LESSONS: Record<LanguageLevel, OfflineLesson> = {
+  A0: {
+    topic: 'Hallo! Wer bist du?',
+    level: 'A0',
+    vocabulary: [
+      { german: 'Hallo', englishExplanation: 'Hello', translations: { Hindi: 'Namaste', Tamil: 'Vanakkam', Urdu: 'Salaam', Bengali: 'Nomoskar', Turkish: 'Merhaba' }, exampleSentence: 'Hallo, ich bin Anna.' },
+      { german: 'heißen', englishExplanation: 'to be called', translations: { Hindi: 'naam hona', Tamil: 'peyar irukku', Urdu: 'naam hona', Bengali: 'naam hoa', Turkish: 'adı olmak' }, exampleSentence: 'Ich heiße Ravi.' },
+      { german: 'kommen aus', englishExplanation: 'to come from', translations: { Hindi: 'se aana', Tamil: '-ilirundhu varu', Urdu: 'se aana', Bengali: 'theke asha', Turkish: '-den gelmek' }, exampleSentence: 'Ich komme aus Indien.' },
+      { german: 'danke', englishExplanation: 'thank you', translations: { Hindi: 'dhanyavaad', Tamil: 'nandri', Urdu: 'shukriya', Bengali: 'dhonnobad', Turkish: 'teşekkürler' }, exampleSentence: 'Danke, gut!' }
+    ],
+    readingText: 'Hallo! Ich heiße Ravi. Ich komme aus Indien. Ich wohne in Berlin. Wie geht es dir? Danke, gut!',
+    readingTextTranslation: 'Hello! My name is Ravi. I come from India. I live in Berlin. How are you? Thanks, good!',
+    readingQuestions: [
+      { question: 'Wie heißt er?', options: ['Anna', 'Ravi', 'Tim', 'Lea'], correctAnswer: 1, explanation: '"Ich heiße Ravi." = My name is Ravi.' },
+      { question: 'Woher kommt Ravi?', options: ['aus Berlin', 'aus Indien', 'aus Wien', 'aus Polen'], correctAnswer: 1, explanation: '"Ich komme aus Indien."' }
+    ],
+    listeningScenario: 'Two people meet for the first time.',
+    listeningDialogue: [
+      { speaker: 'Anna', text: 'Hallo! Ich heiße Anna.' },
+      { speaker: 'Ravi', text: 'Hallo Anna! Ich bin Ravi.' },
+      { speaker: 'Anna', text: 'Woher kommst du?' },
+      { speaker: 'Ravi', text: 'Ich komme aus Indien.' }
+    ],
+    listeningQuestions: [
+      { question: 'Wer ist Anna?', options: ['Die erste Person', 'Die zweite Person', 'Ravis Lehrerin', 'Ravis Schwester'], correctAnswer: 0, explanation: 'Anna speaks first: "Ich heiße Anna."' }
+    ]
+  },
+  A1: {
+    topic: 'Einkaufen im Supermarkt',
+    level: 'A1',
+    vocabulary: [
+      { german: 'der Supermarkt', englishExplanation: 'supermarket', translations: { Hindi: 'supermarket', Tamil: 'supermarket', Urdu: 'supermarket', Bengali: 'supermarket', Turkish: 'süpermarket' }, exampleSentence: 'Der Supermarkt ist neben der Post.' },
+      { german: 'kosten', englishExplanation: 'to cost', translations: { Hindi: 'daam hona', Tamil: 'vilai aagu', Urdu: 'qeemat hona', Bengali: 'dam hoa', Turkish: 'mal olmak' }, exampleSentence: 'Was kostet das Brot?' },
+      { german: 'brauchen', englishExplanation: 'to need', translations: { Hindi: 'zaroorat hona', Tamil: 'thevai', Urdu: 'zaroorat hona', Bengali: 'dorkar hoa', Turkish: 'ihtiyacı olmak' }, exampleSentence: 'Ich brauche Milch.' },
+      { german: 'die Kasse', englishExplanation: 'checkout, till', translations: { Hindi: 'bhugtaan counter', Tamil: 'panam kattum idam', Urdu: 'cash counter', Bengali: 'cash counter', Turkish: 'kasa' }, exampleSentence: 'Ich bezahle an der Kasse.' }
+    ],
+    readingText: 'Heute ist Samstag. Maria geht in den Supermarkt. Sie braucht Brot, Milch und Äpfel. Die Äpfel kosten zwei Euro. Das Brot kostet drei Euro. An der Kasse bezahlt Maria mit Karte. Dann geht sie nach Hause und kocht.',
+    readingQuestions: [
+      { question: 'Wann geht Maria einkaufen?', options: ['Am Freitag', 'Am Samstag', 'Am Sonntag', 'Am Montag'], correctAnswer: 1, explanation: '"Heute ist Samstag."' },
+      { question: 'Was kostet das Brot?', options: ['Zwei Euro', 'Drei Euro', 'Vier Euro', 'Einen Euro'], correctAnswer: 1, explanation: '"Das Brot kostet drei Euro."' },
+      { question: 'Wie bezahlt Maria?', options: ['Bar', 'Mit Karte', 'Gar nicht', 'Mit dem Handy'], correctAnswer: 1, explanation: '"bezahlt Maria mit Karte"' }
+    ],
+    listeningScenario: 'At the bakery counter.',
+    listeningDialogue: [
+      { speaker: 'Verkäufer', text: 'Guten Morgen! Was möchten Sie?' },
+      { speaker: 'Kundin', text: 'Ich möchte zwei Brötchen, bitte.' },
+      { speaker: 'Verkäufer', text: 'Gern. Sonst noch etwas?' },
+      { speaker: 'Kundin', text: 'Ja, einen Kaffee. Was kostet das?' },
+      { speaker: 'Verkäufer', text: 'Das macht drei Euro fünfzig.' },
+      { speaker: 'Kundin', text: 'Hier, bitte. Danke schön!' }
+    ],
+    listeningQuestions: [
+      { question: 'Was kauft die Kundin?', options: ['Brot und Milch', 'Zwei Brötchen und einen Kaffee', 'Einen Kuchen', 'Einen Tee'], correctAnswer: 1, explanation: 'Brötchen + Kaffee' },
+      { question: 'Wie viel bezahlt sie?', options: ['3,50 €', '2,50 €', '5,30 €', '3,15 €'], correctAnswer: 0, explanation: '"drei Euro fünfzig"' }
+    ]
+  },
+  A2: {
+    topic: 'Ein Wochenende in Hamburg',
+    level: 'A2',
+    vocabulary: [
+      { german: 'die Reise', englishExplanation: 'trip, journey', translations: { Hindi: 'yatra', Tamil: 'payanam', Urdu: 'safar', Bengali: 'bhromon', Turkish: 'yolculuk' }, exampleSentence: 'Die Reise nach Hamburg war schön.' },
+      { german: 'übernachten', englishExplanation: 'to stay overnight', translations: { Hindi: 'raat rukna', Tamil: 'iravu thangu', Urdu: 'raat guzaarna', Bengali: 'raat kataano', Turkish: 'geceyi geçirmek' }, exampleSentence: 'Wir haben im Hotel übernachtet.' },
+      { german: 'besichtigen', englishExplanation: 'to visit, to see (sights)', translations: { Hindi: 'dekhne jaana', Tamil: 'suttri paar', Urdu: 'sair karna', Bengali: 'ghure dekha', Turkish: 'gezmek' }, exampleSentence: 'Am Sonntag haben wir den Hafen besichtigt.' },
+      { german: 'das Wetter', englishExplanation: 'weather', translations: { Hindi: 'mausam', Tamil: 'vaanilai', Urdu: 'mausam', Bengali: 'aabohawa', Turkish: 'hava' }, exampleSentence: 'Das Wetter war leider schlecht.' }
+    ],
+    readingText: 'Letztes Wochenende bin ich mit meiner Freundin nach Hamburg gefahren. Wir haben in einem kleinen Hotel am Hafen übernachtet. Am Samstag hat es geregnet, deshalb sind wir ins Museum gegangen. Am Sonntag war das Wetter besser und wir haben eine Hafenrundfahrt gemacht. Abends haben wir Fisch gegessen. Die Reise war teuer, aber sie hat sich gelohnt.',
+    readingQuestions: [
+      { question: 'Wo haben sie übernachtet?', options: ['Bei Freunden', 'In einem Hotel am Hafen', 'Auf einem Schiff', 'Auf einem Campingplatz'], correctAnswer: 1, explanation: '"in einem kleinen Hotel am Hafen"' },
+      { question: 'Warum sind sie am Samstag ins Museum gegangen?', options: ['Weil es geregnet hat', 'Weil es billig war', 'Weil der Hafen zu war', 'Weil die Freundin krank war'], correctAnswer: 0, explanation: '"hat es geregnet, deshalb ..."' },
+      { question: 'Wie war die Reise?', options: ['Billig und langweilig', 'Teuer, aber gut', 'Zu kurz', 'Sehr anstrengend'], correctAnswer: 1, explanation: '"teuer, aber sie hat sich gelohnt"' }
+    ],
+    listeningScenario: 'Two colleagues talk on Monday morning.',
+    listeningDialogue: [
+      { speaker: 'Jonas', text: 'Na, wie war dein Wochenende?' },
+      { speaker: 'Lea', text: 'Sehr schön! Ich war mit meiner Schwester in den Bergen.' },
+      { speaker: 'Jonas', text: 'Seid ihr gewandert?' },
+      { speaker: 'Lea', text: 'Ja, am Samstag sind wir fünf Stunden gewandert.' },
+      { speaker: 'Jonas', text: 'Und am Sonntag?' },
+      { speaker: 'Lea', text: 'Da haben wir nur gefrühstückt und sind zurückgefahren.' }
+    ],
+    listeningQuestions: [
+      { question: 'Mit wem war Lea unterwegs?', options: ['Mit Jonas', 'Mit ihrer Schwester', 'Allein', 'Mit ihrem Freund'], correctAnswer: 1, explanation: '"mit meiner Schwester"' },
+      { question: 'Was hat Lea am Samstag gemacht?', options: ['Sie ist gewandert.', 'Sie hat gearbeitet.', 'Sie ist zurückgefahren.', 'Sie hat gefrühstückt.'], correctAnswer: 0, explanation: '"am Samstag sind wir fünf Stunden gewandert"' }
+    ]
+  },
+  B1: {
+    topic: 'Homeoffice – Vorteile und Nachteile',
+    level: 'B1',
+    vocabulary: [
+      { german: 'der Arbeitsweg', englishExplanation: 'commute', translations: { Hindi: 'daftar ka raasta', Tamil: 'velaikku pogum vazhi', Urdu: 'daftar ka raasta', Bengali: 'office jaoar path', Turkish: 'işe gidiş yolu' }, exampleSentence: 'Im Homeoffice fällt der Arbeitsweg weg.' },
+      { german: 'sich konzentrieren', englishExplanation: 'to concentrate', translations: { Hindi: 'dhyaan lagana', Tamil: 'kavanam selutthu', Urdu: 'tawajjuh dena', Bengali: 'monojog dewa', Turkish: 'konsantre olmak' }, exampleSentence: 'Zu Hause kann ich mich besser konzentrieren.' },
+      { german: 'der Austausch', englishExplanation: 'exchange (of ideas)', translations: { Hindi: 'vichaaron ka len-den', Tamil: 'karutthu parimaatram', Urdu: 'khayalaat ka tabaadla', Bengali: 'mot binimoy', Turkish: 'fikir alışverişi' }, exampleSentence: 'Mir fehlt der Austausch mit den Kollegen.' },
+      { german: 'die Grenze', englishExplanation: 'boundary, limit', translations: { Hindi: 'seema', Tamil: 'ellai', Urdu: 'had', Bengali: 'shimana', Turkish: 'sınır' }, exampleSentence: 'Die Grenze zwischen Arbeit und Freizeit verschwimmt.' }
+    ],
+    readingText: 'Seit drei Jahren arbeitet Sabine zwei Tage pro Woche im Homeoffice. Am meisten schätzt sie, dass der lange Arbeitsweg wegfällt. So hat sie morgens mehr Zeit für Sport. Außerdem kann sie sich zu Hause besser konzentrieren, weil niemand sie unterbricht. Trotzdem möchte sie nicht ganz auf das Büro verzichten. Dort trifft sie ihre Kollegen, und viele Probleme lassen sich im persönlichen Gespräch schneller lösen. Schwierig findet sie, dass die Grenze zwischen Arbeit und Freizeit manchmal verschwimmt.',
+    readingQuestions: [
+      { question: 'Was gefällt Sabine am Homeoffice am besten?', options: ['Sie verdient mehr.', 'Sie muss nicht lange fahren.', 'Sie kann länger schlafen.', 'Sie hat mehr Urlaub.'], correctAnswer: 1, explanation: '"dass der lange Arbeitsweg wegfällt"' },
+      { question: 'Warum geht sie trotzdem ins Büro?', options: ['Wegen der Kollegen und Gespräche', 'Weil ihr Chef es verlangt', 'Weil sie zu Hause kein Internet hat', 'Weil sie dort Sport machen kann'], correctAnswer: 0, explanation: '"Dort trifft sie ihre Kollegen ..."' },
+      { question: 'Welches Problem nennt Sabine?', options: ['Der Computer ist zu alt.', 'Arbeit und Freizeit trennen sich schlecht.', 'Sie hat zu wenig Arbeit.', 'Ihre Wohnung ist zu laut.'], correctAnswer: 1, explanation: '"die Grenze zwischen Arbeit und Freizeit ... verschwimmt"' }
+    ],
+    listeningScenario: 'A radio interview about working from home.',
+    listeningDialogue: [
+      { speaker: 'Moderatorin', text: 'Herr Keller, Sie arbeiten komplett von zu Hause. Wie klappt das?' },
+      { speaker: 'Herr Keller', text: 'Eigentlich sehr gut. Ich spare jeden Tag fast zwei Stunden Fahrzeit.' },
+      { speaker: 'Moderatorin', text: 'Fehlen Ihnen die Kollegen nicht?' },
+      { speaker: 'Herr Keller', text: 'Doch, manchmal. Deshalb treffen wir uns einmal im Monat im Büro.' },
+      { speaker: 'Moderatorin', text: 'Und wie trennen Sie Arbeit und Freizeit?' },
+      { speaker: 'Herr Keller', text: 'Um sechs Uhr mache ich den Laptop zu, egal was passiert.' }
+    ],
+    listeningQuestions: [
+      { question: 'Wie viel Zeit spart Herr Keller pro Tag?', options: ['Eine halbe Stunde', 'Fast zwei Stunden', 'Eine Stunde', 'Drei Stunden'], correctAnswer: 1, explanation: '"fast zwei Stunden Fahrzeit"' },
+      { question: 'Wie oft ist er im Büro?', options: ['Jede Woche', 'Einmal im Monat', 'Nie', 'Zweimal im Jahr'], correctAnswer: 1, explanation: '"einmal im Monat im Büro"' }
+    ]
+  }
+};
+
+export const offlineLessonFor = (level: LanguageLevel, language: NativeLanguage): LessonContent => {
+  const lesson = OFFLINE_LESSONS[level];
+  return {
+    ...lesson,
+    vocabulary: lesson.vocabulary.map(({ translations, ...card }) => ({ ...card, nativeTranslation: translations[language] }))
+  };
+};
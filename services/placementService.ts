@@ -0,0 +1,72 @@
+import { LanguageLevel, Mistake, QuizQuestion, SkillArea } from "../types";
+
+export interface PlacementQuestion extends QuizQuestion {
+  level: LanguageLevel;
+  skill: Extract<SkillArea, 'grammar' | 'vocabulary' | 'reading'>;
+  text?: string; // Short reading text for reading items
+  topic: string;
+}
+
+export interface PlacementAnswer {
+  question: PlacementQuestion;
+  answer: number;
+}
+
+export interface PlacementResult {
+  level: LanguageLevel;
+  answers: PlacementAnswer[];
+  mistakes: Mistake[];
+}
+
+// Levels are tested bottom-up; each block is passed with this many correct answers
+export const PLACEMENT_LEVELS: LanguageLevel[] = ['A1', 'A2', 'B1'];
+const PASS_CORRECT = 3;
+
+// Bundled items, so the test works before any model call and gives comparable results
+const QUESTIONS: PlacementQuestion[] = [
+  // A1
+  { level: 'A1', skill: 'grammar', topic: 'Verbkonjugation Präsens', question: 'Wie ___ du?', options: ['heiße', 'heißt', 'heißen', 'heißst'], correctAnswer: 1, explanation: 'du → heißt' },
+  { level: 'A1', skill: 'vocabulary', topic: 'Wortschatz: Familie', question: 'Die Mutter von meiner Mutter ist meine ...', options: ['Tante', 'Schwester', 'Oma', 'Tochter'], correctAnswer: 2, explanation: 'Oma = grandmother' },
+  { level: 'A1', skill: 'grammar', topic: 'Akkusativ', question: 'Ich habe ___ Bruder.', options: ['ein', 'einen', 'einem', 'eine'], correctAnswer: 1, explanation: 'haben + Akkusativ: der Bruder → einen Bruder' },
+  { level: 'A1', skill: 'reading', topic: 'Lesen: Detailfragen', text: 'Hallo Tim, ich komme heute nicht ins Büro. Ich bin krank. Bis morgen! Anna', question: 'Warum kommt Anna nicht?', options: ['Sie hat Urlaub.', 'Sie ist krank.', 'Sie hat keine Zeit.', 'Sie ist im Büro.'], correctAnswer: 1, explanation: '"Ich bin krank."' },
+  // A2
+  { level: 'A2', skill: 'grammar', topic: 'Perfekt', question: 'Gestern ___ ich mit dem Zug nach Berlin gefahren.', options: ['habe', 'bin', 'war', 'hatte'], correctAnswer: 1, explanation: 'fahren (movement) → Perfekt mit sein' },
+  { level: 'A2', skill: 'grammar', topic: 'Nebensätze mit weil', question: 'Ich bleibe zu Hause, weil ich ...', options: ['bin müde', 'müde bin', 'müde sein', 'bin ich müde'], correctAnswer: 1, explanation: 'weil sends the verb to the end' },
+  { level: 'A2', skill: 'vocabulary', topic: 'Wortschatz: Reisen', question: 'Bevor man in den Zug einsteigt, kauft man eine ...', options: ['Fahrkarte', 'Rechnung', 'Quittung', 'Kasse'], correctAnswer: 0, explanation: 'die Fahrkarte = ticket' },
+  { level: 'A2', skill: 'reading', topic: 'Lesen: Detailfragen', text: 'Das Schwimmbad ist ab Montag wegen Renovierung geschlossen. Ab dem 1. Juni sind wir wieder für Sie da.', question: 'Was stimmt?', options: ['Das Schwimmbad ist ab Juni geschlossen.', 'Man kann ab Montag nicht schwimmen.', 'Das Schwimmbad ist neu.', 'Man kann nur montags schwimmen.'], correctAnswer: 1, explanation: 'geschlossen ab Montag' },
+  // B1
+  { level: 'B1', skill: 'grammar', topic: 'Relativsätze', question: 'Das ist die Kollegin, ___ ich gestern geholfen habe.', options: ['die', 'der', 'den', 'deren'], correctAnswer: 1, explanation: 'helfen + Dativ → feminine relative pronoun "der"' },
+  { level: 'B1', skill: 'grammar', topic: 'Konjunktiv II', question: 'Wenn ich mehr Zeit ___, würde ich öfter reisen.', options: ['habe', 'hatte', 'hätte', 'haben'], correctAnswer: 2, explanation: 'Unreal condition → Konjunktiv II "hätte"' },
+  { level: 'B1', skill: 'vocabulary', topic: 'Wortschatz: Arbeit', question: 'Wer eine neue Stelle sucht, schreibt eine ...', options: ['Kündigung', 'Bewerbung', 'Beschwerde', 'Überweisung'], correctAnswer: 1, explanation: 'die Bewerbung = job application' },
+  { level: 'B1', skill: 'reading', topic: 'Lesen: Meinungen verstehen', text: 'Viele sagen, Homeoffice spare Zeit. Ich sehe das anders: Ohne Kollegen fehlt mir der Austausch, und die Arbeit hört abends nie richtig auf.', question: 'Wie findet die Person Homeoffice?', options: ['Sie findet es sehr praktisch.', 'Sie sieht vor allem Nachteile.', 'Sie hat keine Meinung.', 'Sie arbeitet nie zu Hause.'], correctAnswer: 1, explanation: '"Ich sehe das anders" + Nachteile' }
+];
+
+export const placementQuestionsFor = (level: LanguageLevel): PlacementQuestion[] =>
+  QUESTIONS.filter(q => q.level === level);
+
+// 'pass' / 'fail' as soon as the block is decided, 'open' while more answers are needed
+export const blockOutcome = (level: LanguageLevel, answers: PlacementAnswer[]): 'pass' | 'fail' | 'open' => {
+  const total = placementQuestionsFor(level).length;
+  const block = answers.filter(a => a.question.level === level);
+  const correct = block.filter(a => a.answer === a.question.correctAnswer).length;
+  const wrong = block.length - correct;
+  if (correct >= PASS_CORRECT) return 'pass';
+  if (total - wrong < PASS_CORRECT) return 'fail';
+  return 'open';
+};
+
+// Highest passed level, A0 if even A1 was not passed
+export const buildPlacementResult = (answers: PlacementAnswer[]): PlacementResult => {
+  let level: LanguageLevel = 'A0';
+  for (const l of PLACEMENT_LEVELS) {
+    if (blockOutcome(l, answers) !== 'pass') break;
+    level = l;
+  }
+  return {
+    level,
+    answers,
+    mistakes: answers
+      .filter(a => a.answer !== a.question.correctAnswer)
+      .map(a => ({ topic: a.question.topic, skill: a.question.skill }))
+  };
+};
@@ -0,0 +1,38 @@
+import { AppState, LessonResult } from "../types";
+import { lessonWritingPassed } from "./writingFeedback";
+import { recordMistakes } from "./weakPointService";
+import { formatAttemptsScore } from "./examService";
+import { markLessonCompleted } from "./curriculum";
+import { LessonRequest } from "./lessonCache";
+import { studySessionFor } from "./studyStats";
+
+// New state after a lesson session: course progress, weak points, the study log and,
+// for exam training, exam stats
+export const applyLessonResult = (
+  state: AppState,
+  session: Pick<LessonRequest, 'type' | 'level' | 'lesson'>,
+  result: LessonResult,
+  now: Date = new Date()
+): AppState => {
+  const { score, writing, mistakes, examAttempts, offline } = result;
+  const isExam = session.type === 'exam';
+  // A course lesson with writing only counts once the text reaches the pass mark of its level.
+  // The offline fallback is a different lesson and does not count.
+  const lessonPassed = !offline && (!writing || lessonWritingPassed(session.level, writing));
+
+  return {
+    ...state,
+    courseProgress: session.lesson && lessonPassed ? markLessonCompleted(state.courseProgress, session.lesson) : state.courseProgress,
+    examStats: {
+      ...state.examStats,
+      weakPoints: recordMistakes(state.examStats.weakPoints, mistakes),
+      // Exam training updates the exam stats
+      ...(isExam && {
+        lastSessionDate: now.toISOString(),
+        lastScore: formatAttemptsScore(examAttempts) || `Score: ${score}`
+      })
+    },
+    examHistory: isExam ? [...state.examHistory, ...examAttempts] : state.examHistory,
+    studyLog: [...state.studyLog, studySessionFor(session, result, now)]
+  };
+};
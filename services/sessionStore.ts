@@ -0,0 +1,69 @@
+import { DrillAnswer, LanguageLevel, LessonContent, LessonStage, SpeakingEvaluation, WritingEvaluation } from "../types";
+import { LessonSource, LessonType, hasCurrentCards } from "./lessonCache";
+import { getStorageBackend } from "./storageBackends";
+
+// Key of the running lesson in the 'sessions' store. There is at most one.
+const ACTIVE_KEY = 'active';
+
+// Everything needed to continue a lesson where it was left, saved on every change
+export interface SessionSnapshot {
+  level: LanguageLevel;
+  type: LessonType;
+  topic?: string;
+  lessonId?: string; // Course lesson
+  title: string;
+  cacheKey: string;
+  source: LessonSource;
+  content: LessonContent;
+  stage: LessonStage;
+  currentCardIndex: number;
+  readingAnswers: Record<number, number>;
+  listeningAnswers: Record<number, number>;
+  listeningPlays?: number; // Missing in snapshots saved before it was kept
+  grammarAnswers?: Record<number, DrillAnswer>; // Missing in snapshots saved before the grammar drills
+  writingText: string;
+  writingEvaluation?: WritingEvaluation;
+  speakingEvaluation?: SpeakingEvaluation;
+  score: number;
+  stageSeconds: Partial<Record<LessonStage, number>>;
+  answerSeconds: { reading: Record<number, number>; listening: Record<number, number> };
+  updatedAt: string; // ISO timestamp
+}
+
+const isSnapshot = (raw: any): raw is SessionSnapshot =>
+  !!raw && typeof raw === 'object' &&
+  typeof raw.stage === 'string' && raw.stage !== 'loading' &&
+  hasCurrentCards(raw.content) &&
+  typeof raw.cacheKey === 'string' &&
+  typeof raw.updatedAt === 'string';
+
+export const loadActiveSession = async (): Promise<SessionSnapshot | null> => {
+  try {
+    const records = await getStorageBackend().read('sessions');
+    const raw = records[ACTIVE_KEY];
+    if (raw === undefined) return null;
+    if (isSnapshot(raw)) return raw;
+    console.warn("Dropping unreadable lesson snapshot");
+    await clearActiveSession();
+    return null;
+  } catch (e) {
+    console.warn("Lesson snapshot not readable", e);
+    return null;
+  }
+};
+
+export const saveActiveSession = async (snapshot: SessionSnapshot) => {
+  try {
+    await getStorageBackend().write([{ type: 'put', store: 'sessions', key: ACTIVE_KEY, value: snapshot }]);
+  } catch (e) {
+    console.warn("Lesson snapshot could not be saved", e);
+  }
+};
+
+export const clearActiveSession = async () => {
+  try {
+    await getStorageBackend().write([{ type: 'delete', store: 'sessions', key: ACTIVE_KEY }]);
+  } catch (e) {
+    console.warn("Lesson snapshot could not be removed", e);
+  }
+};
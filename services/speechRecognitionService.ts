@@ -0,0 +1,45 @@
+// Wrapper around the browser's Web Speech recognition API (Chrome/Edge/Safari, prefixed in most)
+
+const getRecognitionClass = (): any =>
+  typeof window !== 'undefined'
+    ? (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
+    : undefined;
+
+export const isRecognitionSupported = (): boolean => !!getRecognitionClass();
+
+interface RecognitionHandlers {
+  onTranscript: (text: string) => void; // Full transcript so far (final + interim)
+  onEnd: () => void;
+  onError?: (error: string) => void;
+}
+
+// Starts German speech recognition. Returns a function that stops it.
+export const startRecognition = (handlers: RecognitionHandlers): (() => void) => {
+  const Recognition = getRecognitionClass();
+  if (!Recognition) {
+    handlers.onError?.('not-supported');
+    handlers.onEnd();
+    return () => {};
+  }
+
+  const recognition = new Recognition();
+  recognition.lang = 'de-DE';
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  let finalText = '';
+  recognition.onresult = (event: any) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) finalText += result[0].transcript.trim() + ' ';
+      else interim += result[0].transcript;
+    }
+    handlers.onTranscript((finalText + interim).trim());
+  };
+  recognition.onerror = (event: any) => handlers.onError?.(event.error);
+  recognition.onend = () => handlers.onEnd();
+  recognition.start();
+
+  return () => recognition.stop();
+};
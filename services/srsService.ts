@@ -0,0 +1,93 @@
+import { DeckCard, ReviewGrade, VocabularyCard } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+
+// Cards are identified by their German text, so meeting a word again does not duplicate it
+export const cardIdFor = (german: string): string =>
+  german.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const createDeckCard = (card: VocabularyCard, now: Date = new Date()): DeckCard => ({
+  ...card,
+  id: cardIdFor(card.german),
+  addedAt: now.toISOString(),
+  due: now.toISOString(), // New cards are due immediately
+  interval: 0,
+  ease: START_EASE,
+  repetitions: 0,
+  lapses: 0,
+  history: []
+});
+
+// Add newly seen cards to the deck. Known cards keep their schedule.
+export const addCardsToDeck = (deck: DeckCard[], cards: VocabularyCard[], now: Date = new Date()): DeckCard[] => {
+  const known = new Set(deck.map(c => c.id));
+  const added: DeckCard[] = [];
+  for (const card of cards) {
+    if (!card.german) continue;
+    const id = cardIdFor(card.german);
+    if (known.has(id)) continue;
+    known.add(id);
+    added.push(createDeckCard(card, now));
+  }
+  return added.length > 0 ? [...deck, ...added] : deck;
+};
+
+// SM-2 variant with four grades (again/hard/good/easy)
+export const scheduleCard = (card: DeckCard, grade: ReviewGrade, now: Date = new Date()): DeckCard => {
+  let { interval, ease, repetitions, lapses } = card;
+
+  if (grade === 'again') {
+    repetitions = 0;
+    lapses += 1;
+    interval = 0; // Show again in this session / today
+    ease = Math.max(MIN_EASE, ease - 0.2);
+  } else {
+    if (repetitions === 0) {
+      interval = grade === 'easy' ? 4 : 1;
+    } else if (repetitions === 1) {
+      interval = grade === 'hard' ? 3 : grade === 'good' ? 6 : 8;
+    } else if (grade === 'hard') {
+      interval = Math.max(interval + 1, Math.round(interval * 1.2));
+    } else if (grade === 'good') {
+      interval = Math.round(interval * ease);
+    } else {
+      interval = Math.round(interval * ease * 1.3);
+    }
+    repetitions += 1;
+    if (grade === 'hard') ease = Math.max(MIN_EASE, ease - 0.15);
+    if (grade === 'easy') ease += 0.15;
+  }
+
+  // "Again" cards come back after 10 minutes, everything else at the day offset
+  const due = interval === 0
+    ? new Date(now.getTime() + 10 * 60 * 1000)
+    : new Date(now.getTime() + interval * DAY_MS);
+
+  return {
+    ...card,
+    interval,
+    ease: Math.round(ease * 100) / 100,
+    repetitions,
+    lapses,
+    due: due.toISOString(),
+    history: [...card.history, { date: now.toISOString(), grade, interval }]
+  };
+};
+
+export const getDueCards = (deck: DeckCard[], now: Date = new Date()): DeckCard[] =>
+  deck
+    .filter(c => new Date(c.due).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.due).getTime() - new Date(b.due).getTime());
+
+export const updateCardInDeck = (deck: DeckCard[], updated: DeckCard): DeckCard[] =>
+  deck.map(c => (c.id === updated.id ? updated : c));
+
+// Preview of the next interval for a grade, for the buttons ("Good · 6d")
+export const formatInterval = (card: DeckCard, grade: ReviewGrade): string => {
+  const days = scheduleCard(card, grade).interval;
+  if (days === 0) return '10m';
+  if (days < 30) return `${days}d`;
+  return `${Math.round(days / 30)}mo`;
+};
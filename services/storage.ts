@@ -0,0 +1,375 @@
+import { AppState, CheckpointResult, DeckCard, ExamAttempt, INITIAL_STATE, LanguageLevel, LevelChange, StudySession, UiLanguage, WeakPoint } from "../types";
+import { migrateCourseProgress } from "./curriculum";
+import { NATIVE_LANGUAGES } from "./languages";
+import { StorageBackend, StorageOp, StoreName, getStorageBackend } from "./storageBackends";
+
+// The whole state used to be one localStorage blob under this key (migrated on first load)
+const STORAGE_KEY = 'deutsch_coach_state';
+// Keys in the 'backups' store
+const BACKUP_KEY_PREFIX = 'backup-';
+
+// Bump when the shape of AppState changes and add a migration from the previous version
+export const SCHEMA_VERSION = 2;
+
+interface StoredState {
+  version: number;
+  state: unknown;
+}
+
+export type LoadStatus = 'empty' | 'ok' | 'recovered' | 'corrupt';
+
+export interface LoadResult {
+  state: AppState;
+  status: LoadStatus;
+  issues: string[]; // What had to be dropped or reset
+  backupKey?: string; // Key of the original data in the 'backups' store ('recovered' and 'corrupt')
+}
+
+// --- Migrations ---
+
+// migrations[n] turns a version n state into version n + 1
+const migrations: Record<number, (state: any) => any> = {
+  // 0: the unversioned blob. Course progress was a counter per level,
+  // mock exam results lived in examStats.moduleHistory.
+  0: (state) => {
+    const { moduleHistory, ...examStats } = state.examStats || {};
+    const legacyResults: any[] = Array.isArray(moduleHistory) ? moduleHistory : [];
+    return {
+      ...state,
+      courseProgress: migrateCourseProgress(state.courseProgress),
+      examStats,
+      examHistory: [
+        ...(Array.isArray(state.examHistory) ? state.examHistory : []),
+        ...legacyResults.map((r, i) => ({
+          id: `legacy-${i}-${r.module}`,
+          date: r.date,
+          type: 'mock',
+          module: r.module,
+          rawPoints: r.points,
+          maxPoints: 100,
+          percentage: Math.round(r.points),
+          passed: r.passed,
+          durationSeconds: r.durationSeconds || 0,
+          parts: Array.isArray(r.parts) ? r.parts : [],
+          questions: []
+        }))
+      ]
+    };
+  },
+  // 1: Hindi was the only native language. Cards had 'hindiTranslation' and
+  // 'hindiDevanagari', the profile 'readDevanagari'.
+  1: (state) => {
+    const { readDevanagari, ...profile } = state.profile || {};
+    return {
+      ...state,
+      profile: { ...profile, nativeLanguage: 'Hindi', readNativeScript: readDevanagari === true, uiLanguage: 'English' },
+      vocabularyDeck: Array.isArray(state.vocabularyDeck)
+        ? state.vocabularyDeck.map((card: any) => {
+            if (!isObject(card)) return card;
+            const { hindiTranslation, hindiDevanagari, ...rest } = card;
+            return { ...rest, nativeTranslation: hindiTranslation ?? '', ...(hindiDevanagari ? { nativeScript: hindiDevanagari } : {}) };
+          })
+        : state.vocabularyDeck
+    };
+  }
+};
+
+export const migrateState = (state: any, fromVersion: number): any => {
+  let migrated = state;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const migrate = migrations[v];
+    if (!migrate) throw new Error(`No migration from schema version ${v}`);
+    migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+// --- Validation ---
+
+const LEVELS: LanguageLevel[] = ['A0', 'A1', 'A2', 'B1'];
+const UI_LANGUAGES: UiLanguage[] = ['English', ...NATIVE_LANGUAGES];
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+
+// Keeps the valid items of an array field and reports the dropped ones
+const validItems = <T>(value: unknown, isValid: (item: any) => boolean, field: string, issues: string[]): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${field}: not a list, reset`);
+    return [];
+  }
+  const valid = value.filter(isValid);
+  if (valid.length < value.length) issues.push(`${field}: dropped ${value.length - valid.length} invalid entries`);
+  return valid;
+};
+
+// Fields of 'value' with the expected type; everything else falls back to 'defaults'
+const validFields = <T extends Record<string, any>>(value: unknown, defaults: T, field: string, issues: string[]): T => {
+  if (value === undefined) return defaults;
+  if (!isObject(value)) {
+    issues.push(`${field}: invalid, reset`);
+    return defaults;
+  }
+  const result: Record<string, any> = { ...defaults };
+  for (const key of Object.keys(defaults)) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] === typeof defaults[key]) result[key] = value[key];
+    else issues.push(`${field}.${key}: invalid, reset`);
+  }
+  return result as T;
+};
+
+const isWeakPoint = (p: any) => isObject(p) && isString(p.topic) && isString(p.skill) && isNumber(p.errorCount) && isNumber(p.weight) && isString(p.lastSeen);
+
+const isDeckCard = (c: any) =>
+  isObject(c) && isString(c.id) && isString(c.german) && isString(c.nativeTranslation) && isString(c.due) &&
+  isNumber(c.interval) && isNumber(c.ease) && isNumber(c.repetitions) && isNumber(c.lapses) && Array.isArray(c.history);
+
+const isExamAttempt = (a: any) =>
+  isObject(a) && isString(a.id) && isString(a.date) && isString(a.module) &&
+  isNumber(a.percentage) && isBoolean(a.passed) && Array.isArray(a.questions);
+
+const isCheckpointResult = (r: any) =>
+  isObject(r) && LEVELS.includes(r.level) && isString(r.date) && isNumber(r.percentage) && isBoolean(r.passed) && Array.isArray(r.remediationLessonIds);
+
+const isLevelChange = (c: any) => isObject(c) && isString(c.date) && LEVELS.includes(c.to);
+
+const isStudySession = (s: any) =>
+  isObject(s) && isString(s.id) && isString(s.date) && isString(s.type) && LEVELS.includes(s.level) &&
+  isNumber(s.activeSeconds) && isObject(s.stageSeconds) && isNumber(s.score);
+
+export const validateState = (raw: unknown): { state: AppState; issues: string[] } => {
+  const issues: string[] = [];
+  if (!isObject(raw)) {
+    return { state: INITIAL_STATE, issues: ['state: not an object'] };
+  }
+
+  const profile = validFields(raw.profile, INITIAL_STATE.profile, 'profile', issues);
+  if (!LEVELS.includes(profile.currentLevel)) {
+    issues.push('profile.currentLevel: unknown level, reset');
+    profile.currentLevel = INITIAL_STATE.profile.currentLevel;
+  }
+  if (!NATIVE_LANGUAGES.includes(profile.nativeLanguage)) {
+    issues.push('profile.nativeLanguage: unknown language, reset');
+    profile.nativeLanguage = INITIAL_STATE.profile.nativeLanguage;
+  }
+  if (!UI_LANGUAGES.includes(profile.uiLanguage)) {
+    issues.push('profile.uiLanguage: unknown language, reset');
+    profile.uiLanguage = INITIAL_STATE.profile.uiLanguage;
+  }
+  // A learner with a name has finished onboarding, even if the flag was lost
+  if (!isBoolean(raw.profile?.onboardingComplete) && profile.name) profile.onboardingComplete = true;
+
+  const courseProgress = { ...INITIAL_STATE.courseProgress };
+  for (const level of LEVELS) {
+    const ids = raw.courseProgress?.[level]?.completedLessonIds;
+    courseProgress[level] = { completedLessonIds: validItems<string>(ids, isString, `courseProgress.${level}`, issues) };
+  }
+
+  const examStats = {
+    ...validFields(raw.examStats, INITIAL_STATE.examStats, 'examStats', issues),
+    weakPoints: validItems<WeakPoint>(raw.examStats?.weakPoints, isWeakPoint, 'examStats.weakPoints', issues)
+  };
+
+  return {
+    state: {
+      profile,
+      courseProgress,
+      examStats,
+      vocabularyDeck: validItems<DeckCard>(raw.vocabularyDeck, isDeckCard, 'vocabularyDeck', issues),
+      examHistory: validItems<ExamAttempt>(raw.examHistory, isExamAttempt, 'examHistory', issues),
+      checkpointResults: validItems<CheckpointResult>(raw.checkpointResults, isCheckpointResult, 'checkpointResults', issues),
+      levelHistory: validItems<LevelChange>(raw.levelHistory, isLevelChange, 'levelHistory', issues),
+      studyLog: validItems<StudySession>(raw.studyLog, isStudySession, 'studyLog', issues)
+    },
+    issues
+  };
+};
+
+// --- Load & save ---
+
+// Record keys of the single-record stores
+const META_KEY = 'schema';
+const PROFILE_KEY = 'profile';
+const PROGRESS_KEY = 'progress';
+
+// Last state written to the backend, to write only what changed
+let lastSaved: AppState | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+// Set while the saved data could not be read: the first save would overwrite it with an empty state
+let savingBlocked = false;
+
+// Undefined if the copy could not be written
+const backup = async (data: string, key = `${BACKUP_KEY_PREFIX}${new Date().toISOString()}`): Promise<string | undefined> => {
+  try {
+    await getStorageBackend().write([{ type: 'put', store: 'backups', key, value: data }]);
+    return key;
+  } catch (e) {
+    console.error("Failed to back up saved state", e);
+    return undefined;
+  }
+};
+
+// Migrates and validates a stored state; 'original' is backed up if anything had to be repaired
+const restore = async (stored: StoredState, original: () => string): Promise<LoadResult> => {
+  try {
+    if (stored.version > SCHEMA_VERSION) {
+      throw new Error(`Saved state has schema version ${stored.version}, app supports ${SCHEMA_VERSION}`);
+    }
+    const { state, issues } = validateState(migrateState(stored.state, stored.version));
+    if (issues.length === 0) return { state, status: 'ok', issues };
+
+    console.warn("Saved state was repaired", issues);
+    return { state, status: 'recovered', issues, backupKey: await backup(original()) };
+  } catch (e) {
+    console.error("Failed to load saved state", e);
+    return { state: INITIAL_STATE, status: 'corrupt', issues: [String(e)], backupKey: await backup(original()) };
+  }
+};
+
+const progressOf = (state: AppState) => ({
+  courseProgress: state.courseProgress,
+  examStats: state.examStats,
+  checkpointResults: state.checkpointResults,
+  levelHistory: state.levelHistory
+});
+
+// Puts for new or changed records (by reference), deletes for removed ones
+const recordOps = <T extends { id: string }>(store: StoreName, prev: T[], next: T[]): StorageOp[] => {
+  const before = new Map(prev.map(r => [r.id, r]));
+  const ops: StorageOp[] = next
+    .filter(r => before.get(r.id) !== r)
+    .map(r => ({ type: 'put', store, key: r.id, value: r }));
+  const ids = new Set(next.map(r => r.id));
+  for (const id of before.keys()) {
+    if (!ids.has(id)) ops.push({ type: 'delete', store, key: id });
+  }
+  return ops;
+};
+
+const saveOps = (prev: AppState | null, next: AppState): StorageOp[] => {
+  const ops: StorageOp[] = [];
+  if (!prev) {
+    // Full rewrite
+    (['meta', 'profile', 'progress', 'vocabulary', 'examAttempts', 'studyLog'] as StoreName[]).forEach(store => ops.push({ type: 'clear', store }));
+    ops.push({ type: 'put', store: 'meta', key: META_KEY, value: { version: SCHEMA_VERSION } });
+  }
+  if (next.profile !== prev?.profile) {
+    ops.push({ type: 'put', store: 'profile', key: PROFILE_KEY, value: next.profile });
+  }
+  const progress = progressOf(next);
+  if (!prev || (Object.keys(progress) as (keyof typeof progress)[]).some(k => progress[k] !== prev[k])) {
+    ops.push({ type: 'put', store: 'progress', key: PROGRESS_KEY, value: progress });
+  }
+  ops.push(...recordOps('vocabulary', prev?.vocabularyDeck || [], next.vocabularyDeck));
+  ops.push(...recordOps('examAttempts', prev?.examHistory || [], next.examHistory));
+  ops.push(...recordOps('studyLog', prev?.studyLog || [], next.studyLog));
+  return ops;
+};
+
+const byField = (field: string) => (a: any, b: any) => String(a?.[field]).localeCompare(String(b?.[field]));
+
+const readState = async (backend: StorageBackend): Promise<unknown> => {
+  const [profile, progress, vocabulary, examAttempts, studyLog] = await Promise.all([
+    backend.read('profile'),
+    backend.read('progress'),
+    backend.read('vocabulary'),
+    backend.read('examAttempts'),
+    backend.read('studyLog')
+  ]);
+  return {
+    profile: profile[PROFILE_KEY],
+    ...(progress[PROGRESS_KEY] as object),
+    vocabularyDeck: Object.values(vocabulary).sort(byField('addedAt')),
+    examHistory: Object.values(examAttempts).sort(byField('date')),
+    studyLog: Object.values(studyLog).sort(byField('date'))
+  };
+};
+
+// One-time move of the old localStorage blob into the backend
+const migrateFromLocalStorage = async (backend: StorageBackend): Promise<LoadResult> => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return { state: INITIAL_STATE, status: 'empty', issues: [] };
+
+  let result: LoadResult;
+  try {
+    const parsed = JSON.parse(saved);
+    // States saved before versioning are the bare AppState
+    const stored: StoredState = isObject(parsed) && isNumber(parsed.version) && 'state' in parsed
+      ? parsed as StoredState
+      : { version: 0, state: parsed };
+    result = await restore(stored, () => saved);
+  } catch (e) {
+    console.error("Failed to parse saved state", e);
+    result = { state: INITIAL_STATE, status: 'corrupt', issues: [String(e)], backupKey: await backup(saved) };
+  }
+
+  // Unreadable data stays where it is until the learner restores a backup or starts over
+  if (result.status === 'corrupt') return result;
+  await backend.write(saveOps(null, result.state));
+  lastSaved = result.state;
+  await backup(saved, `${BACKUP_KEY_PREFIX}localStorage`);
+  localStorage.removeItem(STORAGE_KEY);
+  return result;
+};
+
+const readStored = async (backend: StorageBackend): Promise<LoadResult> => {
+  try {
+    const meta = (await backend.read('meta'))[META_KEY] as { version: number } | undefined;
+    if (!meta) return await migrateFromLocalStorage(backend);
+
+    const stored: StoredState = { version: meta.version, state: await readState(backend) };
+    const result = await restore(stored, () => JSON.stringify(stored));
+    // Repaired and migrated states are written back completely, clean states only as they change
+    lastSaved = result.status === 'ok' && meta.version === SCHEMA_VERSION ? result.state : null;
+    return result;
+  } catch (e) {
+    console.error("Failed to read storage", e);
+    return { state: INITIAL_STATE, status: 'corrupt', issues: [String(e)] };
+  }
+};
+
+export const loadState = async (): Promise<LoadResult> => {
+  const result = await readStored(getStorageBackend());
+  savingBlocked = result.status === 'corrupt';
+  return result;
+};
+
+// Keeps a copy of the state in the 'backups' store, which a reset does not clear
+export const backupState = (state: AppState) => backup(JSON.stringify({ version: SCHEMA_VERSION, state }));
+
+export const isSavingBlocked = () => savingBlocked;
+
+// The learner replaces data that could not be read, with a backup file or a new profile
+export const allowSaving = () => {
+  savingBlocked = false;
+  lastSaved = null;
+};
+
+export const saveState = (state: AppState): Promise<void> => {
+  if (savingBlocked) {
+    console.warn("Not saving: the saved data could not be read");
+    return pendingWrite;
+  }
+  const ops = saveOps(lastSaved, state);
+  lastSaved = state;
+  // Writes are queued, so they reach the backend in order
+  pendingWrite = pendingWrite
+    .then(() => getStorageBackend().write(ops))
+    .catch(e => {
+      console.error("Failed to save state", e);
+      lastSaved = null; // Rewrite everything next time
+    });
+  return pendingWrite;
+};
+
+export const clearState = async () => {
+  await pendingWrite;
+  lastSaved = null;
+  savingBlocked = false;
+  await getStorageBackend().clear();
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,125 @@
+// Persistence backends. services/storage.ts maps the AppState onto these stores.
+
+export type StoreName = 'meta' | 'profile' | 'progress' | 'vocabulary' | 'sessions' | 'examAttempts' | 'lessons' | 'glossary' | 'studyLog' | 'backups';
+
+export const STORE_NAMES: StoreName[] = ['meta', 'profile', 'progress', 'vocabulary', 'sessions', 'examAttempts', 'lessons', 'glossary', 'studyLog', 'backups'];
+
+// Copies of saved data that could not be read survive a reset
+const CLEARED_STORES = STORE_NAMES.filter(store => store !== 'backups');
+
+export type StorageOp =
+  | { type: 'put'; store: StoreName; key: string; value: unknown }
+  | { type: 'delete'; store: StoreName; key: string }
+  | { type: 'clear'; store: StoreName };
+
+export interface StorageBackend {
+  // All records of a store, by key
+  read(store: StoreName): Promise<Record<string, unknown>>;
+  // Applies all operations together (one transaction where supported)
+  write(ops: StorageOp[]): Promise<void>;
+  // Everything but the backups
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'deutsch_coach';
+const DB_VERSION = 5; // 2: 'lessons' (generated lesson cache), 3: 'glossary' (looked up words), 4: 'studyLog', 5: 'backups'
+
+export class IndexedDbStorageBackend implements StorageBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          for (const store of STORE_NAMES) {
+            if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  async read(store: StoreName): Promise<Record<string, unknown>> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const records: Record<string, unknown> = {};
+      const request = db.transaction(store, 'readonly').objectStore(store).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(records);
+        records[String(cursor.key)] = cursor.value;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async write(ops: StorageOp[]): Promise<void> {
+    if (ops.length === 0) return;
+    const db = await this.open();
+    const stores = Array.from(new Set(ops.map(op => op.store)));
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(stores, 'readwrite');
+      for (const op of ops) {
+        const store = tx.objectStore(op.store);
+        if (op.type === 'put') store.put(op.value, op.key);
+        else if (op.type === 'delete') store.delete(op.key);
+        else store.clear();
+      }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.write(CLEARED_STORES.map(store => ({ type: 'clear', store })));
+  }
+}
+
+// Keeps everything in memory. For tests, and as fallback where IndexedDB is unavailable.
+export class MemoryStorageBackend implements StorageBackend {
+  stores: Record<StoreName, Map<string, unknown>> = {
+    meta: new Map(),
+    profile: new Map(),
+    progress: new Map(),
+    vocabulary: new Map(),
+    sessions: new Map(),
+    examAttempts: new Map(),
+    lessons: new Map(),
+    glossary: new Map(),
+    studyLog: new Map(),
+    backups: new Map()
+  };
+
+  async read(store: StoreName): Promise<Record<string, unknown>> {
+    // Copies, like IndexedDB's structured clone
+    return structuredClone(Object.fromEntries(this.stores[store]));
+  }
+
+  async write(ops: StorageOp[]): Promise<void> {
+    for (const op of ops) {
+      const store = this.stores[op.store];
+      if (op.type === 'put') store.set(op.key, structuredClone(op.value));
+      else if (op.type === 'delete') store.delete(op.key);
+      else store.clear();
+    }
+  }
+
+  async clear(): Promise<void> {
+    for (const store of CLEARED_STORES) this.stores[store].clear();
+  }
+}
+
+let backend: StorageBackend = typeof indexedDB !== 'undefined' ? new IndexedDbStorageBackend() : new MemoryStorageBackend();
+
+export const getStorageBackend = (): StorageBackend => backend;
+
+export const setStorageBackend = (next: StorageBackend) => {
+  backend = next;
+};
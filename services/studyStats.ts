@@ -0,0 +1,127 @@
+import { LanguageLevel, LessonResult, LessonStage, StudySession } from "../types";
+import { LessonRequest } from "./lessonCache";
+
+// A day without reaching the goal is bridged by a streak freeze, if one is left.
+// One freeze is earned per week in a row, at most MAX_FREEZES are kept.
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Local calendar day, 'YYYY-MM-DD'
+export const dayKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const fromDayKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Time spent on a lesson, without waiting for it to be generated
+export const activeSeconds = (stageSeconds: Partial<Record<LessonStage, number>>): number =>
+  Object.entries(stageSeconds).reduce((sum, [stage, seconds]) => stage === 'loading' ? sum : sum + (seconds || 0), 0);
+
+export const studySessionFor = (
+  session: Pick<LessonRequest, 'type' | 'level' | 'lesson'>,
+  result: LessonResult,
+  now: Date
+): StudySession => ({
+  id: `session-${now.getTime()}`,
+  date: now.toISOString(),
+  type: session.type,
+  level: session.level,
+  ...(session.lesson && { lessonId: session.lesson.id }),
+  activeSeconds: Math.round(activeSeconds(result.stageSeconds)),
+  stageSeconds: result.stageSeconds,
+  score: result.score
+});
+
+// Reviews and tests count towards the daily goal like lessons, without stages
+export const activitySessionFor = (
+  type: 'review' | 'mockExam' | 'checkpoint',
+  level: LanguageLevel,
+  seconds: number,
+  score: number,
+  now: Date
+): StudySession => ({
+  id: `session-${now.getTime()}`,
+  date: now.toISOString(),
+  type,
+  level,
+  activeSeconds: Math.round(seconds),
+  stageSeconds: {},
+  score
+});
+
+// Study minutes per local day (dayKey)
+export const minutesByDay = (log: StudySession[]): Record<string, number> => {
+  const minutes: Record<string, number> = {};
+  for (const session of log) {
+    const key = dayKey(new Date(session.date));
+    minutes[key] = (minutes[key] || 0) + session.activeSeconds / 60;
+  }
+  return minutes;
+};
+
+export interface StreakStatus {
+  current: number; // Days in a row with the goal reached; frozen days bridge the gap but do not count
+  longest: number;
+  freezes: number; // Left to bridge a missed day
+  frozenDays: string[]; // dayKeys bridged by a freeze
+  todayMinutes: number;
+}
+
+// Replays the log day by day. A missed day uses up a freeze or ends the streak,
+// today only counts once the goal is reached.
+export const streakStatus = (log: StudySession[], goalMinutes: number, now: Date = new Date()): StreakStatus => {
+  const minutes = minutesByDay(log);
+  const today = dayKey(now);
+  const status: StreakStatus = { current: 0, longest: 0, freezes: 0, frozenDays: [], todayMinutes: minutes[today] || 0 };
+  const firstDay = Object.keys(minutes).sort()[0];
+  if (!firstDay) return status;
+
+  for (let date = fromDayKey(firstDay); dayKey(date) <= today; date = addDays(date, 1)) {
+    const key = dayKey(date);
+    if ((minutes[key] || 0) >= goalMinutes) {
+      status.current++;
+      status.longest = Math.max(status.longest, status.current);
+      if (status.current % FREEZE_EVERY_DAYS === 0) status.freezes = Math.min(MAX_FREEZES, status.freezes + 1);
+    } else if (key === today) {
+      continue;
+    } else if (status.current > 0 && status.freezes > 0) {
+      status.freezes--;
+      status.frozenDays.push(key);
+    } else {
+      status.current = 0;
+    }
+  }
+  return status;
+};
+
+export interface HeatmapDay {
+  key: string; // dayKey
+  minutes: number;
+  intensity: 0 | 1 | 2 | 3 | 4; // 3 and up: goal reached
+}
+
+const intensity = (minutes: number, goalMinutes: number): HeatmapDay['intensity'] => {
+  if (minutes <= 0) return 0;
+  if (minutes < goalMinutes / 2) return 1;
+  if (minutes < goalMinutes) return 2;
+  return minutes < goalMinutes * 2 ? 3 : 4;
+};
+
+// The last 'weeks' calendar weeks (Monday first) up to today, one array per week
+export const activityHeatmap = (log: StudySession[], goalMinutes: number, now: Date = new Date(), weeks = 12): HeatmapDay[][] => {
+  const minutes = minutesByDay(log);
+  const today = dayKey(now);
+  const start = addDays(now, -((now.getDay() + 6) % 7) - (weeks - 1) * 7);
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => dayKey(addDays(start, week * 7 + day)))
+      .filter(key => key <= today)
+      .map(key => ({ key, minutes: minutes[key] || 0, intensity: intensity(minutes[key] || 0, goalMinutes) }))
+  );
+};
@@ -0,0 +1,95 @@
+// Romanized Hindi (as written in chats and by the model: "Main ghar ja rahi hoon") to
+// Devanagari. Rule based and deterministic, used where the model gave no Devanagari form
+// (older cards, offline lessons). Informal romanization does not mark vowel length,
+// retroflex consonants or nasals consistently, so the result is a reading aid and not
+// always the dictionary spelling.
+
+const CONSONANTS: Record<string, string> = {
+  chh: 'छ', kh: 'ख', gh: 'घ', ch: 'च', jh: 'झ', th: 'थ', dh: 'ध', ph: 'फ', bh: 'भ', sh: 'श',
+  k: 'क', g: 'ग', c: 'च', j: 'ज', t: 'त', d: 'द', n: 'न', p: 'प', b: 'ब', m: 'म',
+  y: 'य', r: 'र', l: 'ल', v: 'व', w: 'व', s: 'स', h: 'ह', z: 'ज़', f: 'फ़', q: 'क़', x: 'क्स'
+};
+
+// Independent form at the start of a syllable, vowel sign after a consonant
+const VOWELS: Record<string, { letter: string; sign: string }> = {
+  aa: { letter: 'आ', sign: 'ा' },
+  ai: { letter: 'ऐ', sign: 'ै' },
+  au: { letter: 'औ', sign: 'ौ' },
+  ou: { letter: 'औ', sign: 'ौ' },
+  ee: { letter: 'ई', sign: 'ी' },
+  ii: { letter: 'ई', sign: 'ी' },
+  ei: { letter: 'ए', sign: 'े' },
+  oo: { letter: 'ऊ', sign: 'ू' },
+  uu: { letter: 'ऊ', sign: 'ू' },
+  a: { letter: 'अ', sign: '' }, // Inherent vowel
+  i: { letter: 'इ', sign: 'ि' },
+  u: { letter: 'उ', sign: 'ु' },
+  e: { letter: 'ए', sign: 'े' },
+  o: { letter: 'ओ', sign: 'ो' }
+};
+
+// Word-final short vowels are written long: "mera" मेरा, "rahi" रही, "tu" तू
+const FINAL_VOWELS: Record<string, string> = { a: 'aa', i: 'ee', u: 'oo' };
+
+const VIRAMA = '्';
+
+// Longest spellings first, so "chh" wins over "ch" and "c"
+const byLength = (keys: string[]) => [...keys].sort((a, b) => b.length - a.length);
+const CONSONANT_KEYS = byLength(Object.keys(CONSONANTS));
+const VOWEL_KEYS = byLength(Object.keys(VOWELS));
+
+type Token = { type: 'consonant' | 'vowel'; key: string };
+
+const tokenize = (word: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < word.length) {
+    const vowel = VOWEL_KEYS.find(key => word.startsWith(key, i));
+    const consonant = vowel ? undefined : CONSONANT_KEYS.find(key => word.startsWith(key, i));
+    const key = vowel || consonant || word[i];
+    tokens.push({ type: vowel ? 'vowel' : 'consonant', key });
+    i += key.length;
+  }
+  return tokens;
+};
+
+// Consonant clusters are joined with a virama ("pyaar" प्यार, "dost" दोस्त), except before
+// the verb endings -na/-ta/-ne/-te/... ("karna" करना, "milta" मिलता), where Hindi drops the
+// inherent vowel in speech but not in writing. Doubled consonants stay joined ("patta" पत्ता).
+const isVerbEnding = (tokens: Token[], i: number): boolean =>
+  i > 0 && tokens[i - 1].type === 'vowel'
+  && tokens[i].key !== 's' && tokens[i].key !== 'sh'
+  && (tokens[i + 1]?.key === 'n' || tokens[i + 1]?.key === 't') && tokens[i + 1].key !== tokens[i].key
+  && tokens[i + 2]?.type === 'vowel' && i + 2 === tokens.length - 1;
+
+const transliterateWord = (word: string): string => {
+  const tokens = tokenize(word);
+  let result = '';
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    const isLast = i === tokens.length - 1;
+    if (token.type === 'vowel') {
+      const afterConsonant = i > 0 && tokens[i - 1].type === 'consonant';
+      const key = afterConsonant && isLast && FINAL_VOWELS[token.key] ? FINAL_VOWELS[token.key] : token.key;
+      result += afterConsonant ? VOWELS[key].sign : VOWELS[key].letter;
+      return;
+    }
+    // A final n after these vowels is nasalization: "main" मैं, "hain" हैं, "hoon" हूँ
+    if (token.key === 'n' && isLast && i > 0 && ['ai', 'ei', 'oo'].includes(tokens[i - 1].key)) {
+      result += tokens[i - 1].key === 'oo' ? 'ँ' : 'ं';
+      return;
+    }
+    result += CONSONANTS[token.key];
+    if (next?.type === 'consonant' && !isVerbEnding(tokens, i)) result += VIRAMA;
+  });
+  return result;
+};
+
+export const isDevanagari = (text: string): boolean => /[ऀ-ॿ]/.test(text);
+
+// Transliterates the Latin words of a text; Devanagari, digits and punctuation stay,
+// full stops become the danda (।)
+export const toDevanagari = (text: string): string =>
+  text
+    .replace(/[a-z]+/gi, word => transliterateWord(word.toLowerCase()))
+    .replace(/\.(?=\s|$)/g, '।');
@@ -0,0 +1,80 @@
+import { DrillAnswer, GrammarDrill, Mistake, QuizQuestion, SkillArea, WeakPoint, WritingErrorCategory, WritingEvaluation } from "../types";
+import { WRITING_CATEGORY_LABELS } from "./writingFeedback";
+import { DRILL_TOPICS, drillScore } from "./grammarDrills";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A mistake counts half as much after two weeks
+const HALF_LIFE_DAYS = 14;
+// Weak points below this (decayed) weight are no longer shown
+const MIN_WEIGHT = 0.25;
+
+const topicKey = (topic: string) => topic.trim().toLowerCase();
+
+// Weight of a weak point at 'now', after exponential decay since it was last seen
+export const currentWeight = (point: WeakPoint, now: Date = new Date()): number => {
+  const days = Math.max(0, (now.getTime() - new Date(point.lastSeen).getTime()) / DAY_MS);
+  return point.weight * Math.pow(0.5, days / HALF_LIFE_DAYS);
+};
+
+// Merge new mistakes into the aggregated weak points
+export const recordMistakes = (points: WeakPoint[], mistakes: Mistake[], now: Date = new Date()): WeakPoint[] => {
+  if (mistakes.length === 0) return points;
+  const byTopic = new Map(points.map(p => [topicKey(p.topic), p]));
+
+  for (const mistake of mistakes) {
+    if (!mistake.topic.trim()) continue;
+    const key = topicKey(mistake.topic);
+    const existing = byTopic.get(key);
+    byTopic.set(key, existing
+      ? {
+          ...existing,
+          errorCount: existing.errorCount + 1,
+          weight: currentWeight(existing, now) + 1,
+          lastSeen: now.toISOString()
+        }
+      : {
+          topic: mistake.topic.trim(),
+          skill: mistake.skill,
+          errorCount: 1,
+          weight: 1,
+          lastSeen: now.toISOString()
+        });
+  }
+  return Array.from(byTopic.values());
+};
+
+export const getTopWeakPoints = (points: WeakPoint[], limit = 5, now: Date = new Date()): WeakPoint[] =>
+  points
+    .map(p => ({ point: p, weight: currentWeight(p, now) }))
+    .filter(p => p.weight >= MIN_WEIGHT)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, limit)
+    .map(p => p.point);
+
+// --- Collecting mistakes from a session ---
+
+const GRAMMAR_CATEGORIES: WritingErrorCategory[] = ['case', 'word_order', 'verb_conjugation', 'article', 'preposition'];
+
+export const mistakesFromQuestions = (
+  questions: QuizQuestion[] | undefined,
+  answers: Record<number, number>,
+  skill: SkillArea
+): Mistake[] =>
+  (questions || [])
+    .filter((q, idx) => answers[idx] !== undefined && answers[idx] !== q.correctAnswer)
+    .map(q => ({
+      topic: q.topic || (skill === 'listening' ? 'Hören: Detailfragen' : 'Lesen: Detailfragen'),
+      skill
+    }));
+
+// A drill with any wrong part (e.g. one form of a conjugation table) is a mistake
+export const mistakesFromDrills = (drills: GrammarDrill[] | undefined, answers: Record<number, DrillAnswer>): Mistake[] =>
+  (drills || [])
+    .filter((drill, idx) => answers[idx] !== undefined && drillScore(drill, answers[idx]) < 1)
+    .map(drill => ({ topic: drill.topic || DRILL_TOPICS[drill.kind], skill: 'grammar' }));
+
+export const mistakesFromWriting = (evaluation: WritingEvaluation): Mistake[] =>
+  evaluation.errors.map(e => ({
+    topic: e.topic || WRITING_CATEGORY_LABELS[e.category],
+    skill: GRAMMAR_CATEGORIES.includes(e.category) ? 'grammar' : e.category === 'vocabulary' ? 'vocabulary' : 'writing'
+  }));
@@ -0,0 +1,70 @@
+import { LanguageLevel, WritingError, WritingErrorCategory, WritingEvaluation, WritingScores, WRITING_CRITERION_MAX } from "../types";
+
+export type FeedbackSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'error'; text: string; error: WritingError };
+
+// Split the student's text into plain and erroneous parts for inline highlighting.
+// Errors are matched left to right; spans that cannot be found or overlap are skipped.
+export const buildCorrectionSegments = (text: string, errors: WritingError[]): FeedbackSegment[] => {
+  const matches: { start: number; end: number; error: WritingError }[] = [];
+  let searchFrom = 0;
+  for (const error of errors) {
+    let start = text.indexOf(error.original, searchFrom);
+    if (start === -1) start = text.indexOf(error.original); // Model did not keep the order
+    if (start === -1) continue;
+    const end = start + error.original.length;
+    if (matches.some(m => start < m.end && end > m.start)) continue;
+    matches.push({ start, end, error });
+    searchFrom = end;
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const segments: FeedbackSegment[] = [];
+  let pos = 0;
+  for (const m of matches) {
+    if (m.start > pos) segments.push({ kind: 'text', text: text.slice(pos, m.start) });
+    segments.push({ kind: 'error', text: text.slice(m.start, m.end), error: m.error });
+    pos = m.end;
+  }
+  if (pos < text.length) segments.push({ kind: 'text', text: text.slice(pos) });
+  return segments;
+};
+
+export const WRITING_CATEGORY_LABELS: Record<WritingErrorCategory, string> = {
+  case: 'Case',
+  word_order: 'Word order',
+  verb_conjugation: 'Verb conjugation',
+  article: 'Article',
+  preposition: 'Preposition',
+  spelling: 'Spelling',
+  vocabulary: 'Vocabulary',
+  other: 'Other',
+};
+
+export const WRITING_CRITERIA: { key: keyof WritingScores; label: string }[] = [
+  { key: 'taskFulfilment', label: 'Task fulfilment' },
+  { key: 'coherence', label: 'Coherence' },
+  { key: 'vocabulary', label: 'Vocabulary' },
+  { key: 'structures', label: 'Structures' },
+];
+
+// Share of the maximum Goethe criteria points, 0-100
+export const writingScorePercent = (evaluation: WritingEvaluation): number => {
+  const total = WRITING_CRITERIA.reduce((sum, c) => sum + evaluation.scores[c.key], 0);
+  return Math.round((total / (WRITING_CRITERIA.length * WRITING_CRITERION_MAX)) * 100);
+};
+
+// Up to 20 XP for a perfect text
+export const writingXp = (evaluation: WritingEvaluation): number =>
+  Math.round(writingScorePercent(evaluation) / 5);
+
+// The Goethe exam requires 60% per module
+export const WRITING_PASS_PERCENT = 60;
+
+// The texts are scored on the B1 criteria, so the course asks less of lower levels
+export const LESSON_WRITING_PASS_PERCENT: Record<LanguageLevel, number> = { A0: 20, A1: 30, A2: 45, B1: WRITING_PASS_PERCENT };
+
+// Whether the writing of a course lesson is good enough to complete it at its level
+export const lessonWritingPassed = (level: LanguageLevel, evaluation: WritingEvaluation): boolean =>
+  writingScorePercent(evaluation) >= LESSON_WRITING_PASS_PERCENT[level];
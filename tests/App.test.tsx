@@ -0,0 +1,230 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from '../App';
+import { AppState, INITIAL_STATE } from '../types';
+import { backupState, clearState, loadState, saveState } from '../services/storage';
+import { MemoryStorageBackend, setStorageBackend } from '../services/storageBackends';
+import { lessonCacheKey } from '../services/lessonCache';
+import { saveActiveSession } from '../services/sessionStore';
+import { findLesson } from '../services/curriculum';
+import { addCardsToDeck } from '../services/srsService';
+import { setLlmConfig } from '../services/llmProviders';
+import { FakeAudioService, setAudioService } from '../services/audioService';
+import { VOCAB_AND_LISTENING_LESSON } from './fixtures/lessons';
+
+const PRIYA: AppState = {
+  ...INITIAL_STATE,
+  profile: { ...INITIAL_STATE.profile, name: 'Priya', onboardingComplete: true }
+};
+
+let backend: MemoryStorageBackend;
+
+beforeEach(async () => {
+  backend = new MemoryStorageBackend();
+  setStorageBackend(backend);
+  await clearState();
+  localStorage.clear();
+  setLlmConfig({ provider: 'mock', model: 'fixtures' }); // The dashboard prefetches lessons
+  setAudioService(new FakeAudioService());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('storage', () => {
+  it('loads what was saved', async () => {
+    await saveState(PRIYA);
+    const { state, status } = await loadState();
+    expect(status).toBe('ok');
+    expect(state).toEqual(PRIYA);
+  });
+
+  it('writes only the stores that changed', async () => {
+    await saveState(PRIYA);
+    const write = vi.spyOn(backend, 'write');
+    await saveState({ ...PRIYA, examStats: { ...PRIYA.examStats, lastScore: 'Score: 10' } });
+    expect(write.mock.calls[0][0].map(op => op.store)).toEqual(['progress']);
+  });
+
+  it('moves the old localStorage blob into the backend', async () => {
+    localStorage.setItem('deutsch_coach_state', JSON.stringify(PRIYA));
+    const { state, status } = await loadState();
+    expect(status).toBe('ok');
+    expect(state.profile.name).toBe('Priya');
+    expect(localStorage.getItem('deutsch_coach_state')).toBeNull();
+    expect((await backend.read('profile')).profile).toEqual(PRIYA.profile);
+  });
+
+  it('migrates Hindi-only profiles and cards to the native language fields', async () => {
+    const { nativeLanguage, readNativeScript, uiLanguage, ...oldProfile } = PRIYA.profile;
+    const card = { id: 'der zug', german: 'der Zug', englishExplanation: 'the train', hindiTranslation: 'train', hindiDevanagari: 'ट्रेन', exampleSentence: 'Der Zug kommt.', due: '2026-01-01', interval: 0, ease: 2.5, repetitions: 0, lapses: 0, history: [], addedAt: '2026-01-01' };
+    await backend.write([
+      { type: 'put', store: 'meta', key: 'schema', value: { version: 1 } },
+      { type: 'put', store: 'profile', key: 'profile', value: { ...oldProfile, readDevanagari: true } },
+      { type: 'put', store: 'vocabulary', key: card.id, value: card }
+    ]);
+    const { state, status } = await loadState();
+    expect(status).toBe('ok');
+    expect(state.profile).toEqual({ ...PRIYA.profile, nativeLanguage: 'Hindi', readNativeScript: true, uiLanguage: 'English' });
+    expect(state.vocabularyDeck[0]).toMatchObject({ german: 'der Zug', nativeTranslation: 'train', nativeScript: 'ट्रेन' });
+    expect(state.vocabularyDeck[0]).not.toHaveProperty('hindiTranslation');
+  });
+
+  it('backs up data it cannot read', async () => {
+    localStorage.setItem('deutsch_coach_state', '{"profile":');
+    const { state, status, backupKey } = await loadState();
+    expect(status).toBe('corrupt');
+    expect(state).toEqual(INITIAL_STATE);
+    expect((await backend.read('backups'))[backupKey!]).toBe('{"profile":');
+    expect(localStorage.getItem('deutsch_coach_state')).toBe('{"profile":');
+  });
+
+  it('does not overwrite data it could not read', async () => {
+    await saveState(PRIYA);
+    vi.spyOn(backend, 'read').mockRejectedValueOnce(new Error('blocked'));
+    expect((await loadState()).status).toBe('corrupt');
+    await saveState(INITIAL_STATE);
+    expect((await backend.read('profile')).profile).toEqual(PRIYA.profile);
+  });
+
+  it('does not overwrite data from a newer version', async () => {
+    await saveState(PRIYA);
+    await backend.write([{ type: 'put', store: 'meta', key: 'schema', value: { version: 99 } }]);
+    const { status, backupKey } = await loadState();
+    expect(status).toBe('corrupt');
+    expect(JSON.parse((await backend.read('backups'))[backupKey!] as string).state.profile).toEqual(PRIYA.profile);
+    await saveState(INITIAL_STATE);
+    expect((await backend.read('profile')).profile).toEqual(PRIYA.profile);
+  });
+
+  it('keeps state snapshots through a reset', async () => {
+    await saveState(PRIYA);
+    const backupKey = await backupState(PRIYA);
+    await clearState();
+    expect(await backend.read('profile')).toEqual({});
+    expect(JSON.parse((await backend.read('backups'))[backupKey!] as string).state).toEqual(PRIYA);
+  });
+
+  it('saves again once the learner starts over', async () => {
+    vi.spyOn(backend, 'read').mockRejectedValueOnce(new Error('blocked'));
+    await loadState();
+    await clearState();
+    await saveState(PRIYA);
+    expect((await backend.read('profile')).profile).toEqual(PRIYA.profile);
+  });
+});
+
+describe('App', () => {
+  it('starts with the onboarding without saved data', async () => {
+    render(<App />);
+    expect(await screen.findByText('Willkommen!')).toBeTruthy();
+  });
+
+  it('opens the dashboard for a saved profile', async () => {
+    await saveState(PRIYA);
+    render(<App />);
+    expect(await screen.findByText('Namaste, Priya!')).toBeTruthy();
+  });
+
+  it('tells the user when saved data had to be repaired', async () => {
+    await saveState(PRIYA);
+    await backend.write([{ type: 'put', store: 'vocabulary', key: 'broken', value: { german: 42 } }]);
+    render(<App />);
+    expect(await screen.findByText(/Some saved data could not be read/)).toBeTruthy();
+    expect(screen.getByText('Namaste, Priya!')).toBeTruthy();
+  });
+
+  it('offers to recover unreadable data instead of starting the onboarding', async () => {
+    localStorage.setItem('deutsch_coach_state', 'not json');
+    render(<App />);
+    expect(await screen.findByText('Your saved data could not be read')).toBeTruthy();
+    expect(screen.queryByText('Willkommen!')).toBeNull();
+    expect(localStorage.getItem('deutsch_coach_state')).toBe('not json');
+  });
+
+  it('starts the onboarding once the learner chooses to start over', async () => {
+    localStorage.setItem('deutsch_coach_state', 'not json');
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<App />);
+    fireEvent.click(await screen.findByText('Start over with a new profile'));
+    expect(await screen.findByText('Willkommen!')).toBeTruthy();
+    expect(localStorage.getItem('deutsch_coach_state')).toBeNull();
+  });
+
+  it('logs a finished review for the daily goal', async () => {
+    const deck = addCardsToDeck([], VOCAB_AND_LISTENING_LESSON.vocabulary.slice(0, 1), new Date('2026-01-01'));
+    await saveState({ ...PRIYA, vocabularyDeck: deck });
+
+    render(<App />);
+    fireEvent.click(await screen.findByText('Review'));
+    fireEvent.click(screen.getByText('Show Answer'));
+    fireEvent.click(screen.getByText('Good'));
+    fireEvent.click(screen.getByText('Back to Dashboard'));
+
+    await waitFor(async () => {
+      const { state } = await loadState();
+      expect(state.studyLog).toEqual([expect.objectContaining({ type: 'review', level: PRIYA.profile.currentLevel, score: 1, stageSeconds: {} })]);
+    });
+  });
+
+  it('logs the cards graded before leaving a review early', async () => {
+    const deck = addCardsToDeck([], VOCAB_AND_LISTENING_LESSON.vocabulary.slice(0, 2), new Date('2026-01-01'));
+    await saveState({ ...PRIYA, vocabularyDeck: deck });
+
+    render(<App />);
+    fireEvent.click(await screen.findByText('Review'));
+    fireEvent.click(screen.getByText('Show Answer'));
+    fireEvent.click(screen.getByText('Good'));
+    fireEvent.click(screen.getByLabelText('Back to Dashboard'));
+
+    expect(await screen.findByText('Namaste, Priya!')).toBeTruthy();
+    await waitFor(async () => {
+      const { state } = await loadState();
+      expect(state.studyLog).toEqual([expect.objectContaining({ type: 'review', score: 1 })]);
+    });
+  });
+
+  it('saves the completed A0 course lesson', async () => {
+    await saveState(PRIYA);
+    const lesson = findLesson('a0-01')!;
+    const key = lessonCacheKey({ level: 'A0', type: 'topic', topic: lesson.title, lesson, language: 'Hindi' });
+    await backend.write([{ type: 'put', store: 'lessons', key, value: { key, content: { ...VOCAB_AND_LISTENING_LESSON, listeningDialogue: undefined }, createdAt: new Date().toISOString() } }]);
+
+    render(<App />);
+    fireEvent.click(await screen.findByText('Continue Course'));
+    fireEvent.click(await screen.findByText('Next Word'));
+    fireEvent.click(await screen.findByText('Back to Dashboard'));
+
+    expect(await screen.findByText('Namaste, Priya!')).toBeTruthy();
+    await waitFor(async () => {
+      const { state } = await loadState();
+      expect(state.courseProgress.A0.completedLessonIds).toEqual(['a0-01']);
+    });
+  });
+  it('drops the cached lesson of an unfinished lesson the learner discards', async () => {
+    await saveState(PRIYA);
+    const key = lessonCacheKey({ level: 'A1', type: 'topic', topic: 'Im Café', language: 'Hindi' });
+    await backend.write([{ type: 'put', store: 'lessons', key, value: { key, content: VOCAB_AND_LISTENING_LESSON, createdAt: new Date().toISOString() } }]);
+    await saveActiveSession({
+      level: 'A1', type: 'topic', topic: 'Im Café', title: 'Im Café', cacheKey: key, source: 'cache',
+      content: VOCAB_AND_LISTENING_LESSON, stage: 'vocab', currentCardIndex: 1,
+      readingAnswers: {}, listeningAnswers: {}, writingText: '', score: 0,
+      stageSeconds: {}, answerSeconds: { reading: {}, listening: {} }, updatedAt: new Date().toISOString()
+    });
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    render(<App />);
+    await screen.findByText('Im Café');
+    fireEvent.click(screen.getByText('Continue Course'));
+
+    expect(confirm).toHaveBeenCalled();
+    await waitFor(async () => {
+      expect(await backend.read('lessons')).not.toHaveProperty(key);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, within } from '@testing-library/react';
+import LessonSession from '../components/LessonSession';
+import { INITIAL_STATE, LessonContent, LessonResult, UserProfile, VocabularyCard } from '../types';
+import { LessonRequest, lessonCacheKey } from '../services/lessonCache';
+import { loadActiveSession } from '../services/sessionStore';
+import { MemoryStorageBackend, setStorageBackend } from '../services/storageBackends';
+import { setLlmConfig } from '../services/llmProviders';
+import { FakeAudioService, setAudioService } from '../services/audioService';
+import { FULL_LESSON, GRAMMAR_LESSON, VOCAB_AND_LISTENING_LESSON } from './fixtures/lessons';
+
+const REQUEST: LessonRequest = { level: 'A1', type: 'topic', topic: 'Im Café', language: 'Hindi' };
+const PROFILE: UserProfile = { ...INITIAL_STATE.profile, name: 'Priya' };
+
+let backend: MemoryStorageBackend;
+
+const cacheLesson = (content: LessonContent) => {
+  const key = lessonCacheKey(REQUEST);
+  return backend.write([{ type: 'put', store: 'lessons', key, value: { key, content, createdAt: new Date().toISOString() } }]);
+};
+
+const renderSession = (onComplete: (result: LessonResult) => void = () => {}, onVocabularySeen: (cards: VocabularyCard[]) => void = () => {}, profile = PROFILE) =>
+  render(
+    <LessonSession
+      {...REQUEST}
+      profile={profile}
+      dueCards={[]}
+      deck={[]}
+      onReviewCard={() => {}}
+      onVocabularySeen={onVocabularySeen}
+      onComplete={onComplete}
+      onBack={() => {}}
+    />
+  );
+
+beforeEach(() => {
+  backend = new MemoryStorageBackend();
+  setStorageBackend(backend);
+  setLlmConfig({ provider: 'mock', model: 'fixtures' }); // Writing feedback
+  setAudioService(new FakeAudioService());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('LessonSession', () => {
+  it('goes through all stages of a full lesson', async () => {
+    await cacheLesson(FULL_LESSON);
+    const onComplete = vi.fn();
+    renderSession(onComplete);
+
+    expect(await screen.findByText('New Words (1/2)')).toBeTruthy();
+    fireEvent.click(screen.getByText('Next Word'));
+    expect(screen.getByText('New Words (2/2)')).toBeTruthy();
+    fireEvent.click(screen.getByText('Next Word'));
+
+    expect(screen.getByText(/Lesen \(Reading\)/)).toBeTruthy();
+    expect(screen.queryByText('Continue')).toBeNull(); // Not before all questions are answered
+    fireEvent.click(screen.getByText('Einen Tee'));
+    fireEvent.click(screen.getByText('Continue'));
+
+    expect(screen.getByText(/Hören \(Listening\)/)).toBeTruthy();
+    fireEvent.click(screen.getByText('Schwarz')); // Wrong
+    fireEvent.click(screen.getByText('Continue'));
+
+    expect(screen.getByText('Schreiben (Writing)')).toBeTruthy();
+    fireEvent.change(screen.getByPlaceholderText('Type your German text here...'), { target: { value: 'Liebe Anna, wir gehen am Samstag ins Café.' } });
+    fireEvent.click(screen.getByText('Get Feedback'));
+
+    expect(await screen.findByText('Your Feedback')).toBeTruthy();
+    fireEvent.click(screen.getByText('See Summary')); // No speaking task
+
+    expect(screen.getByText('Well Done!')).toBeTruthy();
+    fireEvent.click(screen.getByText('Back to Dashboard'));
+
+    const result: LessonResult = onComplete.mock.calls[0][0];
+    expect(result.offline).toBe(false);
+    expect(result.writing).toBeDefined();
+    expect(result.mistakes).toContainEqual(expect.objectContaining({ skill: 'listening' }));
+    expect(result.score).toBeGreaterThanOrEqual(5);
+  });
+
+  it('skips stages without content', async () => {
+    await cacheLesson(VOCAB_AND_LISTENING_LESSON);
+    renderSession();
+
+    fireEvent.click(await screen.findByText('Next Word'));
+    expect(screen.getByText(/Hören \(Listening\)/)).toBeTruthy();
+    fireEvent.click(screen.getByText('Mit Milch'));
+    fireEvent.click(screen.getByText('Continue'));
+    expect(screen.getByText('Well Done!')).toBeTruthy();
+  });
+
+  it('counts only the time the tab is visible', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const start = new Date('2026-03-02T10:00:00Z').getTime();
+    vi.setSystemTime(start);
+    await cacheLesson({ ...VOCAB_AND_LISTENING_LESSON, listeningDialogue: undefined });
+    const onComplete = vi.fn();
+    renderSession(onComplete);
+    await screen.findByText('Next Word');
+
+    const hidden = vi.spyOn(document, 'hidden', 'get');
+    vi.setSystemTime(start + 60_000);
+    hidden.mockReturnValue(true);
+    document.dispatchEvent(new Event('visibilitychange'));
+    vi.setSystemTime(start + 600_000); // Away
+    hidden.mockReturnValue(false);
+    document.dispatchEvent(new Event('visibilitychange'));
+    vi.setSystemTime(start + 630_000);
+    fireEvent.click(screen.getByText('Next Word'));
+    fireEvent.click(screen.getByText('Back to Dashboard'));
+    vi.useRealTimers();
+
+    const result: LessonResult = onComplete.mock.calls[0][0];
+    expect(result.stageSeconds.vocab).toBe(90);
+  });
+
+  it('keeps the stage time of a hidden tab for a resumed session', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const start = new Date('2026-03-02T10:00:00Z').getTime();
+    vi.setSystemTime(start);
+    await cacheLesson({ ...VOCAB_AND_LISTENING_LESSON, listeningDialogue: undefined });
+    const first = renderSession();
+    await screen.findByText('Next Word');
+
+    // Closed while hidden, without another step
+    vi.setSystemTime(start + 120_000);
+    const hidden = vi.spyOn(document, 'hidden', 'get').mockReturnValue(true);
+    document.dispatchEvent(new Event('visibilitychange'));
+    const snapshot = await vi.waitFor(async () => {
+      const saved = await loadActiveSession();
+      expect(saved?.stageSeconds.vocab).toBe(120);
+      return saved!;
+    });
+    first.unmount();
+    hidden.mockRestore();
+
+    vi.setSystemTime(start + 3_600_000);
+    const onComplete = vi.fn();
+    render(
+      <LessonSession {...REQUEST} resume={snapshot} profile={PROFILE} dueCards={[]} deck={[]} onReviewCard={() => {}} onVocabularySeen={() => {}} onComplete={onComplete} onBack={() => {}} />
+    );
+    vi.setSystemTime(start + 3_630_000);
+    fireEvent.click(screen.getByText('Next Word'));
+    fireEvent.click(screen.getByText('Back to Dashboard'));
+    vi.useRealTimers();
+
+    const result: LessonResult = onComplete.mock.calls[0][0];
+    expect(result.stageSeconds.vocab).toBe(150);
+  });
+
+  it('checks the grammar drills locally', async () => {
+    await cacheLesson(GRAMMAR_LESSON);
+    const onComplete = vi.fn();
+    renderSession(onComplete);
+    fireEvent.click(await screen.findByText('Next Word'));
+    expect(screen.getByText(/Grammatik \(Grammar\)/)).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Gap'), { target: { value: 'sind' } });
+    fireEvent.click(screen.getAllByText('Check')[0]);
+
+    const tokens = ['Ich', 'bleibe', 'zu Hause,', 'weil', 'ich', 'müde', 'bin.'];
+    tokens.forEach(token => fireEvent.click(screen.getAllByText(token, { selector: 'button' }).at(-1)!));
+    expect(within(screen.getByTestId('answer-line')).getAllByRole('button').map(b => b.textContent)).toEqual(tokens);
+    fireEvent.click(screen.getAllByText('Check')[0]);
+
+    fireEvent.click(screen.getByText('der'));
+
+    const forms = ['fahre', 'fahrst', 'faehrt', 'fahren', 'fahrt', 'fahren'];
+    ['ich', 'du', 'er/sie/es', 'wir', 'ihr', 'sie/Sie'].forEach((person, i) =>
+      fireEvent.change(screen.getByLabelText(person), { target: { value: forms[i] } }));
+    fireEvent.click(screen.getAllByText('Check')[0]);
+    expect(screen.getByText('fährst')).toBeTruthy(); // Correction of the one wrong form
+
+    expect(screen.queryByText('Continue')).toBeNull();
+    fireEvent.change(screen.getByLabelText('Ending'), { target: { value: 'en' } });
+    fireEvent.click(screen.getByText('Check'));
+
+    fireEvent.click(screen.getByText('Continue'));
+    fireEvent.click(screen.getByText('Back to Dashboard'));
+    const result: LessonResult = onComplete.mock.calls[0][0];
+    expect(result.score).toBe(5 + 5 + 0 + 4 + 5);
+    expect(result.mistakes).toEqual([
+      { topic: 'Artikel (der/die/das)', skill: 'grammar' },
+      { topic: 'Konjugation', skill: 'grammar' }
+    ]);
+  });
+
+  it('saves the session after every step', async () => {
+    await cacheLesson(FULL_LESSON);
+    renderSession();
+
+    fireEvent.click(await screen.findByText('Next Word'));
+    await vi.waitFor(async () => expect((await loadActiveSession())?.currentCardIndex).toBe(1));
+    fireEvent.click(screen.getByText('Next Word'));
+    await vi.waitFor(async () => expect((await loadActiveSession())?.stage).toBe('reading'));
+  });
+
+  it('continues a saved session at its stage', async () => {
+    await cacheLesson(FULL_LESSON);
+    const first = renderSession();
+    fireEvent.click(await screen.findByText('Next Word'));
+    fireEvent.click(screen.getByText('Next Word'));
+    const snapshot = await vi.waitFor(async () => {
+      const saved = await loadActiveSession();
+      expect(saved?.stage).toBe('reading');
+      return saved!;
+    });
+    first.unmount();
+
+    render(
+      <LessonSession {...REQUEST} resume={snapshot} profile={PROFILE} dueCards={[]} deck={[]} onReviewCard={() => {}} onVocabularySeen={() => {}} onComplete={() => {}} onBack={() => {}} />
+    );
+    expect(screen.getByText(/Lesen \(Reading\)/)).toBeTruthy();
+  });
+
+  it('keeps the used listening plays in a saved session', async () => {
+    await cacheLesson(VOCAB_AND_LISTENING_LESSON);
+    const first = renderSession();
+    fireEvent.click(await screen.findByText('Next Word'));
+    fireEvent.click(screen.getByText('Play'));
+    const snapshot = await vi.waitFor(async () => {
+      const saved = await loadActiveSession();
+      expect(saved?.listeningPlays).toBe(1);
+      return saved!;
+    });
+    first.unmount();
+
+    render(
+      <LessonSession {...REQUEST} resume={snapshot} profile={PROFILE} dueCards={[]} deck={[]} onReviewCard={() => {}} onVocabularySeen={() => {}} onComplete={() => {}} onBack={() => {}} />
+    );
+    expect(screen.getByText('1 of 2 plays left')).toBeTruthy();
+  });
+
+  it('explains a tapped word and adds it to the deck', async () => {
+    await cacheLesson(FULL_LESSON);
+    const onVocabularySeen = vi.fn();
+    renderSession(undefined, onVocabularySeen);
+    fireEvent.click(await screen.findByText('Next Word'));
+    fireEvent.click(screen.getByText('Next Word'));
+
+    fireEvent.click(screen.getByText('bestellt'));
+    const popover = within(screen.getByRole('dialog'));
+    expect(await popover.findByText('Verb')).toBeTruthy();
+    expect(popover.getByText('order karna')).toBeTruthy();
+    onVocabularySeen.mockClear();
+    fireEvent.click(popover.getByText('Add to deck'));
+    expect(onVocabularySeen).toHaveBeenCalledWith([expect.objectContaining({ german: 'bestellen', exampleSentence: 'Lena bestellt einen Tee.' })]);
+    expect(screen.getAllByText('bestellt')[0].className).toContain('underline'); // Marked as unknown
+  });
+
+  it('shows Hindi in Devanagari with Latin on tap', async () => {
+    await cacheLesson(FULL_LESSON);
+    renderSession(undefined, undefined, { ...PROFILE, readNativeScript: true });
+    fireEvent.click(await screen.findByText('ऑर्डर करना'));
+    expect(screen.getByText('order karna')).toBeTruthy();
+  });
+
+  it('shows the app texts in the native language', async () => {
+    await cacheLesson(FULL_LESSON);
+    renderSession(undefined, undefined, { ...PROFILE, uiLanguage: 'Hindi' });
+    expect(await screen.findByText('नए शब्द (1/2)')).toBeTruthy();
+    expect(screen.getByText('अगला शब्द')).toBeTruthy();
+    expect(screen.getByText('bestellen')).toBeTruthy(); // Lesson content stays German
+  });
+
+  it('shows the grammar drills in the native language', async () => {
+    await cacheLesson(GRAMMAR_LESSON);
+    renderSession(undefined, undefined, { ...PROFILE, uiLanguage: 'Hindi' });
+    fireEvent.click(await screen.findByText('अगला शब्द'));
+    expect(screen.getByText('Grammatik (व्याकरण)')).toBeTruthy();
+    expect(screen.getByText('खाली जगह भरें')).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('खाली जगह'), { target: { value: 'haben' } });
+    fireEvent.click(screen.getAllByText('जाँचें')[0]);
+    expect(screen.getByText('सही उत्तर:')).toBeTruthy();
+  });
+
+  it('shows the listening stage in the native language', async () => {
+    await cacheLesson(VOCAB_AND_LISTENING_LESSON);
+    renderSession(undefined, undefined, { ...PROFILE, uiLanguage: 'Hindi' });
+    fireEvent.click(await screen.findByText('अगला शब्द'));
+    expect(screen.getByText('Hören (सुनना)')).toBeTruthy();
+    expect(screen.getByText('2 में से 2 बार सुनना बाकी')).toBeTruthy();
+    fireEvent.click(screen.getByText('Mit Milch'));
+    expect(screen.getByText('जारी रखें')).toBeTruthy();
+  });
+
+  it('falls back to the bundled lesson offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    renderSession();
+    expect(await screen.findByText(/No connection/)).toBeTruthy();
+  });
+
+});
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import MockExam from '../components/MockExam';
+import { ExamAttempt, Mistake } from '../types';
+import { setLlmConfig } from '../services/llmProviders';
+import { FakeAudioService, setAudioService } from '../services/audioService';
+import { messagesFor } from '../services/messages';
+
+beforeEach(() => {
+  setLlmConfig({ provider: 'mock', model: 'fixtures' });
+  setAudioService(new FakeAudioService());
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+// Starts the exam with the Hören module only
+const startListening = async (onModuleComplete = vi.fn()) => {
+  render(<MockExam language="Hindi" onModuleComplete={onModuleComplete} onBack={() => {}} m={messagesFor('English')} />);
+  ['Lesen', 'Schreiben', 'Sprechen'].forEach(title => fireEvent.click(screen.getByText(title)));
+  fireEvent.click(screen.getByText('Start Exam'));
+  await screen.findByText('Hören Teil 1');
+  return onModuleComplete;
+};
+
+describe('MockExam', () => {
+  it('is shown in the language of the app', async () => {
+    render(<MockExam language="Turkish" onModuleComplete={() => {}} onBack={() => {}} m={messagesFor('Turkish')} />);
+    ['Lesen', 'Schreiben', 'Sprechen'].forEach(title => fireEvent.click(screen.getByText(title)));
+    fireEvent.click(screen.getByText('Sınava Başla'));
+    await screen.findByText('Hören Teil 1');
+    expect(screen.getByText('Deneme Sınavı · Hören')).toBeTruthy();
+    expect(screen.getByText('2 dinleme hakkından 2 kaldı')).toBeTruthy();
+    expect(screen.getByText('Sonraki Bölüm')).toBeTruthy();
+  });
+
+  it('keeps the plays of a part when coming back to it', async () => {
+    await startListening();
+    fireEvent.click(screen.getByText('Play'));
+    expect(await screen.findByText('1 of 2 plays left')).toBeTruthy();
+    fireEvent.click(screen.getByText('Next Part'));
+    expect(screen.getByText('1 of 1 plays left')).toBeTruthy();
+    fireEvent.click(screen.getByText('Back'));
+    expect(screen.getByText('1 of 2 plays left')).toBeTruthy();
+  });
+
+  it('hands every scored module over right away', async () => {
+    const onModuleComplete = await startListening();
+    for (let i = 0; i < 3; i++) fireEvent.click(screen.getByText('Next Part'));
+    fireEvent.click(screen.getByText('Hand In'));
+    expect(await screen.findByText('See Results')).toBeTruthy();
+
+    const [attempt, mistakes, examResults] = onModuleComplete.mock.calls[0] as [ExamAttempt, Mistake[], ExamAttempt[]];
+    expect(attempt.module).toBe('hoeren');
+    expect(mistakes.length).toBeGreaterThan(0); // Nothing was answered
+    expect(examResults).toEqual([attempt]);
+  });
+});
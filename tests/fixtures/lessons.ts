@@ -0,0 +1,63 @@
+import { LessonContent, WritingEvaluation } from '../../types';
+
+// Mapped lessons as LessonSession gets them from the cache
+
+export const FULL_LESSON: LessonContent = {
+  topic: 'Im Café',
+  level: 'A1',
+  vocabulary: [
+    { german: 'bestellen', englishExplanation: 'to order', nativeTranslation: 'order karna', nativeScript: 'ऑर्डर करना', exampleSentence: 'Ich möchte einen Kaffee bestellen.' },
+    { german: 'die Rechnung', englishExplanation: 'the bill', nativeTranslation: 'bill', exampleSentence: 'Die Rechnung, bitte!' }
+  ],
+  readingText: 'Lena und Tom sind im Café. Lena bestellt einen Tee. Tom möchte bezahlen.',
+  readingTextTranslation: 'Lena and Tom are in the café. Lena orders a tea. Tom wants to pay.',
+  readingQuestions: [
+    { question: 'Was bestellt Lena?', options: ['Einen Kaffee', 'Einen Tee', 'Ein Wasser', 'Nichts'], correctAnswer: 1, explanation: 'Lena orders tea.' }
+  ],
+  listeningScenario: 'A guest orders at a café counter.',
+  listeningDialogue: [
+    { speaker: 'Kellner', text: 'Was möchten Sie trinken?' },
+    { speaker: 'Gast', text: 'Einen Kaffee mit Milch, bitte.' }
+  ],
+  listeningQuestions: [
+    { question: 'Wie trinkt der Gast den Kaffee?', options: ['Schwarz', 'Mit Milch', 'Mit Zucker', 'Kalt'], correctAnswer: 1, explanation: '"mit Milch"' }
+  ],
+  writingPrompt: 'Schreiben Sie Ihrer Freundin eine kurze Nachricht.',
+  writingPoints: ['Wann?', 'Wo?']
+};
+
+// Only vocabulary and listening, like a lesson whose other sections were dropped
+export const VOCAB_AND_LISTENING_LESSON: LessonContent = {
+  topic: 'Am Bahnhof',
+  level: 'A1',
+  vocabulary: [
+    { german: 'der Zug', englishExplanation: 'the train', nativeTranslation: 'train', exampleSentence: 'Der Zug kommt um acht.' }
+  ],
+  listeningDialogue: FULL_LESSON.listeningDialogue,
+  listeningQuestions: FULL_LESSON.listeningQuestions
+};
+
+export const writingEvaluation = (points: number): WritingEvaluation => ({
+  errors: [{ original: 'Ich gehen', correction: 'Ich gehe', explanation: 'ich → gehe', category: 'verb_conjugation' }],
+  improvedVersion: 'Ich gehe ins Café.',
+  improvedVersionTranslation: 'Main café jaata hoon.',
+  scores: { taskFulfilment: points, coherence: points, vocabulary: points, structures: points },
+  estimatedLevel: 'A2',
+  summary: 'Good.'
+});
+
+// Vocabulary and one drill of every kind
+export const GRAMMAR_LESSON: LessonContent = {
+  topic: 'Nebensätze',
+  level: 'B1',
+  vocabulary: [
+    { german: 'müde', englishExplanation: 'tired', nativeTranslation: 'thaka hua', exampleSentence: 'Ich bin heute müde.' }
+  ],
+  grammarDrills: [
+    { kind: 'cloze', sentence: 'Wir ___ gestern nach Köln gefahren.', answer: 'sind', hint: 'sein', explanation: 'fahren → Perfekt mit sein', topic: 'Perfekt mit sein' },
+    { kind: 'wordOrder', tokens: ['Ich', 'bleibe', 'zu Hause,', 'weil', 'ich', 'müde', 'bin.'], translation: 'I stay at home because I am tired.', explanation: 'weil sends the verb to the end.', topic: 'Nebensätze mit weil' },
+    { kind: 'article', noun: 'Zeitung', answer: 'die', explanation: 'Nouns on -ung are feminine.' },
+    { kind: 'conjugation', verb: 'fahren', tense: 'Präsens', forms: ['fahre', 'fährst', 'fährt', 'fahren', 'fahrt', 'fahren'], explanation: 'a → ä for du and er/sie/es' },
+    { kind: 'adjectiveEnding', sentence: 'Ich trinke einen heiß___ Tee.', answer: 'en', explanation: 'Akkusativ maskulin: -en', topic: 'Adjektivdeklination' }
+  ]
+};
@@ -0,0 +1,316 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { evaluateSpeaking, evaluateWriting, generateCheckpointTest, generateExamPart, generateLesson, mapRawToLesson } from '../services/geminiService';
+import { EXAM_MODULES } from '../services/examService';
+import { SpeakingTask } from '../types';
+import { findLesson } from '../services/curriculum';
+import { LlmRequest, MockLlmProvider, setLlmConfig, setLlmProvider } from '../services/llmProviders';
+
+const fixture = (name: string) => JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+describe('mapRawToLesson', () => {
+  it('maps the minified keys onto LessonContent', () => {
+    const raw = fixture('lesson-a1-daily');
+    const lesson = mapRawToLesson(raw, 'Hindi');
+    expect(lesson.topic).toBe(raw.t);
+    expect(lesson.vocabulary[0]).toEqual({
+      german: raw.voc[0].de,
+      englishExplanation: raw.voc[0].en,
+      nativeTranslation: raw.voc[0].nt,
+      exampleSentence: raw.voc[0].ex
+    });
+    expect(lesson.readingQuestions?.[0]).toEqual({
+      question: raw.q[0].qu,
+      options: raw.q[0].ops,
+      correctAnswer: raw.q[0].ans,
+      explanation: raw.q[0].exp,
+      topic: raw.q[0].tp
+    });
+    expect(lesson.listeningDialogue?.[0]).toEqual({ speaker: raw.dlg[0].sp, text: raw.dlg[0].tx });
+    expect(lesson.speakingTask?.points).toEqual(raw.spk.pts);
+  });
+
+  it('maps the grammar drills by kind', () => {
+    const raw = fixture('lesson-a1-daily');
+    const drills = mapRawToLesson({ ...raw, gd: [...raw.gd, { k: 'adj', tx: 'ein klein_____ Haus', ans: 'ES', exp: 'Neutrum' }] }, 'Hindi').grammarDrills;
+    expect(drills?.map(d => d.kind)).toEqual(['cloze', 'wordOrder', 'article', 'conjugation', 'adjectiveEnding']);
+    expect(drills?.[0]).toEqual({ kind: 'cloze', sentence: raw.gd[0].tx, answer: 'besucht', hint: 'besuchen', explanation: raw.gd[0].exp, topic: 'Präsens' });
+    expect(drills?.[3]).toMatchObject({ verb: 'fahren', tense: 'Präsens', forms: raw.gd[3].f });
+    expect(drills?.[4]).toMatchObject({ sentence: 'ein klein___ Haus', answer: 'es', topic: undefined });
+  });
+
+  it('keeps the A0 translation', () => {
+    const raw = fixture('lesson-a0-course');
+    expect(mapRawToLesson(raw, 'Hindi').readingTextTranslation).toBe(raw.txt_tr);
+  });
+
+  it('leaves out sections that are missing', () => {
+    const { t, l, voc } = fixture('lesson-a1-daily');
+    const lesson = mapRawToLesson({ t, l, voc }, 'Hindi');
+    expect(lesson.readingText).toBeUndefined();
+    expect(lesson.writingPrompt).toBeUndefined();
+    expect(lesson.speakingTask).toBeUndefined();
+    expect(lesson.listeningDialogue).toEqual([]);
+  });
+
+  it('falls back to defaults for topic and level', () => {
+    const lesson = mapRawToLesson({ ...fixture('lesson-a1-daily'), t: '', l: '' }, 'Hindi');
+    expect(lesson.topic).toBe('Lesson');
+    expect(lesson.level).toBe('A1');
+  });
+});
+
+describe('generateLesson retries', () => {
+  beforeEach(() => {
+    setLlmConfig({ provider: 'mock', model: 'fixtures' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // Fails the first 'failures' requests, then answers with the daily lesson fixture
+  const failingProvider = (failures: number) => {
+    const provider = new MockLlmProvider({
+      lesson: (request: LlmRequest) => {
+        if (provider.requests.length <= failures) throw new Error('503 Service Unavailable');
+        return fixture('lesson-a1-daily');
+      }
+    });
+    setLlmProvider('mock', provider);
+    return provider;
+  };
+
+  it('retries after errors with growing delays', async () => {
+    const provider = failingProvider(2);
+    const pending = generateLesson('A1', 'daily', 'Hindi');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(provider.requests).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(provider.requests).toHaveLength(3);
+
+    expect((await pending)?.topic).toBe('Wochenende');
+  });
+
+  it('gives up after three failed attempts', async () => {
+    const provider = failingProvider(3);
+    const pending = generateLesson('A1', 'daily', 'Hindi');
+    await vi.runAllTimersAsync();
+    expect(await pending).toBeNull();
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it('retries empty answers', async () => {
+    const provider = new MockLlmProvider();
+    let calls = 0;
+    vi.spyOn(provider, 'generateJson').mockImplementation(async () => ++calls === 1 ? null : JSON.stringify(fixture('lesson-a1-daily')));
+    setLlmProvider('mock', provider);
+    const lesson = await generateLesson('A1', 'daily', 'Hindi');
+    expect(calls).toBe(2);
+    expect(lesson?.vocabulary.length).toBeGreaterThan(0);
+  });
+
+  it('asks for the topic it was given', async () => {
+    const provider = failingProvider(0);
+    await generateLesson('A1', 'topic', 'Hindi', 'Dativ');
+    expect(provider.requests[0].prompt).toContain('Dativ');
+  });
+
+  it('asks for a writing task in topic sessions, with the translation for A0', async () => {
+    const provider = failingProvider(0);
+    await generateLesson('A1', 'topic', 'Hindi', 'Dativ');
+    await generateLesson('A0', 'topic', 'Hindi', 'Begrüßung');
+    expect(provider.requests[0].prompt).toContain('wr, pts:');
+    expect(provider.requests[0].prompt).not.toContain('txt_tr');
+    expect(provider.requests[1].prompt).toContain('txt_tr');
+  });
+
+  it('never puts an undefined topic into the prompt', async () => {
+    const provider = failingProvider(0);
+    await generateLesson('A1', 'daily', 'Hindi');
+    await generateLesson('A1', 'exam', 'Hindi');
+    await generateLesson('A0', 'topic', 'Hindi', undefined, findLesson('a0-01'));
+    for (const request of provider.requests) expect(request.prompt).not.toContain('undefined');
+  });
+});
+
+describe('evaluateSpeaking', () => {
+  const TASK: SpeakingTask = { part: 3, prompt: 'Sprechen Sie über Ihr Lieblingscafé.', points: ['Wo ist es?'] };
+
+  const answering = (answer: unknown) => {
+    setLlmProvider('mock', new MockLlmProvider({ speaking: answer }));
+    return evaluateSpeaking(TASK, 'Mein Café ist in der Altstadt', 'A2', 'Hindi');
+  };
+
+  beforeEach(() => {
+    setLlmConfig({ provider: 'mock', model: 'fixtures' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps only the known fields, as text', async () => {
+    const evaluation = await answering({ grammar: 'Gut.', taskFulfilment: 42, improvedAnswer: ['Hallo'], rating: 'Good A2', score: 70, extra: 'x' });
+    expect(evaluation).toEqual({
+      grammar: 'Gut.',
+      vocabularyRange: '',
+      taskFulfilment: '',
+      improvedAnswer: '',
+      improvedAnswerTranslation: '',
+      improvedAnswerNativeScript: undefined,
+      rating: 'Good A2',
+      score: 70
+    });
+  });
+
+  it('clamps the score to 0-100', async () => {
+    expect((await answering({ grammar: 'Gut.', score: 250 }))?.score).toBe(100);
+    expect((await answering({ grammar: 'Gut.', score: 'viel' }))?.score).toBe(0);
+  });
+
+  it('is null without any feedback', async () => {
+    expect(await answering({ score: 80 })).toBeNull();
+    expect(await answering(['Gut.'])).toBeNull();
+  });
+});
+
+describe('evaluateWriting', () => {
+  const TEXT = 'Ich gehe in Café.';
+
+  const answering = (answer: unknown) => {
+    setLlmProvider('mock', new MockLlmProvider({ writing: answer }));
+    return evaluateWriting('Schreiben Sie Anna.', TEXT, 'A2', 'Hindi');
+  };
+
+  beforeEach(() => {
+    setLlmConfig({ provider: 'mock', model: 'fixtures' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops errors that are broken or not in the text', async () => {
+    const evaluation = await answering({
+      err: [
+        { o: 'in Café', c: 'ins Café', cat: 'preposition', tp: 'in + Akkusativ' },
+        { o: 'gehst', c: 'gehe', cat: 'verb_conjugation' },
+        { o: 'Ich', c: 42 },
+        'in',
+        null
+      ],
+      sc: { task: 4 }
+    });
+    expect(evaluation?.errors).toEqual([
+      { original: 'in Café', correction: 'ins Café', category: 'preposition', topic: 'in + Akkusativ', explanation: '' }
+    ]);
+  });
+
+  it('falls back for unknown categories, levels and scores', async () => {
+    const evaluation = await answering({
+      err: [{ o: 'Ich', c: 'Ich', cat: 'style' }],
+      imp: ['Ich gehe ins Café.'],
+      sc: { task: 9, coh: -2, voc: '3', str: null },
+      lvl: 'C2'
+    });
+    expect(evaluation?.errors[0].category).toBe('other');
+    expect(evaluation?.improvedVersion).toBe('');
+    expect(evaluation?.scores).toEqual({ taskFulfilment: 5, coherence: 0, vocabulary: 3, structures: 0 });
+    expect(evaluation?.estimatedLevel).toBe('A2');
+  });
+
+  it('survives an answer that is not an object', async () => {
+    expect((await answering('Gut gemacht!'))?.errors).toEqual([]);
+  });
+});
+
+describe('generateExamPart', () => {
+  const SPEC = { ...EXAM_MODULES.lesen.parts[1], itemCount: 2 }; // Multiple choice, options from the model
+
+  const answering = (answer: unknown) => {
+    setLlmProvider('mock', new MockLlmProvider({ examPart: answer }));
+    return generateExamPart(SPEC, 'Hindi');
+  };
+
+  beforeEach(() => {
+    setLlmConfig({ provider: 'mock', model: 'fixtures' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops broken items, texts and dialogue lines', async () => {
+    const part = await answering({
+      txt: ['Ein Artikel.', 42],
+      dlg: [{ sp: 'Anna', tx: 'Hallo!' }, { sp: 'Ben' }],
+      it: [
+        { pr: 'Was?', ops: ['a', 'b', 'c'], ans: 3 },
+        { pr: 'Wer?', ops: ['a', 'b', 'c'], ans: 1 },
+        { pr: 'Wo?', ops: 'a, b, c', ans: 0 },
+        { pr: 'Wann?', ops: ['a', 'b', 'c'], ans: '2' },
+        { pr: 'Wie?', ops: ['a', 'b', 'c'], ans: 2 }
+      ]
+    });
+    expect(part?.texts).toEqual(['Ein Artikel.']);
+    expect(part?.dialogue).toEqual([{ speaker: 'Anna', text: 'Hallo!' }]);
+    expect(part?.items.map(it => it.prompt)).toEqual(['Wer?', 'Wie?']);
+  });
+
+  it('is null with too few valid items', async () => {
+    expect(await answering({ txt: ['Ein Artikel.'], it: [{ pr: 'Wer?', ops: ['a', 'b', 'c'], ans: 1 }, null] })).toBeNull();
+  });
+});
+
+describe('generateCheckpointTest', () => {
+  const LESSONS = ['a0-01', 'a0-02', 'a0-03', 'a0-04'].map(id => findLesson(id)!);
+  const question = (les: unknown, changes: object = {}) => ({ qu: 'Ich ___ Deutsch.', ops: ['lerne', 'lernst', 'lernt', 'lernen'], ans: 0, exp: 'ich → lerne', les, ...changes });
+
+  const answering = (answer: unknown) => {
+    setLlmProvider('mock', new MockLlmProvider({ checkpoint: answer }));
+    return generateCheckpointTest('A0', LESSONS, 'Hindi');
+  };
+
+  beforeEach(() => {
+    setLlmConfig({ provider: 'mock', model: 'fixtures' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops broken questions and unknown lessons', async () => {
+    const questions = await answering({
+      q: [
+        question('a0-01'),
+        question('a0-02', { ans: 4 }),
+        question('a0-02', { ops: ['lerne'] }),
+        question('a1-01'),
+        question('a0-03', { tp: 'Präsens' }),
+        question(3),
+        'Ich lerne Deutsch.',
+        question('a0-04', { exp: 7 })
+      ]
+    });
+    expect(questions?.map(q => q.lessonId)).toEqual(['a0-01', 'a0-03', 'a0-04']);
+    expect(questions?.[1].topic).toBe('Präsens');
+    expect(questions?.[2].explanation).toBe('');
+  });
+
+  it('is null when too few questions are left', async () => {
+    expect(await answering({ q: [question('a0-01'), question('a0-02', { qu: '' })] })).toBeNull();
+    expect(await answering({ q: 'none' })).toBeNull();
+  });
+});
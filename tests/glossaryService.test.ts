@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { glossaryCard, glossaryKey, loadUnknownWords, lookupWord } from '../services/glossaryService';
+import { MockLlmProvider, setLlmConfig, setLlmProvider } from '../services/llmProviders';
+import { MemoryStorageBackend, setStorageBackend } from '../services/storageBackends';
+
+const SENTENCE = 'Der Kuchen ist sehr lecker.';
+
+let provider: MockLlmProvider;
+
+beforeEach(() => {
+  setStorageBackend(new MemoryStorageBackend());
+  setLlmConfig({ provider: 'mock', model: 'fixtures' });
+  provider = new MockLlmProvider();
+  setLlmProvider('mock', provider);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('lookupWord', () => {
+  it('asks the model for a new word', async () => {
+    const entry = await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi');
+    expect(entry).toEqual({ word: 'kuchen', lemma: 'Kuchen', article: 'der', partOfSpeech: 'noun', english: 'cake', nativeTranslation: 'cake', nativeScript: 'केक' });
+    expect(provider.requests[0].prompt).toContain(SENTENCE);
+  });
+
+  it('answers known words from the cache', async () => {
+    await lookupWord('lecker', SENTENCE, 'A1', 'Hindi');
+    const entry = await lookupWord('Lecker.', SENTENCE, 'A1', 'Hindi');
+    expect(entry?.lemma).toBe('lecker');
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('looks words up again for another native language', async () => {
+    await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi');
+    const entry = await lookupWord('Kuchen', SENTENCE, 'A1', 'Tamil');
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].prompt).toContain('Tamil');
+    expect(entry?.nativeScript).toBeUndefined(); // Devanagari is not Tamil script
+  });
+
+  it('marks looked up words as unknown', async () => {
+    expect(await loadUnknownWords()).toEqual(new Set());
+    await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi');
+    expect(await loadUnknownWords()).toEqual(new Set(['kuchen']));
+  });
+
+  it('does not ask the model offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    expect(await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi')).toBeNull();
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('checks the fields of the model answer', async () => {
+    setLlmProvider('mock', new MockLlmProvider({ glossary: { lemma: 'Kuchen', article: 7, partOfSpeech: ['noun'], english: 'cake', nativeTranslation: null } }));
+    expect(await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi')).toEqual({
+      word: 'kuchen', lemma: 'Kuchen', article: undefined, partOfSpeech: 'other', english: 'cake', nativeTranslation: '', nativeScript: undefined
+    });
+  });
+
+  it('drops answers without a lemma or meaning', async () => {
+    setLlmProvider('mock', new MockLlmProvider({ glossary: { lemma: 42, english: 'cake', partOfSpeech: 'noun' } }));
+    expect(await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi')).toBeNull();
+    expect(await loadUnknownWords()).toEqual(new Set());
+  });
+
+  it('does not cache failed lookups', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setLlmProvider('mock', new MockLlmProvider({ glossary: () => { throw new Error('503'); } }));
+    expect(await lookupWord('Kuchen', SENTENCE, 'A1', 'Hindi')).toBeNull();
+    expect(await loadUnknownWords()).toEqual(new Set());
+  });
+});
+
+describe('glossaryKey / glossaryCard', () => {
+  it('ignores case and punctuation', () => {
+    expect(glossaryKey('„Straße,"')).toBe('straße');
+  });
+
+  it('puts the article in front of nouns', () => {
+    const card = glossaryCard({ word: 'kuchen', lemma: 'Kuchen', article: 'der', partOfSpeech: 'noun', english: 'cake', nativeTranslation: 'cake' }, SENTENCE);
+    expect(card).toEqual({ german: 'der Kuchen', englishExplanation: 'cake', nativeTranslation: 'cake', exampleSentence: SENTENCE });
+  });
+});
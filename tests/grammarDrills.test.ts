@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { AdjectiveEndingDrill, ArticleDrill, ClozeDrill, ConjugationDrill, WordOrderDrill } from '../types';
+import { checkTypedAnswer, drillScore, scrambledOrder } from '../services/grammarDrills';
+import { mistakesFromDrills } from '../services/weakPointService';
+import { GRAMMAR_LESSON } from './fixtures/lessons';
+
+const [cloze, wordOrder, article, conjugation, adjective] = GRAMMAR_LESSON.grammarDrills as [ClozeDrill, WordOrderDrill, ArticleDrill, ConjugationDrill, AdjectiveEndingDrill];
+
+describe('checkTypedAnswer', () => {
+  it('ignores case, spacing and final punctuation', () => {
+    expect(checkTypedAnswer('  Sind. ', 'sind')).toBe('correct');
+  });
+
+  it('accepts ae, oe, ue and ss for umlauts and ß', () => {
+    expect(checkTypedAnswer('faehrst', 'fährst')).toBe('correct');
+    expect(checkTypedAnswer('Strasse', 'Straße')).toBe('correct');
+  });
+
+  it('recognises missing umlaut dots', () => {
+    expect(checkTypedAnswer('Mutter', 'Mütter')).toBe('umlaut');
+    expect(checkTypedAnswer('Vater', 'Mütter')).toBe('wrong');
+  });
+
+  it('does not take a missing e after a, o or u for an umlaut', () => {
+    expect(checkTypedAnswer('neu', 'neue')).toBe('wrong');
+    expect(checkTypedAnswer('grau', 'graue')).toBe('wrong');
+    expect(checkTypedAnswer('bau', 'baue')).toBe('wrong');
+    expect(checkTypedAnswer('tu', 'tue')).toBe('wrong');
+    expect(checkTypedAnswer('tue', 'tu')).toBe('wrong');
+  });
+});
+
+describe('drillScore', () => {
+  it('accepts a cloze answer without umlaut dots', () => {
+    const drill = { ...cloze, answer: 'würde' };
+    expect(drillScore(drill, 'wurde')).toBe(1);
+    expect(drillScore(cloze, 'haben')).toBe(0);
+  });
+
+  it('checks the article and the adjective ending', () => {
+    expect(drillScore(article, 'Die')).toBe(1);
+    expect(drillScore(article, 'der')).toBe(0);
+    expect(drillScore(adjective, 'en')).toBe(1);
+    expect(drillScore(adjective, 'es')).toBe(0);
+  });
+
+  it('compares the word order token by token', () => {
+    expect(drillScore(wordOrder, [0, 1, 2, 3, 4, 5, 6])).toBe(1);
+    expect(drillScore(wordOrder, [0, 1, 2, 3, 4, 6, 5])).toBe(0);
+    // 'ich' swapped with 'Ich' is a different sentence
+    expect(drillScore(wordOrder, [4, 1, 2, 3, 0, 5, 6])).toBe(0);
+  });
+
+  it('scores conjugation tables per form, without umlaut tolerance', () => {
+    expect(drillScore(conjugation, ['fahre', 'faehrst', 'fährt', 'fahren', 'fahrt', 'fahren'])).toBe(1);
+    expect(drillScore(conjugation, ['fahre', 'fahrst', 'fahrt', 'fahren', 'fahrt', 'fahren'])).toBeCloseTo(4 / 6);
+  });
+
+  it('is 0 without an answer', () => {
+    expect(drillScore(cloze, undefined)).toBe(0);
+  });
+});
+
+describe('scrambledOrder', () => {
+  it('is a stable permutation that is not the solution', () => {
+    const order = scrambledOrder(wordOrder.tokens);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(order.map(i => wordOrder.tokens[i])).not.toEqual(wordOrder.tokens);
+    expect(scrambledOrder(wordOrder.tokens)).toEqual(order);
+  });
+
+  it('scrambles even two tokens', () => {
+    expect(scrambledOrder(['a', 'b'])).not.toEqual([0, 1]);
+  });
+});
+
+describe('mistakesFromDrills', () => {
+  it('reports wrong drills with their topic or the drill kind', () => {
+    const mistakes = mistakesFromDrills(GRAMMAR_LESSON.grammarDrills, {
+      0: 'sind',
+      2: 'das',
+      3: ['fahre', 'fahrst', 'fährt', 'fahren', 'fahrt', 'fahren'],
+      4: 'e'
+    });
+    expect(mistakes).toEqual([
+      { topic: 'Artikel (der/die/das)', skill: 'grammar' },
+      { topic: 'Konjugation', skill: 'grammar' },
+      { topic: 'Adjektivdeklination', skill: 'grammar' }
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { generateLesson } from '../services/geminiService';
+import { LlmRequest, MockLlmProvider, setLlmConfig, setLlmProvider } from '../services/llmProviders';
+
+const fixture = (name: string) => JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+// Answers the full lesson request with 'first', every repair request with 'repair'
+const useLessonAnswers = (first: unknown, repair: (request: LlmRequest) => unknown) => {
+  const provider = new MockLlmProvider({
+    lesson: (request: LlmRequest) => provider.requests.length === 1 ? first : repair(request)
+  });
+  setLlmProvider('mock', provider);
+  return provider;
+};
+
+describe('generateLesson repair', () => {
+  beforeEach(() => {
+    setLlmConfig({ provider: 'mock', model: 'fixtures' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns a valid lesson without repair requests', async () => {
+    const provider = useLessonAnswers(fixture('lesson-a1-daily'), () => null);
+    const lesson = await generateLesson('A1', 'daily', 'Hindi');
+    expect(provider.requests).toHaveLength(1);
+    expect(lesson?.topic).toBe('Wochenende');
+    expect(lesson?.quality).toBe(100);
+  });
+
+  it('asks again for the failing section only', async () => {
+    const good = fixture('lesson-a1-daily');
+    const provider = useLessonAnswers(
+      { ...good, txt: 'Am Wochenende (on the weekend) I visit my sister and we cook.' },
+      () => ({ txt: good.txt, q: good.q })
+    );
+    const lesson = await generateLesson('A1', 'daily', 'Hindi');
+
+    expect(provider.requests).toHaveLength(2);
+    const repair = provider.requests[1];
+    expect(Object.keys(repair.schema.properties!)).toEqual(['txt', 'txt_tr', 'q']);
+    expect(repair.prompt).toContain('txt: contains English or translations');
+    expect(lesson?.readingText).toBe(good.txt);
+    expect(lesson?.listeningDialogue).toHaveLength(6);
+  });
+
+  it('drops a section that cannot be repaired', async () => {
+    const good = fixture('lesson-a1-daily');
+    const provider = useLessonAnswers({ ...good, pts: undefined }, () => ({ wr: good.wr }));
+    const lesson = await generateLesson('A1', 'daily', 'Hindi');
+
+    expect(provider.requests).toHaveLength(3); // Full lesson + 2 repair rounds
+    expect(lesson?.writingPrompt).toBeUndefined();
+    expect(lesson?.readingText).toBe(good.txt);
+    expect(lesson?.quality).toBeLessThan(100);
+  });
+
+  it('gives up without usable vocabulary', async () => {
+    useLessonAnswers({ ...fixture('lesson-a1-daily'), voc: [] }, () => ({ voc: [{ de: 'Hallo' }] }));
+    expect(await generateLesson('A1', 'daily', 'Hindi')).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { englishShare, mergeSections, validateRawLesson, withoutSections, LESSON_SECTIONS } from '../services/lessonValidation';
+import { offlineLessonFor } from '../services/offlineLessons';
+import { LEVEL_ORDER } from '../services/checkpointService';
+import { LessonContent, QuizQuestion } from '../types';
+
+const fixture = (name: string) => JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+describe('validateRawLesson', () => {
+  it('accepts a complete daily lesson', () => {
+    const { failedSections, issues, quality, lesson } = validateRawLesson(fixture('lesson-a1-daily'), 'A1', LESSON_SECTIONS);
+    expect(failedSections).toEqual([]);
+    expect(issues).toEqual([]);
+    expect(quality).toBe(100);
+    expect(lesson.q).toHaveLength(2);
+    expect(lesson.dlg).toHaveLength(6);
+  });
+
+  it('accepts an A0 course lesson with translation', () => {
+    const { failedSections } = validateRawLesson(fixture('lesson-a0-course'), 'A0', LESSON_SECTIONS);
+    expect(failedSections).toEqual([]);
+  });
+
+  it('requires the translation for A0 texts', () => {
+    const raw = { ...fixture('lesson-a0-course'), txt_tr: undefined };
+    const { failedSections, issues } = validateRawLesson(raw, 'A0');
+    expect(failedSections).toEqual(['reading']);
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'txt_tr', severity: 'error' }));
+  });
+
+  it('drops broken questions and vocabulary with a report per field', () => {
+    const { lesson, issues, failedSections } = validateRawLesson(fixture('lesson-bad-questions'), 'A1');
+    expect(lesson.q?.map(q => q.qu)).toEqual(['Was braucht Lisa?']);
+    expect(lesson.voc.map(v => v.de)).toEqual(['kaufen']);
+    expect(failedSections).toEqual([]);
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: 'voc[1]', message: 'missing nt' }),
+      expect.objectContaining({ path: 'q[0]', message: 'needs 4 options' }),
+      expect.objectContaining({ path: 'q[1]', message: 'answer index out of range' }),
+      expect.objectContaining({ path: 'q[2]', message: 'missing explanation' })
+    ]));
+  });
+
+  it('lowers the quality with every problem', () => {
+    const good = validateRawLesson(fixture('lesson-a1-daily'), 'A1').quality;
+    const bad = validateRawLesson(fixture('lesson-bad-questions'), 'A1').quality;
+    expect(bad).toBeLessThan(good);
+    expect(bad).toBeGreaterThanOrEqual(0);
+  });
+
+  it('fails the reading section when the text contains English', () => {
+    const { failedSections, issues } = validateRawLesson(fixture('lesson-english-in-text'), 'A1');
+    expect(failedSections).toEqual(['reading']);
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'txt', message: 'contains English or translations' }));
+  });
+
+  it('fails a writing task without points and repairs the speaking part', () => {
+    const { failedSections, lesson, issues } = validateRawLesson(fixture('lesson-writing-without-points'), 'A2');
+    expect(failedSections).toEqual(['writing']);
+    expect(lesson.spk?.p).toBe(3);
+    expect(issues).toContainEqual(expect.objectContaining({ path: 'spk.p', severity: 'warning' }));
+  });
+
+  it('fails required sections that are missing', () => {
+    const { failedSections } = validateRawLesson(fixture('lesson-writing-without-points'), 'A2', LESSON_SECTIONS);
+    expect(failedSections).toEqual(['reading', 'listening', 'grammar', 'writing']);
+  });
+
+  it('drops grammar drills that cannot be checked', () => {
+    const raw = { ...fixture('lesson-a1-daily'), gd: [
+      { k: 'cloze', tx: 'Ich ___ gern ___.', ans: 'spiele', exp: 'Two gaps' },
+      { k: 'adj', tx: 'Ein ___ Haus.', ans: 'es', exp: 'Gap without stem' },
+      { k: 'article', n: 'der Tisch', ans: 'der', exp: 'Article in the noun' },
+      { k: 'conj', vb: 'gehen', f: ['gehe', 'gehst'], exp: 'Too few forms' },
+      { k: 'order', tok: ['Ich', 'komme', 'morgen.'], tr: 'I come tomorrow.', exp: 'V2', tp: 'Verbzweitstellung' }
+    ] };
+    const { lesson, issues, failedSections } = validateRawLesson(raw, 'A1', LESSON_SECTIONS);
+    expect(lesson.gd?.map(d => d.k)).toEqual(['order']);
+    expect(failedSections).toEqual([]);
+    expect(issues.map(i => `${i.path}: ${i.message}`)).toEqual([
+      'gd[0]: needs a sentence with one gap',
+      'gd[1]: gap must follow the adjective stem',
+      'gd[2]: noun includes its article',
+      'gd[3]: needs 6 forms'
+    ]);
+  });
+
+  it('keeps only the known fields with their types', () => {
+    const daily = fixture('lesson-a1-daily');
+    const raw = { ...daily, extra: true, voc: [{ ...daily.voc[0], nt_s: 42, note: 'x' }], gd: [{ k: 'order', tok: ['Ich', 'komme', 'morgen.'], tr: 'I come tomorrow.', h: 7, exp: 'V2' }] };
+    const { lesson } = validateRawLesson(raw, 'A1');
+    expect(lesson).not.toHaveProperty('extra');
+    expect(lesson.voc[0]).toEqual({ de: daily.voc[0].de, en: daily.voc[0].en, nt: daily.voc[0].nt, ex: daily.voc[0].ex });
+    expect(lesson.gd).toEqual([{ k: 'order', tok: ['Ich', 'komme', 'morgen.'], tr: 'I come tomorrow.', exp: 'V2' }]);
+  });
+
+  it('fails the grammar section without a usable drill', () => {
+    const raw = { ...fixture('lesson-a1-daily'), gd: [{ k: 'adj', tx: 'Ein klein___ Haus.', ans: 'x', exp: 'Not an ending' }] };
+    expect(validateRawLesson(raw, 'A1').failedSections).toEqual(['grammar']);
+  });
+
+  it('fails on answers that are not a lesson at all', () => {
+    expect(validateRawLesson(null, 'A1').failedSections).toEqual(['vocabulary']);
+    expect(validateRawLesson({ voc: 'Hallo' }, 'A1').failedSections).toEqual(['vocabulary']);
+  });
+
+  it('rejects texts that are too long or repetitive', () => {
+    const raw = fixture('lesson-a1-daily');
+    expect(validateRawLesson({ ...raw, txt: 'Hallo Welt. '.repeat(40) }, 'A0').issues.map(i => i.message)).toEqual(
+      expect.arrayContaining(['too long: 80 words (max 60)', '"hallo" repeated more than 8 times'])
+    );
+  });
+});
+
+describe('englishShare', () => {
+  it('is low for German and high for English', () => {
+    expect(englishShare('Ich wohne mit meiner Familie in Berlin.')).toBe(0);
+    expect(englishShare('I live with my family in Berlin and it is nice.')).toBeGreaterThan(0.3);
+  });
+});
+
+describe('mergeSections / withoutSections', () => {
+  it('replaces only the fields of the repaired section', () => {
+    const lesson = validateRawLesson(fixture('lesson-english-in-text'), 'A1').lesson;
+    const merged = mergeSections(lesson, { txt: 'Meine Familie ist groß.', q: [], voc: [] }, ['reading']);
+    expect(merged.txt).toBe('Meine Familie ist groß.');
+    expect(merged.voc).toEqual(lesson.voc);
+  });
+
+  it('removes all fields of dropped sections', () => {
+    const lesson = validateRawLesson(fixture('lesson-a1-daily'), 'A1').lesson;
+    const result = withoutSections(lesson, ['listening']);
+    expect(result.dlg).toBeUndefined();
+    expect(result.lq).toBeUndefined();
+    expect(result.lis).toBeUndefined();
+    expect(result.txt).toBe(lesson.txt);
+  });
+});
+
+describe('bundled offline lessons', () => {
+  const rawQuestion = (q: QuizQuestion) => ({ qu: q.question, ops: q.options, ans: q.correctAnswer, exp: q.explanation, tp: q.topic });
+
+  // The offline lessons skip generation, so they are held to the rules of generated ones
+  const toRaw = (lesson: LessonContent) => ({
+    t: lesson.topic,
+    l: lesson.level,
+    voc: lesson.vocabulary.map(v => ({ de: v.german, en: v.englishExplanation, nt: v.nativeTranslation, ex: v.exampleSentence })),
+    txt: lesson.readingText,
+    txt_tr: lesson.readingTextTranslation,
+    q: lesson.readingQuestions?.map(rawQuestion),
+    lis: lesson.listeningScenario,
+    dlg: lesson.listeningDialogue.map(d => ({ sp: d.speaker, tx: d.text })),
+    lq: lesson.listeningQuestions?.map(rawQuestion)
+  });
+
+  it.each(LEVEL_ORDER)('has a valid %s lesson', (level) => {
+    const { failedSections, issues } = validateRawLesson(toRaw(offlineLessonFor(level, 'Hindi')), level, ['vocabulary', 'reading', 'listening']);
+    expect(failedSections).toEqual([]);
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseTaskConfig } from '../services/llmProviders';
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseTaskConfig', () => {
+  it('reads task overrides', () => {
+    expect(parseTaskConfig('{"writing": {"provider": "openai", "model": "qwen2.5:14b"}, "glossary": {"model": "gemini-2.5-flash-lite"}}')).toEqual({
+      writing: { provider: 'openai', model: 'qwen2.5:14b' },
+      glossary: { model: 'gemini-2.5-flash-lite' }
+    });
+  });
+
+  it('is empty without overrides', () => {
+    expect(parseTaskConfig(undefined)).toEqual({});
+    expect(parseTaskConfig('')).toEqual({});
+  });
+
+  it.each(['{"writing":', 'null', '42', '["writing"]', '"openai"'])('ignores %s', (json) => {
+    expect(parseTaskConfig(json)).toEqual({});
+  });
+
+  it('leaves out unknown tasks, unknown providers and non-string models', () => {
+    expect(parseTaskConfig('{"poetry": {"provider": "mock"}, "writing": {"provider": "claude", "model": 7}, "speaking": null}')).toEqual({ writing: {} });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, ExamAttempt, INITIAL_STATE, LessonResult } from '../types';
+import { applyLessonResult } from '../services/progress';
+import { findLesson, migrateCourseProgress } from '../services/curriculum';
+import { writingEvaluation } from './fixtures/lessons';
+
+const NOW = new Date('2026-03-02T10:00:00Z');
+
+const result = (overrides: Partial<LessonResult> = {}): LessonResult => ({ score: 20, mistakes: [], examAttempts: [], stageSeconds: {}, ...overrides });
+
+const attempt: ExamAttempt = {
+  id: 'practice-1',
+  date: NOW.toISOString(),
+  type: 'practice',
+  module: 'lesen',
+  rawPoints: 2,
+  maxPoints: 2,
+  percentage: 100,
+  passed: true,
+  durationSeconds: 60,
+  parts: [],
+  questions: []
+};
+
+describe('applyLessonResult', () => {
+  it('completes an A0 course lesson', () => {
+    const lesson = findLesson('a0-01')!;
+    const state = applyLessonResult(INITIAL_STATE, { type: 'topic', level: lesson.level, lesson }, result(), NOW);
+    expect(state.courseProgress.A0.completedLessonIds).toEqual(['a0-01']);
+  });
+
+  it('completes A0 lessons of a state saved before A0 existed', () => {
+    const old: AppState = { ...INITIAL_STATE, courseProgress: migrateCourseProgress({ A1: { lessonsDone: 2 } }) };
+    const state = applyLessonResult(old, { type: 'topic', level: 'A0', lesson: findLesson('a0-02') }, result(), NOW);
+    expect(state.courseProgress.A0.completedLessonIds).toEqual(['a0-02']);
+    expect(state.courseProgress.A1.completedLessonIds).toHaveLength(2);
+  });
+
+  it('counts a lesson only once', () => {
+    const lesson = findLesson('a1-01')!;
+    const once = applyLessonResult(INITIAL_STATE, { type: 'topic', level: lesson.level, lesson }, result(), NOW);
+    const twice = applyLessonResult(once, { type: 'topic', level: lesson.level, lesson }, result(), NOW);
+    expect(twice.courseProgress.A1.completedLessonIds).toEqual(['a1-01']);
+  });
+
+  it('does not count the offline fallback lesson', () => {
+    const state = applyLessonResult(INITIAL_STATE, { type: 'topic', level: 'A1', lesson: findLesson('a1-01') }, result({ offline: true }), NOW);
+    expect(state.courseProgress).toBe(INITIAL_STATE.courseProgress);
+  });
+
+  it('counts a lesson with writing only above the pass mark of its level', () => {
+    const lesson = findLesson('a1-01')!;
+    const failed = applyLessonResult(INITIAL_STATE, { type: 'topic', level: lesson.level, lesson }, result({ writing: writingEvaluation(1) }), NOW);
+    expect(failed.courseProgress.A1.completedLessonIds).toEqual([]);
+    const passed = applyLessonResult(INITIAL_STATE, { type: 'topic', level: lesson.level, lesson }, result({ writing: writingEvaluation(2) }), NOW);
+    expect(passed.courseProgress.A1.completedLessonIds).toEqual(['a1-01']);
+  });
+
+  it('does not hold low-level lessons to the B1 pass mark', () => {
+    const lesson = findLesson('a0-01')!;
+    const weak = result({ writing: writingEvaluation(2) }); // 40%, below the 60% of the exam
+    const state = applyLessonResult(INITIAL_STATE, { type: 'topic', level: lesson.level, lesson }, weak, NOW);
+    expect(state.courseProgress.A0.completedLessonIds).toEqual(['a0-01']);
+    const b1 = findLesson('b1-01')!;
+    expect(applyLessonResult(INITIAL_STATE, { type: 'topic', level: b1.level, lesson: b1 }, weak, NOW).courseProgress.B1.completedLessonIds).toEqual([]);
+  });
+
+  it('records mistakes as weak points', () => {
+    const state = applyLessonResult(INITIAL_STATE, { type: 'daily', level: 'A1' }, result({ mistakes: [{ topic: 'Dativ', skill: 'grammar' }] }), NOW);
+    expect(state.examStats.weakPoints).toEqual([expect.objectContaining({ topic: 'Dativ', errorCount: 1 })]);
+    expect(state.examStats.lastSessionDate).toBe('');
+  });
+
+  it('updates the exam stats and history after exam training', () => {
+    const state = applyLessonResult(INITIAL_STATE, { type: 'exam', level: 'B1' }, result({ examAttempts: [attempt] }), NOW);
+    expect(state.examHistory).toEqual([attempt]);
+    expect(state.examStats.lastSessionDate).toBe(NOW.toISOString());
+    expect(state.examStats.lastScore).not.toBe(INITIAL_STATE.examStats.lastScore);
+  });
+
+  it('reports the score of exam training without attempts', () => {
+    const state = applyLessonResult(INITIAL_STATE, { type: 'exam', level: 'B1' }, result({ score: 15 }), NOW);
+    expect(state.examStats.lastScore).toBe('Score: 15');
+  });
+
+  it('logs the session with its active time', () => {
+    const lesson = findLesson('a1-01')!;
+    const state = applyLessonResult(INITIAL_STATE, { type: 'topic', level: 'A1', lesson }, result({ stageSeconds: { loading: 30, vocab: 100, reading: 140 } }), NOW);
+    expect(state.studyLog).toEqual([{
+      id: `session-${NOW.getTime()}`,
+      date: NOW.toISOString(),
+      type: 'topic',
+      level: 'A1',
+      lessonId: 'a1-01',
+      activeSeconds: 240, // Waiting for the lesson does not count
+      stageSeconds: { loading: 30, vocab: 100, reading: 140 },
+      score: 20
+    }]);
+  });
+
+  it('does not change the previous state', () => {
+    const before = structuredClone(INITIAL_STATE);
+    applyLessonResult(INITIAL_STATE, { type: 'exam', level: 'B1', lesson: findLesson('a0-01') }, result({ examAttempts: [attempt] }), NOW);
+    expect(INITIAL_STATE).toEqual(before);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { StudySession } from '../types';
+import { activityHeatmap, activitySessionFor, dayKey, streakStatus } from '../services/studyStats';
+
+// Wednesday, local time
+const NOW = new Date(2026, 2, 18, 18, 0);
+const GOAL = 20;
+
+const daysAgo = (days: number) => new Date(NOW.getFullYear(), NOW.getMonth(), NOW.getDate() - days, 12);
+
+const studied = (days: number, minutes: number): StudySession => ({
+  id: `session-${days}-${minutes}`,
+  date: daysAgo(days).toISOString(),
+  type: 'daily',
+  level: 'A1',
+  activeSeconds: minutes * 60,
+  stageSeconds: {},
+  score: 20
+});
+
+// One session reaching the goal on each of the given days ago
+const goalDays = (...days: number[]) => days.map(day => studied(day, GOAL));
+
+describe('dayKey', () => {
+  it('uses the local calendar day', () => {
+    expect(dayKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+  });
+});
+
+describe('streakStatus', () => {
+  it('counts days in a row with the goal reached', () => {
+    const status = streakStatus(goalDays(3, 2, 1, 0), GOAL, NOW);
+    expect(status).toMatchObject({ current: 4, longest: 4, freezes: 0, todayMinutes: GOAL });
+  });
+
+  it('adds up the sessions of a day', () => {
+    const status = streakStatus([studied(0, 12), studied(0, 8)], GOAL, NOW);
+    expect(status.current).toBe(1);
+    expect(status.todayMinutes).toBe(20);
+  });
+
+  it('counts reviews and tests towards the goal', () => {
+    const review = activitySessionFor('review', 'A1', 8 * 60, 15, NOW);
+    const checkpoint = activitySessionFor('checkpoint', 'A1', 12 * 60, 80, NOW);
+    expect(review).toMatchObject({ type: 'review', activeSeconds: 480, stageSeconds: {}, score: 15 });
+    expect(streakStatus([review, checkpoint], GOAL, NOW).todayMinutes).toBe(20);
+  });
+
+  it('does not break the streak before today is over', () => {
+    const status = streakStatus([...goalDays(2, 1), studied(0, 5)], GOAL, NOW);
+    expect(status.current).toBe(2);
+    expect(status.todayMinutes).toBe(5);
+  });
+
+  it('ends the streak on a missed day without a freeze', () => {
+    const status = streakStatus(goalDays(5, 4, 3, 1), GOAL, NOW);
+    expect(status.current).toBe(1);
+    expect(status.longest).toBe(3);
+  });
+
+  it('bridges a missed day with a freeze earned by a week in a row', () => {
+    const status = streakStatus(goalDays(10, 9, 8, 7, 6, 5, 4, 2, 1), GOAL, NOW);
+    expect(status.frozenDays).toEqual([dayKey(daysAgo(3))]);
+    expect(status.current).toBe(9);
+    expect(status.freezes).toBe(0);
+  });
+
+  it('ends the streak once the freezes are used up', () => {
+    const status = streakStatus(goalDays(10, 9, 8, 7, 6, 5, 4, 1), GOAL, NOW);
+    expect(status.frozenDays).toEqual([dayKey(daysAgo(3))]);
+    expect(status.current).toBe(1);
+    expect(status.longest).toBe(7);
+  });
+
+  it('is empty without a log', () => {
+    expect(streakStatus([], GOAL, NOW)).toEqual({ current: 0, longest: 0, freezes: 0, frozenDays: [], todayMinutes: 0 });
+  });
+});
+
+describe('activityHeatmap', () => {
+  it('has one Monday-first column per week, up to today', () => {
+    const weeks = activityHeatmap([], GOAL, NOW, 4);
+    expect(weeks).toHaveLength(4);
+    expect(weeks[0]).toHaveLength(7);
+    expect(weeks[0][0].key).toBe('2026-02-23'); // Monday
+    expect(weeks[3].map(day => day.key)).toEqual(['2026-03-16', '2026-03-17', '2026-03-18']);
+  });
+
+  it('shades days by their share of the goal', () => {
+    const weeks = activityHeatmap([studied(0, 50), studied(1, 20), studied(2, 15), studied(3, 5)], GOAL, NOW, 1);
+    expect(weeks[0].map(day => day.intensity)).toEqual([2, 3, 4]);
+    expect(activityHeatmap([studied(3, 5)], GOAL, NOW, 2)[0][6].intensity).toBe(1);
+  });
+});
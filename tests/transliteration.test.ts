@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isDevanagari, toDevanagari } from '../services/transliteration';
+
+describe('toDevanagari', () => {
+  it.each([
+    ['ghar', 'घर'],
+    ['mera', 'मेरा'],
+    ['kya', 'क्या'],
+    ['pyaar', 'प्यार'],
+    ['dhanyavaad', 'धन्यवाद'],
+    ['zaroorat', 'ज़रूरत'],
+    ['achchha', 'अच्छा'],
+    ['bhi', 'भी'],
+    ['dost', 'दोस्त'],
+    ['namaste', 'नमस्ते'],
+    ['samay', 'समय'],
+    ['mausam', 'मौसम'],
+    ['khaana', 'खाना'],
+    ['patta', 'पत्ता'],
+    ['chhat', 'छत']
+  ])('writes %s as %s', (latin, devanagari) => {
+    expect(toDevanagari(latin)).toBe(devanagari);
+  });
+
+  it('keeps the inherent vowel before verb endings', () => {
+    expect(toDevanagari('karna')).toBe('करना');
+    expect(toDevanagari('dekhna')).toBe('देखना');
+    expect(toDevanagari('milta')).toBe('मिलता');
+    expect(toDevanagari('rasta')).toBe('रस्ता');
+  });
+
+  it('nasalizes a final n after long vowels', () => {
+    expect(toDevanagari('main')).toBe('मैं');
+    expect(toDevanagari('hain')).toBe('हैं');
+    expect(toDevanagari('mein')).toBe('में');
+    expect(toDevanagari('hoon')).toBe('हूँ');
+  });
+
+  it('transliterates whole sentences, ignoring case', () => {
+    expect(toDevanagari('Main ghar ja rahi hoon.')).toBe('मैं घर जा रही हूँ।');
+    expect(toDevanagari('Kya haal hai?')).toBe('क्या हाल है?');
+  });
+
+  it('leaves Devanagari, digits and other punctuation alone', () => {
+    expect(toDevanagari('नमस्ते, 5 din')).toBe('नमस्ते, 5 दिन');
+  });
+
+  it('is deterministic', () => {
+    const text = 'Pyari Anna, kya tumhare paas Shanivaar ko samay hai?';
+    expect(toDevanagari(text)).toBe(toDevanagari(text));
+  });
+});
+
+describe('isDevanagari', () => {
+  it('detects Devanagari letters', () => {
+    expect(isDevanagari('मेरा घर')).toBe(true);
+    expect(isDevanagari('mera ghar')).toBe(false);
+  });
+});
@@ -1,47 +1,332 @@
 export type LanguageLevel = 'A0' | 'A1' | 'A2' | 'B1';
 
+// Languages the coach translates into, see services/languages.ts
+export type NativeLanguage = 'Hindi' | 'Tamil' | 'Urdu' | 'Bengali' | 'Turkish';
+
+// Language of the app's own texts, see services/messages.ts
+export type UiLanguage = 'English' | NativeLanguage;
+
 export interface UserProfile {
   name: string;
   targetLevel: 'B1';
   currentLevel: LanguageLevel;
   dailyMinutes: number;
-  nativeLanguage: 'Hindi';
-  readDevanagari: boolean;
+  nativeLanguage: NativeLanguage;
+  readNativeScript: boolean; // Translations in the language's own script instead of Latin
+  uiLanguage: UiLanguage;
   onboardingComplete: boolean;
 }
 
-export interface CourseProgress {
-  A1: { lessonsDone: number; totalLessons: number };
-  A2: { lessonsDone: number; totalLessons: number };
-  B1: { lessonsDone: number; totalLessons: number };
+// One lesson of the course, see services/curriculum.ts
+export interface CurriculumLesson {
+  id: string; // e.g. "a1-03"
+  level: LanguageLevel;
+  title: string;
+  goal: string; // Communicative goal ("Can ...")
+  grammar: string; // Grammar focus, in German (e.g. "Perfekt mit haben")
+  vocabulary: string; // Vocabulary field
+  skills: ExamModule[]; // Goethe skills the lesson trains
+}
+
+// Completed curriculum lessons per level
+export type CourseProgress = Record<LanguageLevel, { completedLessonIds: string[] }>;
+
+export type SkillArea = 'grammar' | 'vocabulary' | 'reading' | 'listening' | 'writing' | 'speaking';
+
+// A single tagged mistake, collected during a session
+export interface Mistake {
+  topic: string; // e.g. "Dativ", "Perfekt", "Nebensätze mit weil", "Lesen: Detailfragen"
+  skill: SkillArea;
+}
+
+// Aggregated mistakes for one topic. 'weight' decays over time, so recent errors count more.
+export interface WeakPoint {
+  topic: string;
+  skill: SkillArea;
+  errorCount: number;
+  weight: number; // Value at 'lastSeen'
+  lastSeen: string; // ISO timestamp
+}
+
+// --- Goethe-Zertifikat B1 mock exam ---
+
+export type ExamModule = 'lesen' | 'hoeren' | 'schreiben' | 'sprechen';
+
+export type ExamPartFormat = 'true_false' | 'multiple_choice' | 'matching' | 'writing' | 'speaking';
+
+// Static description of one exam part (Teil / Aufgabe), see services/examService.ts
+export interface ExamPartSpec {
+  module: ExamModule;
+  part: number;
+  title: string; // e.g. "Lesen Teil 1"
+  instructions: string; // Shown to the learner (German, like in the exam)
+  format: ExamPartFormat;
+  itemCount: number;
+  maxPoints: number; // Module points available for this part
+  plays?: number; // Listening only: how often the audio may be played
+  generation: string; // What the model must generate for this part
+}
+
+export interface ExamItem {
+  prompt: string;
+  options: string[];
+  correctAnswer: number; // Index
+}
+
+export interface ExamPart {
+  spec: ExamPartSpec;
+  texts: string[]; // Reading texts, ads or forum posts
+  dialogue?: DialogueLine[]; // Listening
+  items: ExamItem[];
+  writingTask?: { prompt: string; points: string[]; minWords: number };
+  speakingTask?: SpeakingTask;
+}
+
+export interface ExamPartResult {
+  part: number;
+  points: number;
+  maxPoints: number;
+}
+
+export interface QuestionResult {
+  format: ExamPartFormat; // Question type
+  correct: boolean; // Writing/speaking: reached the pass mark
+  timeSeconds: number;
+}
+
+// One scored module of an exam practice or mock exam
+export interface ExamAttempt {
+  id: string;
+  date: string; // ISO timestamp
+  type: 'practice' | 'mock';
+  module: ExamModule;
+  rawPoints: number; // Points as scored (correct items or criteria points)
+  maxPoints: number;
+  percentage: number; // 0-100, module score on the Goethe scale
+  passed: boolean; // At least 60%
+  durationSeconds: number;
+  parts: ExamPartResult[]; // Mock exams only
+  questions: QuestionResult[];
 }
 
 export interface ExamStats {
   lastScore: string;
-  weakPoints: string[];
+  weakPoints: WeakPoint[];
   lastSessionDate: string;
 }
 
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewLogEntry {
+  date: string; // ISO timestamp
+  grade: ReviewGrade;
+  interval: number; // Days scheduled after this review
+}
+
+// A vocabulary card saved in the learner's personal deck, with SM-2 scheduling data
+export interface DeckCard extends VocabularyCard {
+  id: string;
+  addedAt: string;
+  due: string; // ISO timestamp of next review
+  interval: number; // Days
+  ease: number; // SM-2 ease factor
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;
+  history: ReviewLogEntry[];
+}
+
 export interface AppState {
   profile: UserProfile;
   courseProgress: CourseProgress;
   examStats: ExamStats;
+  vocabularyDeck: DeckCard[];
+  examHistory: ExamAttempt[]; // Oldest first
+  checkpointResults: CheckpointResult[]; // Oldest first
+  levelHistory: LevelChange[]; // Oldest first
+  studyLog: StudySession[]; // Oldest first
+}
+
+// A finished lesson, review or test, for the daily goal, streaks and the activity calendar
+export interface StudySession {
+  id: string;
+  date: string; // ISO timestamp of completion
+  type: 'daily' | 'exam' | 'topic' | 'review' | 'mockExam' | 'checkpoint';
+  level: LanguageLevel;
+  lessonId?: string; // Course lesson
+  activeSeconds: number; // Time spent while the tab was visible
+  stageSeconds: Partial<Record<LessonStage, number>>; // Lessons only
+  score: number; // Lesson XP, reviewed cards or the test percentage
 }
 
 export interface VocabularyCard {
   german: string;
   englishExplanation: string;
-  hindiTranslation: string; // Latin script
+  nativeTranslation: string; // Learner's native language, Latin script
+  nativeScript?: string; // Same translation in the language's own script, if the model gave one
   exampleSentence: string;
 }
 
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'pronoun' | 'preposition' | 'conjunction' | 'article' | 'numeral' | 'other';
+
+// Meaning of a word tapped in a reading text
+export interface GlossaryEntry {
+  word: string; // As it appears in the text, lower case
+  lemma: string; // Dictionary form, e.g. "gehen" for "ging"
+  article?: 'der' | 'die' | 'das'; // Nouns only
+  partOfSpeech: PartOfSpeech;
+  english: string;
+  nativeTranslation: string; // Latin script
+  nativeScript?: string;
+}
+
 export interface QuizQuestion {
   question: string;
   options: string[];
   correctAnswer: number; // Index
   explanation: string;
+  topic?: string; // Skill or grammar topic the question tests
 }
 
+// Grammar drills of a lesson, checked locally without the model
+export type GrammarDrillKind = 'cloze' | 'wordOrder' | 'article' | 'conjugation' | 'adjectiveEnding';
+
+interface GrammarDrillBase {
+  explanation: string; // English, shown after answering
+  topic?: string; // Grammar topic in German, e.g. "Nebensätze mit weil"
+}
+
+export interface ClozeDrill extends GrammarDrillBase {
+  kind: 'cloze';
+  sentence: string; // '___' marks the gap
+  answer: string;
+  hint?: string; // e.g. the infinitive of the missing verb
+}
+
+export interface WordOrderDrill extends GrammarDrillBase {
+  kind: 'wordOrder';
+  tokens: string[]; // In the correct order, shown scrambled
+  translation: string; // English
+}
+
+export interface ArticleDrill extends GrammarDrillBase {
+  kind: 'article';
+  noun: string; // Without article
+  answer: 'der' | 'die' | 'das';
+}
+
+export interface ConjugationDrill extends GrammarDrillBase {
+  kind: 'conjugation';
+  verb: string; // Infinitive
+  tense: string; // e.g. "Präsens", "Perfekt"
+  forms: string[]; // ich, du, er/sie/es, wir, ihr, sie/Sie
+}
+
+export interface AdjectiveEndingDrill extends GrammarDrillBase {
+  kind: 'adjectiveEnding';
+  sentence: string; // '___' directly after the adjective stem: "ein klein___ Haus"
+  answer: string; // The ending, e.g. "es"
+}
+
+export type GrammarDrill = ClozeDrill | WordOrderDrill | ArticleDrill | ConjugationDrill | AdjectiveEndingDrill;
+
+// Typed text (cloze, article, adjective ending), one form per person (conjugation) or token indices (word order)
+export type DrillAnswer = string | string[] | number[];
+
+// Question of a level checkpoint test, tied to the course lesson it checks
+export interface CheckpointQuestion extends QuizQuestion {
+  lessonId: string;
+}
+
+export interface CheckpointResult {
+  level: LanguageLevel;
+  date: string; // ISO timestamp
+  percentage: number;
+  passed: boolean;
+  remediationLessonIds: string[]; // Lessons to repeat after a failed test
+}
+
+export interface LevelChange {
+  date: string; // ISO timestamp
+  from: LanguageLevel | null; // null for the level set during onboarding
+  to: LanguageLevel;
+  reason: 'onboarding' | 'checkpoint';
+}
+
+export interface DialogueLine {
+  speaker: string;
+  text: string; // German only
+}
+
+// Goethe B1 Sprechen: 1 = plan something together, 2 = present a topic, 3 = react to questions
+export type SpeakingPart = 1 | 2 | 3;
+
+export interface SpeakingTask {
+  part: SpeakingPart;
+  prompt: string;
+  points: string[]; // Aspects the answer should cover
+}
+
+export interface SpeakingEvaluation {
+  grammar: string;
+  vocabularyRange: string;
+  taskFulfilment: string;
+  improvedAnswer: string; // German
+  improvedAnswerTranslation: string; // Native language (Latin script)
+  improvedAnswerNativeScript?: string; // Native language (own script)
+  rating: string; // e.g. "Good A2"
+  score: number; // 0-100, share of the Goethe points for this task
+}
+
+export type WritingErrorCategory =
+  | 'case'
+  | 'word_order'
+  | 'verb_conjugation'
+  | 'article'
+  | 'preposition'
+  | 'spelling'
+  | 'vocabulary'
+  | 'other';
+
+export interface WritingError {
+  original: string; // Exact text span from the student's answer
+  correction: string;
+  category: WritingErrorCategory;
+  topic?: string; // Specific grammar topic, e.g. "Dativ nach mit"
+  explanation: string; // Simple English
+}
+
+// Goethe B1 Schreiben criteria, each rated 0 (E) to 5 (A)
+export interface WritingScores {
+  taskFulfilment: number;
+  coherence: number;
+  vocabulary: number;
+  structures: number;
+}
+
+export const WRITING_CRITERION_MAX = 5;
+
+export interface WritingEvaluation {
+  errors: WritingError[];
+  improvedVersion: string; // German
+  improvedVersionTranslation: string; // Native language (Latin script)
+  improvedVersionNativeScript?: string; // Native language (own script)
+  scores: WritingScores;
+  estimatedLevel: LanguageLevel;
+  summary: string; // Short encouraging comment in English
+}
+
+// What a finished LessonSession reports back to the App
+export interface LessonResult {
+  score: number; // XP earned
+  writing?: WritingEvaluation;
+  mistakes: Mistake[];
+  examAttempts: ExamAttempt[]; // Only for exam practice
+  offline?: boolean; // Bundled fallback lesson instead of the requested one
+  stageSeconds: Partial<Record<LessonStage, number>>; // Active time per stage
+}
+
+export type LessonStage = 'loading' | 'review' | 'vocab' | 'reading' | 'listening' | 'grammar' | 'writing' | 'feedback' | 'speaking' | 'finished';
+
 export interface LessonContent {
   topic: string;
   level: string;
@@ -52,7 +337,11 @@ export interface LessonContent {
   writingPrompt?: string;
   writingPoints?: string[]; // For B1 bullets
   listeningScenario?: string; // Text description of a listening scenario
+  listeningDialogue?: DialogueLine[]; // Read aloud via speech synthesis
   listeningQuestions?: QuizQuestion[];
+  grammarDrills?: GrammarDrill[];
+  speakingTask?: SpeakingTask;
+  quality?: number; // 0-100, from validating the generated lesson
 }
 
 // Helper for initial state
@@ -63,17 +352,24 @@ export const INITIAL_STATE: AppState = {
     currentLevel: 'A0',
     dailyMinutes: 15,
     nativeLanguage: 'Hindi',
-    readDevanagari: false,
+    readNativeScript: false,
+    uiLanguage: 'English',
     onboardingComplete: false,
   },
   courseProgress: {
-    A1: { lessonsDone: 0, totalLessons: 20 },
-    A2: { lessonsDone: 0, totalLessons: 25 },
-    B1: { lessonsDone: 0, totalLessons: 30 },
+    A0: { completedLessonIds: [] },
+    A1: { completedLessonIds: [] },
+    A2: { completedLessonIds: [] },
+    B1: { completedLessonIds: [] },
   },
   examStats: {
     lastScore: 'N/A',
     weakPoints: [],
     lastSessionDate: '',
   },
+  vocabularyDeck: [],
+  examHistory: [],
+  checkpointResults: [],
+  levelHistory: [],
+  studyLog: [],
 };
\ No newline at end of file